@@ -11,8 +11,10 @@ import Register from "./pages/auth/Register";
 import JobSeekerDashboard from "./pages/dashboard/JobSeekerDashboard";
 import CompanyDashboard from "./pages/dashboard/CompanyDashboard";
 import HRDashboard from "./pages/dashboard/HRDashboard";
+import ApplicantPipeline from "./pages/dashboard/ApplicantPipeline";
 import Jobs from "./pages/Jobs";
 import JobDetails from "./pages/JobDetails";
+import ResumeBuilder from "./pages/ResumeBuilder";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -44,6 +46,14 @@ const App = () => (
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/dashboard/company/pipeline" 
+              element={
+                <ProtectedRoute requiredUserType="company">
+                  <ApplicantPipeline />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/dashboard/hr" 
               element={
@@ -52,6 +62,14 @@ const App = () => (
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/resume-builder" 
+              element={
+                <ProtectedRoute requiredUserType="job_seeker">
+                  <ResumeBuilder />
+                </ProtectedRoute>
+              } 
+            />
             <Route path="/jobs" element={<Jobs />} />
             <Route path="/jobs/:id" element={<JobDetails />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
@@ -0,0 +1,30 @@
+import { Badge } from '@/components/ui/badge';
+import { APPLICATION_STATUS_STYLES, applicationStatusLabel, isApplicationStatus, type ApplicationStatus } from '@/lib/applicationStatus';
+import { Ban, Briefcase, CalendarCheck, CheckCircle, Clock, Eye, Gift, XCircle, type LucideIcon } from 'lucide-react';
+
+interface ApplicationStatusBadgeProps {
+  status: string;
+  className?: string;
+}
+
+const STATUS_ICONS: Record<ApplicationStatus, LucideIcon> = {
+  applied: Clock,
+  screening: Eye,
+  interview: CalendarCheck,
+  offer: Gift,
+  hired: CheckCircle,
+  rejected: XCircle,
+  withdrawn: Ban,
+};
+
+export const ApplicationStatusBadge = ({ status, className = '' }: ApplicationStatusBadgeProps) => {
+  const Icon = isApplicationStatus(status) ? STATUS_ICONS[status] : Briefcase;
+  const style = isApplicationStatus(status) ? APPLICATION_STATUS_STYLES[status] : 'bg-gray-100 text-gray-800';
+
+  return (
+    <Badge className={`${style} ${className}`}>
+      <Icon className="h-3 w-3 mr-1" />
+      {applicationStatusLabel(status)}
+    </Badge>
+  );
+};
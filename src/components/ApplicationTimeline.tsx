@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  actorName,
+  addApplicationEvent,
+  describeApplicationEvent,
+  fetchApplicationEvents,
+  type ApplicationEvent,
+  type ApplicationEventType
+} from '@/lib/applicationEvents';
+import { toast } from 'sonner';
+import { ArrowRight, Eye, Loader2, Lock, MessageSquare, Send, type LucideIcon } from 'lucide-react';
+
+interface ApplicationTimelineProps {
+  applicationId: string;
+  viewer: 'applicant' | 'employer';
+}
+
+const EVENT_ICONS: Record<ApplicationEventType, LucideIcon> = {
+  submitted: Send,
+  status_changed: ArrowRight,
+  viewed: Eye,
+  note: Lock,
+  message: MessageSquare,
+};
+
+const formatTimestamp = (value: string) => new Date(value).toLocaleString();
+
+export const ApplicationTimeline = ({ applicationId, viewer }: ApplicationTimelineProps) => {
+  const [events, setEvents] = useState<ApplicationEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState<'note' | 'message' | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        setEvents(await fetchApplicationEvents(applicationId));
+      } catch (error) {
+        console.error('Error fetching application events:', error);
+        toast.error('Failed to load the application history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [applicationId]);
+
+  const handlePost = async (eventType: 'note' | 'message') => {
+    if (!draft.trim()) return;
+
+    setPosting(eventType);
+    try {
+      await addApplicationEvent(applicationId, eventType, draft.trim());
+      setDraft('');
+      setEvents(await fetchApplicationEvents(applicationId));
+    } catch (error) {
+      console.error('Error adding application event:', error);
+      toast.error(eventType === 'note' ? 'Failed to add note' : 'Failed to send message');
+    } finally {
+      setPosting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {loading ? (
+        <div className="flex items-center text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading history...
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity recorded yet.</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto pl-3 pt-1">
+          <ol className="relative border-l-2 border-gray-100 space-y-4">
+            {events.map(event => {
+              const Icon = EVENT_ICONS[event.event_type];
+              return (
+                <li key={event.id} className="ml-6">
+                  <span className="absolute -left-[11px] flex h-5 w-5 items-center justify-center rounded-full bg-white ring-2 ring-gray-200">
+                    <Icon className="h-3 w-3 text-gray-600" />
+                  </span>
+                  <div className="flex flex-wrap items-baseline justify-between gap-2">
+                    <p className="text-sm font-medium text-gray-900">{describeApplicationEvent(event)}</p>
+                    <span className="text-xs text-gray-500">{formatTimestamp(event.created_at)}</span>
+                  </div>
+                  <p className="text-xs text-gray-500">by {actorName(event)}</p>
+                  {event.body && (
+                    <p className={`mt-1 text-sm whitespace-pre-line rounded p-2 ${event.event_type === 'note' ? 'bg-amber-50 text-amber-900' : 'bg-gray-50 text-gray-700'}`}>
+                      {event.body}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={viewer === 'employer' ? 'Write a message to the candidate or an internal note...' : 'Write a message to the employer...'}
+          maxLength={4000}
+          rows={3}
+        />
+        <div className="flex justify-end gap-2">
+          {viewer === 'employer' && (
+            <Button variant="outline" size="sm" onClick={() => handlePost('note')} disabled={!draft.trim() || posting !== null}>
+              {posting === 'note' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Lock className="h-4 w-4 mr-1" />}
+              Add Internal Note
+            </Button>
+          )}
+          <Button size="sm" onClick={() => handlePost('message')} disabled={!draft.trim() || posting !== null}>
+            {posting === 'message' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <MessageSquare className="h-4 w-4 mr-1" />}
+            Send Message
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { fetchCalendarFeedUrl } from '@/lib/interviews';
+import { toast } from 'sonner';
+import { CalendarDays, Copy, Loader2, RefreshCw } from 'lucide-react';
+
+interface CalendarFeedDialogProps {
+  // Styles the trigger button to fit the surrounding header
+  className?: string;
+}
+
+// The user's private interview feed, for subscribing from Google Calendar, Outlook or Apple Calendar
+export const CalendarFeedDialog = ({ className }: CalendarFeedDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || url) return;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        setUrl(await fetchCalendarFeedUrl());
+      } catch (error) {
+        console.error('Error loading calendar feed:', error);
+        toast.error('Failed to load the calendar feed');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [open, url]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Copied to clipboard');
+    } catch (error) {
+      console.error('Error copying feed URL:', error);
+      toast.error('Failed to copy the link');
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setLoading(true);
+    try {
+      setUrl(await fetchCalendarFeedUrl(true));
+      toast.success('New link created; the old one no longer works');
+    } catch (error) {
+      console.error('Error regenerating calendar feed:', error);
+      toast.error('Failed to create a new link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className={className}>
+          <CalendarDays className="h-4 w-4 mr-2" />
+          Calendar Feed
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Interview Calendar Feed</DialogTitle>
+          <DialogDescription>
+            Subscribe to this link in your calendar app to see upcoming interviews. Anyone with the link can read them, so keep it private.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Input value={url} readOnly placeholder={loading ? 'Loading...' : ''} onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={handleCopy} disabled={!url || loading} title="Copy link">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button variant="ghost" size="sm" onClick={handleRegenerate} disabled={loading}>
+            {loading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+            Regenerate link
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,199 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Separator } from '@/components/ui/separator';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ApplicationStatusBadge } from '@/components/ApplicationStatusBadge';
+import { ApplicationTimeline } from '@/components/ApplicationTimeline';
+import { CandidateScorecards } from '@/components/CandidateScorecards';
+import { InterviewSchedule } from '@/components/InterviewSchedule';
+import { MatchScoreBadge } from '@/components/MatchScoreBadge';
+import { OfferManager } from '@/components/OfferManager';
+import { ResumeTimeline } from '@/components/ResumeTimeline';
+import type { MatchScore } from '@/hooks/useMatchScores';
+import type { PipelineApplication } from '@/lib/applicantPipeline';
+import { APPLICATION_STATUS_ACTIONS, employerNextStatuses, isFinalStatus, type ApplicationStatus } from '@/lib/applicationStatus';
+import { Mail, MapPin, Phone } from 'lucide-react';
+
+interface CandidateDetailSheetProps {
+  application: PipelineApplication | null;
+  jobTitle?: string;
+  match?: MatchScore;
+  onMove: (application: PipelineApplication, status: ApplicationStatus) => void;
+  // Called when the application changed here, e.g. an approved offer moved it to offer
+  onApplicationChange: () => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <section className="space-y-2">
+    <h3 className="text-sm font-semibold text-gray-900">{title}</h3>
+    {children}
+  </section>
+);
+
+export const CandidateDetailSheet = ({ application, jobTitle, match, onMove, onApplicationChange, onOpenChange }: CandidateDetailSheetProps) => {
+  const resume = application?.resumes;
+  const analyzed = resume?.analysis_status === 'complete';
+
+  return (
+    <Sheet open={application !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        {application && (
+          <div className="space-y-6">
+            <SheetHeader>
+              <SheetTitle>{application.profiles?.full_name || 'Candidate'}</SheetTitle>
+              <SheetDescription>
+                {jobTitle ? `${jobTitle} · ` : ''}applied {new Date(application.created_at).toLocaleDateString()}
+              </SheetDescription>
+              <div className="flex flex-wrap items-center gap-2 pt-1">
+                <ApplicationStatusBadge status={application.status} />
+                <MatchScoreBadge match={match} />
+              </div>
+            </SheetHeader>
+
+            <div className="space-y-1 text-sm text-gray-600">
+              {application.profiles?.email && (
+                <p className="flex items-center"><Mail className="h-4 w-4 mr-2" />{application.profiles.email}</p>
+              )}
+              {application.profiles?.phone && (
+                <p className="flex items-center"><Phone className="h-4 w-4 mr-2" />{application.profiles.phone}</p>
+              )}
+              {application.profiles?.location && (
+                <p className="flex items-center"><MapPin className="h-4 w-4 mr-2" />{application.profiles.location}</p>
+              )}
+            </div>
+
+            {employerNextStatuses(application.status).length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {employerNextStatuses(application.status).map(next => (
+                  <Button
+                    key={next}
+                    size="sm"
+                    variant={next === 'rejected' ? 'ghost' : 'outline'}
+                    className={next === 'rejected' ? 'text-destructive' : ''}
+                    onClick={() => onMove(application, next)}
+                  >
+                    {APPLICATION_STATUS_ACTIONS[next]}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            <Separator />
+
+            <Section title="Resume Analysis">
+              {!resume ? (
+                <p className="text-sm text-gray-500">No resume attached to this application.</p>
+              ) : !analyzed ? (
+                <p className="text-sm text-gray-500">{resume.file_name} has not been analyzed yet.</p>
+              ) : (
+                <div className="space-y-4">
+                  <p className="text-xs text-gray-500">{resume.file_name} · version {resume.version}</p>
+                  {resume.ats_score !== null && (
+                    <div>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span>ATS score</span>
+                        <span className="font-medium">{resume.ats_score}/100</span>
+                      </div>
+                      <Progress value={resume.ats_score} className="h-2" />
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <div>
+                      <p className="text-gray-500">Role</p>
+                      <p className="font-medium">{resume.job_role || 'Not detected'}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Experience</p>
+                      <p className="font-medium">
+                        {resume.experience_years !== null ? `${resume.experience_years} years` : 'Unknown'}
+                        {resume.experience_level ? ` · ${resume.experience_level}` : ''}
+                      </p>
+                    </div>
+                  </div>
+                  {resume.summary && (
+                    <p className="text-sm text-gray-700 whitespace-pre-line">{resume.summary}</p>
+                  )}
+                  {resume.skills && resume.skills.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {resume.skills.map(skill => (
+                        <Badge key={skill} variant="secondary">{skill}</Badge>
+                      ))}
+                    </div>
+                  )}
+                  {resume.strength_areas && resume.strength_areas.length > 0 && (
+                    <div>
+                      <p className="text-xs font-medium text-gray-500 mb-1">Strengths</p>
+                      <ul className="list-disc pl-5 text-sm text-gray-700 space-y-1">
+                        {resume.strength_areas.map(area => <li key={area}>{area}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                  {resume.missing_skills && resume.missing_skills.length > 0 && (
+                    <div>
+                      <p className="text-xs font-medium text-gray-500 mb-1">Missing skills</p>
+                      <div className="flex flex-wrap gap-1">
+                        {resume.missing_skills.map(skill => (
+                          <Badge key={skill} variant="outline" className="border-red-200 text-red-700 bg-red-50">{skill}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </Section>
+
+            <Section title="Cover Letter">
+              {application.cover_letter ? (
+                <p className="text-sm text-gray-700 whitespace-pre-line rounded bg-gray-50 p-3">{application.cover_letter}</p>
+              ) : (
+                <p className="text-sm text-gray-500">No cover letter was included.</p>
+              )}
+            </Section>
+
+            {application.resume_id && analyzed && (
+              <Section title="Career History">
+                <ResumeTimeline resumeId={application.resume_id} />
+              </Section>
+            )}
+
+            <Section title="Interviews">
+              <InterviewSchedule
+                key={`${application.id}:${application.status}`}
+                applicationId={application.id}
+                jobId={application.job_id}
+                viewer="employer"
+                canSchedule={application.status === 'interview'}
+              />
+            </Section>
+
+            <Section title="Scorecards">
+              <CandidateScorecards
+                key={application.id}
+                applicationId={application.id}
+                jobId={application.job_id}
+                closed={isFinalStatus(application.status)}
+              />
+            </Section>
+
+            {['interview', 'offer', 'hired'].includes(application.status) && (
+              <Section title="Offer">
+                <OfferManager
+                  key={`${application.id}:${application.status}`}
+                  applicationId={application.id}
+                  applicationStatus={application.status}
+                  onApplicationChange={onApplicationChange}
+                />
+              </Section>
+            )}
+
+            <Section title="Activity">
+              <ApplicationTimeline key={`${application.id}:${application.status}`} applicationId={application.id} viewer="employer" />
+            </Section>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
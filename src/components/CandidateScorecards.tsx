@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScorecardForm } from '@/components/ScorecardForm';
+import { ScorecardRollup } from '@/components/ScorecardRollup';
+import { useAuth } from '@/hooks/useAuth';
+import { fetchInterviews, formatInterviewTime, type Interview } from '@/lib/interviews';
+import {
+  RECOMMENDATION_STYLES,
+  fetchScorecardTemplate,
+  fetchScorecards,
+  recommendationLabel,
+  saveScorecard,
+  summarizeScorecards,
+  type Scorecard,
+  type ScorecardInput
+} from '@/lib/scorecards';
+import { toast } from 'sonner';
+import { ClipboardCheck, Loader2 } from 'lucide-react';
+
+interface CandidateScorecardsProps {
+  applicationId: string;
+  jobId: string;
+  // Scorecards are frozen once the application is hired, rejected or withdrawn
+  closed: boolean;
+}
+
+// Interviews that have started can be scored
+const isScorable = (interview: Interview) =>
+  interview.status === 'scheduled' && new Date(interview.starts_at) <= new Date();
+
+export const CandidateScorecards = ({ applicationId, jobId, closed }: CandidateScorecardsProps) => {
+  const { user } = useAuth();
+  const [competencies, setCompetencies] = useState<string[]>([]);
+  const [scorecards, setScorecards] = useState<Scorecard[]>([]);
+  const [interviews, setInterviews] = useState<Interview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [template, filed, scheduled] = await Promise.all([
+          fetchScorecardTemplate(jobId),
+          fetchScorecards(applicationId),
+          fetchInterviews(applicationId),
+        ]);
+        setCompetencies(template.competencies);
+        setScorecards(filed);
+        setInterviews(scheduled.filter(isScorable).reverse());
+      } catch (error) {
+        console.error('Error fetching scorecards:', error);
+        toast.error('Failed to load scorecards');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [applicationId, jobId]);
+
+  const handleSubmit = async (interview: Interview, input: ScorecardInput, existing?: Scorecard) => {
+    setSaving(true);
+    try {
+      await saveScorecard(interview.id, applicationId, input, existing?.id);
+      toast.success(existing ? 'Scorecard updated' : 'Scorecard submitted');
+      setEditingId(null);
+      setScorecards(await fetchScorecards(applicationId));
+    } catch (error) {
+      console.error('Error saving scorecard:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the scorecard');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading scorecards...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <ScorecardRollup summary={summarizeScorecards(scorecards, competencies)} />
+
+      {interviews.length === 0 && (
+        <p className="text-sm text-gray-500">Scorecards can be filed once an interview has started.</p>
+      )}
+
+      {interviews.map(interview => {
+        const filed = scorecards.filter(scorecard => scorecard.interview_id === interview.id);
+        const mine = filed.find(scorecard => scorecard.interviewer_id === user?.id);
+
+        return (
+          <div key={interview.id} className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">
+                Round {interview.round}
+                <span className="font-normal text-gray-500"> · {formatInterviewTime(interview.starts_at, interview.ends_at)}</span>
+              </p>
+              {!closed && editingId !== interview.id && (
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setEditingId(interview.id)}>
+                  <ClipboardCheck className="h-3 w-3 mr-1" />
+                  {mine ? 'Edit My Scorecard' : 'File Scorecard'}
+                </Button>
+              )}
+            </div>
+
+            {editingId === interview.id && (
+              <ScorecardForm
+                competencies={competencies}
+                scorecard={mine}
+                busy={saving}
+                onSubmit={(input) => handleSubmit(interview, input, mine)}
+                onCancel={() => setEditingId(null)}
+              />
+            )}
+
+            {filed.map(scorecard => (
+              <div key={scorecard.id} className="rounded-md bg-gray-50 p-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-gray-600">
+                    {scorecard.interviewer?.full_name || scorecard.interviewer?.email || 'Former interviewer'}
+                  </p>
+                  <Badge className={RECOMMENDATION_STYLES[scorecard.recommendation]}>
+                    {recommendationLabel(scorecard.recommendation)}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {Object.entries(scorecard.ratings).map(([name, rating]) => `${name} ${rating}`).join(' · ')}
+                </p>
+                {scorecard.notes && <p className="text-sm text-gray-700 whitespace-pre-line">{scorecard.notes}</p>}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
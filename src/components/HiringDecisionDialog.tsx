@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScorecardRollup } from '@/components/ScorecardRollup';
+import {
+  MAX_DECISION_REASON_LENGTH,
+  MIN_DECISION_REASON_LENGTH,
+  fetchScorecardTemplate,
+  fetchScorecards,
+  summarizeScorecards,
+  type HiringDecision,
+  type ScorecardSummary
+} from '@/lib/scorecards';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface HiringDecisionDialogProps {
+  // Open while a decision is pending
+  decision: HiringDecision | null;
+  candidates: { id: string; name: string }[];
+  jobId: string;
+  busy: boolean;
+  onConfirm: (reason: string) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+const candidateLabel = (candidates: { name: string }[]) =>
+  candidates.length === 1 ? candidates[0].name : `${candidates.length} candidates`;
+
+// The final step for hiring or rejecting: the scorecard rollup for a single candidate and a
+// required reason, which is kept on record with the decision
+export const HiringDecisionDialog = ({ decision, candidates, jobId, busy, onConfirm, onOpenChange }: HiringDecisionDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [summary, setSummary] = useState<ScorecardSummary | null>(null);
+  const [loadingSummary, setLoadingSummary] = useState(false);
+  const singleId = candidates.length === 1 ? candidates[0].id : null;
+
+  useEffect(() => {
+    setReason('');
+    setSummary(null);
+    if (!decision || !singleId) return;
+
+    const load = async () => {
+      setLoadingSummary(true);
+      try {
+        const [template, scorecards] = await Promise.all([fetchScorecardTemplate(jobId), fetchScorecards(singleId)]);
+        setSummary(summarizeScorecards(scorecards, template.competencies));
+      } catch (error) {
+        console.error('Error fetching scorecards:', error);
+        toast.error('Failed to load scorecards');
+      } finally {
+        setLoadingSummary(false);
+      }
+    };
+
+    load();
+  }, [decision, singleId, jobId]);
+
+  const hiring = decision === 'hired';
+  const tooShort = reason.trim().length < MIN_DECISION_REASON_LENGTH;
+
+  return (
+    <Dialog open={decision !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{hiring ? 'Hire' : 'Reject'} {candidateLabel(candidates)}</DialogTitle>
+          <DialogDescription>
+            This decision is final. The reason is kept with the application for your team; the candidate doesn't see it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {singleId && (
+            loadingSummary ? (
+              <div className="flex items-center text-sm text-gray-500">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading scorecards...
+              </div>
+            ) : summary && <ScorecardRollup summary={summary} />
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="decision-reason">Reason for {hiring ? 'hiring' : 'rejecting'}</Label>
+            <Textarea
+              id="decision-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={hiring
+                ? 'e.g. Strongest system design round; references confirmed leadership experience'
+                : 'e.g. Missing required production experience with PostgreSQL'}
+              maxLength={MAX_DECISION_REASON_LENGTH}
+              rows={4}
+            />
+            <p className="text-xs text-gray-500">At least {MIN_DECISION_REASON_LENGTH} characters.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+            Cancel
+          </Button>
+          <Button
+            variant={hiring ? 'default' : 'destructive'}
+            onClick={() => onConfirm(reason.trim())}
+            disabled={busy || tooShort}
+          >
+            {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {hiring ? 'Confirm Hire' : 'Confirm Rejection'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/hooks/useAuth';
+import { addHrTeamMember, fetchHrTeam, removeHrTeamMember, type HrTeamMember } from '@/lib/hrTeam';
+import { toast } from 'sonner';
+import { Loader2, Trash2, UserPlus } from 'lucide-react';
+
+// The HR users who may work this company's applications: notes, interviews, scorecards and
+// offers. Anyone can register as HR, so access is only granted by adding them here.
+export const HrTeamManager = () => {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<HrTeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [email, setEmail] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        setMembers(await fetchHrTeam(user.id));
+      } catch (error) {
+        console.error('Error fetching HR team:', error);
+        toast.error('Failed to load your HR team');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [user]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !email.trim()) return;
+
+    setAdding(true);
+    try {
+      await addHrTeamMember(email);
+      setMembers(await fetchHrTeam(user.id));
+      setEmail('');
+      toast.success('HR user added to your team');
+    } catch (error) {
+      console.error('Error adding HR user:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add the HR user');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemove = async (member: HrTeamMember) => {
+    const name = member.hr?.full_name || member.hr?.email || 'this HR user';
+    if (!user || !window.confirm(`Remove ${name} from your team?`)) return;
+
+    try {
+      await removeHrTeamMember(user.id, member.hr_id);
+      setMembers(prev => prev.filter(item => item.hr_id !== member.hr_id));
+      toast.success('HR user removed');
+    } catch (error) {
+      console.error('Error removing HR user:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove the HR user');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading HR team...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {members.length === 0 ? (
+        <p className="text-sm text-gray-500">No HR users have been added yet.</p>
+      ) : (
+        <div className="divide-y rounded-md border">
+          {members.map(member => (
+            <div key={member.hr_id} className="flex items-center justify-between gap-2 p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{member.hr?.full_name || member.hr?.email}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {member.hr?.email} · added {new Date(member.created_at).toLocaleDateString()}
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => handleRemove(member)} aria-label={`Remove ${member.hr?.email}`}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email of a registered HR user"
+        />
+        <Button type="submit" size="sm" className="h-10" disabled={adding || !email.trim()}>
+          {adding ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <UserPlus className="h-4 w-4 mr-1" />}
+          Add
+        </Button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { InterviewSlotPicker } from '@/components/InterviewSlotPicker';
+import {
+  bookInterviewSlot,
+  cancelInterview,
+  downloadInterviewInvite,
+  fetchInterviews,
+  formatInterviewTime,
+  isUpcoming,
+  rescheduleInterview,
+  sendInterviewInvites,
+  type Interview,
+  type InterviewSlot
+} from '@/lib/interviews';
+import { toast } from 'sonner';
+import { CalendarDays, CalendarPlus, Loader2, MapPin, Users, Video } from 'lucide-react';
+
+interface InterviewScheduleProps {
+  applicationId: string;
+  jobId: string;
+  viewer: 'applicant' | 'employer';
+  // Booking is open while the application is at the interview stage
+  canSchedule: boolean;
+}
+
+type PickerMode = { action: 'book' } | { action: 'reschedule'; interviewId: string };
+
+export const InterviewSchedule = ({ applicationId, jobId, viewer, canSchedule }: InterviewScheduleProps) => {
+  const [interviews, setInterviews] = useState<Interview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [picker, setPicker] = useState<PickerMode | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        setInterviews(await fetchInterviews(applicationId));
+      } catch (error) {
+        console.error('Error fetching interviews:', error);
+        toast.error('Failed to load interviews');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [applicationId]);
+
+  const refresh = async () => setInterviews(await fetchInterviews(applicationId));
+
+  const handlePick = async (slot: InterviewSlot) => {
+    if (!picker) return;
+
+    setBusy(true);
+    try {
+      if (picker.action === 'book') {
+        await bookInterviewSlot(slot.id, applicationId);
+        toast.success('Interview booked');
+      } else {
+        await rescheduleInterview(picker.interviewId, slot.id);
+        toast.success('Interview rescheduled');
+      }
+      setPicker(null);
+      sendInterviewInvites(applicationId);
+      await refresh();
+    } catch (error) {
+      console.error('Error scheduling interview:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to schedule the interview');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async (interviewId: string) => {
+    setBusy(true);
+    try {
+      await cancelInterview(interviewId, cancelReason.trim() || undefined);
+      toast.success('Interview cancelled');
+      setCancellingId(null);
+      setCancelReason('');
+      sendInterviewInvites(applicationId);
+      await refresh();
+    } catch (error) {
+      console.error('Error cancelling interview:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel the interview');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddToCalendar = async (interviewId: string) => {
+    try {
+      await downloadInterviewInvite(interviewId);
+    } catch (error) {
+      console.error('Error downloading calendar invite:', error);
+      toast.error('Failed to create the calendar file');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading interviews...
+      </div>
+    );
+  }
+
+  if (picker) {
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium">{picker.action === 'book' ? 'Pick an interview time' : 'Pick a new time'}</p>
+          <Button variant="ghost" size="sm" onClick={() => setPicker(null)} disabled={busy}>
+            Back
+          </Button>
+        </div>
+        <InterviewSlotPicker jobId={jobId} busy={busy} onPick={handlePick} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {interviews.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {viewer === 'applicant' ? 'No interviews booked yet.' : 'The candidate has not booked an interview yet.'}
+        </p>
+      ) : (
+        interviews.map(interview => (
+          <div key={interview.id} className={`rounded-md border p-3 space-y-1 ${interview.status === 'cancelled' ? 'opacity-60' : ''}`}>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">{formatInterviewTime(interview.starts_at, interview.ends_at)}</p>
+              <div className="flex gap-1">
+                <Badge variant="outline">Round {interview.round}</Badge>
+                {interview.status === 'cancelled' && <Badge variant="secondary">Cancelled</Badge>}
+              </div>
+            </div>
+            {interview.video_url && (
+              <a href={interview.video_url} target="_blank" rel="noopener noreferrer" className="flex items-center text-sm text-primary hover:underline">
+                <Video className="h-4 w-4 mr-1" />
+                Join video call
+              </a>
+            )}
+            {interview.location && (
+              <p className="flex items-center text-sm text-gray-600"><MapPin className="h-4 w-4 mr-1" />{interview.location}</p>
+            )}
+            {interview.interviewers.length > 0 && (
+              <p className="flex items-center text-xs text-gray-500"><Users className="h-3 w-3 mr-1" />{interview.interviewers.join(', ')}</p>
+            )}
+            {interview.cancel_reason && (
+              <p className="text-xs text-gray-500">Reason: {interview.cancel_reason}</p>
+            )}
+
+            {isUpcoming(interview) && (cancellingId === interview.id ? (
+              <div className="space-y-2 pt-1">
+                <Textarea
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  placeholder="Reason for cancelling (optional)"
+                  maxLength={1000}
+                  rows={2}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setCancellingId(null)} disabled={busy}>
+                    Keep
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => handleCancel(interview.id)} disabled={busy}>
+                    {busy && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                    Cancel Interview
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-1 pt-1">
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => handleAddToCalendar(interview.id)}>
+                  <CalendarDays className="h-3 w-3 mr-1" />
+                  Add to calendar
+                </Button>
+                {canSchedule && (
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setPicker({ action: 'reschedule', interviewId: interview.id })}>
+                    Reschedule
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" className="h-7 text-xs text-destructive" onClick={() => setCancellingId(interview.id)}>
+                  Cancel
+                </Button>
+              </div>
+            ))}
+          </div>
+        ))
+      )}
+
+      {viewer === 'applicant' && canSchedule && (
+        <Button size="sm" onClick={() => setPicker({ action: 'book' })}>
+          <CalendarPlus className="h-4 w-4 mr-1" />
+          Book Interview
+        </Button>
+      )}
+    </div>
+  );
+};
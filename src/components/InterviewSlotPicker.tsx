@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { isSameDay } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Badge } from '@/components/ui/badge';
+import { browserTimeZone, fetchOpenInterviewSlots, formatInterviewTime, type InterviewSlot } from '@/lib/interviews';
+import { toast } from 'sonner';
+import { Loader2, MapPin, Video } from 'lucide-react';
+
+interface InterviewSlotPickerProps {
+  jobId: string;
+  busy?: boolean;
+  onPick: (slot: InterviewSlot) => void;
+}
+
+export const InterviewSlotPicker = ({ jobId, busy = false, onPick }: InterviewSlotPickerProps) => {
+  const [slots, setSlots] = useState<InterviewSlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [day, setDay] = useState<Date | undefined>();
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const open = await fetchOpenInterviewSlots(jobId);
+        setSlots(open);
+        setDay(open.length > 0 ? new Date(open[0].starts_at) : undefined);
+      } catch (error) {
+        console.error('Error fetching interview slots:', error);
+        toast.error('Failed to load interview slots');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [jobId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading available times...
+      </div>
+    );
+  }
+
+  if (slots.length === 0) {
+    return <p className="text-sm text-gray-500">The employer hasn't published any open interview times yet. Check back soon.</p>;
+  }
+
+  // Days are grouped in the viewer's own time zone
+  const slotDays = slots.map(slot => new Date(slot.starts_at));
+  const daySlots = day ? slots.filter(slot => isSameDay(new Date(slot.starts_at), day)) : [];
+
+  return (
+    <div className="space-y-3">
+      <Calendar
+        mode="single"
+        selected={day}
+        onSelect={setDay}
+        defaultMonth={slotDays[0]}
+        disabled={(date) => !slotDays.some(slotDay => isSameDay(slotDay, date))}
+        modifiers={{ available: slotDays }}
+        modifiersClassNames={{ available: 'font-semibold text-primary' }}
+        className="rounded-md border w-fit"
+      />
+      {day && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">Times shown in {browserTimeZone()}</p>
+          {daySlots.map(slot => (
+            <div key={slot.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+              <div className="min-w-0 text-sm">
+                <p className="font-medium">{formatInterviewTime(slot.starts_at, slot.ends_at)}</p>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                  <Badge variant="outline" className="text-[10px]">Round {slot.round}</Badge>
+                  {slot.video_url && <span className="flex items-center"><Video className="h-3 w-3 mr-1" />Video call</span>}
+                  {slot.location && <span className="flex items-center truncate"><MapPin className="h-3 w-3 mr-1" />{slot.location}</span>}
+                </div>
+              </div>
+              <Button size="sm" onClick={() => onPick(slot)} disabled={busy}>
+                Select
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react';
+import { format, startOfToday } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DURATION_OPTIONS,
+  MAX_SLOTS_PER_BATCH,
+  ROUND_OPTIONS,
+  browserTimeZone,
+  deleteInterviewSlot,
+  fetchInterviewSlots,
+  formatInterviewTime,
+  invalidInterviewers,
+  parseInterviewers,
+  publishInterviewSlots,
+  type InterviewSlot
+} from '@/lib/interviews';
+import { toast } from 'sonner';
+import { Loader2, MapPin, Plus, Trash2, Users, Video } from 'lucide-react';
+
+interface InterviewSlotsManagerProps {
+  jobId: string;
+}
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const emptyForm = () => ({
+  startTime: '09:00',
+  duration: '60',
+  count: '1',
+  round: '1',
+  timeZone: browserTimeZone(),
+  location: '',
+  videoUrl: '',
+  interviewers: '',
+});
+
+export const InterviewSlotsManager = ({ jobId }: InterviewSlotsManagerProps) => {
+  const [slots, setSlots] = useState<InterviewSlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [date, setDate] = useState<Date | undefined>();
+  const [form, setForm] = useState(emptyForm);
+  const [publishing, setPublishing] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        setSlots(await fetchInterviewSlots(jobId));
+      } catch (error) {
+        console.error('Error fetching interview slots:', error);
+        toast.error('Failed to load interview slots');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [jobId]);
+
+  const handlePublish = async () => {
+    const interviewers = parseInterviewers(form.interviewers);
+    const invalid = invalidInterviewers(interviewers);
+
+    if (!date || !form.startTime) {
+      toast.error('Pick a date and start time');
+      return;
+    }
+    if (invalid.length > 0) {
+      toast.error(`Invalid interviewer email: ${invalid.join(', ')}`);
+      return;
+    }
+    if (!isValidTimeZone(form.timeZone)) {
+      toast.error('Enter a time zone like Europe/London or America/New_York');
+      return;
+    }
+
+    setPublishing(true);
+    try {
+      await publishInterviewSlots({
+        jobId,
+        date: format(date, 'yyyy-MM-dd'),
+        startTime: form.startTime,
+        durationMinutes: Number(form.duration),
+        count: Number(form.count),
+        round: Number(form.round),
+        timeZone: form.timeZone,
+        location: form.location.trim(),
+        videoUrl: form.videoUrl.trim(),
+        interviewers,
+      });
+      toast.success(form.count === '1' ? 'Interview slot published' : `${form.count} interview slots published`);
+      setSlots(await fetchInterviewSlots(jobId));
+    } catch (error) {
+      console.error('Error publishing interview slots:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to publish interview slots');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const handleDelete = async (slotId: string) => {
+    try {
+      await deleteInterviewSlot(slotId);
+      setSlots(prev => prev.filter(slot => slot.id !== slotId));
+    } catch (error) {
+      console.error('Error deleting interview slot:', error);
+      toast.error('Failed to remove interview slot');
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="space-y-3">
+        <Calendar
+          mode="single"
+          selected={date}
+          onSelect={setDate}
+          disabled={{ before: startOfToday() }}
+          className="rounded-md border w-fit"
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="slot-start">Start time</Label>
+            <Input
+              id="slot-start"
+              type="time"
+              value={form.startTime}
+              onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Length</Label>
+            <Select value={form.duration} onValueChange={(value) => setForm({ ...form, duration: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DURATION_OPTIONS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Back-to-back slots</Label>
+            <Select value={form.count} onValueChange={(value) => setForm({ ...form, count: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: MAX_SLOTS_PER_BATCH }, (_, i) => String(i + 1)).map(count => (
+                  <SelectItem key={count} value={count}>{count}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Round</Label>
+            <Select value={form.round} onValueChange={(value) => setForm({ ...form, round: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROUND_OPTIONS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="slot-timezone">Time zone</Label>
+          <Input
+            id="slot-timezone"
+            value={form.timeZone}
+            onChange={(e) => setForm({ ...form, timeZone: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="slot-interviewers">Interviewers</Label>
+          <Input
+            id="slot-interviewers"
+            value={form.interviewers}
+            onChange={(e) => setForm({ ...form, interviewers: e.target.value })}
+            placeholder="alex@company.com, sam@company.com"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="slot-video">Video link</Label>
+          <Input
+            id="slot-video"
+            type="url"
+            value={form.videoUrl}
+            onChange={(e) => setForm({ ...form, videoUrl: e.target.value })}
+            placeholder="https://meet.example.com/..."
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="slot-location">Location</Label>
+          <Input
+            id="slot-location"
+            value={form.location}
+            onChange={(e) => setForm({ ...form, location: e.target.value })}
+            placeholder="Office address, if on site"
+          />
+        </div>
+        <Button onClick={handlePublish} disabled={publishing || !date} className="w-full">
+          {publishing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+          Publish Availability
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold">Upcoming slots</h3>
+        {loading ? (
+          <div className="flex items-center text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading slots...
+          </div>
+        ) : slots.length === 0 ? (
+          <p className="text-sm text-gray-500">No upcoming slots. Candidates at the interview stage book from the slots you publish.</p>
+        ) : (
+          <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+            {slots.map(slot => (
+              <div key={slot.id} className="rounded-md border p-2 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="font-medium">{formatInterviewTime(slot.starts_at, slot.ends_at, slot.timezone)}</p>
+                  {slot.is_booked ? (
+                    <Badge className="bg-green-100 text-green-800">Booked</Badge>
+                  ) : (
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleDelete(slot.id)} aria-label="Remove slot">
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                  <Badge variant="outline" className="text-[10px]">Round {slot.round}</Badge>
+                  {slot.video_url && <span className="flex items-center"><Video className="h-3 w-3 mr-1" />Video</span>}
+                  {slot.location && <span className="flex items-center"><MapPin className="h-3 w-3 mr-1" />{slot.location}</span>}
+                  {slot.interviewers.length > 0 && (
+                    <span className="flex items-center"><Users className="h-3 w-3 mr-1" />{slot.interviewers.join(', ')}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Progress } from '@/components/ui/progress';
+import { Target } from 'lucide-react';
+import type { MatchScore } from '@/hooks/useMatchScores';
+
+interface MatchScoreBadgeProps {
+  match?: MatchScore;
+  className?: string;
+}
+
+const FACTOR_LABELS: Record<keyof MatchScore['breakdown'], string> = {
+  skills: 'Skills',
+  experience: 'Experience',
+  role: 'Role',
+  location: 'Location & type',
+};
+
+const scoreColor = (score: number) =>
+  score >= 75 ? 'bg-green-100 text-green-800' : score >= 50 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800';
+
+export const MatchScoreBadge = ({ match, className }: MatchScoreBadgeProps) => {
+  if (!match) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className={className}>
+          <Badge className={`${scoreColor(match.score)} cursor-pointer`}>
+            <Target className="h-3 w-3 mr-1" />
+            {match.score}% match
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80">
+        <h4 className="font-semibold text-sm mb-3">Match breakdown</h4>
+        <div className="space-y-3">
+          {(Object.keys(FACTOR_LABELS) as Array<keyof MatchScore['breakdown']>).map((key) => {
+            const factor = match.breakdown[key];
+            return (
+              <div key={key}>
+                <div className="flex justify-between text-xs mb-1">
+                  <span className="font-medium">
+                    {FACTOR_LABELS[key]} <span className="text-gray-400">({Math.round(factor.weight * 100)}%)</span>
+                  </span>
+                  <span>{factor.score}</span>
+                </div>
+                <Progress value={factor.score} className="h-1.5" />
+                <p className="text-xs text-gray-500 mt-1">{factor.detail}</p>
+                {factor.missing && factor.missing.length > 0 && (
+                  <p className="text-xs text-red-600 mt-1">Missing: {factor.missing.slice(0, 5).join(', ')}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
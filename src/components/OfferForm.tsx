@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  DEFAULT_OFFER_TEMPLATE,
+  MAX_OFFER_BODY_LENGTH,
+  formatSalary,
+  mergeOfferLetter,
+  salaryRangeError,
+  unknownMergeFields,
+  type Offer,
+  type OfferContext,
+  type OfferInput,
+  type OfferTemplate
+} from '@/lib/offers';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface OfferFormProps {
+  context: OfferContext;
+  templates: OfferTemplate[];
+  // The draft being edited
+  offer?: Offer;
+  busy: boolean;
+  onSubmit: (input: OfferInput) => void;
+  onCancel: () => void;
+}
+
+const STANDARD_LETTER = 'standard';
+
+export const OfferForm = ({ context, templates, offer, busy, onSubmit, onCancel }: OfferFormProps) => {
+  const [templateId, setTemplateId] = useState(offer?.template_id ?? STANDARD_LETTER);
+  const [body, setBody] = useState(offer?.body ?? DEFAULT_OFFER_TEMPLATE);
+  const [salary, setSalary] = useState(offer ? String(offer.salary) : context.salaryMin ? String(context.salaryMin) : '');
+  const [startDate, setStartDate] = useState(offer?.start_date ?? '');
+  const [respondBy, setRespondBy] = useState(offer?.respond_by ?? '');
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  // Picking a template replaces the letter; edits made since are lost
+  const handleTemplateChange = (value: string) => {
+    setTemplateId(value);
+    setBody(templates.find(template => template.id === value)?.body ?? DEFAULT_OFFER_TEMPLATE);
+  };
+
+  const handleSubmit = () => {
+    const amount = Number(salary);
+    if (!Number.isInteger(amount) || amount <= 0) {
+      toast.error('Enter the salary as a whole number');
+      return;
+    }
+    const rangeError = salaryRangeError(amount, context);
+    if (rangeError) {
+      toast.error(rangeError);
+      return;
+    }
+    if (!startDate) {
+      toast.error('Choose a start date');
+      return;
+    }
+    const unknown = unknownMergeFields(body);
+    if (unknown.length > 0) {
+      toast.error(`Unknown merge fields: ${unknown.map(field => `{{${field}}}`).join(', ')}`);
+      return;
+    }
+    onSubmit({
+      templateId: templateId === STANDARD_LETTER ? null : templateId,
+      body,
+      salary: amount,
+      startDate,
+      respondBy: respondBy || null,
+    });
+  };
+
+  const range = context.salaryMin !== null || context.salaryMax !== null
+    ? `${context.salaryMin !== null ? formatSalary(context.salaryMin) : 'Any'} – ${context.salaryMax !== null ? formatSalary(context.salaryMax) : 'any'}`
+    : null;
+
+  return (
+    <div className="space-y-4 rounded-md border p-3">
+      <div className="space-y-1">
+        <Label className="text-sm">Template</Label>
+        <Select value={templateId} onValueChange={handleTemplateChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={STANDARD_LETTER}>Standard letter</SelectItem>
+            {templates.map(template => (
+              <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="offer-salary" className="text-sm">Salary ($/year)</Label>
+          <Input
+            id="offer-salary"
+            type="number"
+            min={context.salaryMin ?? 1}
+            max={context.salaryMax ?? undefined}
+            step={1000}
+            value={salary}
+            onChange={(e) => setSalary(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="offer-start-date" className="text-sm">Start date</Label>
+          <Input id="offer-start-date" type="date" min={today} value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="offer-respond-by" className="text-sm">Respond by</Label>
+          <Input
+            id="offer-respond-by"
+            type="date"
+            min={today}
+            max={startDate || undefined}
+            value={respondBy}
+            onChange={(e) => setRespondBy(e.target.value)}
+          />
+        </div>
+      </div>
+      {range && <p className="text-xs text-gray-500">Advertised range: {range}</p>}
+
+      <div className="space-y-1">
+        <Label htmlFor="offer-body" className="text-sm">Letter</Label>
+        <Textarea
+          id="offer-body"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          maxLength={MAX_OFFER_BODY_LENGTH}
+          rows={10}
+          className="font-mono text-sm"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-xs font-medium text-gray-500">Preview</p>
+        <p className="text-sm text-gray-700 whitespace-pre-line rounded bg-gray-50 p-3">
+          {mergeOfferLetter(body, context, Number(salary) || null, startDate || null)}
+        </p>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={busy}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSubmit} disabled={busy}>
+          {busy && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          Save Draft
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { OfferForm } from '@/components/OfferForm';
+import { useAuth } from '@/hooks/useAuth';
+import { sendApplicationEmail } from '@/lib/applications';
+import {
+  OFFER_STATUS_LABELS,
+  OFFER_STATUS_STYLES,
+  deleteOfferDraft,
+  downloadOfferLetter,
+  fetchOfferContext,
+  fetchOfferTemplates,
+  fetchOffers,
+  formatOfferDate,
+  formatSalary,
+  isOpenOffer,
+  reviewOffer,
+  saveOfferDraft,
+  submitOffer,
+  withdrawOffer,
+  type Offer,
+  type OfferContext,
+  type OfferInput,
+  type OfferTemplate
+} from '@/lib/offers';
+import { toast } from 'sonner';
+import { Check, Download, FilePlus, Loader2, Pencil, Send, Trash2, Undo2 } from 'lucide-react';
+
+interface OfferManagerProps {
+  applicationId: string;
+  applicationStatus: string;
+  // Approving an offer moves the application to the offer stage
+  onApplicationChange: () => void;
+}
+
+// Drafting, approving and sending the offer for one candidate, and following it up to the
+// candidate's answer
+export const OfferManager = ({ applicationId, applicationStatus, onApplicationChange }: OfferManagerProps) => {
+  const { user } = useAuth();
+  const [offers, setOffers] = useState<Offer[]>([]);
+  const [context, setContext] = useState<OfferContext | null>(null);
+  const [templates, setTemplates] = useState<OfferTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [requestingChanges, setRequestingChanges] = useState(false);
+  const [reviewNote, setReviewNote] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [made, offerContext, companyTemplates] = await Promise.all([
+          fetchOffers(applicationId),
+          fetchOfferContext(applicationId),
+          fetchOfferTemplates(user.id),
+        ]);
+        setOffers(made);
+        setContext(offerContext);
+        setTemplates(companyTemplates);
+      } catch (error) {
+        console.error('Error fetching offers:', error);
+        toast.error('Failed to load offers');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [applicationId, user]);
+
+  const current = offers.find(isOpenOffer);
+  const history = offers.filter(offer => offer !== current);
+  const canDraft = !current && ['interview', 'offer'].includes(applicationStatus);
+
+  const run = async (action: () => Promise<void>, success: string, failure: string, movesApplication = false) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      setEditing(false);
+      setRequestingChanges(false);
+      setReviewNote('');
+      setOffers(await fetchOffers(applicationId));
+      if (movesApplication) onApplicationChange();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast.error(error instanceof Error ? error.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = (input: OfferInput) =>
+    run(() => saveOfferDraft(applicationId, input, current?.id), 'Offer draft saved', 'Failed to save the offer');
+
+  const handleDelete = (offer: Offer) => {
+    if (!window.confirm('Delete this draft offer?')) return;
+    run(() => deleteOfferDraft(offer.id), 'Draft deleted', 'Failed to delete the draft');
+  };
+
+  const handleWithdraw = (offer: Offer) => {
+    if (!window.confirm(offer.status === 'sent' ? 'Withdraw this offer from the candidate?' : 'Withdraw this offer?')) return;
+    run(() => withdrawOffer(offer.id), 'Offer withdrawn', 'Failed to withdraw the offer');
+  };
+
+  const handleDownload = async (offer: Offer) => {
+    try {
+      await downloadOfferLetter(offer.id);
+    } catch (error) {
+      console.error('Error downloading offer letter:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to download the offer letter');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading offers...
+      </div>
+    );
+  }
+
+  if (!context) return null;
+
+  if (editing) {
+    return (
+      <OfferForm
+        context={context}
+        templates={templates}
+        offer={current?.status === 'draft' ? current : undefined}
+        busy={busy}
+        onSubmit={handleSave}
+        onCancel={() => setEditing(false)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {!current && (
+        <p className="text-sm text-gray-500">
+          {canDraft ? 'No offer has been made yet.' : 'Offers can be made once the candidate reaches the interview stage.'}
+        </p>
+      )}
+      {canDraft && (
+        <Button variant="outline" size="sm" onClick={() => setEditing(true)}>
+          <FilePlus className="h-4 w-4 mr-1" />
+          Draft Offer
+        </Button>
+      )}
+
+      {current && (
+        <div className="rounded-md border p-3 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium">
+              {formatSalary(current.salary)}
+              <span className="font-normal text-gray-500"> · starts {formatOfferDate(current.start_date)}</span>
+            </p>
+            <Badge className={OFFER_STATUS_STYLES[current.status]}>{OFFER_STATUS_LABELS[current.status]}</Badge>
+          </div>
+          <p className="text-xs text-gray-500">
+            {current.sent_at && `Sent ${new Date(current.sent_at).toLocaleDateString()}`}
+            {current.respond_by && `${current.sent_at ? ' · ' : ''}Respond by ${formatOfferDate(current.respond_by)}`}
+            {current.responded_at && ` · Answered ${new Date(current.responded_at).toLocaleDateString()}`}
+          </p>
+          {current.status === 'draft' && current.review_note && (
+            <p className="text-sm rounded bg-amber-50 text-amber-800 p-2">Changes requested: {current.review_note}</p>
+          )}
+          <p className="text-sm text-gray-700 whitespace-pre-line rounded bg-gray-50 p-3 max-h-60 overflow-y-auto">
+            {current.letter}
+          </p>
+
+          {requestingChanges ? (
+            <div className="space-y-2">
+              <Textarea
+                value={reviewNote}
+                onChange={(e) => setReviewNote(e.target.value)}
+                placeholder="What needs to change before this offer can go out?"
+                maxLength={2000}
+                rows={3}
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setRequestingChanges(false)} disabled={busy}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => run(() => reviewOffer(current.id, false, reviewNote), 'Offer returned to draft', 'Failed to review the offer')}
+                  disabled={busy || !reviewNote.trim()}
+                >
+                  Request Changes
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {current.status === 'draft' && (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => setEditing(true)} disabled={busy}>
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => run(() => submitOffer(current.id), 'Offer submitted for approval', 'Failed to submit the offer')}
+                    disabled={busy}
+                  >
+                    <Send className="h-4 w-4 mr-1" />
+                    Submit for Approval
+                  </Button>
+                  <Button variant="ghost" size="sm" className="text-destructive" onClick={() => handleDelete(current)} disabled={busy}>
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </>
+              )}
+              {current.status === 'pending_approval' && (
+                <>
+                  <Button
+                    size="sm"
+                    onClick={() => run(async () => {
+                      await reviewOffer(current.id, true);
+                      sendApplicationEmail('offer_sent', applicationId);
+                    }, 'Offer approved and sent', 'Failed to approve the offer', true)}
+                    disabled={busy}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve &amp; Send
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setRequestingChanges(true)} disabled={busy}>
+                    <Undo2 className="h-4 w-4 mr-1" />
+                    Request Changes
+                  </Button>
+                </>
+              )}
+              {current.status !== 'draft' && (
+                <Button variant="outline" size="sm" onClick={() => handleDownload(current)}>
+                  <Download className="h-4 w-4 mr-1" />
+                  PDF
+                </Button>
+              )}
+              {['pending_approval', 'sent'].includes(current.status) && (
+                <Button variant="ghost" size="sm" className="text-destructive" onClick={() => handleWithdraw(current)} disabled={busy}>
+                  Withdraw
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-gray-500">Earlier offers</p>
+          {history.map(offer => (
+            <div key={offer.id} className="flex items-center justify-between gap-2 text-xs text-gray-600">
+              <span>
+                {formatSalary(offer.salary)} · {new Date(offer.created_at).toLocaleDateString()}
+                {offer.decline_reason && ` · "${offer.decline_reason}"`}
+              </span>
+              <Badge className={OFFER_STATUS_STYLES[offer.status]}>{OFFER_STATUS_LABELS[offer.status]}</Badge>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
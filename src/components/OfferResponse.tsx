@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  OFFER_STATUS_LABELS,
+  OFFER_STATUS_STYLES,
+  downloadOfferLetter,
+  fetchOffers,
+  formatOfferDate,
+  formatSalary,
+  respondToOffer,
+  type Offer
+} from '@/lib/offers';
+import { toast } from 'sonner';
+import { Check, Download, Loader2, X } from 'lucide-react';
+
+interface OfferResponseProps {
+  applicationId: string;
+  // Accepting an offer moves the application to hired
+  onRespond: () => void;
+}
+
+// The candidate's view of the offer sent to them, where they accept or decline it
+export const OfferResponse = ({ applicationId, onRespond }: OfferResponseProps) => {
+  const [offer, setOffer] = useState<Offer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [declining, setDeclining] = useState(false);
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        // Only offers that were sent are visible here; the newest is the one that counts
+        const [latest] = await fetchOffers(applicationId);
+        setOffer(latest ?? null);
+      } catch (error) {
+        console.error('Error fetching offer:', error);
+        toast.error('Failed to load the offer');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [applicationId]);
+
+  const handleRespond = async (accept: boolean) => {
+    if (!offer) return;
+    if (accept && !window.confirm('Accept this offer? Your acceptance is recorded as your electronic signature.')) return;
+
+    setBusy(true);
+    try {
+      await respondToOffer(offer.id, accept, reason);
+      toast.success(accept ? 'Offer accepted. Congratulations!' : 'Offer declined');
+      setDeclining(false);
+      const [latest] = await fetchOffers(applicationId);
+      setOffer(latest ?? null);
+      onRespond();
+    } catch (error) {
+      console.error('Error responding to offer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to respond to the offer');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!offer) return;
+    try {
+      await downloadOfferLetter(offer.id);
+    } catch (error) {
+      console.error('Error downloading offer letter:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to download the offer letter');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading offer...
+      </div>
+    );
+  }
+
+  if (!offer) {
+    return <p className="text-sm text-gray-500">The employer hasn't sent you an offer letter yet.</p>;
+  }
+
+  const expired = offer.respond_by !== null && offer.respond_by < format(new Date(), 'yyyy-MM-dd');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className="text-lg font-semibold">{formatSalary(offer.salary)}<span className="text-sm font-normal text-gray-500"> per year</span></p>
+          <p className="text-sm text-gray-600">Starting {formatOfferDate(offer.start_date)}</p>
+        </div>
+        <Badge className={OFFER_STATUS_STYLES[offer.status]}>{OFFER_STATUS_LABELS[offer.status]}</Badge>
+      </div>
+
+      <p className="text-sm text-gray-700 whitespace-pre-line rounded bg-gray-50 p-3 max-h-80 overflow-y-auto">{offer.letter}</p>
+
+      {offer.status === 'sent' && offer.respond_by && (
+        <p className={`text-xs ${expired ? 'text-destructive' : 'text-gray-500'}`}>
+          {expired ? 'The deadline to accept was' : 'Please respond by'} {formatOfferDate(offer.respond_by)}.
+        </p>
+      )}
+      {offer.status === 'accepted' && offer.responded_at && (
+        <p className="text-sm text-green-700">You accepted this offer on {new Date(offer.responded_at).toLocaleDateString()}.</p>
+      )}
+      {offer.status === 'declined' && (
+        <p className="text-sm text-gray-600">You declined this offer.</p>
+      )}
+      {offer.status === 'withdrawn' && (
+        <p className="text-sm text-gray-600">The employer withdrew this offer.</p>
+      )}
+
+      {declining && (
+        <div className="space-y-1">
+          <Label htmlFor="decline-reason">Reason (optional)</Label>
+          <Textarea
+            id="decline-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Let the employer know why, if you like"
+            maxLength={2000}
+            rows={3}
+          />
+        </div>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-1" />
+          PDF
+        </Button>
+        {offer.status === 'sent' && (declining ? (
+          <>
+            <Button variant="ghost" size="sm" onClick={() => setDeclining(false)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button variant="destructive" size="sm" onClick={() => handleRespond(false)} disabled={busy}>
+              {busy && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Decline Offer
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button variant="outline" size="sm" onClick={() => setDeclining(true)} disabled={busy}>
+              <X className="h-4 w-4 mr-1" />
+              Decline
+            </Button>
+            <Button size="sm" onClick={() => handleRespond(true)} disabled={busy || expired}>
+              {busy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+              Accept Offer
+            </Button>
+          </>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  DEFAULT_OFFER_TEMPLATE,
+  MAX_OFFER_BODY_LENGTH,
+  MAX_OFFER_TEMPLATE_NAME_LENGTH,
+  MERGE_FIELDS,
+  deleteOfferTemplate,
+  fetchOfferTemplates,
+  saveOfferTemplate,
+  unknownMergeFields,
+  type OfferTemplate
+} from '@/lib/offers';
+import { toast } from 'sonner';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+
+// The company's offer letter templates. Editing a template doesn't change offers already
+// drafted from it.
+export const OfferTemplatesManager = () => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<OfferTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // null while browsing, 'new' or a template id while editing
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [body, setBody] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        setTemplates(await fetchOfferTemplates(user.id));
+      } catch (error) {
+        console.error('Error fetching offer templates:', error);
+        toast.error('Failed to load offer templates');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [user]);
+
+  const startEditing = (template?: OfferTemplate) => {
+    setEditing(template?.id ?? 'new');
+    setName(template?.name ?? '');
+    setBody(template?.body ?? DEFAULT_OFFER_TEMPLATE);
+  };
+
+  const handleSave = async () => {
+    if (!user || !editing) return;
+    if (!name.trim() || !body.trim()) {
+      toast.error('Give the template a name and a letter');
+      return;
+    }
+    const unknown = unknownMergeFields(body);
+    if (unknown.length > 0) {
+      toast.error(`Unknown merge fields: ${unknown.map(field => `{{${field}}}`).join(', ')}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveOfferTemplate(user.id, name, body, editing === 'new' ? undefined : editing);
+      setTemplates(await fetchOfferTemplates(user.id));
+      setEditing(null);
+      toast.success('Offer template saved');
+    } catch (error) {
+      console.error('Error saving offer template:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the offer template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: OfferTemplate) => {
+    if (!user || !window.confirm(`Delete the "${template.name}" template?`)) return;
+
+    try {
+      await deleteOfferTemplate(template.id);
+      setTemplates(prev => prev.filter(item => item.id !== template.id));
+      toast.success('Offer template deleted');
+    } catch (error) {
+      console.error('Error deleting offer template:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete the offer template');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading offer templates...
+      </div>
+    );
+  }
+
+  if (editing) {
+    return (
+      <div className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="offer-template-name">Name</Label>
+          <Input
+            id="offer-template-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Full-time engineering"
+            maxLength={MAX_OFFER_TEMPLATE_NAME_LENGTH}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="offer-template-body">Letter</Label>
+          <div className="flex flex-wrap gap-1">
+            {MERGE_FIELDS.map(({ value, label }) => (
+              <Button
+                key={value}
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setBody(prev => `${prev}{{${value}}}`)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <Textarea
+            id="offer-template-body"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            maxLength={MAX_OFFER_BODY_LENGTH}
+            rows={14}
+            className="font-mono text-sm"
+          />
+          <p className="text-xs text-gray-500">
+            Merge fields such as {'{{candidate_name}}'} and {'{{salary}}'} are filled in for each offer.
+          </p>
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setEditing(null)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Save Template
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {templates.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No templates yet. Offers start from a standard letter until you add one.
+        </p>
+      ) : (
+        <div className="divide-y rounded-md border">
+          {templates.map(template => (
+            <div key={template.id} className="flex items-center justify-between gap-2 p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{template.name}</p>
+                <p className="text-xs text-gray-500">Updated {new Date(template.updated_at).toLocaleDateString()}</p>
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="icon" onClick={() => startEditing(template)} aria-label={`Edit ${template.name}`}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(template)} aria-label={`Delete ${template.name}`}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <Button variant="outline" size="sm" onClick={() => startEditing()}>
+        <Plus className="h-4 w-4 mr-1" />
+        New Template
+      </Button>
+    </div>
+  );
+};
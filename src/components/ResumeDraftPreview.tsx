@@ -0,0 +1,78 @@
+import { contactLine, dateRange, entryHeading, type ResumeDraftContent, type ResumeTemplate } from '@/lib/resumeBuilder';
+
+interface ResumeDraftPreviewProps {
+  content: ResumeDraftContent;
+  template: ResumeTemplate;
+}
+
+// Approximates the exported layouts (supabase/functions/_shared/builder/templates.ts) on screen
+const TEMPLATE_CLASSES: Record<ResumeTemplate, { root: string; name: string; heading: string; header: string }> = {
+  classic: {
+    root: 'font-serif text-[13px] leading-snug space-y-3',
+    name: 'text-2xl font-bold',
+    heading: 'text-sm font-bold uppercase border-b border-black pb-0.5 mt-3 mb-1',
+    header: 'text-center',
+  },
+  modern: {
+    root: 'font-sans text-[12.5px] leading-relaxed space-y-3',
+    name: 'text-3xl font-bold text-blue-700',
+    heading: 'text-base font-bold text-blue-700 mt-4 mb-1',
+    header: 'text-left',
+  },
+  compact: {
+    root: 'font-sans text-[11.5px] leading-tight space-y-2',
+    name: 'text-xl font-bold text-gray-700',
+    heading: 'text-xs font-bold uppercase text-gray-700 border-b border-gray-700 pb-0.5 mt-2 mb-1',
+    header: 'text-left',
+  },
+};
+
+export const ResumeDraftPreview = ({ content, template }: ResumeDraftPreviewProps) => {
+  const styles = TEMPLATE_CLASSES[template];
+  const { contact } = content;
+  const contacts = contactLine(contact);
+  const skills = content.skills.filter(Boolean);
+
+  return (
+    <div className={`bg-white text-black p-8 shadow-inner min-h-[600px] ${styles.root}`}>
+      <div className={styles.header}>
+        <div className={styles.name}>{contact.fullName || 'Your Name'}</div>
+        {contact.headline && <div className="text-base">{contact.headline}</div>}
+        {contacts && <div>{contacts}</div>}
+      </div>
+
+      {content.summary.trim() && (
+        <div>
+          <div className={styles.heading}>Professional Summary</div>
+          <p className="whitespace-pre-line">{content.summary.trim()}</p>
+        </div>
+      )}
+
+      {skills.length > 0 && (
+        <div>
+          <div className={styles.heading}>Skills</div>
+          <p>{skills.join(', ')}</p>
+        </div>
+      )}
+
+      {content.sections.map((section, sectionIndex) => (
+        <div key={sectionIndex}>
+          <div className={styles.heading}>{section.title || 'Untitled section'}</div>
+          <div className="space-y-2">
+            {section.entries.map((entry, entryIndex) => (
+              <div key={entryIndex}>
+                {entryHeading(entry) && <div className="font-bold">{entryHeading(entry)}</div>}
+                {dateRange(entry) && <div className="italic">{dateRange(entry)}</div>}
+                <ul className="list-disc pl-5">
+                  {entry.bullets.filter(b => b.trim()).map((bullet, bulletIndex) => (
+                    <li key={bulletIndex}>{bullet}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { emptyEntry, SECTION_PRESETS, type DraftEntry, type DraftSection } from '@/lib/resumeBuilder';
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from 'lucide-react';
+
+interface ResumeDraftSectionEditorProps {
+  section: DraftSection;
+  onChange: (section: DraftSection) => void;
+  onRemove: () => void;
+  onMove: (direction: -1 | 1) => void;
+  isFirst: boolean;
+  isLast: boolean;
+}
+
+export const ResumeDraftSectionEditor = ({ section, onChange, onRemove, onMove, isFirst, isLast }: ResumeDraftSectionEditorProps) => {
+  const preset = SECTION_PRESETS[section.kind];
+
+  const updateEntry = (index: number, entry: DraftEntry) =>
+    onChange({ ...section, entries: section.entries.map((e, i) => (i === index ? entry : e)) });
+
+  const removeEntry = (index: number) =>
+    onChange({ ...section, entries: section.entries.filter((_, i) => i !== index) });
+
+  const updateBullet = (entryIndex: number, bulletIndex: number, value: string) => {
+    const entry = section.entries[entryIndex];
+    updateEntry(entryIndex, { ...entry, bullets: entry.bullets.map((b, i) => (i === bulletIndex ? value : b)) });
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <Input
+          value={section.title}
+          onChange={(e) => onChange({ ...section, title: e.target.value })}
+          placeholder="Section title"
+          className="font-semibold"
+        />
+        <Badge variant="secondary" className="capitalize whitespace-nowrap">{section.kind}</Badge>
+        <Button variant="ghost" size="icon" onClick={() => onMove(-1)} disabled={isFirst} aria-label="Move section up">
+          <ArrowUp className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => onMove(1)} disabled={isLast} aria-label="Move section down">
+          <ArrowDown className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={onRemove} aria-label="Remove section">
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+
+      {section.entries.map((entry, entryIndex) => (
+        <div key={entryIndex} className="bg-gray-50 rounded-lg p-3 space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <Input
+              value={entry.title}
+              onChange={(e) => updateEntry(entryIndex, { ...entry, title: e.target.value })}
+              placeholder={preset.entryTitle}
+            />
+            <Input
+              value={entry.subtitle}
+              onChange={(e) => updateEntry(entryIndex, { ...entry, subtitle: e.target.value })}
+              placeholder={preset.entrySubtitle}
+            />
+            <Input
+              value={entry.location}
+              onChange={(e) => updateEntry(entryIndex, { ...entry, location: e.target.value })}
+              placeholder="Location"
+            />
+            <div className="flex gap-2">
+              <Input
+                value={entry.startDate}
+                onChange={(e) => updateEntry(entryIndex, { ...entry, startDate: e.target.value })}
+                placeholder="Start (e.g. Jan 2020)"
+              />
+              <Input
+                value={entry.endDate}
+                onChange={(e) => updateEntry(entryIndex, { ...entry, endDate: e.target.value })}
+                placeholder="End or Present"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {entry.bullets.map((bullet, bulletIndex) => (
+              <div key={bulletIndex} className="flex items-center gap-2">
+                <span className="text-gray-400">•</span>
+                <Input
+                  value={bullet}
+                  onChange={(e) => updateBullet(entryIndex, bulletIndex, e.target.value)}
+                  placeholder="Achievement or responsibility, ideally with a measurable result"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => updateEntry(entryIndex, { ...entry, bullets: entry.bullets.filter((_, i) => i !== bulletIndex) })}
+                  aria-label="Remove bullet"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between">
+            <Button variant="ghost" size="sm" onClick={() => updateEntry(entryIndex, { ...entry, bullets: [...entry.bullets, ''] })}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add bullet
+            </Button>
+            <Button variant="ghost" size="sm" className="text-destructive" onClick={() => removeEntry(entryIndex)}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              Remove entry
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={() => onChange({ ...section, entries: [...section.entries, emptyEntry()] })}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add entry
+      </Button>
+    </div>
+  );
+};
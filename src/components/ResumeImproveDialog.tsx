@@ -0,0 +1,333 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { exportResumeDraft } from '@/lib/resumeBuilder';
+import {
+  draftFromStructure,
+  fetchImprovableStructure,
+  hasPlaceholder,
+  replacementKey,
+  suggestBulletRewrites,
+  type BulletReplacement,
+  type ImprovableStructure
+} from '@/lib/resumeImprovement';
+import { toast } from 'sonner';
+import { Check, Copy, Loader2, Sparkles, Undo2, X } from 'lucide-react';
+
+export interface ImprovableResume {
+  id: string;
+  document_id: string;
+  version: number;
+  job_role: string;
+  skills: string[];
+  recommendations?: string[];
+  resume_documents: { title: string } | null;
+}
+
+interface ResumeImproveDialogProps {
+  resume: ImprovableResume | null;
+  onOpenChange: (open: boolean) => void;
+  onVersionCreated: () => void;
+}
+
+// A bullet from the parsed work history, or null when the user pasted one
+type BulletSource = { workHistoryId: string; index: number } | null;
+
+export const ResumeImproveDialog = ({ resume, onOpenChange, onVersionCreated }: ResumeImproveDialogProps) => {
+  const { user, profile } = useAuth();
+  const navigate = useNavigate();
+  const [structure, setStructure] = useState<ImprovableStructure | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [recommendation, setRecommendation] = useState('');
+  const [source, setSource] = useState<BulletSource>(null);
+  const [pastedBullet, setPastedBullet] = useState('');
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [suggesting, setSuggesting] = useState(false);
+  const [accepted, setAccepted] = useState<BulletReplacement[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  const resumeId = resume?.id;
+
+  useEffect(() => {
+    if (!resumeId) return;
+
+    const load = async () => {
+      setLoading(true);
+      setSource(null);
+      setPastedBullet('');
+      setSuggestions([]);
+      setAccepted([]);
+      try {
+        setStructure(await fetchImprovableStructure(resumeId));
+      } catch (error) {
+        console.error('Error fetching resume structure:', error);
+        setStructure(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [resumeId]);
+
+  useEffect(() => {
+    setRecommendation(resume?.recommendations?.[0] || '');
+  }, [resume?.recommendations]);
+
+  if (!resume) return null;
+
+  const roles = (structure?.workHistory || []).filter(role => role.bullets.length > 0);
+  const sourceRole = source ? roles.find(role => role.id === source.workHistoryId) : undefined;
+  const currentBullet = source && sourceRole ? sourceRole.bullets[source.index] : pastedBullet.trim();
+  const acceptedFor = (workHistoryId: string, index: number) =>
+    accepted.find(r => replacementKey(r.workHistoryId, r.index) === replacementKey(workHistoryId, index));
+
+  const pickBullet = (workHistoryId: string, index: number) => {
+    setSource({ workHistoryId, index });
+    setPastedBullet('');
+    setSuggestions([]);
+  };
+
+  const handleSuggest = async () => {
+    if (!currentBullet || !recommendation) return;
+
+    setSuggesting(true);
+    try {
+      setSuggestions(await suggestBulletRewrites({
+        resumeId: resume.id,
+        bullet: currentBullet,
+        recommendation,
+        workHistoryId: source?.workHistoryId
+      }));
+    } catch (error) {
+      console.error('Error suggesting rewrites:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to suggest rewrites');
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  // Pasted bullets have no place in the parsed structure, so they can only be copied
+  const acceptSuggestion = async (text: string) => {
+    if (!source) {
+      try {
+        await navigator.clipboard.writeText(text);
+        toast.success('Copied to clipboard');
+      } catch (error) {
+        console.error('Error copying suggestion:', error);
+        toast.error('Failed to copy suggestion');
+      }
+      return;
+    }
+
+    const original = sourceRole?.bullets[source.index] || '';
+    setAccepted(prev => [
+      ...prev.filter(r => replacementKey(r.workHistoryId, r.index) !== replacementKey(source.workHistoryId, source.index)),
+      { ...source, original, text }
+    ]);
+    setSuggestions([]);
+  };
+
+  const handleCreateVersion = async () => {
+    if (!user || !structure || accepted.length === 0) return;
+    if (accepted.some(r => hasPlaceholder(r.text))) {
+      toast.error('Replace the [placeholders] in your accepted bullets with real figures first');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const content = draftFromStructure(structure, {
+        contact: {
+          fullName: profile?.full_name || '',
+          headline: resume.job_role || '',
+          email: profile?.email || user.email || '',
+          phone: profile?.phone || '',
+          location: profile?.location || '',
+          website: profile?.website || ''
+        },
+        skills: resume.skills || []
+      }, accepted);
+
+      // Linking the draft to the document makes the export the next version of this resume
+      const { data: draft, error } = await supabase
+        .from('resume_drafts')
+        .insert({
+          user_id: user.id,
+          document_id: resume.document_id,
+          title: `${resume.resume_documents?.title || 'Resume'} (improved)`,
+          content: content as unknown as Json
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      const rendered = await exportResumeDraft(draft.id, 'pdf');
+      toast.success(`Created version ${rendered.version}. ATS analysis has started.`, {
+        action: { label: 'Edit in builder', onClick: () => navigate(`/resume-builder?draft=${draft.id}`) }
+      });
+      onVersionCreated();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating improved version:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create a new version');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Sparkles className="h-5 w-5 mr-2 text-primary" />
+            Improve Resume
+          </DialogTitle>
+          <DialogDescription>
+            Pick a recommendation and a bullet point, then accept the rewrites you like. Accepted
+            rewrites are saved as version {resume.version + 1} of this resume.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>Recommendation</Label>
+            <Select value={recommendation} onValueChange={(value) => { setRecommendation(value); setSuggestions([]); }}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a recommendation" />
+              </SelectTrigger>
+              <SelectContent>
+                {(resume.recommendations || []).map((rec, index) => (
+                  <SelectItem key={index} value={rec}>{rec}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Bullet point</Label>
+            {loading ? (
+              <div className="flex items-center text-sm text-gray-500">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading work history...
+              </div>
+            ) : roles.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No bullet points could be read from this resume's work history. Paste one below instead.
+              </p>
+            ) : (
+              <div className="border rounded-lg divide-y max-h-64 overflow-y-auto">
+                {roles.map(role => (
+                  <div key={role.id} className="p-3 space-y-1">
+                    <p className="text-sm font-semibold text-gray-900">
+                      {[role.title, role.company].filter(Boolean).join(' · ') || 'Role'}
+                    </p>
+                    {role.bullets.map((bullet, index) => {
+                      const replacement = acceptedFor(role.id, index);
+                      const selected = source?.workHistoryId === role.id && source.index === index;
+                      return (
+                        <button
+                          key={index}
+                          type="button"
+                          onClick={() => pickBullet(role.id, index)}
+                          className={`w-full text-left text-sm rounded px-2 py-1 ${selected ? 'bg-primary/10 ring-1 ring-primary' : 'hover:bg-gray-50'}`}
+                        >
+                          <span className={replacement ? 'line-through text-gray-400' : 'text-gray-700'}>{bullet}</span>
+                          {replacement && <span className="block text-green-700">{replacement.text}</span>}
+                        </button>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            )}
+            <Textarea
+              value={pastedBullet}
+              onChange={(e) => { setPastedBullet(e.target.value); setSource(null); setSuggestions([]); }}
+              placeholder="Or paste a bullet point"
+              rows={2}
+            />
+          </div>
+
+          <Button onClick={handleSuggest} disabled={!currentBullet || !recommendation || suggesting}>
+            {suggesting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+            Suggest Rewrites
+          </Button>
+
+          {suggestions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Suggestions</Label>
+              <p className="text-xs text-gray-500">Edit a suggestion before accepting it to fill in any [placeholders].</p>
+              {suggestions.map((suggestion, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={suggestion}
+                    onChange={(e) => setSuggestions(prev => prev.map((s, i) => (i === index ? e.target.value : s)))}
+                  />
+                  <Button size="sm" onClick={() => acceptSuggestion(suggestion)} disabled={!suggestion.trim()}>
+                    {source ? <Check className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
+                    {source ? 'Accept' : 'Copy'}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setSuggestions(prev => prev.filter((_, i) => i !== index))}
+                    aria-label="Reject suggestion"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {accepted.length > 0 && (
+            <div className="space-y-2">
+              <Label>Accepted changes</Label>
+              {accepted.map(change => (
+                <div key={replacementKey(change.workHistoryId, change.index)} className="flex items-start gap-2 text-sm bg-gray-50 rounded p-2">
+                  <div className="flex-1">
+                    <p className="line-through text-gray-400">{change.original}</p>
+                    <p className="text-gray-800">{change.text}</p>
+                    {hasPlaceholder(change.text) && (
+                      <Badge variant="outline" className="mt-1 border-amber-200 bg-amber-50 text-amber-800">
+                        Has placeholders
+                      </Badge>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setAccepted(prev => prev.filter(r => r !== change))}
+                    aria-label="Undo change"
+                  >
+                    <Undo2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button onClick={handleCreateVersion} disabled={accepted.length === 0 || creating}>
+            {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create New Version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
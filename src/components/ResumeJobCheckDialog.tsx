@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { analyzeResume, type JobMatchResult } from '@/lib/resumeAnalysis';
+import { toast } from 'sonner';
+import { FileSearch, Loader2 } from 'lucide-react';
+
+interface ResumeOption {
+  id: string;
+  file_name: string;
+  file_url: string;
+  job_role: string | null;
+  version: number;
+}
+
+interface ResumeJobCheckDialogProps {
+  jobId: string;
+  jobTitle?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ResumeJobCheckDialog = ({ jobId, jobTitle, open, onOpenChange }: ResumeJobCheckDialogProps) => {
+  const { user } = useAuth();
+  const [resumes, setResumes] = useState<ResumeOption[]>([]);
+  const [selectedResumeId, setSelectedResumeId] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<JobMatchResult | null>(null);
+
+  useEffect(() => {
+    if (!open || !user) return;
+
+    const fetchResumes = async () => {
+      const { data, error } = await supabase
+        .from('resumes')
+        .select('id, file_name, file_url, job_role, version')
+        .eq('user_id', user.id)
+        .is('archived_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching resumes:', error);
+        toast.error('Failed to load resumes');
+        return;
+      }
+      setResumes(data || []);
+      setSelectedResumeId((current) => current || data?.[0]?.id || '');
+    };
+
+    fetchResumes();
+  }, [open, user]);
+
+  const runCheck = async () => {
+    const resume = resumes.find(r => r.id === selectedResumeId);
+    if (!resume) {
+      toast.error('Please select a resume');
+      return;
+    }
+
+    setChecking(true);
+    setResult(null);
+    try {
+      const analysis = await analyzeResume({ fileUrl: resume.file_url, fileName: resume.file_name, jobId });
+      if (!analysis.job_match) throw new Error('Resume check failed');
+      setResult(analysis.job_match);
+    } catch (error) {
+      console.error('Error checking resume against job:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to check resume');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <FileSearch className="h-5 w-5 mr-2 text-primary" />
+            Check my resume
+          </DialogTitle>
+          <DialogDescription>
+            See how an ATS screening for {jobTitle || 'this job'} would read your resume.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {resumes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Upload a resume from your dashboard first.</p>
+          ) : (
+            <div>
+              <Label htmlFor="check-resume-select">Resume</Label>
+              <Select value={selectedResumeId} onValueChange={setSelectedResumeId}>
+                <SelectTrigger id="check-resume-select">
+                  <SelectValue placeholder="Choose a resume" />
+                </SelectTrigger>
+                <SelectContent>
+                  {resumes.map((resume) => (
+                    <SelectItem key={resume.id} value={resume.id}>
+                      {resume.file_name} v{resume.version} {resume.job_role && `(${resume.job_role})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-4">
+              <div>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium">ATS score for this job</span>
+                  <span className="font-semibold">{result.ats_score}/100</span>
+                </div>
+                <Progress value={result.ats_score} />
+              </div>
+
+              {result.matched_keywords.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Matched keywords</h4>
+                  <div className="flex flex-wrap gap-1">
+                    {result.matched_keywords.map((keyword) => (
+                      <Badge key={keyword} className="bg-green-100 text-green-800">{keyword}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {result.missing_keywords.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Missing keywords</h4>
+                  <div className="flex flex-wrap gap-1">
+                    {result.missing_keywords.map((keyword) => (
+                      <Badge key={keyword} variant="outline" className="border-red-200 text-red-700 bg-red-50">{keyword}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {result.recommendations.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">How to tailor your resume</h4>
+                  <ul className="space-y-1">
+                    {result.recommendations.map((rec, index) => (
+                      <li key={index} className="text-sm text-gray-600 flex items-start">
+                        <span className="text-orange-500 mr-2">•</span>
+                        {rec}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={runCheck} disabled={checking || resumes.length === 0}>
+            {checking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSearch className="h-4 w-4 mr-2" />}
+            {checking ? 'Checking...' : result ? 'Check again' : 'Run check'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
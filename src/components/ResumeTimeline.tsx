@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Award, Briefcase, CalendarX, ExternalLink, GraduationCap, Languages, Loader2 } from 'lucide-react';
+
+interface ResumeStructure {
+  workHistory: Tables<'resume_work_history'>[];
+  education: Tables<'resume_education'>[];
+  certifications: Tables<'resume_certifications'>[];
+  languages: Tables<'resume_languages'>[];
+  links: Tables<'resume_links'>[];
+}
+
+export interface CareerGap {
+  start_date: string;
+  end_date: string | null;
+  months: number;
+}
+
+interface ResumeTimelineProps {
+  resumeId: string;
+  gaps?: CareerGap[];
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Dates are stored as YYYY-MM-01; format without Date() so time zones can't shift the month
+const formatMonth = (date: string | null) => {
+  if (!date) return null;
+  const [year, month] = date.split('-');
+  return `${MONTHS[parseInt(month) - 1]} ${year}`;
+};
+
+const formatRange = (start: string | null, end: string | null, isCurrent = false) => {
+  const from = formatMonth(start);
+  const to = isCurrent ? 'Present' : formatMonth(end);
+  if (from && to) return `${from} – ${to}`;
+  return from || to;
+};
+
+const formatDuration = (months: number) => {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts = [];
+  if (years > 0) parts.push(`${years} yr${years === 1 ? '' : 's'}`);
+  if (rest > 0 || years === 0) parts.push(`${rest} mo${rest === 1 ? '' : 's'}`);
+  return parts.join(' ');
+};
+
+const LINK_LABELS: Record<string, string> = { linkedin: 'LinkedIn', github: 'GitHub', portfolio: 'Portfolio' };
+
+export const ResumeTimeline = ({ resumeId, gaps = [] }: ResumeTimelineProps) => {
+  const [structure, setStructure] = useState<ResumeStructure | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchStructure = async () => {
+      setLoading(true);
+      try {
+        const [workHistory, education, certifications, languages, links] = await Promise.all([
+          supabase.from('resume_work_history').select('*').eq('resume_id', resumeId).order('position'),
+          supabase.from('resume_education').select('*').eq('resume_id', resumeId).order('position'),
+          supabase.from('resume_certifications').select('*').eq('resume_id', resumeId).order('position'),
+          supabase.from('resume_languages').select('*').eq('resume_id', resumeId).order('position'),
+          supabase.from('resume_links').select('*').eq('resume_id', resumeId).order('position'),
+        ]);
+
+        const failed = [workHistory, education, certifications, languages, links].find(r => r.error);
+        if (failed?.error) throw failed.error;
+
+        setStructure({
+          workHistory: workHistory.data || [],
+          education: education.data || [],
+          certifications: certifications.data || [],
+          languages: languages.data || [],
+          links: links.data || [],
+        });
+      } catch (error) {
+        console.error('Error fetching resume structure:', error);
+        setStructure(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStructure();
+  }, [resumeId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading career history...
+      </div>
+    );
+  }
+
+  if (!structure) {
+    return <p className="text-sm text-gray-500">Career history could not be loaded.</p>;
+  }
+
+  const isEmpty = Object.values(structure).every(list => list.length === 0);
+  if (isEmpty) {
+    return <p className="text-sm text-gray-500">No work history or education could be read from this resume.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {structure.workHistory.length > 0 && (
+        <div>
+          <h4 className="text-lg font-semibold mb-4 flex items-center">
+            <Briefcase className="h-4 w-4 mr-2 text-blue-600" />
+            Work History
+          </h4>
+          <ol className="relative border-l-2 border-blue-100 ml-2 space-y-6">
+            {structure.workHistory.map((entry) => (
+              <li key={entry.id} className="ml-6">
+                <span className="absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full bg-blue-500 ring-4 ring-white" />
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <div>
+                    <p className="font-semibold text-gray-900">{entry.title || 'Role'}</p>
+                    <p className="text-sm text-gray-600">
+                      {[entry.company, entry.location].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  <span className="text-sm text-gray-500">
+                    {formatRange(entry.start_date, entry.end_date, entry.is_current)}
+                    {entry.months != null && ` · ${formatDuration(entry.months)}`}
+                  </span>
+                </div>
+                {entry.bullets.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {entry.bullets.map((bullet, index) => (
+                      <li key={index} className="text-sm text-gray-600 flex items-start">
+                        <span className="text-blue-500 mr-2">•</span>
+                        {bullet}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+          {gaps.length > 0 && (
+            <div className="mt-4 flex flex-wrap gap-2">
+              {gaps.map((gap) => (
+                <Badge key={gap.start_date} variant="outline" className="border-amber-200 bg-amber-50 text-amber-800">
+                  <CalendarX className="h-3 w-3 mr-1" />
+                  {gap.end_date
+                    ? `Gap: ${formatRange(gap.start_date, gap.end_date)} (${formatDuration(gap.months)})`
+                    : `Not employed since ${formatMonth(gap.start_date)} (${formatDuration(gap.months)})`}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {structure.education.length > 0 && (
+        <div>
+          <h4 className="text-lg font-semibold mb-3 flex items-center">
+            <GraduationCap className="h-4 w-4 mr-2 text-blue-600" />
+            Education
+          </h4>
+          <ul className="space-y-2">
+            {structure.education.map((entry) => (
+              <li key={entry.id} className="flex flex-wrap items-baseline justify-between gap-2">
+                <div>
+                  <p className="font-medium text-gray-900">{entry.degree || entry.institution}</p>
+                  {entry.degree && entry.institution && <p className="text-sm text-gray-600">{entry.institution}</p>}
+                </div>
+                <span className="text-sm text-gray-500">{formatRange(entry.start_date, entry.end_date)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {structure.certifications.length > 0 && (
+          <div>
+            <h4 className="text-lg font-semibold mb-3 flex items-center">
+              <Award className="h-4 w-4 mr-2 text-blue-600" />
+              Certifications
+            </h4>
+            <ul className="space-y-1">
+              {structure.certifications.map((cert) => (
+                <li key={cert.id} className="text-sm text-gray-700">
+                  <span className="font-medium">{cert.name}</span>
+                  {cert.issuer && <span className="text-gray-500"> · {cert.issuer}</span>}
+                  {cert.issued_date && <span className="text-gray-500"> · {cert.issued_date.slice(0, 4)}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {structure.languages.length > 0 && (
+          <div>
+            <h4 className="text-lg font-semibold mb-3 flex items-center">
+              <Languages className="h-4 w-4 mr-2 text-blue-600" />
+              Languages
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {structure.languages.map((lang) => (
+                <Badge key={lang.id} variant="outline">
+                  {lang.language}{lang.proficiency && ` · ${lang.proficiency}`}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {structure.links.length > 0 && (
+        <div className="flex flex-wrap gap-3">
+          {structure.links.map((link) => (
+            <a
+              key={link.id}
+              href={link.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center text-sm text-blue-600 hover:underline"
+            >
+              <ExternalLink className="h-3 w-3 mr-1" />
+              {LINK_LABELS[link.kind] || link.url.replace(/^https?:\/\/(www\.)?/, '')}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
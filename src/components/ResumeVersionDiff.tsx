@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { skillKey } from '@/lib/skills';
+import { ArrowRight, Minus, TrendingDown, TrendingUp } from 'lucide-react';
+
+export interface ResumeVersion {
+  id: string;
+  version: number;
+  file_name: string;
+  created_at: string;
+  analysis_status: string;
+  ats_score: number | null;
+  skills: string[] | null;
+  missing_skills?: string[] | null;
+  job_role: string | null;
+  experience_years: number | null;
+}
+
+interface ResumeVersionDiffProps {
+  // Newest first, as the dashboard lists them
+  versions: ResumeVersion[];
+}
+
+// Skills are stored canonicalized, so comparing keys only ignores stray case/spacing differences
+const diffSkills = (before: string[] | null | undefined, after: string[] | null | undefined) => {
+  const beforeKeys = new Set((before || []).map(skillKey));
+  const afterKeys = new Set((after || []).map(skillKey));
+  return {
+    added: (after || []).filter(skill => !beforeKeys.has(skillKey(skill))),
+    removed: (before || []).filter(skill => !afterKeys.has(skillKey(skill))),
+  };
+};
+
+const versionLabel = (version: ResumeVersion) =>
+  `v${version.version} · ${new Date(version.created_at).toLocaleDateString()}`;
+
+const SkillList = ({ skills, className, empty }: { skills: string[]; className: string; empty: string }) =>
+  skills.length > 0 ? (
+    <div className="flex flex-wrap gap-1">
+      {skills.map(skill => (
+        <Badge key={skill} variant="outline" className={className}>{skill}</Badge>
+      ))}
+    </div>
+  ) : (
+    <p className="text-sm text-gray-500">{empty}</p>
+  );
+
+export const ResumeVersionDiff = ({ versions }: ResumeVersionDiffProps) => {
+  const [baseId, setBaseId] = useState(versions[1]?.id ?? versions[0]?.id);
+  const [compareId, setCompareId] = useState(versions[0]?.id);
+
+  // Keep the selection valid when versions are added or removed while the dialog is open
+  useEffect(() => {
+    if (!versions.some(v => v.id === baseId)) setBaseId(versions[1]?.id ?? versions[0]?.id);
+    if (!versions.some(v => v.id === compareId)) setCompareId(versions[0]?.id);
+  }, [versions, baseId, compareId]);
+
+  const base = versions.find(v => v.id === baseId);
+  const compare = versions.find(v => v.id === compareId);
+  if (!base || !compare) return null;
+
+  const pending = [base, compare].some(v => v.analysis_status !== 'complete');
+  const scoreDelta = base.ats_score !== null && compare.ats_score !== null ? compare.ats_score - base.ats_score : null;
+  const skills = diffSkills(base.skills, compare.skills);
+  const missing = diffSkills(base.missing_skills, compare.missing_skills);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Select value={baseId} onValueChange={setBaseId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {versions.map(v => (
+              <SelectItem key={v.id} value={v.id}>{versionLabel(v)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ArrowRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+        <Select value={compareId} onValueChange={setCompareId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {versions.map(v => (
+              <SelectItem key={v.id} value={v.id}>{versionLabel(v)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {pending && (
+        <p className="text-sm text-gray-500">One of these versions is still being analyzed; the comparison will fill in when it completes.</p>
+      )}
+
+      {/* Side-by-side summary */}
+      <div className="grid grid-cols-2 gap-4">
+        {[base, compare].map((v, index) => (
+          <div key={`${v.id}-${index}`} className="border rounded-lg p-4 space-y-1">
+            <div className="text-xs text-gray-500">{versionLabel(v)}</div>
+            <div className="font-medium truncate" title={v.file_name}>{v.file_name}</div>
+            <div className="text-3xl font-bold">{v.ats_score ?? '—'}</div>
+            <div className="text-xs text-gray-500">ATS Score</div>
+            {v.job_role && <div className="text-sm text-gray-700">{v.job_role}</div>}
+            {v.experience_years !== null && <div className="text-sm text-gray-600">{v.experience_years} years experience</div>}
+            <div className="text-sm text-gray-600">{(v.skills || []).length} skills</div>
+          </div>
+        ))}
+      </div>
+
+      {scoreDelta !== null && (
+        <div className={`flex items-center text-sm font-medium ${
+          scoreDelta > 0 ? 'text-success' : scoreDelta < 0 ? 'text-destructive' : 'text-gray-600'
+        }`}>
+          {scoreDelta > 0 ? <TrendingUp className="h-4 w-4 mr-2" /> : scoreDelta < 0 ? <TrendingDown className="h-4 w-4 mr-2" /> : <Minus className="h-4 w-4 mr-2" />}
+          {scoreDelta === 0 ? 'ATS score unchanged' : `ATS score ${scoreDelta > 0 ? '+' : ''}${scoreDelta}`}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <h4 className="font-semibold">Skills added</h4>
+          <SkillList skills={skills.added} className="border-green-300 text-green-700" empty="None" />
+          <h4 className="font-semibold pt-2">Skills removed</h4>
+          <SkillList skills={skills.removed} className="border-red-300 text-red-700 line-through" empty="None" />
+        </div>
+        <div className="space-y-2">
+          <h4 className="font-semibold">Missing skills resolved</h4>
+          <SkillList skills={missing.removed} className="border-green-300 text-green-700" empty="None" />
+          <h4 className="font-semibold pt-2">Newly missing skills</h4>
+          <SkillList skills={missing.added} className="border-orange-300 text-orange-700" empty="None" />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  MAX_SCORECARD_NOTES_LENGTH,
+  RATING_OPTIONS,
+  RECOMMENDATION_OPTIONS,
+  type Recommendation,
+  type Scorecard,
+  type ScorecardInput
+} from '@/lib/scorecards';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface ScorecardFormProps {
+  competencies: string[];
+  // The interviewer's earlier scorecard when editing
+  scorecard?: Scorecard;
+  busy: boolean;
+  onSubmit: (input: ScorecardInput) => void;
+  onCancel: () => void;
+}
+
+export const ScorecardForm = ({ competencies, scorecard, busy, onSubmit, onCancel }: ScorecardFormProps) => {
+  // Ratings for competencies no longer on the template are dropped when editing
+  const [ratings, setRatings] = useState<Record<string, number>>(() => {
+    const previous = scorecard?.ratings ?? {};
+    return Object.fromEntries(competencies.filter(name => previous[name]).map(name => [name, previous[name]]));
+  });
+  const [recommendation, setRecommendation] = useState<Recommendation | ''>(scorecard?.recommendation ?? '');
+  const [notes, setNotes] = useState(scorecard?.notes ?? '');
+
+  const handleSubmit = () => {
+    const unrated = competencies.filter(name => !ratings[name]);
+    if (unrated.length > 0) {
+      toast.error(`Rate ${unrated.join(', ')}`);
+      return;
+    }
+    if (!recommendation) {
+      toast.error('Choose a recommendation');
+      return;
+    }
+    onSubmit({ ratings, recommendation, notes: notes.trim() });
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-3">
+      {competencies.map(name => (
+        <div key={name} className="space-y-1">
+          <Label className="text-sm">{name}</Label>
+          <div className="flex gap-1">
+            {RATING_OPTIONS.map(({ value, label }) => (
+              <Button
+                key={value}
+                type="button"
+                size="sm"
+                variant={ratings[name] === value ? 'default' : 'outline'}
+                className="h-8 w-9"
+                title={label}
+                onClick={() => setRatings(prev => ({ ...prev, [name]: value }))}
+              >
+                {value}
+              </Button>
+            ))}
+            {ratings[name] && (
+              <span className="self-center ml-2 text-xs text-gray-500">
+                {RATING_OPTIONS.find(option => option.value === ratings[name])?.label}
+              </span>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="space-y-1">
+        <Label className="text-sm">Recommendation</Label>
+        <Select value={recommendation} onValueChange={(value) => setRecommendation(value as Recommendation)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Should we hire?" />
+          </SelectTrigger>
+          <SelectContent>
+            {RECOMMENDATION_OPTIONS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-sm">Notes</Label>
+        <Textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Evidence behind the ratings: what the candidate said and did"
+          maxLength={MAX_SCORECARD_NOTES_LENGTH}
+          rows={4}
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={busy}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSubmit} disabled={busy}>
+          {busy && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          {scorecard ? 'Update Scorecard' : 'Submit Scorecard'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  RECOMMENDATION_OPTIONS,
+  RECOMMENDATION_STYLES,
+  formatRating,
+  type ScorecardSummary
+} from '@/lib/scorecards';
+
+interface ScorecardRollupProps {
+  summary: ScorecardSummary;
+}
+
+// Average rating per competency and the interviewers' recommendations across all rounds
+export const ScorecardRollup = ({ summary }: ScorecardRollupProps) => {
+  if (summary.count === 0) {
+    return <p className="text-sm text-gray-500">No scorecards have been filed yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-baseline justify-between">
+        <p className="text-sm font-medium">
+          Overall {formatRating(summary.average)}<span className="text-gray-500"> / 5</span>
+        </p>
+        <p className="text-xs text-gray-500">
+          {summary.count === 1 ? '1 scorecard' : `${summary.count} scorecards`}
+        </p>
+      </div>
+      <div className="space-y-2">
+        {summary.competencies.map(({ competency, average, count }) => (
+          <div key={competency}>
+            <div className="flex justify-between text-xs mb-1">
+              <span>{competency}</span>
+              <span className="text-gray-500">{count > 0 ? formatRating(average) : 'Not rated'}</span>
+            </div>
+            <Progress value={((average ?? 0) / 5) * 100} className="h-1.5" />
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {RECOMMENDATION_OPTIONS.filter(({ value }) => summary.recommendations[value] > 0).map(({ value, label }) => (
+          <Badge key={value} className={RECOMMENDATION_STYLES[value]}>
+            {label}: {summary.recommendations[value]}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  MAX_COMPETENCIES,
+  MAX_COMPETENCY_LENGTH,
+  fetchScorecardTemplate,
+  saveScorecardTemplate
+} from '@/lib/scorecards';
+import { toast } from 'sonner';
+import { Loader2, Plus, X } from 'lucide-react';
+
+interface ScorecardTemplateEditorProps {
+  jobId: string;
+}
+
+// The competencies interviewers rate for one job. Existing scorecards keep the competencies
+// they were filed with; only new and edited scorecards use the changed list.
+export const ScorecardTemplateEditor = ({ jobId }: ScorecardTemplateEditorProps) => {
+  const [competencies, setCompetencies] = useState<string[]>([]);
+  const [custom, setCustom] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const template = await fetchScorecardTemplate(jobId);
+        setCompetencies(template.competencies);
+        setCustom(template.custom);
+      } catch (error) {
+        console.error('Error fetching scorecard template:', error);
+        toast.error('Failed to load the scorecard');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [jobId]);
+
+  const updateCompetency = (index: number, value: string) =>
+    setCompetencies(prev => prev.map((name, i) => (i === index ? value : name)));
+
+  const handleSave = async () => {
+    const names = competencies.map(name => name.trim()).filter(Boolean);
+    if (names.length === 0) {
+      toast.error('Add at least one competency');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveScorecardTemplate(jobId, names);
+      const template = await fetchScorecardTemplate(jobId);
+      setCompetencies(template.competencies);
+      setCustom(true);
+      toast.success('Scorecard saved');
+    } catch (error) {
+      console.error('Error saving scorecard template:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the scorecard');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading scorecard...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {!custom && (
+        <p className="text-sm text-gray-500">
+          This job uses the default competencies. Edit and save them to tailor the scorecard.
+        </p>
+      )}
+      <div className="space-y-2">
+        {competencies.map((name, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => updateCompetency(index, e.target.value)}
+              placeholder="e.g. System design"
+              maxLength={MAX_COMPETENCY_LENGTH}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setCompetencies(prev => prev.filter((_, i) => i !== index))}
+              disabled={competencies.length === 1}
+              aria-label={`Remove ${name || 'competency'}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setCompetencies(prev => [...prev, ''])}
+          disabled={competencies.length >= MAX_COMPETENCIES}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Competency
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          Save Scorecard
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Interviewers rate each competency from 1 (poor) to 5 (exceptional) after their interview.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,230 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { SKILL_CATEGORIES } from '@/lib/skills';
+import { toast } from 'sonner';
+import { Loader2, Plus, RefreshCw, X } from 'lucide-react';
+
+type Skill = Tables<'skills'> & { skill_aliases: Tables<'skill_aliases'>[] };
+
+const NO_PARENT = 'none';
+
+// Postgres unique_violation: the name or alias is already taken by some skill
+const isDuplicate = (error: { code?: string }) => error.code === '23505';
+
+export const SkillTaxonomyManager = () => {
+  const [skills, setSkills] = useState<Skill[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState('');
+  const [aliasDrafts, setAliasDrafts] = useState<Record<string, string>>({});
+  const [newSkill, setNewSkill] = useState({ name: '', category: SKILL_CATEGORIES[SKILL_CATEGORIES.length - 1], parentId: NO_PARENT });
+  const [saving, setSaving] = useState(false);
+  const [renormalizing, setRenormalizing] = useState(false);
+
+  const fetchSkills = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('skills')
+        .select('*, skill_aliases (*)')
+        .order('name');
+
+      if (error) throw error;
+      setSkills(data || []);
+    } catch (error) {
+      console.error('Error fetching skills:', error);
+      toast.error('Failed to load skills');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSkills();
+  }, []);
+
+  const addSkill = async () => {
+    const name = newSkill.name.trim();
+    if (!name) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('skills').insert({
+        name,
+        category: newSkill.category,
+        parent_id: newSkill.parentId === NO_PARENT ? null : newSkill.parentId,
+      });
+      if (error) {
+        if (isDuplicate(error)) {
+          toast.error(`"${name}" already exists`);
+          return;
+        }
+        throw error;
+      }
+
+      toast.success(`Added ${name}`);
+      setNewSkill({ ...newSkill, name: '', parentId: NO_PARENT });
+      fetchSkills();
+    } catch (error) {
+      console.error('Error adding skill:', error);
+      toast.error('Failed to add skill');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addAlias = async (skill: Skill) => {
+    const alias = aliasDrafts[skill.id]?.trim();
+    if (!alias) return;
+
+    try {
+      const { error } = await supabase.from('skill_aliases').insert({ skill_id: skill.id, alias });
+      if (error) {
+        if (isDuplicate(error)) {
+          toast.error(`"${alias}" is already an alias`);
+          return;
+        }
+        throw error;
+      }
+
+      setAliasDrafts({ ...aliasDrafts, [skill.id]: '' });
+      fetchSkills();
+    } catch (error) {
+      console.error('Error adding alias:', error);
+      toast.error('Failed to add alias');
+    }
+  };
+
+  const removeAlias = async (aliasId: string) => {
+    try {
+      const { error } = await supabase.from('skill_aliases').delete().eq('id', aliasId);
+      if (error) throw error;
+      fetchSkills();
+    } catch (error) {
+      console.error('Error removing alias:', error);
+      toast.error('Failed to remove alias');
+    }
+  };
+
+  // Alias edits only affect new writes until stored resumes and jobs are re-normalized
+  const renormalize = async () => {
+    setRenormalizing(true);
+    try {
+      const { data, error } = await supabase.rpc('renormalize_skills');
+      if (error) throw error;
+
+      const counts = data as { resumes: number; jobs: number } | null;
+      toast.success(`Updated ${counts?.resumes ?? 0} resumes and ${counts?.jobs ?? 0} jobs`);
+    } catch (error) {
+      console.error('Error re-normalizing skills:', error);
+      toast.error('Failed to apply the skill list to existing data');
+    } finally {
+      setRenormalizing(false);
+    }
+  };
+
+  const term = filter.trim().toLowerCase();
+  const visibleSkills = term
+    ? skills.filter(skill =>
+        skill.name.toLowerCase().includes(term) ||
+        skill.category.toLowerCase().includes(term) ||
+        skill.skill_aliases.some(a => a.alias.toLowerCase().includes(term))
+      )
+    : skills;
+  const skillName = (id: string | null) => skills.find(skill => skill.id === id)?.name;
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading skills...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Input
+          placeholder="New skill name"
+          value={newSkill.name}
+          onChange={(e) => setNewSkill({ ...newSkill, name: e.target.value })}
+          className="w-48"
+        />
+        <Select value={newSkill.category} onValueChange={(category) => setNewSkill({ ...newSkill, category })}>
+          <SelectTrigger className="w-52">
+            <SelectValue placeholder="Category" />
+          </SelectTrigger>
+          <SelectContent>
+            {SKILL_CATEGORIES.map(category => (
+              <SelectItem key={category} value={category}>{category}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={newSkill.parentId} onValueChange={(parentId) => setNewSkill({ ...newSkill, parentId })}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Parent skill" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PARENT}>No parent</SelectItem>
+            {skills.map(skill => (
+              <SelectItem key={skill.id} value={skill.id}>{skill.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={addSkill} disabled={saving || !newSkill.name.trim()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add skill
+        </Button>
+        <Button variant="outline" onClick={renormalize} disabled={renormalizing} className="ml-auto">
+          <RefreshCw className={`h-4 w-4 mr-2 ${renormalizing ? 'animate-spin' : ''}`} />
+          Apply to existing resumes & jobs
+        </Button>
+      </div>
+
+      <Input
+        placeholder="Filter skills, aliases or categories..."
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+      />
+
+      <div className="max-h-[500px] overflow-y-auto space-y-3">
+        {visibleSkills.map(skill => (
+          <div key={skill.id} className="border rounded-lg p-3">
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <span className="font-semibold">{skill.name}</span>
+              <Badge variant="secondary">{skill.category}</Badge>
+              {skill.parent_id && <span className="text-xs text-gray-500">implies {skillName(skill.parent_id)}</span>}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {skill.skill_aliases.map(alias => (
+                <Badge key={alias.id} variant="outline" className="pr-1">
+                  {alias.alias}
+                  <button
+                    type="button"
+                    onClick={() => removeAlias(alias.id)}
+                    className="ml-1 rounded-full p-0.5 hover:bg-gray-200"
+                    aria-label={`Remove alias ${alias.alias}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              <Input
+                placeholder="Add alias"
+                value={aliasDrafts[skill.id] || ''}
+                onChange={(e) => setAliasDrafts({ ...aliasDrafts, [skill.id]: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && addAlias(skill)}
+                className="h-7 w-36 text-xs"
+              />
+            </div>
+          </div>
+        ))}
+        {visibleSkills.length === 0 && <p className="text-sm text-gray-500">No skills match this filter.</p>}
+      </div>
+    </div>
+  );
+};
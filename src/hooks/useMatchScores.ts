@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface MatchFactor {
+  score: number;
+  weight: number;
+  detail: string;
+  matched?: string[];
+  missing?: string[];
+}
+
+export interface MatchScore {
+  score: number;
+  breakdown: {
+    skills: MatchFactor;
+    experience: MatchFactor;
+    role: MatchFactor;
+    location: MatchFactor;
+  };
+}
+
+export interface MatchPair {
+  resumeId: string | null | undefined;
+  jobId: string;
+}
+
+// Keep in sync with MAX_PAIRS in supabase/functions/match-score
+const BATCH_SIZE = 100;
+
+export const matchKey = (resumeId: string, jobId: string) => `${resumeId}:${jobId}`;
+
+export const useMatchScores = (pairs: MatchPair[]) => {
+  const [scores, setScores] = useState<Record<string, MatchScore>>({});
+  const [loading, setLoading] = useState(false);
+
+  // Re-fetch only when the set of pairs changes, not on every new array identity
+  const signature = Array.from(
+    new Set(pairs.filter((p) => p.resumeId).map((p) => matchKey(p.resumeId as string, p.jobId)))
+  ).sort().join(',');
+
+  useEffect(() => {
+    if (!signature) return;
+    let cancelled = false;
+
+    const fetchScores = async () => {
+      setLoading(true);
+      const keys = signature.split(',');
+      const next: Record<string, MatchScore> = {};
+      try {
+        for (let i = 0; i < keys.length; i += BATCH_SIZE) {
+          const batch = keys.slice(i, i + BATCH_SIZE).map((key) => {
+            const [resumeId, jobId] = key.split(':');
+            return { resumeId, jobId };
+          });
+          const { data, error } = await supabase.functions.invoke('match-score', { body: { pairs: batch } });
+          if (error) throw error;
+          for (const result of data?.results || []) {
+            if (!result.error) next[matchKey(result.resumeId, result.jobId)] = result;
+          }
+        }
+        if (!cancelled) setScores(next);
+      } catch (error) {
+        console.error('Error fetching match scores:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchScores();
+    return () => {
+      cancelled = true;
+    };
+  }, [signature]);
+
+  return { scores, loading };
+};
@@ -14,60 +14,984 @@ export type Database = {
   }
   public: {
     Tables: {
+      application_emails: {
+        Row: {
+          application_id: string
+          email_key: string
+          sent_at: string
+        }
+        Insert: {
+          application_id: string
+          email_key: string
+          sent_at?: string
+        }
+        Update: {
+          application_id?: string
+          email_key?: string
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_emails_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "job_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_events: {
+        Row: {
+          actor_id: string | null
+          application_id: string
+          body: string | null
+          created_at: string
+          event_type: string
+          from_status: string | null
+          id: string
+          to_status: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          application_id: string
+          body?: string | null
+          created_at?: string
+          event_type: string
+          from_status?: string | null
+          id?: string
+          to_status?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          application_id?: string
+          body?: string | null
+          created_at?: string
+          event_type?: string
+          from_status?: string | null
+          id?: string
+          to_status?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_events_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "job_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      company_hr_members: {
+        Row: {
+          company_id: string
+          created_at: string
+          hr_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          hr_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          hr_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_hr_members_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "company_hr_members_hr_id_fkey"
+            columns: ["hr_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hiring_decisions: {
+        Row: {
+          application_id: string
+          decided_at: string
+          decided_by: string | null
+          decision: string
+          reason: string
+        }
+        Insert: {
+          application_id: string
+          decided_at?: string
+          decided_by?: string | null
+          decision: string
+          reason: string
+        }
+        Update: {
+          application_id?: string
+          decided_at?: string
+          decided_by?: string | null
+          decision?: string
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hiring_decisions_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: true
+            referencedRelation: "job_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hiring_decisions_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_scorecards: {
+        Row: {
+          application_id: string
+          created_at: string
+          id: string
+          interview_id: string
+          interviewer_id: string | null
+          notes: string | null
+          ratings: Json
+          recommendation: string
+          updated_at: string
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          id?: string
+          interview_id: string
+          interviewer_id?: string | null
+          notes?: string | null
+          ratings: Json
+          recommendation: string
+          updated_at?: string
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          id?: string
+          interview_id?: string
+          interviewer_id?: string | null
+          notes?: string | null
+          ratings?: Json
+          recommendation?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_scorecards_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_scorecards_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "job_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_scorecards_interviewer_id_fkey"
+            columns: ["interviewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_slots: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          ends_at: string
+          id: string
+          interviewers: string[]
+          is_booked: boolean
+          job_id: string
+          location: string | null
+          round: number
+          starts_at: string
+          timezone: string
+          video_url: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          ends_at: string
+          id?: string
+          interviewers?: string[]
+          is_booked?: boolean
+          job_id: string
+          location?: string | null
+          round?: number
+          starts_at: string
+          timezone?: string
+          video_url?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string
+          id?: string
+          interviewers?: string[]
+          is_booked?: boolean
+          job_id?: string
+          location?: string | null
+          round?: number
+          starts_at?: string
+          timezone?: string
+          video_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_slots_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interview_slots_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interviews: {
+        Row: {
+          application_id: string
+          cancel_reason: string | null
+          cancelled_by: string | null
+          created_at: string
+          created_by: string | null
+          ends_at: string
+          id: string
+          interviewers: string[]
+          invited_sequence: number | null
+          location: string | null
+          round: number
+          sequence: number
+          slot_id: string | null
+          starts_at: string
+          status: string
+          timezone: string
+          updated_at: string
+          video_url: string | null
+        }
+        Insert: {
+          application_id: string
+          cancel_reason?: string | null
+          cancelled_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          ends_at: string
+          id?: string
+          interviewers?: string[]
+          invited_sequence?: number | null
+          location?: string | null
+          round?: number
+          sequence?: number
+          slot_id?: string | null
+          starts_at: string
+          status?: string
+          timezone?: string
+          updated_at?: string
+          video_url?: string | null
+        }
+        Update: {
+          application_id?: string
+          cancel_reason?: string | null
+          cancelled_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string
+          id?: string
+          interviewers?: string[]
+          invited_sequence?: number | null
+          location?: string | null
+          round?: number
+          sequence?: number
+          slot_id?: string | null
+          starts_at?: string
+          status?: string
+          timezone?: string
+          updated_at?: string
+          video_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interviews_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "job_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interviews_cancelled_by_fkey"
+            columns: ["cancelled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interviews_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interviews_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "interview_slots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       job_applications: {
         Row: {
           applicant_id: string
           cover_letter: string | null
           created_at: string
           id: string
-          job_id: string
-          response_date: string | null
-          resume_id: string | null
-          status: string
+          job_id: string
+          response_date: string | null
+          resume_id: string | null
+          status: string
+          updated_at: string
+          viewed_at: string | null
+        }
+        Insert: {
+          applicant_id: string
+          cover_letter?: string | null
+          created_at?: string
+          id?: string
+          job_id: string
+          response_date?: string | null
+          resume_id?: string | null
+          status?: string
+          updated_at?: string
+          viewed_at?: string | null
+        }
+        Update: {
+          applicant_id?: string
+          cover_letter?: string | null
+          created_at?: string
+          id?: string
+          job_id?: string
+          response_date?: string | null
+          resume_id?: string | null
+          status?: string
+          updated_at?: string
+          viewed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_applications_applicant_id_fkey"
+            columns: ["applicant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_applications_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_applications_resume_id_fkey"
+            columns: ["resume_id"]
+            isOneToOne: false
+            referencedRelation: "resumes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      jobs: {
+        Row: {
+          company_id: string
+          created_at: string
+          description: string
+          education_level: string | null
+          id: string
+          job_type: string | null
+          location: string | null
+          max_experience_years: number | null
+          min_experience_years: number | null
+          nice_to_have_skills: string[]
+          remote_policy: string | null
+          required_skills: string[]
+          requirements: string | null
+          salary_max: number | null
+          salary_min: number | null
+          seniority_level: string | null
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          description: string
+          education_level?: string | null
+          id?: string
+          job_type?: string | null
+          location?: string | null
+          max_experience_years?: number | null
+          min_experience_years?: number | null
+          nice_to_have_skills?: string[]
+          remote_policy?: string | null
+          required_skills?: string[]
+          requirements?: string | null
+          salary_max?: number | null
+          salary_min?: number | null
+          seniority_level?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          description?: string
+          education_level?: string | null
+          id?: string
+          job_type?: string | null
+          location?: string | null
+          max_experience_years?: number | null
+          min_experience_years?: number | null
+          nice_to_have_skills?: string[]
+          remote_policy?: string | null
+          required_skills?: string[]
+          requirements?: string | null
+          salary_max?: number | null
+          salary_min?: number | null
+          seniority_level?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "jobs_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      offer_templates: {
+        Row: {
+          body: string
+          company_id: string
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          company_id: string
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          company_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offer_templates_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      offers: {
+        Row: {
+          application_id: string
+          approved_by: string | null
+          body: string
+          created_at: string
+          created_by: string | null
+          decline_reason: string | null
+          id: string
+          letter: string
+          respond_by: string | null
+          responded_at: string | null
+          review_note: string | null
+          salary: number
+          sent_at: string | null
+          start_date: string
+          status: string
+          submitted_at: string | null
+          submitted_by: string | null
+          template_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          application_id: string
+          approved_by?: string | null
+          body: string
+          created_at?: string
+          created_by?: string | null
+          decline_reason?: string | null
+          id?: string
+          letter?: string
+          respond_by?: string | null
+          responded_at?: string | null
+          review_note?: string | null
+          salary: number
+          sent_at?: string | null
+          start_date: string
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          template_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          application_id?: string
+          approved_by?: string | null
+          body?: string
+          created_at?: string
+          created_by?: string | null
+          decline_reason?: string | null
+          id?: string
+          letter?: string
+          respond_by?: string | null
+          responded_at?: string | null
+          review_note?: string | null
+          salary?: number
+          sent_at?: string | null
+          start_date?: string
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          template_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offers_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "job_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offers_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offers_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offers_submitted_by_fkey"
+            columns: ["submitted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offers_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "offer_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          applications_count: number | null
+          avatar_url: string | null
+          bio: string | null
+          company_name: string | null
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          is_premium: boolean | null
+          location: string | null
+          phone: string | null
+          premium_expires_at: string | null
+          updated_at: string
+          user_type: string
+          website: string | null
+        }
+        Insert: {
+          applications_count?: number | null
+          avatar_url?: string | null
+          bio?: string | null
+          company_name?: string | null
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id: string
+          is_premium?: boolean | null
+          location?: string | null
+          phone?: string | null
+          premium_expires_at?: string | null
+          updated_at?: string
+          user_type: string
+          website?: string | null
+        }
+        Update: {
+          applications_count?: number | null
+          avatar_url?: string | null
+          bio?: string | null
+          company_name?: string | null
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          is_premium?: boolean | null
+          location?: string | null
+          phone?: string | null
+          premium_expires_at?: string | null
+          updated_at?: string
+          user_type?: string
+          website?: string | null
+        }
+        Relationships: []
+      }
+      resume_analysis_cache: {
+        Row: {
+          analysis: Json
+          content_hash: string
+          created_at: string
+          extracted_text: string
+          id: string
+          last_hit_at: string
+          prompt_version: string
+          provider: string
+        }
+        Insert: {
+          analysis: Json
+          content_hash: string
+          created_at?: string
+          extracted_text: string
+          id?: string
+          last_hit_at?: string
+          prompt_version: string
+          provider: string
+        }
+        Update: {
+          analysis?: Json
+          content_hash?: string
+          created_at?: string
+          extracted_text?: string
+          id?: string
+          last_hit_at?: string
+          prompt_version?: string
+          provider?: string
+        }
+        Relationships: []
+      }
+      resume_analysis_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          resume_id: string
+          run_after: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          resume_id: string
+          run_after?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          resume_id?: string
+          run_after?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resume_analysis_jobs_resume_id_fkey"
+            columns: ["resume_id"]
+            isOneToOne: false
+            referencedRelation: "resumes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resume_certifications: {
+        Row: {
+          created_at: string
+          id: string
+          issued_date: string | null
+          issuer: string | null
+          name: string
+          position: number
+          resume_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          issued_date?: string | null
+          issuer?: string | null
+          name: string
+          position: number
+          resume_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          issued_date?: string | null
+          issuer?: string | null
+          name?: string
+          position?: number
+          resume_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resume_certifications_resume_id_fkey"
+            columns: ["resume_id"]
+            isOneToOne: false
+            referencedRelation: "resumes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resume_documents: {
+        Row: {
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resume_documents_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      resume_drafts: {
+        Row: {
+          content: Json
+          created_at: string
+          document_id: string | null
+          id: string
+          template: string
+          title: string
           updated_at: string
-          viewed_at: string | null
+          user_id: string
         }
         Insert: {
-          applicant_id: string
-          cover_letter?: string | null
+          content?: Json
           created_at?: string
+          document_id?: string | null
           id?: string
-          job_id: string
-          response_date?: string | null
-          resume_id?: string | null
-          status?: string
+          template?: string
+          title?: string
           updated_at?: string
-          viewed_at?: string | null
+          user_id: string
         }
         Update: {
-          applicant_id?: string
-          cover_letter?: string | null
+          content?: Json
           created_at?: string
+          document_id?: string | null
           id?: string
-          job_id?: string
-          response_date?: string | null
-          resume_id?: string | null
-          status?: string
+          template?: string
+          title?: string
           updated_at?: string
-          viewed_at?: string | null
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "job_applications_applicant_id_fkey"
-            columns: ["applicant_id"]
+            foreignKeyName: "resume_drafts_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "resume_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resume_drafts_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      resume_education: {
+        Row: {
+          created_at: string
+          degree: string | null
+          end_date: string | null
+          field_of_study: string | null
+          id: string
+          institution: string | null
+          position: number
+          resume_id: string
+          start_date: string | null
+        }
+        Insert: {
+          created_at?: string
+          degree?: string | null
+          end_date?: string | null
+          field_of_study?: string | null
+          id?: string
+          institution?: string | null
+          position: number
+          resume_id: string
+          start_date?: string | null
+        }
+        Update: {
+          created_at?: string
+          degree?: string | null
+          end_date?: string | null
+          field_of_study?: string | null
+          id?: string
+          institution?: string | null
+          position?: number
+          resume_id?: string
+          start_date?: string | null
+        }
+        Relationships: [
           {
-            foreignKeyName: "job_applications_job_id_fkey"
-            columns: ["job_id"]
+            foreignKeyName: "resume_education_resume_id_fkey"
+            columns: ["resume_id"]
             isOneToOne: false
-            referencedRelation: "jobs"
+            referencedRelation: "resumes"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      resume_languages: {
+        Row: {
+          created_at: string
+          id: string
+          language: string
+          position: number
+          proficiency: string | null
+          resume_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          language: string
+          position: number
+          proficiency?: string | null
+          resume_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          language?: string
+          position?: number
+          proficiency?: string | null
+          resume_id?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "job_applications_resume_id_fkey"
+            foreignKeyName: "resume_languages_resume_id_fkey"
             columns: ["resume_id"]
             isOneToOne: false
             referencedRelation: "resumes"
@@ -75,118 +999,106 @@ export type Database = {
           },
         ]
       }
-      jobs: {
+      resume_links: {
         Row: {
-          company_id: string
           created_at: string
-          description: string
           id: string
-          job_type: string | null
-          location: string | null
-          requirements: string | null
-          salary_max: number | null
-          salary_min: number | null
-          status: string
-          title: string
-          updated_at: string
+          kind: string
+          position: number
+          resume_id: string
+          url: string
         }
         Insert: {
-          company_id: string
           created_at?: string
-          description: string
           id?: string
-          job_type?: string | null
-          location?: string | null
-          requirements?: string | null
-          salary_max?: number | null
-          salary_min?: number | null
-          status?: string
-          title: string
-          updated_at?: string
+          kind: string
+          position: number
+          resume_id: string
+          url: string
         }
         Update: {
-          company_id?: string
           created_at?: string
-          description?: string
           id?: string
-          job_type?: string | null
-          location?: string | null
-          requirements?: string | null
-          salary_max?: number | null
-          salary_min?: number | null
-          status?: string
-          title?: string
-          updated_at?: string
+          kind?: string
+          position?: number
+          resume_id?: string
+          url?: string
         }
         Relationships: [
           {
-            foreignKeyName: "jobs_company_id_fkey"
-            columns: ["company_id"]
+            foreignKeyName: "resume_links_resume_id_fkey"
+            columns: ["resume_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "resumes"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      resume_work_history: {
         Row: {
-          applications_count: number | null
-          avatar_url: string | null
-          bio: string | null
-          company_name: string | null
+          bullets: string[]
+          company: string | null
           created_at: string
-          email: string | null
-          full_name: string | null
+          end_date: string | null
           id: string
-          is_premium: boolean | null
+          is_current: boolean
           location: string | null
-          phone: string | null
-          premium_expires_at: string | null
-          updated_at: string
-          user_type: string
-          website: string | null
+          months: number | null
+          position: number
+          resume_id: string
+          start_date: string | null
+          title: string | null
         }
         Insert: {
-          applications_count?: number | null
-          avatar_url?: string | null
-          bio?: string | null
-          company_name?: string | null
+          bullets?: string[]
+          company?: string | null
           created_at?: string
-          email?: string | null
-          full_name?: string | null
-          id: string
-          is_premium?: boolean | null
+          end_date?: string | null
+          id?: string
+          is_current?: boolean
           location?: string | null
-          phone?: string | null
-          premium_expires_at?: string | null
-          updated_at?: string
-          user_type: string
-          website?: string | null
+          months?: number | null
+          position: number
+          resume_id: string
+          start_date?: string | null
+          title?: string | null
         }
         Update: {
-          applications_count?: number | null
-          avatar_url?: string | null
-          bio?: string | null
-          company_name?: string | null
+          bullets?: string[]
+          company?: string | null
           created_at?: string
-          email?: string | null
-          full_name?: string | null
+          end_date?: string | null
           id?: string
-          is_premium?: boolean | null
+          is_current?: boolean
           location?: string | null
-          phone?: string | null
-          premium_expires_at?: string | null
-          updated_at?: string
-          user_type?: string
-          website?: string | null
+          months?: number | null
+          position?: number
+          resume_id?: string
+          start_date?: string | null
+          title?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "resume_work_history_resume_id_fkey"
+            columns: ["resume_id"]
+            isOneToOne: false
+            referencedRelation: "resumes"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       resumes: {
         Row: {
+          analysis_error: string | null
+          analysis_progress: number
+          analysis_status: string
+          archived_at: string | null
           ats_score: number | null
+          career_gaps: Json
           created_at: string
+          document_id: string
           experience_level: string | null
+          experience_months: number | null
           experience_years: number | null
           file_name: string
           file_size: number | null
@@ -200,11 +1112,19 @@ export type Database = {
           summary: string | null
           updated_at: string
           user_id: string
+          version: number
         }
         Insert: {
+          analysis_error?: string | null
+          analysis_progress?: number
+          analysis_status?: string
+          archived_at?: string | null
           ats_score?: number | null
+          career_gaps?: Json
           created_at?: string
+          document_id?: string
           experience_level?: string | null
+          experience_months?: number | null
           experience_years?: number | null
           file_name: string
           file_size?: number | null
@@ -218,11 +1138,19 @@ export type Database = {
           summary?: string | null
           updated_at?: string
           user_id: string
+          version?: number
         }
         Update: {
+          analysis_error?: string | null
+          analysis_progress?: number
+          analysis_status?: string
+          archived_at?: string | null
           ats_score?: number | null
+          career_gaps?: Json
           created_at?: string
+          document_id?: string
           experience_level?: string | null
+          experience_months?: number | null
           experience_years?: number | null
           file_name?: string
           file_size?: number | null
@@ -236,8 +1164,16 @@ export type Database = {
           summary?: string | null
           updated_at?: string
           user_id?: string
+          version?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "resumes_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "resume_documents"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "resumes_user_id_fkey"
             columns: ["user_id"]
@@ -247,12 +1183,244 @@ export type Database = {
           },
         ]
       }
+      scorecard_templates: {
+        Row: {
+          competencies: string[]
+          job_id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          competencies: string[]
+          job_id: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          competencies?: string[]
+          job_id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scorecard_templates_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: true
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scorecard_templates_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skill_aliases: {
+        Row: {
+          alias: string
+          alias_key: string
+          created_at: string
+          id: string
+          skill_id: string
+        }
+        Insert: {
+          alias: string
+          alias_key?: never
+          created_at?: string
+          id?: string
+          skill_id: string
+        }
+        Update: {
+          alias?: string
+          alias_key?: never
+          created_at?: string
+          id?: string
+          skill_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "skill_aliases_skill_id_fkey"
+            columns: ["skill_id"]
+            isOneToOne: false
+            referencedRelation: "skills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skills: {
+        Row: {
+          category: string
+          created_at: string
+          id: string
+          name: string
+          name_key: string
+          parent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          id?: string
+          name: string
+          name_key?: never
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          id?: string
+          name?: string
+          name_key?: never
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "skills_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "skills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_company_hr: {
+        Args: { p_email: string }
+        Returns: string
+      }
+      application_role: {
+        Args: { p_application_id: string }
+        Returns: string
+      }
+      book_interview_slot: {
+        Args: { p_application_id: string; p_slot_id: string }
+        Returns: string
+      }
+      can_view_resume: {
+        Args: { p_resume_id: string }
+        Returns: boolean
+      }
+      cancel_interview: {
+        Args: { p_interview_id: string; p_reason?: string }
+        Returns: undefined
+      }
+      claim_resume_analysis_jobs: {
+        Args: { p_limit?: number; p_lock_timeout?: unknown }
+        Returns: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          resume_id: string
+          run_after: string
+          status: string
+          updated_at: string
+        }[]
+      }
+      delete_resume_version: {
+        Args: { p_resume_id: string }
+        Returns: string
+      }
+      enqueue_resume_analysis: {
+        Args: { p_resume_id: string }
+        Returns: undefined
+      }
+      is_company_member: {
+        Args: { p_company_id: string }
+        Returns: boolean
+      }
+      is_job_employer: {
+        Args: { p_job_id: string }
+        Returns: boolean
+      }
+      is_platform_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      merge_offer_letter: {
+        Args: {
+          p_body: string
+          p_candidate_name: string
+          p_company_name: string
+          p_job_title: string
+          p_salary: number
+          p_start_date: string
+        }
+        Returns: string
+      }
+      normalize_skill: {
+        Args: { p_raw: string }
+        Returns: string
+      }
+      normalize_skills: {
+        Args: { p_skills: string[] }
+        Returns: string[]
+      }
+      record_hiring_decision: {
+        Args: { p_application_id: string; p_decision: string; p_reason: string }
+        Returns: undefined
+      }
+      renormalize_skills: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      replace_resume_structure: {
+        Args: { p_resume_id: string; p_structure: Json }
+        Returns: undefined
+      }
+      reschedule_interview: {
+        Args: { p_interview_id: string; p_slot_id: string }
+        Returns: undefined
+      }
+      respond_to_offer: {
+        Args: { p_accept: boolean; p_offer_id: string; p_reason?: string }
+        Returns: undefined
+      }
+      review_offer: {
+        Args: { p_approve: boolean; p_note?: string; p_offer_id: string }
+        Returns: undefined
+      }
+      scorecard_competencies: {
+        Args: { p_job_id: string }
+        Returns: string[]
+      }
+      skill_key: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      submit_application: {
+        Args: {
+          p_applicant_id?: string
+          p_cover_letter?: string
+          p_job_id: string
+          p_resume_id?: string
+        }
+        Returns: string
+      }
+      submit_offer: {
+        Args: { p_offer_id: string }
+        Returns: undefined
+      }
+      wake_resume_analysis_worker: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      withdraw_offer: {
+        Args: { p_offer_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,144 @@
+import { supabase } from '@/integrations/supabase/client';
+import { employerNextStatuses, type ApplicationStatus } from '@/lib/applicationStatus';
+import { isHiringDecision, recordHiringDecision } from '@/lib/scorecards';
+import { canonicalSkill, skillKey, type SkillLookup } from '@/lib/skills';
+
+export interface PipelineJob {
+  id: string;
+  title: string;
+  status: string;
+}
+
+export interface PipelineApplication {
+  id: string;
+  job_id: string;
+  resume_id: string | null;
+  status: string;
+  cover_letter: string | null;
+  created_at: string;
+  viewed_at: string | null;
+  response_date: string | null;
+  profiles: {
+    full_name: string | null;
+    email: string | null;
+    phone: string | null;
+    location: string | null;
+  } | null;
+  resumes: {
+    file_name: string;
+    version: number;
+    analysis_status: string;
+    ats_score: number | null;
+    job_role: string | null;
+    experience_years: number | null;
+    experience_level: string | null;
+    skills: string[] | null;
+    strength_areas: string[] | null;
+    missing_skills: string[] | null;
+    summary: string | null;
+  } | null;
+}
+
+export interface MoveResult {
+  moved: string[];
+  skipped: string[];
+  failed: string[];
+}
+
+// Every job of the company, whatever its status, newest first
+export const fetchPipelineJobs = async (companyId: string): Promise<PipelineJob[]> => {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('id, title, status')
+    .eq('company_id', companyId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchPipelineApplications = async (jobId: string): Promise<PipelineApplication[]> => {
+  const { data, error } = await supabase
+    .from('job_applications')
+    .select(`
+      id,
+      job_id,
+      resume_id,
+      status,
+      cover_letter,
+      created_at,
+      viewed_at,
+      response_date,
+      profiles:applicant_id (
+        full_name,
+        email,
+        phone,
+        location
+      ),
+      resumes:resume_id (
+        file_name,
+        version,
+        analysis_status,
+        ats_score,
+        job_role,
+        experience_years,
+        experience_level,
+        skills,
+        strength_areas,
+        missing_skills,
+        summary
+      )
+    `)
+    .eq('job_id', jobId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as PipelineApplication[];
+};
+
+// Applications that can't make the move from their current stage are skipped rather than
+// sent, so one stale card doesn't fail the whole batch. The database still has the final say.
+// Hiring and rejecting are recorded as decisions and need the reason, shared by the batch.
+export const moveApplications = async (
+  applications: PipelineApplication[],
+  status: ApplicationStatus,
+  reason = ''
+): Promise<MoveResult> => {
+  const result: MoveResult = { moved: [], skipped: [], failed: [] };
+  const movable = applications.filter(app => {
+    if (employerNextStatuses(app.status).includes(status)) return true;
+    result.skipped.push(app.id);
+    return false;
+  });
+
+  await Promise.all(movable.map(async app => {
+    const { error } = isHiringDecision(status)
+      ? await recordHiringDecision(app.id, status, reason).then(() => ({ error: null }), error => ({ error }))
+      : await supabase.from('job_applications').update({ status }).eq('id', app.id);
+
+    if (error) {
+      console.error('Error moving application:', error);
+      result.failed.push(app.id);
+    } else {
+      result.moved.push(app.id);
+    }
+  }));
+  return result;
+};
+
+// The database sets the actual time and ignores the update once viewed_at is set
+export const markApplicationViewed = async (applicationId: string) => {
+  const { error } = await supabase
+    .from('job_applications')
+    .update({ viewed_at: new Date().toISOString() })
+    .eq('id', applicationId);
+
+  if (error) throw error;
+};
+
+// Resume skills are stored under their canonical names, so filter terms are resolved through
+// the taxonomy first ("js" finds "JavaScript"); unknown terms are compared as typed
+export const hasAllSkills = (application: PipelineApplication, terms: string[], lookup: SkillLookup) => {
+  const skills = new Set((application.resumes?.skills || []).map(skillKey));
+  return terms.every(term => skills.has(skillKey(canonicalSkill(lookup, term) ?? term)));
+};
@@ -0,0 +1,70 @@
+import { supabase } from '@/integrations/supabase/client';
+import { applicationStatusLabel } from '@/lib/applicationStatus';
+
+// Mirrors the event_type CHECK constraint on public.application_events
+export type ApplicationEventType = 'submitted' | 'status_changed' | 'viewed' | 'note' | 'message';
+
+export interface ApplicationEvent {
+  id: string;
+  application_id: string;
+  event_type: ApplicationEventType;
+  from_status: string | null;
+  to_status: string | null;
+  body: string | null;
+  created_at: string;
+  actor: {
+    full_name: string | null;
+    company_name: string | null;
+    user_type: string;
+  } | null;
+}
+
+// Oldest first; row level security hides employer notes from the candidate
+export const fetchApplicationEvents = async (applicationId: string): Promise<ApplicationEvent[]> => {
+  const { data, error } = await supabase
+    .from('application_events')
+    .select(`
+      *,
+      actor:actor_id (
+        full_name,
+        company_name,
+        user_type
+      )
+    `)
+    .eq('application_id', applicationId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as ApplicationEvent[];
+};
+
+// Actor and time are set by the database
+export const addApplicationEvent = async (applicationId: string, eventType: 'note' | 'message', body: string) => {
+  const { error } = await supabase
+    .from('application_events')
+    .insert({ application_id: applicationId, event_type: eventType, body });
+
+  if (error) throw error;
+};
+
+export const actorName = (event: ApplicationEvent) => {
+  if (!event.actor) return 'System';
+  if (event.actor.user_type === 'company') return event.actor.company_name || event.actor.full_name || 'Employer';
+  if (event.actor.user_type === 'hr') return `${event.actor.full_name || 'HR'} (HR)`;
+  return event.actor.full_name || 'Candidate';
+};
+
+export const describeApplicationEvent = (event: ApplicationEvent) => {
+  switch (event.event_type) {
+    case 'submitted':
+      return event.to_status === 'applied' ? 'Application submitted' : 'Candidate referred';
+    case 'viewed':
+      return 'Application viewed by the employer';
+    case 'status_changed':
+      return `Moved from ${applicationStatusLabel(event.from_status || '')} to ${applicationStatusLabel(event.to_status || '')}`;
+    case 'note':
+      return 'Internal note';
+    case 'message':
+      return 'Message';
+  }
+};
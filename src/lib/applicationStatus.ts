@@ -0,0 +1,62 @@
+// Mirrors the status CHECK constraint and the enforce_application_status() trigger on
+// public.job_applications
+
+export const APPLICATION_STATUSES = ['applied', 'screening', 'interview', 'offer', 'hired', 'rejected', 'withdrawn'] as const;
+
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+export const APPLICATION_STATUS_OPTIONS: { value: ApplicationStatus; label: string }[] = [
+  { value: 'applied', label: 'Applied' },
+  { value: 'screening', label: 'Screening' },
+  { value: 'interview', label: 'Interview' },
+  { value: 'offer', label: 'Offer' },
+  { value: 'hired', label: 'Hired' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'withdrawn', label: 'Withdrawn' },
+];
+
+// Forward-only pipeline; hired, rejected and withdrawn are final
+export const APPLICATION_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  applied: ['screening', 'rejected', 'withdrawn'],
+  screening: ['interview', 'rejected', 'withdrawn'],
+  interview: ['offer', 'rejected', 'withdrawn'],
+  offer: ['hired', 'rejected', 'withdrawn'],
+  hired: [],
+  rejected: [],
+  withdrawn: [],
+};
+
+export const APPLICATION_STATUS_STYLES: Record<ApplicationStatus, string> = {
+  applied: 'bg-gray-100 text-gray-800',
+  screening: 'bg-blue-100 text-blue-800',
+  interview: 'bg-purple-100 text-purple-800',
+  offer: 'bg-amber-100 text-amber-800',
+  hired: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  withdrawn: 'bg-gray-100 text-gray-500',
+};
+
+export const isApplicationStatus = (value: string): value is ApplicationStatus =>
+  (APPLICATION_STATUSES as readonly string[]).includes(value);
+
+export const applicationStatusLabel = (status: string) =>
+  APPLICATION_STATUS_OPTIONS.find(option => option.value === status)?.label ?? status;
+
+export const isFinalStatus = (status: string) =>
+  isApplicationStatus(status) && APPLICATION_TRANSITIONS[status].length === 0;
+
+// Moves the employer can make next; withdrawing is left to the applicant
+export const employerNextStatuses = (status: string): ApplicationStatus[] =>
+  isApplicationStatus(status) ? APPLICATION_TRANSITIONS[status].filter(next => next !== 'withdrawn') : [];
+
+export const canWithdraw = (status: string) =>
+  isApplicationStatus(status) && APPLICATION_TRANSITIONS[status].includes('withdrawn');
+
+// Button labels for the employer moves
+export const APPLICATION_STATUS_ACTIONS: Partial<Record<ApplicationStatus, string>> = {
+  screening: 'Screen',
+  interview: 'Interview',
+  offer: 'Make Offer',
+  hired: 'Hire',
+  rejected: 'Reject',
+};
@@ -0,0 +1,35 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Applications a job seeker without premium may submit; enforced by submit_application()
+export const FREE_APPLICATION_LIMIT = 3;
+
+export interface SubmitApplicationParams {
+  jobId: string;
+  resumeId?: string; // defaults to the applicant's latest resume version
+  coverLetter?: string;
+  applicantId?: string; // set by HR users to refer a candidate
+}
+
+// The only way to create an application: quota, job status, duplicate and resume ownership
+// checks all run server-side. Errors carry the server's message, ready to show to the user.
+export async function submitApplication({ jobId, resumeId, coverLetter, applicantId }: SubmitApplicationParams): Promise<string> {
+  const { data, error } = await supabase.rpc('submit_application', {
+    p_job_id: jobId,
+    p_resume_id: resumeId,
+    p_cover_letter: coverLetter,
+    p_applicant_id: applicantId
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Mirrors the events of the send-application-email function
+export type ApplicationEmailEvent = 'applied' | 'status_changed' | 'offer_sent';
+
+// Emails the people involved about a change to the application. Best effort: the change
+// itself already happened, so failures are only logged.
+export async function sendApplicationEmail(event: ApplicationEmailEvent, applicationId: string) {
+  const { error } = await supabase.functions.invoke('send-application-email', { body: { event, applicationId } });
+  if (error) console.error('Error sending application email:', error);
+}
@@ -0,0 +1,31 @@
+import { invokeResumeFunction } from '@/lib/resumeAnalysis';
+
+// Mirrors supabase/functions/_shared/llm/types.ts
+export type CoverLetterTone = 'professional' | 'enthusiastic' | 'conversational';
+export type CoverLetterLength = 'short' | 'medium' | 'long';
+
+export const TONE_OPTIONS: { value: CoverLetterTone; label: string }[] = [
+  { value: 'professional', label: 'Professional' },
+  { value: 'enthusiastic', label: 'Enthusiastic' },
+  { value: 'conversational', label: 'Conversational' },
+];
+
+export const LENGTH_OPTIONS: { value: CoverLetterLength; label: string }[] = [
+  { value: 'short', label: 'Short (~150 words)' },
+  { value: 'medium', label: 'Medium (~250 words)' },
+  { value: 'long', label: 'Long (~400 words)' },
+];
+
+// Matches the server's cap on generated letters
+export const MAX_COVER_LETTER_LENGTH = 5000;
+
+export interface CoverLetterBody {
+  resumeId: string;
+  jobId: string;
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+}
+
+// Drafts a letter from the resume's analysis and the job posting; the caller lets the user edit it
+export const generateCoverLetter = async (body: CoverLetterBody) =>
+  (await invokeResumeFunction<{ letter: string }>('generate-cover-letter', body, true)).letter;
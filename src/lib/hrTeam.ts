@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// HR users a company has added to its team; they work the company's applications alongside it
+export interface HrTeamMember {
+  hr_id: string;
+  created_at: string;
+  hr: {
+    full_name: string | null;
+    email: string | null;
+  } | null;
+}
+
+export const fetchHrTeam = async (companyId: string): Promise<HrTeamMember[]> => {
+  const { data, error } = await supabase
+    .from('company_hr_members')
+    .select(`
+      hr_id,
+      created_at,
+      hr:hr_id (
+        full_name,
+        email
+      )
+    `)
+    .eq('company_id', companyId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as unknown as HrTeamMember[];
+};
+
+export const addHrTeamMember = async (email: string) => {
+  const { error } = await supabase.rpc('add_company_hr', { p_email: email });
+  if (error) throw new Error(error.message);
+};
+
+export const removeHrTeamMember = async (companyId: string, hrId: string) => {
+  const { error } = await supabase
+    .from('company_hr_members')
+    .delete()
+    .eq('company_id', companyId)
+    .eq('hr_id', hrId);
+  if (error) throw new Error(error.message);
+};
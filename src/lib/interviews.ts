@@ -0,0 +1,219 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Mirrors public.interview_slots and public.interviews
+
+export interface InterviewSlot {
+  id: string;
+  job_id: string;
+  round: number;
+  starts_at: string;
+  ends_at: string;
+  timezone: string;
+  location: string | null;
+  video_url: string | null;
+  interviewers: string[];
+  is_booked: boolean;
+}
+
+export type InterviewStatus = 'scheduled' | 'cancelled';
+
+export interface Interview {
+  id: string;
+  application_id: string;
+  slot_id: string | null;
+  round: number;
+  starts_at: string;
+  ends_at: string;
+  timezone: string;
+  location: string | null;
+  video_url: string | null;
+  interviewers: string[];
+  status: InterviewStatus;
+  cancel_reason: string | null;
+  updated_at: string;
+}
+
+export interface NewInterviewSlots {
+  jobId: string;
+  // First slot's local date and time, e.g. "2025-09-01" and "14:30", in timeZone
+  date: string;
+  startTime: string;
+  durationMinutes: number;
+  count: number;
+  round: number;
+  timeZone: string;
+  location?: string;
+  videoUrl?: string;
+  interviewers: string[];
+}
+
+export const DURATION_OPTIONS = [
+  { value: '30', label: '30 minutes' },
+  { value: '45', label: '45 minutes' },
+  { value: '60', label: '1 hour' },
+  { value: '90', label: '1.5 hours' },
+  { value: '120', label: '2 hours' },
+];
+
+export const ROUND_OPTIONS = Array.from({ length: 5 }, (_, i) => ({ value: String(i + 1), label: `Round ${i + 1}` }));
+
+export const MAX_SLOTS_PER_BATCH = 8;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Offset of timeZone from UTC at the given instant, in minutes
+const zoneOffset = (instant: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(instant).map(part => [part.type, part.value])
+  );
+  const asUtc = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return (asUtc - instant.getTime()) / 60000;
+};
+
+// "2025-09-01", "14:30" in Europe/Berlin -> the matching instant. The offset is looked up twice
+// so dates on the other side of a daylight saving change still land on the wall-clock time.
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const firstGuess = wallClock - zoneOffset(new Date(wallClock), timeZone) * 60000;
+  return new Date(wallClock - zoneOffset(new Date(firstGuess), timeZone) * 60000);
+};
+
+export const parseInterviewers = (input: string) =>
+  Array.from(new Set(input.split(/[,;\s]+/).map(email => email.trim().toLowerCase()).filter(Boolean)));
+
+export const invalidInterviewers = (emails: string[]) => emails.filter(email => !EMAIL_PATTERN.test(email));
+
+// "Mon, Sep 1, 2:30 PM – 3:30 PM" in the given zone, with the zone's short name
+export const formatInterviewTime = (startsAt: string, endsAt: string, timeZone = browserTimeZone()) => {
+  const day = new Intl.DateTimeFormat(undefined, { timeZone, weekday: 'short', month: 'short', day: 'numeric' });
+  const time = new Intl.DateTimeFormat(undefined, { timeZone, hour: 'numeric', minute: '2-digit' });
+  const zone = new Intl.DateTimeFormat(undefined, { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(startsAt))
+    .find(part => part.type === 'timeZoneName')?.value;
+  return `${day.format(new Date(startsAt))}, ${time.format(new Date(startsAt))} – ${time.format(new Date(endsAt))}${zone ? ` ${zone}` : ''}`;
+};
+
+export const isUpcoming = (interview: Pick<Interview, 'status' | 'starts_at'>) =>
+  interview.status === 'scheduled' && new Date(interview.starts_at).getTime() > Date.now();
+
+export const fetchInterviewSlots = async (jobId: string): Promise<InterviewSlot[]> => {
+  const { data, error } = await supabase
+    .from('interview_slots')
+    .select('*')
+    .eq('job_id', jobId)
+    .gt('starts_at', new Date().toISOString())
+    .order('starts_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchOpenInterviewSlots = async (jobId: string) =>
+  (await fetchInterviewSlots(jobId)).filter(slot => !slot.is_booked);
+
+// Back-to-back slots from the first start time; the database rejects interviewer conflicts
+export const publishInterviewSlots = async (input: NewInterviewSlots) => {
+  const firstStart = zonedTimeToUtc(input.date, input.startTime, input.timeZone).getTime();
+  const length = input.durationMinutes * 60000;
+
+  const { error } = await supabase
+    .from('interview_slots')
+    .insert(Array.from({ length: input.count }, (_, i) => ({
+      job_id: input.jobId,
+      round: input.round,
+      starts_at: new Date(firstStart + i * length).toISOString(),
+      ends_at: new Date(firstStart + (i + 1) * length).toISOString(),
+      timezone: input.timeZone,
+      location: input.location || null,
+      video_url: input.videoUrl || null,
+      interviewers: input.interviewers,
+    })));
+
+  if (error) throw error;
+};
+
+export const deleteInterviewSlot = async (slotId: string) => {
+  const { error } = await supabase.from('interview_slots').delete().eq('id', slotId);
+  if (error) throw error;
+};
+
+// Newest first, cancelled ones included
+export const fetchInterviews = async (applicationId: string): Promise<Interview[]> => {
+  const { data, error } = await supabase
+    .from('interviews')
+    .select('*')
+    .eq('application_id', applicationId)
+    .order('starts_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as Interview[];
+};
+
+export const bookInterviewSlot = async (slotId: string, applicationId: string) => {
+  const { data, error } = await supabase.rpc('book_interview_slot', {
+    p_slot_id: slotId,
+    p_application_id: applicationId,
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+};
+
+export const rescheduleInterview = async (interviewId: string, slotId: string) => {
+  const { error } = await supabase.rpc('reschedule_interview', {
+    p_interview_id: interviewId,
+    p_slot_id: slotId,
+  });
+
+  if (error) throw new Error(error.message);
+};
+
+export const cancelInterview = async (interviewId: string, reason?: string) => {
+  const { error } = await supabase.rpc('cancel_interview', {
+    p_interview_id: interviewId,
+    p_reason: reason,
+  });
+
+  if (error) throw new Error(error.message);
+};
+
+// Email calendar invites for whatever changed on the application's interviews since the last
+// call. Best effort: the change itself already happened, so failures are only logged.
+export async function sendInterviewInvites(applicationId: string) {
+  const { error } = await supabase.functions.invoke('interview-invites', { body: { applicationId } });
+  if (error) console.error('Error sending interview invites:', error);
+}
+
+export async function downloadInterviewInvite(interviewId: string) {
+  const { data, error } = await supabase.functions.invoke('interview-invites', { body: { interviewId } });
+  if (error) throw error;
+  if (!data?.ok) throw new Error('Could not create the calendar file');
+
+  const url = URL.createObjectURL(new Blob([data.ics], { type: 'text/calendar' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = data.fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// The caller's private subscription URL; rotate replaces it and stops the old one working
+export async function fetchCalendarFeedUrl(rotate = false): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('interview-calendar', { body: { rotate } });
+  if (error) throw error;
+  if (!data?.ok) throw new Error('Could not load the calendar feed');
+  return data.url;
+}
@@ -0,0 +1,49 @@
+// Option values mirror the CHECK constraints on public.jobs
+
+export const SENIORITY_LEVELS = [
+  { value: 'intern', label: 'Intern' },
+  { value: 'entry', label: 'Entry level' },
+  { value: 'mid', label: 'Mid level' },
+  { value: 'senior', label: 'Senior' },
+  { value: 'lead', label: 'Lead / Principal' },
+  { value: 'executive', label: 'Executive' },
+];
+
+export const EDUCATION_LEVELS = [
+  { value: 'none', label: 'No requirement' },
+  { value: 'high_school', label: 'High school' },
+  { value: 'associate', label: "Associate's degree" },
+  { value: 'bachelor', label: "Bachelor's degree" },
+  { value: 'master', label: "Master's degree" },
+  { value: 'doctorate', label: 'Doctorate' },
+];
+
+export const REMOTE_POLICIES = [
+  { value: 'onsite', label: 'On-site' },
+  { value: 'hybrid', label: 'Hybrid' },
+  { value: 'remote', label: 'Remote' },
+];
+
+export const optionLabel = (options: { value: string; label: string }[], value: string | null | undefined) =>
+  options.find(option => option.value === value)?.label ?? value ?? '';
+
+// "React, TypeScript; SQL" -> ['React', 'TypeScript', 'SQL'] (case-insensitive de-dupe)
+export const parseSkillList = (input: string): string[] => {
+  const seen = new Set<string>();
+  return input
+    .split(/[,;\n]/)
+    .map(skill => skill.trim())
+    .filter(skill => {
+      const key = skill.toLowerCase();
+      if (!skill || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export const formatExperienceRange = (min: number | null | undefined, max: number | null | undefined) => {
+  if (min != null && max != null) return `${min}-${max} years`;
+  if (min != null) return `${min}+ years`;
+  if (max != null) return `Up to ${max} years`;
+  return null;
+};
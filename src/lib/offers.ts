@@ -0,0 +1,261 @@
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+// Mirrors public.offer_templates and public.offers. Drafts are written directly; every status
+// change goes through the submit_offer, review_offer, withdraw_offer and respond_to_offer
+// functions.
+
+export type OfferStatus = 'draft' | 'pending_approval' | 'sent' | 'accepted' | 'declined' | 'withdrawn';
+
+export interface OfferTemplate {
+  id: string;
+  company_id: string;
+  name: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Offer {
+  id: string;
+  application_id: string;
+  template_id: string | null;
+  status: OfferStatus;
+  body: string;
+  // Merged by the database from body; what the candidate reads
+  letter: string;
+  salary: number;
+  start_date: string;
+  respond_by: string | null;
+  submitted_at: string | null;
+  review_note: string | null;
+  sent_at: string | null;
+  responded_at: string | null;
+  decline_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OfferInput {
+  templateId: string | null;
+  body: string;
+  salary: number;
+  // yyyy-MM-dd
+  startDate: string;
+  respondBy: string | null;
+}
+
+// What the merge fields are filled from, and the salary range offers must stay within
+export interface OfferContext {
+  candidateName: string | null;
+  jobTitle: string;
+  companyName: string | null;
+  salaryMin: number | null;
+  salaryMax: number | null;
+}
+
+export const MAX_OFFER_BODY_LENGTH = 20000;
+export const MAX_OFFER_TEMPLATE_NAME_LENGTH = 100;
+
+// Mirrors merge_offer_letter() in the database
+export const MERGE_FIELDS = [
+  { value: 'candidate_name', label: 'Candidate name' },
+  { value: 'job_title', label: 'Job title' },
+  { value: 'company_name', label: 'Company name' },
+  { value: 'salary', label: 'Salary' },
+  { value: 'start_date', label: 'Start date' },
+];
+
+export const DEFAULT_OFFER_TEMPLATE = `Dear {{candidate_name}},
+
+We are delighted to offer you the position of {{job_title}} at {{company_name}}.
+
+Your starting salary will be {{salary}} per year, and your first day will be {{start_date}}.
+
+We were impressed by everything you shared during the interviews and look forward to having you on the team. Please accept or decline this offer from your dashboard.
+
+Sincerely,
+{{company_name}}`;
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  draft: 'Draft',
+  pending_approval: 'Awaiting approval',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  withdrawn: 'Withdrawn',
+};
+
+export const OFFER_STATUS_STYLES: Record<OfferStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  pending_approval: 'bg-amber-100 text-amber-800',
+  sent: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-800',
+  withdrawn: 'bg-gray-100 text-gray-500',
+};
+
+// Offers that still count; declined and withdrawn ones are history
+export const isOpenOffer = (offer: Offer) => ['draft', 'pending_approval', 'sent', 'accepted'].includes(offer.status);
+
+export const formatSalary = (salary: number) => `$${salary.toLocaleString('en-US')}`;
+
+export const formatOfferDate = (date: string) => format(parseISO(date), 'MMMM d, yyyy');
+
+// Client-side preview of the letter; the database merges the copy that is sent
+export const mergeOfferLetter = (body: string, context: OfferContext, salary: number | null, startDate: string | null) =>
+  body
+    .split('{{salary}}').join(salary ? formatSalary(salary) : '{{salary}}')
+    .split('{{start_date}}').join(startDate ? formatOfferDate(startDate) : '{{start_date}}')
+    .split('{{job_title}}').join(context.jobTitle)
+    .split('{{company_name}}').join(context.companyName ?? '')
+    .split('{{candidate_name}}').join(context.candidateName ?? '');
+
+// Placeholders that aren't merge fields, usually typos, which would reach the candidate as-is
+export const unknownMergeFields = (body: string) => {
+  const known = MERGE_FIELDS.map(field => field.value);
+  const found = Array.from(body.matchAll(/\{\{\s*([^}]*?)\s*\}\}/g), match => match[1]);
+  return Array.from(new Set(found.filter(name => !known.includes(name))));
+};
+
+// The salary range message for the job, or null when the salary is within it
+export const salaryRangeError = (salary: number, context: OfferContext) => {
+  if ((context.salaryMin !== null && salary < context.salaryMin) || (context.salaryMax !== null && salary > context.salaryMax)) {
+    const min = context.salaryMin !== null ? formatSalary(context.salaryMin) : 'any';
+    const max = context.salaryMax !== null ? formatSalary(context.salaryMax) : 'any';
+    return `The salary must be within the job's range of ${min} to ${max}`;
+  }
+  return null;
+};
+
+export const fetchOfferTemplates = async (companyId: string): Promise<OfferTemplate[]> => {
+  const { data, error } = await supabase
+    .from('offer_templates')
+    .select('*')
+    .eq('company_id', companyId)
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveOfferTemplate = async (companyId: string, name: string, body: string, existingId?: string) => {
+  const values = { name: name.trim(), body: body.trim() };
+  const { error } = existingId
+    ? await supabase.from('offer_templates').update(values).eq('id', existingId)
+    : await supabase.from('offer_templates').insert({ ...values, company_id: companyId });
+
+  if (error) throw new Error(error.message);
+};
+
+export const deleteOfferTemplate = async (templateId: string) => {
+  const { error } = await supabase.from('offer_templates').delete().eq('id', templateId);
+  if (error) throw new Error(error.message);
+};
+
+export const fetchOfferContext = async (applicationId: string): Promise<OfferContext> => {
+  const { data, error } = await supabase
+    .from('job_applications')
+    .select(`
+      candidate:applicant_id ( full_name ),
+      jobs!inner (
+        title,
+        salary_min,
+        salary_max,
+        company:company_id ( company_name )
+      )
+    `)
+    .eq('id', applicationId)
+    .single();
+
+  if (error) throw error;
+  const row = data as unknown as {
+    candidate: { full_name: string | null } | null;
+    jobs: { title: string; salary_min: number | null; salary_max: number | null; company: { company_name: string | null } | null };
+  };
+  return {
+    candidateName: row.candidate?.full_name ?? null,
+    jobTitle: row.jobs.title,
+    companyName: row.jobs.company?.company_name ?? null,
+    salaryMin: row.jobs.salary_min,
+    salaryMax: row.jobs.salary_max,
+  };
+};
+
+// Every offer made on the application, newest first. Candidates only get the ones sent to them.
+export const fetchOffers = async (applicationId: string): Promise<Offer[]> => {
+  const { data, error } = await supabase
+    .from('offers')
+    .select('*')
+    .eq('application_id', applicationId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as Offer[];
+};
+
+// Creates a draft, or updates one; the database checks the salary range and start date
+export const saveOfferDraft = async (applicationId: string, input: OfferInput, existingId?: string) => {
+  const values = {
+    template_id: input.templateId,
+    body: input.body.trim(),
+    salary: input.salary,
+    start_date: input.startDate,
+    respond_by: input.respondBy,
+  };
+  const { error } = existingId
+    ? await supabase.from('offers').update(values).eq('id', existingId)
+    : await supabase.from('offers').insert({ ...values, application_id: applicationId });
+
+  if (error) throw new Error(error.message);
+};
+
+export const deleteOfferDraft = async (offerId: string) => {
+  const { error } = await supabase.from('offers').delete().eq('id', offerId);
+  if (error) throw new Error(error.message);
+};
+
+export const submitOffer = async (offerId: string) => {
+  const { error } = await supabase.rpc('submit_offer', { p_offer_id: offerId });
+  if (error) throw new Error(error.message);
+};
+
+// Approving sends the offer and moves the application to the offer stage; refusing needs a
+// note and returns the offer to draft
+export const reviewOffer = async (offerId: string, approve: boolean, note?: string) => {
+  const { error } = await supabase.rpc('review_offer', {
+    p_offer_id: offerId,
+    p_approve: approve,
+    p_note: note?.trim() || undefined,
+  });
+  if (error) throw new Error(error.message);
+};
+
+export const withdrawOffer = async (offerId: string) => {
+  const { error } = await supabase.rpc('withdraw_offer', { p_offer_id: offerId });
+  if (error) throw new Error(error.message);
+};
+
+// Accepting moves the application to hired
+export const respondToOffer = async (offerId: string, accept: boolean, reason?: string) => {
+  const { error } = await supabase.rpc('respond_to_offer', {
+    p_offer_id: offerId,
+    p_accept: accept,
+    p_reason: reason?.trim() || undefined,
+  });
+  if (error) throw new Error(error.message);
+};
+
+export async function downloadOfferLetter(offerId: string) {
+  const { data, error } = await supabase.functions.invoke('offer-letter', { body: { offerId } });
+  if (error) throw error;
+  if (!data?.ok) throw new Error('Could not create the offer letter');
+
+  const bytes = Uint8Array.from(atob(data.pdf), char => char.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = data.fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,101 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Mirrors ErrorCode in supabase/functions/_shared/errors.ts
+export type AnalysisErrorCode =
+  | 'invalid_request'
+  | 'download_failed'
+  | 'unsupported_file'
+  | 'empty_text'
+  | 'scanned_pdf'
+  | 'provider_timeout'
+  | 'rate_limited'
+  | 'provider_error'
+  | 'not_found'
+  | 'internal';
+
+const ERROR_MESSAGES: Record<AnalysisErrorCode, string> = {
+  invalid_request: 'The analysis request was invalid.',
+  download_failed: 'The resume file could not be downloaded.',
+  unsupported_file: 'This file type is not supported. Upload a PDF, Word, ODT, RTF, text, PNG or JPG file.',
+  empty_text: 'No readable text was found in the file.',
+  scanned_pdf: 'No text could be read from this scan. Upload a clearer scan or photo, or a text-based PDF.',
+  provider_timeout: 'The analysis took too long.',
+  rate_limited: 'Too many analyses right now. Please wait a moment.',
+  provider_error: 'The analysis service returned an unusable response.',
+  not_found: 'The resume or job could not be found.',
+  internal: 'Something went wrong on our side.',
+};
+
+export const analysisErrorMessage = (code: string | null | undefined) =>
+  (code && ERROR_MESSAGES[code as AnalysisErrorCode]) || ERROR_MESSAGES.internal;
+
+export class ResumeAnalysisError extends Error {
+  code: AnalysisErrorCode;
+  retryable: boolean;
+
+  constructor(code: AnalysisErrorCode, message: string, retryable: boolean) {
+    super(message);
+    this.name = 'ResumeAnalysisError';
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+export interface JobMatchResult {
+  ats_score: number;
+  matched_keywords: string[];
+  missing_keywords: string[];
+  recommendations: string[];
+}
+
+export interface ResumeAnalysisResult {
+  skills: string[];
+  experience_years: number;
+  job_role: string;
+  ats_score: number;
+  summary: string[];
+  recommendations?: string[];
+  missing_skills?: string[];
+  strength_areas?: string[];
+  job_match?: JobMatchResult;
+}
+
+interface AnalyzeResumeBody {
+  fileUrl: string;
+  fileName?: string;
+  jobId?: string;
+  jobDescription?: string;
+}
+
+// Calls a resume edge function and turns any failure into a ResumeAnalysisError carrying the
+// server's code. With useServerMessage the server's own error text is shown instead of the
+// generic message for the code.
+export async function invokeResumeFunction<T>(name: string, body: object, useServerMessage = false): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      if (payload?.code) {
+        const message = (useServerMessage && payload.error) || analysisErrorMessage(payload.code);
+        throw new ResumeAnalysisError(payload.code, message, Boolean(payload.retryable));
+      }
+    }
+    throw new ResumeAnalysisError('internal', error.message || analysisErrorMessage('internal'), true);
+  }
+  if (!data?.ok) {
+    throw new ResumeAnalysisError('internal', analysisErrorMessage('internal'), true);
+  }
+  return data as T;
+}
+
+export const analyzeResume = (body: AnalyzeResumeBody) =>
+  invokeResumeFunction<ResumeAnalysisResult>('analyze-resume', body);
+
+// Re-enqueue analysis for an existing resume; the database wakes the queue worker and progress
+// arrives through realtime updates on the row
+export async function requestResumeAnalysis(resumeId: string) {
+  const { error } = await supabase.rpc('enqueue_resume_analysis', { p_resume_id: resumeId });
+  if (error) throw error;
+}
@@ -0,0 +1,107 @@
+import { invokeResumeFunction } from '@/lib/resumeAnalysis';
+
+// Mirrors supabase/functions/_shared/builder/draft.ts
+export type ResumeTemplate = 'classic' | 'modern' | 'compact';
+export type DraftSectionKind = 'experience' | 'education' | 'projects' | 'certifications' | 'custom';
+export type ExportFormat = 'pdf' | 'docx';
+
+export interface DraftContact {
+  fullName: string;
+  headline: string;
+  email: string;
+  phone: string;
+  location: string;
+  website: string;
+}
+
+export interface DraftEntry {
+  title: string;
+  subtitle: string;
+  location: string;
+  startDate: string;
+  endDate: string;
+  bullets: string[];
+}
+
+export interface DraftSection {
+  kind: DraftSectionKind;
+  title: string;
+  entries: DraftEntry[];
+}
+
+export interface ResumeDraftContent {
+  contact: DraftContact;
+  summary: string;
+  skills: string[];
+  sections: DraftSection[];
+}
+
+export const TEMPLATE_OPTIONS: { value: ResumeTemplate; label: string; description: string }[] = [
+  { value: 'classic', label: 'Classic', description: 'Serif, centered header, ruled sections' },
+  { value: 'modern', label: 'Modern', description: 'Sans-serif with a blue accent' },
+  { value: 'compact', label: 'Compact', description: 'Tighter spacing to fit more on a page' },
+];
+
+// Titles match the section headings the resume parser recognises
+export const SECTION_PRESETS: Record<DraftSectionKind, { title: string; entryTitle: string; entrySubtitle: string }> = {
+  experience: { title: 'Work Experience', entryTitle: 'Job title', entrySubtitle: 'Company' },
+  education: { title: 'Education', entryTitle: 'Degree', entrySubtitle: 'Institution' },
+  projects: { title: 'Projects', entryTitle: 'Project name', entrySubtitle: 'Role or technologies' },
+  certifications: { title: 'Certifications', entryTitle: 'Certificate', entrySubtitle: 'Issuer' },
+  custom: { title: 'Awards', entryTitle: 'Title', entrySubtitle: 'Subtitle' },
+};
+
+export const emptyEntry = (): DraftEntry => ({
+  title: '',
+  subtitle: '',
+  location: '',
+  startDate: '',
+  endDate: '',
+  bullets: [''],
+});
+
+export const emptySection = (kind: DraftSectionKind): DraftSection => ({
+  kind,
+  title: SECTION_PRESETS[kind].title,
+  entries: [emptyEntry()],
+});
+
+export const emptyDraftContent = (contact: Partial<DraftContact> = {}): ResumeDraftContent => ({
+  contact: { fullName: '', headline: '', email: '', phone: '', location: '', website: '', ...contact },
+  summary: '',
+  skills: [],
+  sections: [emptySection('experience'), emptySection('education')],
+});
+
+// Stored content is plain JSON; fill in anything an older or hand-edited draft lacks
+export const toDraftContent = (raw: unknown): ResumeDraftContent => {
+  const content = (raw && typeof raw === 'object' ? raw : {}) as Partial<ResumeDraftContent>;
+  const empty = emptyDraftContent();
+  return {
+    contact: { ...empty.contact, ...content.contact },
+    summary: content.summary ?? '',
+    skills: content.skills ?? [],
+    sections: (content.sections ?? empty.sections).map(section => ({
+      ...section,
+      entries: section.entries.map(entry => ({ ...emptyEntry(), ...entry })),
+    })),
+  };
+};
+
+// Same line formats as the exported files
+export const entryHeading = (entry: DraftEntry) => [entry.title, entry.subtitle, entry.location].filter(Boolean).join(' | ');
+export const dateRange = (entry: DraftEntry) => [entry.startDate, entry.endDate].filter(Boolean).join(' – ');
+export const contactLine = (contact: DraftContact) =>
+  [contact.email, contact.phone, contact.location, contact.website].filter(Boolean).join(' | ');
+
+export interface RenderedResume {
+  resumeId: string;
+  documentId: string;
+  version: number;
+  fileName: string;
+  fileUrl: string;
+}
+
+// Renders a saved draft with render-resume; the new resumes row is queued for analysis
+export const exportResumeDraft = (draftId: string, format: ExportFormat) =>
+  invokeResumeFunction<RenderedResume>('render-resume', { draftId, format }, true);
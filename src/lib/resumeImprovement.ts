@@ -0,0 +1,117 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { invokeResumeFunction } from '@/lib/resumeAnalysis';
+import { SECTION_PRESETS, type DraftContact, type DraftEntry, type DraftSection, type ResumeDraftContent } from '@/lib/resumeBuilder';
+
+export interface SuggestRewritesBody {
+  resumeId: string;
+  bullet: string;
+  recommendation: string;
+  workHistoryId?: string;
+}
+
+// Up to three rewrites of one bullet; placeholders such as [X%] mark numbers only the user knows
+export const suggestBulletRewrites = async (body: SuggestRewritesBody) =>
+  (await invokeResumeFunction<{ suggestions: string[] }>('improve-resume', body, true)).suggestions;
+
+export interface ImprovableStructure {
+  workHistory: Tables<'resume_work_history'>[];
+  education: Tables<'resume_education'>[];
+  certifications: Tables<'resume_certifications'>[];
+}
+
+export const fetchImprovableStructure = async (resumeId: string): Promise<ImprovableStructure> => {
+  const [workHistory, education, certifications] = await Promise.all([
+    supabase.from('resume_work_history').select('*').eq('resume_id', resumeId).order('position'),
+    supabase.from('resume_education').select('*').eq('resume_id', resumeId).order('position'),
+    supabase.from('resume_certifications').select('*').eq('resume_id', resumeId).order('position'),
+  ]);
+
+  const failed = [workHistory, education, certifications].find(r => r.error);
+  if (failed?.error) throw failed.error;
+
+  return {
+    workHistory: workHistory.data || [],
+    education: education.data || [],
+    certifications: certifications.data || [],
+  };
+};
+
+// An accepted suggestion replacing bullet `index` of a work history entry
+export interface BulletReplacement {
+  workHistoryId: string;
+  index: number;
+  original: string;
+  text: string;
+}
+
+export const replacementKey = (workHistoryId: string, index: number) => `${workHistoryId}:${index}`;
+
+// Square-bracket placeholders the rewriter leaves for the user to fill in
+export const hasPlaceholder = (text: string) => /\[[^\]]+\]/.test(text);
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Dates are stored as YYYY-MM-01; written back the way the resume parser reads them
+const formatMonth = (date: string | null) => {
+  if (!date) return '';
+  const [year, month] = date.split('-');
+  return `${MONTHS[parseInt(month) - 1]} ${year}`;
+};
+
+const entry = (fields: Partial<DraftEntry>): DraftEntry => ({
+  title: '',
+  subtitle: '',
+  location: '',
+  startDate: '',
+  endDate: '',
+  bullets: [],
+  ...fields,
+});
+
+const section = (kind: DraftSection['kind'], entries: DraftEntry[]): DraftSection[] =>
+  entries.length > 0 ? [{ kind, title: SECTION_PRESETS[kind].title, entries }] : [];
+
+// Rebuilds a builder draft from the structure parsed out of an uploaded resume, with the
+// accepted rewrites swapped in. The original layout is lost, so the draft is a starting point
+// the user can still edit in the builder before exporting again.
+export const draftFromStructure = (
+  structure: ImprovableStructure,
+  base: { contact: DraftContact; skills: string[] },
+  replacements: BulletReplacement[]
+): ResumeDraftContent => {
+  const replaced = new Map(replacements.map(r => [replacementKey(r.workHistoryId, r.index), r.text]));
+
+  const experience = structure.workHistory.map(role => entry({
+    title: role.title || '',
+    subtitle: role.company || '',
+    location: role.location || '',
+    startDate: formatMonth(role.start_date),
+    endDate: role.is_current ? 'Present' : formatMonth(role.end_date),
+    bullets: role.bullets.map((bullet, index) => replaced.get(replacementKey(role.id, index)) ?? bullet),
+  }));
+
+  const education = structure.education.map(school => entry({
+    title: [school.degree, school.field_of_study].filter(Boolean).join(', '),
+    subtitle: school.institution || '',
+    startDate: formatMonth(school.start_date),
+    endDate: formatMonth(school.end_date),
+  }));
+
+  const certifications = structure.certifications.map(cert => entry({
+    title: cert.name,
+    subtitle: cert.issuer || '',
+    endDate: cert.issued_date ? cert.issued_date.slice(0, 4) : '',
+  }));
+
+  return {
+    contact: base.contact,
+    summary: '',
+    skills: base.skills,
+    sections: [
+      ...section('experience', experience),
+      ...section('education', education),
+      ...section('certifications', certifications),
+    ],
+  };
+};
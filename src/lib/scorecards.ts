@@ -0,0 +1,182 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Used until a company sets up the job's template; mirrors scorecard_competencies() in the
+// database
+export const DEFAULT_COMPETENCIES = ['Role knowledge', 'Problem solving', 'Communication', 'Collaboration', 'Motivation'];
+
+export const MAX_COMPETENCIES = 10;
+export const MAX_COMPETENCY_LENGTH = 60;
+export const MAX_SCORECARD_NOTES_LENGTH = 4000;
+export const MIN_DECISION_REASON_LENGTH = 10;
+export const MAX_DECISION_REASON_LENGTH = 2000;
+
+export const RATING_OPTIONS = [
+  { value: 1, label: 'Poor' },
+  { value: 2, label: 'Weak' },
+  { value: 3, label: 'Adequate' },
+  { value: 4, label: 'Strong' },
+  { value: 5, label: 'Exceptional' },
+];
+
+export type Recommendation = 'strong_yes' | 'yes' | 'no' | 'strong_no';
+
+export const RECOMMENDATION_OPTIONS: { value: Recommendation; label: string }[] = [
+  { value: 'strong_yes', label: 'Strong hire' },
+  { value: 'yes', label: 'Hire' },
+  { value: 'no', label: 'No hire' },
+  { value: 'strong_no', label: 'Strong no hire' },
+];
+
+export const RECOMMENDATION_STYLES: Record<Recommendation, string> = {
+  strong_yes: 'bg-green-100 text-green-800',
+  yes: 'bg-emerald-50 text-emerald-700',
+  no: 'bg-orange-50 text-orange-700',
+  strong_no: 'bg-red-100 text-red-800',
+};
+
+export const recommendationLabel = (value: string) =>
+  RECOMMENDATION_OPTIONS.find(option => option.value === value)?.label ?? value;
+
+export interface ScorecardTemplate {
+  competencies: string[];
+  // False while the job still uses DEFAULT_COMPETENCIES
+  custom: boolean;
+}
+
+export interface Scorecard {
+  id: string;
+  interview_id: string;
+  application_id: string;
+  interviewer_id: string | null;
+  ratings: Record<string, number>;
+  recommendation: Recommendation;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  interviewer: {
+    full_name: string | null;
+    email: string | null;
+  } | null;
+}
+
+export interface ScorecardInput {
+  ratings: Record<string, number>;
+  recommendation: Recommendation;
+  notes: string;
+}
+
+export interface CompetencySummary {
+  competency: string;
+  average: number | null;
+  count: number;
+}
+
+// The rollup across every scorecard of one candidate
+export interface ScorecardSummary {
+  count: number;
+  // Mean of all ratings, null without scorecards
+  average: number | null;
+  competencies: CompetencySummary[];
+  recommendations: Record<Recommendation, number>;
+}
+
+export type HiringDecision = 'hired' | 'rejected';
+
+export const isHiringDecision = (status: string): status is HiringDecision =>
+  status === 'hired' || status === 'rejected';
+
+export const fetchScorecardTemplate = async (jobId: string): Promise<ScorecardTemplate> => {
+  const { data, error } = await supabase
+    .from('scorecard_templates')
+    .select('competencies')
+    .eq('job_id', jobId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? { competencies: data.competencies, custom: true } : { competencies: DEFAULT_COMPETENCIES, custom: false };
+};
+
+// The database trims and de-duplicates the names
+export const saveScorecardTemplate = async (jobId: string, competencies: string[]) => {
+  const { error } = await supabase
+    .from('scorecard_templates')
+    .upsert({ job_id: jobId, competencies });
+
+  if (error) throw error;
+};
+
+export const fetchScorecards = async (applicationId: string): Promise<Scorecard[]> => {
+  const { data, error } = await supabase
+    .from('interview_scorecards')
+    .select(`
+      *,
+      interviewer:interviewer_id (
+        full_name,
+        email
+      )
+    `)
+    .eq('application_id', applicationId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as unknown as Scorecard[];
+};
+
+// Files the caller's scorecard for an interview, or updates it if they already filed one.
+// The interviewer is taken from the session.
+export const saveScorecard = async (
+  interviewId: string,
+  applicationId: string,
+  input: ScorecardInput,
+  existingId?: string
+) => {
+  const values = { ratings: input.ratings, recommendation: input.recommendation, notes: input.notes };
+  const { error } = existingId
+    ? await supabase.from('interview_scorecards').update(values).eq('id', existingId)
+    : await supabase.from('interview_scorecards').insert({ ...values, interview_id: interviewId, application_id: applicationId });
+
+  if (error) throw new Error(error.message);
+};
+
+// Competencies keep the order of the job's template; ones only found on older scorecards
+// (from before the template changed) follow
+export const summarizeScorecards = (scorecards: Scorecard[], competencies: string[]): ScorecardSummary => {
+  const totals = new Map<string, { sum: number; count: number }>(competencies.map(name => [name, { sum: 0, count: 0 }]));
+  const recommendations: Record<Recommendation, number> = { strong_yes: 0, yes: 0, no: 0, strong_no: 0 };
+  let sum = 0;
+  let count = 0;
+
+  for (const scorecard of scorecards) {
+    recommendations[scorecard.recommendation] += 1;
+    for (const [name, rating] of Object.entries(scorecard.ratings)) {
+      const total = totals.get(name) ?? { sum: 0, count: 0 };
+      totals.set(name, { sum: total.sum + rating, count: total.count + 1 });
+      sum += rating;
+      count += 1;
+    }
+  }
+
+  return {
+    count: scorecards.length,
+    average: count > 0 ? sum / count : null,
+    competencies: Array.from(totals, ([competency, total]) => ({
+      competency,
+      average: total.count > 0 ? total.sum / total.count : null,
+      count: total.count,
+    })),
+    recommendations,
+  };
+};
+
+export const formatRating = (rating: number | null) => (rating === null ? '–' : rating.toFixed(1));
+
+// Hires or rejects with the reason on record; the only way to make either move
+export const recordHiringDecision = async (applicationId: string, decision: HiringDecision, reason: string) => {
+  const { error } = await supabase.rpc('record_hiring_decision', {
+    p_application_id: applicationId,
+    p_decision: decision,
+    p_reason: reason.trim(),
+  });
+
+  if (error) throw new Error(error.message);
+};
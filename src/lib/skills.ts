@@ -0,0 +1,36 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Mirrors the CHECK constraint on public.skills.category
+export const SKILL_CATEGORIES = [
+  'Executive Leadership',
+  'Business & Operations',
+  'Sales & BD',
+  'Marketing & Brand',
+  'Customer Experience',
+  'Finance & Accounting',
+  'Creative & Design',
+  'Legal & Compliance',
+  'Healthcare & Education',
+  'Technology',
+];
+
+// Same as public.skill_key
+export const skillKey = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Alias or canonical name key -> canonical name
+export type SkillLookup = Map<string, string>;
+
+export const fetchSkillLookup = async (): Promise<SkillLookup> => {
+  const { data, error } = await supabase.from('skills').select('name, skill_aliases ( alias )');
+  if (error) throw error;
+
+  const lookup: SkillLookup = new Map();
+  for (const skill of data || []) {
+    for (const { alias } of skill.skill_aliases) lookup.set(skillKey(alias), skill.name);
+    lookup.set(skillKey(skill.name), skill.name);
+  }
+  return lookup;
+};
+
+// "js" -> "JavaScript"; null when the term is not a known skill or alias
+export const canonicalSkill = (lookup: SkillLookup, term: string) => lookup.get(skillKey(term)) ?? null;
@@ -6,9 +6,12 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
-import { ArrowLeft, Building2, MapPin, Briefcase, Calendar, BookmarkCheck } from 'lucide-react';
+import { ArrowLeft, Building2, MapPin, Briefcase, Calendar, BookmarkCheck, FileSearch } from 'lucide-react';
+import { ResumeJobCheckDialog } from '@/components/ResumeJobCheckDialog';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/components/ui/use-toast';
+import { submitApplication } from '@/lib/applications';
+import { EDUCATION_LEVELS, REMOTE_POLICIES, SENIORITY_LEVELS, formatExperienceRange, optionLabel } from '@/lib/jobRequirements';
 
 interface JobDetailsData {
   id: string;
@@ -19,6 +22,14 @@ interface JobDetailsData {
   salary_max?: number;
   currency?: string;
   job_type?: string;
+  requirements?: string | null;
+  required_skills?: string[];
+  nice_to_have_skills?: string[];
+  min_experience_years?: number | null;
+  max_experience_years?: number | null;
+  seniority_level?: string | null;
+  education_level?: string | null;
+  remote_policy?: string | null;
   company_name?: string;
   created_at?: string;
   [key: string]: any;
@@ -33,6 +44,7 @@ export default function JobDetails() {
   const [job, setJob] = useState<JobDetailsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [applied, setApplied] = useState(false);
+  const [showResumeCheck, setShowResumeCheck] = useState(false);
 
   useEffect(() => {
     document.title = job?.title ? `${job.title} • Job Details` : 'Job Details';
@@ -87,14 +99,10 @@ export default function JobDetails() {
 
     if (!id) return;
 
-    const { error } = await supabase.from('job_applications').insert({
-      job_id: id,
-      applicant_id: user.id,
-      status: 'applied',
-    });
-
-    if (error) {
-      toast({ title: 'Application failed', description: error.message });
+    try {
+      await submitApplication({ jobId: id });
+    } catch (error) {
+      toast({ title: 'Application failed', description: error instanceof Error ? error.message : 'Failed to submit application' });
       return;
     }
 
@@ -137,6 +145,15 @@ export default function JobDetails() {
     return `${currency} ${range}`;
   })();
 
+  const experienceRange = formatExperienceRange(job.min_experience_years, job.max_experience_years);
+  const requirementFacts = [
+    job.seniority_level && ['Seniority', optionLabel(SENIORITY_LEVELS, job.seniority_level)],
+    experienceRange && ['Experience', experienceRange],
+    job.education_level && ['Education', optionLabel(EDUCATION_LEVELS, job.education_level)],
+    job.remote_policy && ['Work arrangement', optionLabel(REMOTE_POLICIES, job.remote_policy)],
+  ].filter(Boolean) as [string, string][];
+  const hasSkillRequirements = (job.required_skills?.length ?? 0) > 0 || (job.nice_to_have_skills?.length ?? 0) > 0;
+
   return (
     <main className="container mx-auto max-w-5xl px-4 py-8">
       <button onClick={() => navigate(-1)} className="mb-6 inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors">
@@ -169,6 +186,11 @@ export default function JobDetails() {
               </div>
             </div>
             <div className="flex items-center gap-2">
+              {profile?.user_type === 'job_seeker' && (
+                <Button variant="outline" onClick={() => setShowResumeCheck(true)}>
+                  <FileSearch className="mr-2 h-4 w-4" /> Check my resume
+                </Button>
+              )}
               {applied ? (
                 <Badge variant="secondary" className="inline-flex items-center gap-1">
                   <BookmarkCheck className="h-4 w-4" /> Applied
@@ -189,6 +211,45 @@ export default function JobDetails() {
             </p>
           </section>
 
+          {(requirementFacts.length > 0 || hasSkillRequirements || job.requirements) && (
+            <section className="space-y-4">
+              <h2 className="text-lg font-semibold">Requirements</h2>
+              {requirementFacts.length > 0 && (
+                <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  {requirementFacts.map(([label, value]) => (
+                    <div key={label}>
+                      <dt className="text-muted-foreground">{label}</dt>
+                      <dd className="font-medium">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+              {job.required_skills && job.required_skills.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium mb-2">Required skills</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {job.required_skills.map((s) => (
+                      <Badge key={s}>{s}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {job.nice_to_have_skills && job.nice_to_have_skills.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium mb-2">Nice to have</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {job.nice_to_have_skills.map((s) => (
+                      <Badge key={s} variant="outline">{s}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {job.requirements && (
+                <p className="text-muted-foreground leading-relaxed whitespace-pre-line">{job.requirements}</p>
+              )}
+            </section>
+          )}
+
           {/* Optional tags/skills if present */}
           {Array.isArray((job as any).skills) && (job as any).skills.length > 0 && (
             <section>
@@ -202,6 +263,15 @@ export default function JobDetails() {
           )}
         </CardContent>
       </Card>
+
+      {id && (
+        <ResumeJobCheckDialog
+          jobId={id}
+          jobTitle={job.title}
+          open={showResumeCheck}
+          onOpenChange={setShowResumeCheck}
+        />
+      )}
     </main>
   );
 }
@@ -5,8 +5,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MatchScoreBadge } from '@/components/MatchScoreBadge';
 import { useAuth } from '@/hooks/useAuth';
+import { matchKey, useMatchScores } from '@/hooks/useMatchScores';
 import { supabase } from '@/integrations/supabase/client';
+import { submitApplication } from '@/lib/applications';
+import { REMOTE_POLICIES, SENIORITY_LEVELS, formatExperienceRange, optionLabel } from '@/lib/jobRequirements';
 import { toast } from 'sonner';
 import { Search, MapPin, DollarSign, Briefcase, Building, ArrowLeft, Heart, Home } from 'lucide-react';
 
@@ -15,6 +19,12 @@ interface Job {
   title: string;
   description: string;
   requirements: string;
+  required_skills: string[];
+  nice_to_have_skills: string[];
+  min_experience_years: number | null;
+  max_experience_years: number | null;
+  seniority_level: string | null;
+  remote_policy: string | null;
   location: string;
   salary_min: number;
   salary_max: number;
@@ -39,11 +49,14 @@ const Jobs = () => {
   const [salaryFilter, setSalaryFilter] = useState('');
   const [appliedJobs, setAppliedJobs] = useState<string[]>([]);
   const [savedJobs, setSavedJobs] = useState<string[]>([]);
+  const [latestResumeId, setLatestResumeId] = useState<string | null>(null);
+  const { scores: matchScores } = useMatchScores(jobs.map(job => ({ resumeId: latestResumeId, jobId: job.id })));
 
   useEffect(() => {
     fetchJobs();
     if (user) {
       fetchAppliedJobs();
+      fetchLatestResume();
     }
   }, [user]);
 
@@ -89,6 +102,25 @@ const Jobs = () => {
     }
   };
 
+  const fetchLatestResume = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('resumes')
+        .select('id')
+        .eq('user_id', user.id)
+        .is('archived_at', null)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (error) throw error;
+      setLatestResumeId(data?.[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error fetching latest resume:', error);
+    }
+  };
+
   const applyToJob = async (jobId: string) => {
     if (!user) {
       toast.error('Please log in to apply for jobs');
@@ -102,40 +134,8 @@ const Jobs = () => {
     }
 
     try {
-      // Check if already applied
-      const { data: existingApplication } = await supabase
-        .from('job_applications')
-        .select('id')
-        .eq('job_id', jobId)
-        .eq('applicant_id', user.id)
-        .single();
-
-      if (existingApplication) {
-        toast.error('You have already applied to this job');
-        return;
-      }
-
-      // Get user's latest resume
-      const { data: resumes } = await supabase
-        .from('resumes')
-        .select('id')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false })
-        .limit(1);
-
-      const resumeId = resumes?.[0]?.id;
-
-      // Submit application
-      const { error } = await supabase
-        .from('job_applications')
-        .insert({
-          job_id: jobId,
-          applicant_id: user.id,
-          resume_id: resumeId,
-          status: 'pending'
-        });
-
-      if (error) throw error;
+      // Without a resume id the server pins the latest resume version
+      await submitApplication({ jobId });
 
       toast.success('Application submitted successfully!');
       setAppliedJobs(prev => [...prev, jobId]);
@@ -339,6 +339,9 @@ const Jobs = () => {
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
+                      {latestResumeId && (
+                        <MatchScoreBadge match={matchScores[matchKey(latestResumeId, job.id)]} />
+                      )}
                       <Button
                         variant="ghost"
                         size="sm"
@@ -377,7 +380,30 @@ const Jobs = () => {
                       {job.description}
                     </p>
 
-                    {job.requirements && (
+                    {(job.seniority_level || job.remote_policy || job.min_experience_years != null || job.max_experience_years != null) && (
+                      <div className="flex flex-wrap gap-2 text-xs text-gray-600">
+                        {job.seniority_level && (
+                          <Badge variant="outline">{optionLabel(SENIORITY_LEVELS, job.seniority_level)}</Badge>
+                        )}
+                        {formatExperienceRange(job.min_experience_years, job.max_experience_years) && (
+                          <Badge variant="outline">{formatExperienceRange(job.min_experience_years, job.max_experience_years)}</Badge>
+                        )}
+                        {job.remote_policy && (
+                          <Badge variant="outline">{optionLabel(REMOTE_POLICIES, job.remote_policy)}</Badge>
+                        )}
+                      </div>
+                    )}
+
+                    {job.required_skills?.length > 0 ? (
+                      <div>
+                        <h4 className="font-medium text-sm text-gray-900 mb-1">Required skills:</h4>
+                        <div className="flex flex-wrap gap-1">
+                          {job.required_skills.map((skill) => (
+                            <Badge key={skill} variant="secondary" className="text-xs">{skill}</Badge>
+                          ))}
+                        </div>
+                      </div>
+                    ) : job.requirements && (
                       <div>
                         <h4 className="font-medium text-sm text-gray-900 mb-1">Requirements:</h4>
                         <p className="text-sm text-gray-600 line-clamp-2">
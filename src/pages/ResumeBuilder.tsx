@@ -0,0 +1,472 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ResumeDraftPreview } from '@/components/ResumeDraftPreview';
+import { ResumeDraftSectionEditor } from '@/components/ResumeDraftSectionEditor';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import {
+  emptyDraftContent,
+  emptySection,
+  exportResumeDraft,
+  SECTION_PRESETS,
+  TEMPLATE_OPTIONS,
+  toDraftContent,
+  type DraftContact,
+  type DraftSectionKind,
+  type ExportFormat,
+  type ResumeDraftContent,
+  type ResumeTemplate
+} from '@/lib/resumeBuilder';
+import { toast } from 'sonner';
+import { ArrowLeft, FileDown, FileText, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+
+interface DraftSummary {
+  id: string;
+  title: string;
+  updated_at: string;
+}
+
+interface Draft {
+  id: string;
+  title: string;
+  template: ResumeTemplate;
+  content: ResumeDraftContent;
+}
+
+const toDraft = (row: Tables<'resume_drafts'>): Draft => ({
+  id: row.id,
+  title: row.title,
+  template: row.template as ResumeTemplate,
+  content: toDraftContent(row.content),
+});
+
+const fetchDraftSummaries = async (userId: string): Promise<DraftSummary[]> => {
+  const { data, error } = await supabase
+    .from('resume_drafts')
+    .select('id, title, updated_at')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const fetchDraft = async (id: string): Promise<Draft> => {
+  const { data, error } = await supabase
+    .from('resume_drafts')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return toDraft(data);
+};
+
+const CONTACT_FIELDS: { key: keyof DraftContact; label: string; placeholder: string }[] = [
+  { key: 'fullName', label: 'Full Name', placeholder: 'Jane Doe' },
+  { key: 'headline', label: 'Headline', placeholder: 'Senior Frontend Engineer' },
+  { key: 'email', label: 'Email', placeholder: 'jane@example.com' },
+  { key: 'phone', label: 'Phone', placeholder: '+1 555 123 4567' },
+  { key: 'location', label: 'Location', placeholder: 'Berlin, Germany' },
+  { key: 'website', label: 'Website / LinkedIn', placeholder: 'linkedin.com/in/janedoe' },
+];
+
+const ResumeBuilder = () => {
+  const { user, profile } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const requestedDraftId = searchParams.get('draft');
+  const [drafts, setDrafts] = useState<DraftSummary[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [newSectionKind, setNewSectionKind] = useState<DraftSectionKind>('projects');
+
+  useEffect(() => {
+    const initialize = async () => {
+      if (!user) return;
+
+      try {
+        const summaries = await fetchDraftSummaries(user.id);
+        setDrafts(summaries);
+        // ?draft= opens a specific draft, e.g. one created from accepted bullet rewrites
+        const initial = summaries.find(s => s.id === requestedDraftId) || summaries[0];
+        if (initial) setDraft(await fetchDraft(initial.id));
+      } catch (error) {
+        console.error('Resume builder initialization error:', error);
+        toast.error('Failed to load your resume drafts');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    initialize();
+  }, [user, requestedDraftId]);
+
+  const refreshDrafts = async () => {
+    if (!user) return [];
+    const summaries = await fetchDraftSummaries(user.id);
+    setDrafts(summaries);
+    return summaries;
+  };
+
+  const openDraft = async (id: string) => {
+    try {
+      setDraft(await fetchDraft(id));
+      setDirty(false);
+    } catch (error) {
+      console.error('Error loading resume draft:', error);
+      toast.error('Failed to load resume draft');
+    }
+  };
+
+  // New drafts start with the contact details from the profile
+  const createDraft = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('resume_drafts')
+        .insert({
+          user_id: user.id,
+          title: drafts.length === 0 ? 'My Resume' : `Resume ${drafts.length + 1}`,
+          content: emptyDraftContent({
+            fullName: profile?.full_name || '',
+            email: profile?.email || user.email || '',
+            phone: profile?.phone || '',
+            location: profile?.location || '',
+            website: profile?.website || ''
+          }) as unknown as Json
+        })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      setDraft(toDraft(data));
+      setDirty(false);
+      await refreshDrafts();
+    } catch (error) {
+      console.error('Error creating resume draft:', error);
+      toast.error('Failed to create resume draft');
+    }
+  };
+
+  const updateDraft = (changes: Partial<Omit<Draft, 'id'>>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+    setDirty(true);
+  };
+
+  const updateContent = (changes: Partial<ResumeDraftContent>) => {
+    if (draft) updateDraft({ content: { ...draft.content, ...changes } });
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    if (!draft) return;
+    const sections = [...draft.content.sections];
+    [sections[index], sections[index + direction]] = [sections[index + direction], sections[index]];
+    updateContent({ sections });
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return false;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('resume_drafts')
+        .update({
+          title: draft.title.trim() || 'My Resume',
+          template: draft.template,
+          content: draft.content as unknown as Json
+        })
+        .eq('id', draft.id);
+
+      if (error) throw error;
+      setDirty(false);
+      refreshDrafts();
+      return true;
+    } catch (error) {
+      console.error('Error saving resume draft:', error);
+      toast.error('Failed to save resume draft');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteDraft = async () => {
+    if (!draft) return;
+
+    try {
+      // Exported versions stay in the dashboard; only the editable draft goes away
+      const { error } = await supabase.from('resume_drafts').delete().eq('id', draft.id);
+      if (error) throw error;
+
+      toast.success('Draft deleted');
+      setDraft(null);
+      setDirty(false);
+      const remaining = await refreshDrafts();
+      if (remaining.length > 0) await openDraft(remaining[0].id);
+    } catch (error) {
+      console.error('Error deleting resume draft:', error);
+      toast.error('Failed to delete resume draft');
+    }
+  };
+
+  // Saves first so the export always matches what is on screen
+  const handleExport = async (format: ExportFormat) => {
+    if (!draft) return;
+    if (!draft.content.contact.fullName.trim()) {
+      toast.error('Add your name before exporting');
+      return;
+    }
+
+    setExporting(format);
+    try {
+      if (!(await saveDraft())) return;
+
+      const rendered = await exportResumeDraft(draft.id, format);
+      toast.success(`Saved ${rendered.fileName} as version ${rendered.version}. ATS analysis has started.`, {
+        action: { label: 'View', onClick: () => navigate('/dashboard/jobseeker') }
+      });
+    } catch (error) {
+      console.error('Error exporting resume:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export resume');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
+          <div className="flex items-center">
+            <Button variant="ghost" onClick={() => navigate('/dashboard/jobseeker')} className="mr-4">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Dashboard
+            </Button>
+            <FileText className="h-6 w-6 text-primary mr-2" />
+            <h1 className="text-xl font-bold">Resume Builder</h1>
+          </div>
+          {draft && (
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={saveDraft} disabled={saving || !dirty}>
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                {dirty ? 'Save' : 'Saved'}
+              </Button>
+              <Button variant="outline" onClick={() => handleExport('docx')} disabled={exporting !== null}>
+                {exporting === 'docx' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+                Export DOCX
+              </Button>
+              <Button className="btn-gradient" onClick={() => handleExport('pdf')} disabled={exporting !== null}>
+                {exporting === 'pdf' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+                Export PDF
+              </Button>
+            </div>
+          )}
+        </div>
+      </header>
+
+      {!draft ? (
+        <div className="max-w-xl mx-auto px-4 py-16">
+          <Card className="text-center">
+            <CardHeader>
+              <CardTitle>Build your resume</CardTitle>
+              <CardDescription>
+                Fill in your experience section by section, pick a template, and export a PDF or DOCX.
+                Every export is saved to your resumes and gets an ATS analysis like an upload.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="btn-gradient" onClick={createDraft}>
+                <Plus className="h-4 w-4 mr-2" />
+                Start a Resume
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      ) : (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Draft</CardTitle>
+                <CardDescription>
+                  Every export is saved to your resumes as a new version and analyzed like an upload.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                  <Select
+                    value={draft.id}
+                    onValueChange={(id) => {
+                      if (dirty && !window.confirm('Discard unsaved changes?')) return;
+                      openDraft(id);
+                    }}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Choose a draft" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {drafts.map(summary => (
+                        <SelectItem key={summary.id} value={summary.id}>{summary.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={createDraft}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    New
+                  </Button>
+                  <Button variant="outline" onClick={deleteDraft} aria-label="Delete draft">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="draft-title">Title</Label>
+                    <Input
+                      id="draft-title"
+                      value={draft.title}
+                      onChange={(e) => updateDraft({ title: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Template</Label>
+                    <Select value={draft.template} onValueChange={(value) => updateDraft({ template: value as ResumeTemplate })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TEMPLATE_OPTIONS.map(option => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label} — {option.description}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Contact</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {CONTACT_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <Label htmlFor={`contact-${field.key}`}>{field.label}</Label>
+                    <Input
+                      id={`contact-${field.key}`}
+                      value={draft.content.contact[field.key]}
+                      placeholder={field.placeholder}
+                      onChange={(e) => updateContent({ contact: { ...draft.content.contact, [field.key]: e.target.value } })}
+                    />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Summary & Skills</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="draft-summary">Professional Summary</Label>
+                  <Textarea
+                    id="draft-summary"
+                    rows={4}
+                    value={draft.content.summary}
+                    placeholder="Two or three sentences on your experience and what you are looking for"
+                    onChange={(e) => updateContent({ summary: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="draft-skills">Skills (comma separated)</Label>
+                  <Input
+                    id="draft-skills"
+                    value={draft.content.skills.join(', ')}
+                    placeholder="React, TypeScript, Project Management"
+                    onChange={(e) => updateContent({ skills: e.target.value.split(',').map(s => s.trimStart()) })}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Sections</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {draft.content.sections.map((section, index) => (
+                  <ResumeDraftSectionEditor
+                    key={index}
+                    section={section}
+                    onChange={(next) => updateContent({ sections: draft.content.sections.map((s, i) => (i === index ? next : s)) })}
+                    onRemove={() => updateContent({ sections: draft.content.sections.filter((_, i) => i !== index) })}
+                    onMove={(direction) => moveSection(index, direction)}
+                    isFirst={index === 0}
+                    isLast={index === draft.content.sections.length - 1}
+                  />
+                ))}
+                <div className="flex gap-2">
+                  <Select value={newSectionKind} onValueChange={(value) => setNewSectionKind(value as DraftSectionKind)}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SECTION_PRESETS) as DraftSectionKind[]).map(kind => (
+                        <SelectItem key={kind} value={kind}>{SECTION_PRESETS[kind].title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    onClick={() => updateContent({ sections: [...draft.content.sections, emptySection(newSectionKind)] })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add section
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="lg:sticky lg:top-8 self-start">
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>The exported PDF and DOCX follow this layout.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResumeDraftPreview content={draft.content} template={draft.template} />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResumeBuilder;
@@ -0,0 +1,494 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarFeedDialog } from '@/components/CalendarFeedDialog';
+import { CandidateDetailSheet } from '@/components/CandidateDetailSheet';
+import { HiringDecisionDialog } from '@/components/HiringDecisionDialog';
+import { InterviewSlotsManager } from '@/components/InterviewSlotsManager';
+import { MatchScoreBadge } from '@/components/MatchScoreBadge';
+import { OfferTemplatesManager } from '@/components/OfferTemplatesManager';
+import { ScorecardTemplateEditor } from '@/components/ScorecardTemplateEditor';
+import { useAuth } from '@/hooks/useAuth';
+import { matchKey, useMatchScores } from '@/hooks/useMatchScores';
+import {
+  fetchPipelineApplications,
+  fetchPipelineJobs,
+  hasAllSkills,
+  markApplicationViewed,
+  moveApplications,
+  type PipelineApplication,
+  type PipelineJob
+} from '@/lib/applicantPipeline';
+import {
+  APPLICATION_STATUS_OPTIONS,
+  APPLICATION_STATUS_STYLES,
+  applicationStatusLabel,
+  employerNextStatuses,
+  type ApplicationStatus
+} from '@/lib/applicationStatus';
+import { sendApplicationEmail } from '@/lib/applications';
+import { sendInterviewInvites } from '@/lib/interviews';
+import { parseSkillList } from '@/lib/jobRequirements';
+import { isHiringDecision, type HiringDecision } from '@/lib/scorecards';
+import { fetchSkillLookup, type SkillLookup } from '@/lib/skills';
+import { toast } from 'sonner';
+import { ArrowLeft, CalendarClock, ClipboardList, FileSignature, Filter, Loader2, Users, XCircle } from 'lucide-react';
+
+const MIN_MATCH_OPTIONS = [
+  { value: '0', label: 'Any match' },
+  { value: '50', label: '50+ match' },
+  { value: '75', label: '75+ match' },
+  { value: '90', label: '90+ match' },
+];
+
+// Stages a bulk "Move to" can target; rejecting has its own button and withdrawing is the applicant's
+const BULK_MOVE_OPTIONS = APPLICATION_STATUS_OPTIONS.filter(
+  option => !['applied', 'rejected', 'withdrawn'].includes(option.value)
+);
+
+const candidates = (count: number) => (count === 1 ? '1 candidate' : `${count} candidates`);
+
+const ApplicantPipeline = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const jobId = searchParams.get('job');
+  const [jobs, setJobs] = useState<PipelineJob[]>([]);
+  const [applications, setApplications] = useState<PipelineApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [moving, setMoving] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<ApplicationStatus | null>(null);
+  const [minMatch, setMinMatch] = useState('0');
+  const [skillFilter, setSkillFilter] = useState('');
+  const [skillLookup, setSkillLookup] = useState<SkillLookup>(new Map());
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [pendingDecision, setPendingDecision] = useState<{ targets: PipelineApplication[]; decision: HiringDecision } | null>(null);
+  const { scores: matchScores } = useMatchScores(
+    applications.map(app => ({ resumeId: app.resume_id, jobId: app.job_id }))
+  );
+
+  useEffect(() => {
+    if (!user) return;
+
+    const load = async () => {
+      try {
+        setJobs(await fetchPipelineJobs(user.id));
+      } catch (error) {
+        console.error('Error fetching jobs:', error);
+        toast.error('Failed to load jobs');
+        setLoading(false);
+      }
+    };
+
+    load();
+    // The skills filter still works on exact names if the taxonomy can't be loaded
+    fetchSkillLookup().then(setSkillLookup).catch(error => console.error('Error fetching skills:', error));
+  }, [user]);
+
+  // Open the newest job when none is picked in the URL
+  useEffect(() => {
+    if (jobId) return;
+    if (jobs.length > 0) {
+      setSearchParams({ job: jobs[0].id }, { replace: true });
+    } else {
+      setLoading(false);
+    }
+  }, [jobs, jobId, setSearchParams]);
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    const load = async () => {
+      setLoading(true);
+      setSelectedIds([]);
+      setDetailId(null);
+      try {
+        setApplications(await fetchPipelineApplications(jobId));
+      } catch (error) {
+        console.error('Error fetching applications:', error);
+        toast.error('Failed to load applications');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [jobId]);
+
+  const matchFor = (application: PipelineApplication) =>
+    application.resume_id ? matchScores[matchKey(application.resume_id, application.job_id)] : undefined;
+
+  const skillTerms = parseSkillList(skillFilter);
+  const visibleApplications = applications.filter(app => {
+    if (minMatch !== '0' && (matchFor(app)?.score ?? -1) < Number(minMatch)) return false;
+    return skillTerms.length === 0 || hasAllSkills(app, skillTerms, skillLookup);
+  });
+  const selectedApplications = visibleApplications.filter(app => selectedIds.includes(app.id));
+  const draggedApplication = applications.find(app => app.id === draggedId);
+  const detailApplication = applications.find(app => app.id === detailId) ?? null;
+  const currentJob = jobs.find(job => job.id === jobId);
+  const filtersActive = minMatch !== '0' || skillTerms.length > 0;
+
+  const refreshApplications = async () => {
+    if (!jobId) return;
+    try {
+      setApplications(await fetchPipelineApplications(jobId));
+    } catch (error) {
+      console.error('Error fetching applications:', error);
+      toast.error('Failed to load applications');
+    }
+  };
+
+  // Hiring and rejecting first ask for the reason, then come back here with it
+  const handleMove = async (targets: PipelineApplication[], status: ApplicationStatus, reason?: string) => {
+    if (!jobId || targets.length === 0) return;
+    if (isHiringDecision(status) && reason === undefined) {
+      setPendingDecision({ targets, decision: status });
+      return;
+    }
+
+    setMoving(true);
+    try {
+      const { moved, skipped, failed } = await moveApplications(targets, status, reason);
+      const label = applicationStatusLabel(status);
+
+      if (moved.length > 0) toast.success(`${candidates(moved.length)} moved to ${label}`);
+      if (skipped.length > 0) toast.warning(`${candidates(skipped.length)} can't move to ${label} from their current stage`);
+      if (failed.length > 0) toast.error(`Failed to move ${candidates(failed.length)}`);
+      // Rejecting cancels any scheduled interviews, so the attendees get cancellations
+      if (status === 'rejected') moved.forEach(id => sendInterviewInvites(id));
+      moved.forEach(id => sendApplicationEmail('status_changed', id));
+
+      setSelectedIds(prev => prev.filter(id => !moved.includes(id)));
+      setPendingDecision(null);
+      setApplications(await fetchPipelineApplications(jobId));
+    } catch (error) {
+      console.error('Error moving applications:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update applications');
+    } finally {
+      setMoving(false);
+    }
+  };
+
+  // A selected card carries the rest of the selection with it
+  const handleDrop = (status: ApplicationStatus) => {
+    if (!draggedApplication) return;
+
+    const targets = selectedIds.includes(draggedApplication.id) ? selectedApplications : [draggedApplication];
+    setDraggedId(null);
+    setDropTarget(null);
+    handleMove(targets, status);
+  };
+
+  const openDetail = async (application: PipelineApplication) => {
+    setDetailId(application.id);
+    if (application.viewed_at) return;
+
+    try {
+      await markApplicationViewed(application.id);
+      setApplications(prev => prev.map(app => (app.id === application.id ? { ...app, viewed_at: new Date().toISOString() } : app)));
+    } catch (error) {
+      console.error('Error marking application viewed:', error);
+    }
+  };
+
+  const toggleSelected = (ids: string[], selected: boolean) => {
+    setSelectedIds(prev => (selected ? Array.from(new Set([...prev, ...ids])) : prev.filter(id => !ids.includes(id))));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => navigate('/dashboard/company')} className="mr-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Dashboard
+              </Button>
+              <h1 className="text-2xl font-bold text-gray-900">Hireloop</h1>
+              <span className="ml-4 text-sm text-gray-600">Applicant Pipeline</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <CalendarFeedDialog />
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button variant="outline">
+                    <FileSignature className="h-4 w-4 mr-2" />
+                    Offer Templates
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>Offer Templates</DialogTitle>
+                    <DialogDescription>
+                      Reusable offer letters for all of your jobs
+                    </DialogDescription>
+                  </DialogHeader>
+                  <OfferTemplatesManager />
+                </DialogContent>
+              </Dialog>
+              {jobId && (
+                <Dialog>
+                  <DialogTrigger asChild>
+                    <Button variant="outline">
+                      <ClipboardList className="h-4 w-4 mr-2" />
+                      Scorecard
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                      <DialogTitle>Interview Scorecard</DialogTitle>
+                      <DialogDescription>
+                        {currentJob?.title}: the competencies interviewers rate after each round
+                      </DialogDescription>
+                    </DialogHeader>
+                    <ScorecardTemplateEditor jobId={jobId} />
+                  </DialogContent>
+                </Dialog>
+              )}
+              {jobId && (
+                <Dialog>
+                  <DialogTrigger asChild>
+                    <Button variant="outline">
+                      <CalendarClock className="h-4 w-4 mr-2" />
+                      Interview Availability
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                      <DialogTitle>Interview Availability</DialogTitle>
+                      <DialogDescription>
+                        {currentJob?.title}: publish times that candidates at the interview stage can book
+                      </DialogDescription>
+                    </DialogHeader>
+                    <InterviewSlotsManager jobId={jobId} />
+                  </DialogContent>
+                </Dialog>
+              )}
+              <Select
+                value={jobId ?? ''}
+                onValueChange={(value) => setSearchParams({ job: value })}
+                disabled={jobs.length === 0}
+              >
+                <SelectTrigger className="w-72">
+                  <SelectValue placeholder="Select a job" />
+                </SelectTrigger>
+                <SelectContent>
+                  {jobs.map(job => (
+                    <SelectItem key={job.id} value={job.id}>
+                      {job.title}{job.status !== 'active' ? ` (${job.status})` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-4">
+        {/* Filters and bulk actions */}
+        <div className="flex flex-wrap items-center gap-3 rounded-lg bg-white p-3 shadow-sm">
+          <Filter className="h-4 w-4 text-gray-500" />
+          <Select value={minMatch} onValueChange={setMinMatch}>
+            <SelectTrigger className="w-36 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MIN_MATCH_OPTIONS.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={skillFilter}
+            onChange={(e) => setSkillFilter(e.target.value)}
+            placeholder="Required skills, e.g. React, SQL"
+            className="w-64 h-9"
+          />
+          {filtersActive && (
+            <Button variant="ghost" size="sm" onClick={() => { setMinMatch('0'); setSkillFilter(''); }}>
+              Clear filters
+            </Button>
+          )}
+          <span className="text-sm text-gray-500">
+            {filtersActive ? `${visibleApplications.length} of ${applications.length}` : applications.length} applicants
+          </span>
+
+          {selectedApplications.length > 0 && (
+            <div className="ml-auto flex items-center gap-2">
+              <span className="text-sm font-medium">{selectedApplications.length} selected</span>
+              <Select value="" onValueChange={(value) => handleMove(selectedApplications, value as ApplicationStatus)} disabled={moving}>
+                <SelectTrigger className="w-36 h-9">
+                  <SelectValue placeholder="Move to..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {BULK_MOVE_OPTIONS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-destructive"
+                onClick={() => handleMove(selectedApplications, 'rejected')}
+                disabled={moving}
+              >
+                <XCircle className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])}>
+                Clear
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16 text-gray-600">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Loading pipeline...
+          </div>
+        ) : jobs.length === 0 ? (
+          <div className="text-center py-16">
+            <Users className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-600">Post a job to start receiving applicants.</p>
+          </div>
+        ) : (
+          <div className="flex gap-4 overflow-x-auto pb-4">
+            {APPLICATION_STATUS_OPTIONS.map(({ value: status, label }) => {
+              const column = visibleApplications.filter(app => app.status === status);
+              const allSelected = column.length > 0 && column.every(app => selectedIds.includes(app.id));
+              const canDrop = draggedApplication !== undefined && employerNextStatuses(draggedApplication.status).includes(status);
+
+              return (
+                <div
+                  key={status}
+                  className={`w-64 shrink-0 rounded-lg border-2 p-2 transition-colors ${
+                    dropTarget === status ? 'border-blue-400 bg-blue-50' : canDrop ? 'border-dashed border-blue-300 bg-white/70' : 'border-transparent bg-white/50'
+                  }`}
+                  onDragOver={(e) => {
+                    if (!canDrop) return;
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = 'move';
+                    setDropTarget(status);
+                  }}
+                  onDragLeave={(e) => {
+                    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(status);
+                  }}
+                >
+                  <div className="flex items-center justify-between px-1 pb-2">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) => toggleSelected(column.map(app => app.id), checked === true)}
+                        disabled={column.length === 0}
+                        aria-label={`Select all in ${label}`}
+                      />
+                      <Badge className={APPLICATION_STATUS_STYLES[status]}>{label}</Badge>
+                    </div>
+                    <span className="text-xs text-gray-500">{column.length}</span>
+                  </div>
+
+                  <div className="space-y-2 min-h-[120px]">
+                    {column.map(application => {
+                      const draggable = employerNextStatuses(application.status).length > 0 && !moving;
+                      return (
+                        <div
+                          key={application.id}
+                          draggable={draggable}
+                          onDragStart={(e) => {
+                            e.dataTransfer.setData('text/plain', application.id);
+                            e.dataTransfer.effectAllowed = 'move';
+                            setDraggedId(application.id);
+                          }}
+                          onDragEnd={() => {
+                            setDraggedId(null);
+                            setDropTarget(null);
+                          }}
+                          onClick={() => openDetail(application)}
+                          className={`rounded-md border bg-white p-3 shadow-sm hover:shadow cursor-pointer ${
+                            draggable ? 'active:cursor-grabbing' : ''
+                          } ${draggedId === application.id ? 'opacity-50' : ''}`}
+                        >
+                          <div className="flex items-start gap-2">
+                            <Checkbox
+                              checked={selectedIds.includes(application.id)}
+                              onCheckedChange={(checked) => toggleSelected([application.id], checked === true)}
+                              onClick={(e) => e.stopPropagation()}
+                              aria-label={`Select ${application.profiles?.full_name || 'candidate'}`}
+                              className="mt-0.5"
+                            />
+                            <div className="min-w-0 flex-1">
+                              <p className="text-sm font-medium truncate">
+                                {application.profiles?.full_name || 'Candidate'}
+                                {!application.viewed_at && <span className="ml-1 inline-block h-2 w-2 rounded-full bg-blue-500" title="New" />}
+                              </p>
+                              <p className="text-xs text-gray-500 truncate">
+                                {application.resumes?.job_role || 'Role not detected'}
+                                {application.resumes?.experience_years != null ? ` · ${application.resumes.experience_years} yrs` : ''}
+                              </p>
+                            </div>
+                          </div>
+                          {application.resumes?.skills && application.resumes.skills.length > 0 && (
+                            <div className="mt-2 flex flex-wrap gap-1">
+                              {application.resumes.skills.slice(0, 3).map(skill => (
+                                <Badge key={skill} variant="secondary" className="text-[10px] px-1.5 py-0">{skill}</Badge>
+                              ))}
+                            </div>
+                          )}
+                          <div className="mt-2 flex items-center justify-between">
+                            <span className="text-xs text-gray-400">{new Date(application.created_at).toLocaleDateString()}</span>
+                            <div onClick={(e) => e.stopPropagation()}>
+                              <MatchScoreBadge match={matchFor(application)} />
+                            </div>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <CandidateDetailSheet
+        application={detailApplication}
+        jobTitle={currentJob?.title}
+        match={detailApplication ? matchFor(detailApplication) : undefined}
+        onMove={(application, status) => handleMove([application], status)}
+        onApplicationChange={refreshApplications}
+        onOpenChange={(open) => !open && setDetailId(null)}
+      />
+
+      {jobId && (
+        <HiringDecisionDialog
+          decision={pendingDecision?.decision ?? null}
+          candidates={(pendingDecision?.targets ?? []).map(app => ({ id: app.id, name: app.profiles?.full_name || 'Candidate' }))}
+          jobId={jobId}
+          busy={moving}
+          onConfirm={(reason) => pendingDecision && handleMove(pendingDecision.targets, pendingDecision.decision, reason)}
+          onOpenChange={(open) => !open && setPendingDecision(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ApplicantPipeline;
@@ -7,10 +7,23 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ApplicationStatusBadge } from '@/components/ApplicationStatusBadge';
+import { ApplicationTimeline } from '@/components/ApplicationTimeline';
+import { HiringDecisionDialog } from '@/components/HiringDecisionDialog';
+import { HrTeamManager } from '@/components/HrTeamManager';
+import { MatchScoreBadge } from '@/components/MatchScoreBadge';
+import { ResumeTimeline } from '@/components/ResumeTimeline';
 import { useAuth } from '@/hooks/useAuth';
+import { matchKey, useMatchScores } from '@/hooks/useMatchScores';
 import { supabase } from '@/integrations/supabase/client';
+import { sendApplicationEmail } from '@/lib/applications';
+import { APPLICATION_STATUS_ACTIONS, applicationStatusLabel, employerNextStatuses, type ApplicationStatus } from '@/lib/applicationStatus';
+import { sendInterviewInvites } from '@/lib/interviews';
+import { EDUCATION_LEVELS, REMOTE_POLICIES, SENIORITY_LEVELS, parseSkillList } from '@/lib/jobRequirements';
+import { isHiringDecision, recordHiringDecision, type HiringDecision } from '@/lib/scorecards';
 import { toast } from 'sonner';
-import { Building, Plus, Users, Eye, LogOut, Briefcase, MapPin, DollarSign } from 'lucide-react';
+import { Building, Plus, Users, Eye, LogOut, Briefcase, MapPin, DollarSign, Columns3, UserCog } from 'lucide-react';
 
 interface Job {
   id: string;
@@ -26,8 +39,11 @@ interface Job {
 
 interface Application {
   id: string;
+  job_id: string;
+  resume_id: string | null;
   status: string;
   created_at: string;
+  viewed_at: string | null;
   profiles: {
     full_name: string;
     email: string;
@@ -44,9 +60,15 @@ const CompanyDashboard = () => {
   const [applications, setApplications] = useState<Application[]>([]);
   const [showJobForm, setShowJobForm] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [applicationSort, setApplicationSort] = useState<'newest' | 'match'>('newest');
+  const [pendingDecision, setPendingDecision] = useState<{ application: Application; decision: HiringDecision } | null>(null);
+  const [deciding, setDeciding] = useState(false);
+  const { scores: matchScores } = useMatchScores(
+    applications.map(app => ({ resumeId: app.resume_id, jobId: app.job_id }))
+  );
 
   // Job form state
-  const [jobForm, setJobForm] = useState({
+  const emptyJobForm = {
     title: '',
     description: '',
     requirements: '',
@@ -54,7 +76,15 @@ const CompanyDashboard = () => {
     salary_min: '',
     salary_max: '',
     job_type: '',
-  });
+    required_skills: '',
+    nice_to_have_skills: '',
+    min_experience_years: '',
+    max_experience_years: '',
+    seniority_level: '',
+    education_level: '',
+    remote_policy: '',
+  };
+  const [jobForm, setJobForm] = useState(emptyJobForm);
 
   useEffect(() => {
     if (!user) {
@@ -95,11 +125,12 @@ const CompanyDashboard = () => {
             full_name,
             email
           ),
-          jobs (
-            title
+          jobs!inner (
+            title,
+            company_id
           )
         `)
-        .in('job_id', jobs.map(job => job.id))
+        .eq('jobs.company_id', user.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -113,6 +144,13 @@ const CompanyDashboard = () => {
     e.preventDefault();
     if (!user) return;
 
+    const minYears = jobForm.min_experience_years ? parseInt(jobForm.min_experience_years) : null;
+    const maxYears = jobForm.max_experience_years ? parseInt(jobForm.max_experience_years) : null;
+    if (minYears !== null && maxYears !== null && minYears > maxYears) {
+      toast.error('Minimum experience cannot be greater than maximum experience');
+      return;
+    }
+
     setLoading(true);
     try {
       const { error } = await supabase
@@ -126,6 +164,13 @@ const CompanyDashboard = () => {
           salary_min: jobForm.salary_min ? parseInt(jobForm.salary_min) : null,
           salary_max: jobForm.salary_max ? parseInt(jobForm.salary_max) : null,
           job_type: jobForm.job_type,
+          required_skills: parseSkillList(jobForm.required_skills),
+          nice_to_have_skills: parseSkillList(jobForm.nice_to_have_skills),
+          min_experience_years: minYears,
+          max_experience_years: maxYears,
+          seniority_level: jobForm.seniority_level || null,
+          education_level: jobForm.education_level || null,
+          remote_policy: jobForm.remote_policy || (jobForm.job_type === 'remote' ? 'remote' : null),
           status: 'active',
         });
 
@@ -133,15 +178,7 @@ const CompanyDashboard = () => {
 
       toast.success('Job posted successfully!');
       setShowJobForm(false);
-      setJobForm({
-        title: '',
-        description: '',
-        requirements: '',
-        location: '',
-        salary_min: '',
-        salary_max: '',
-        job_type: '',
-      });
+      setJobForm(emptyJobForm);
       fetchJobs();
     } catch (error: any) {
       console.error('Error creating job:', error);
@@ -168,28 +205,80 @@ const CompanyDashboard = () => {
     }
   };
 
-  const updateApplicationStatus = async (applicationId: string, status: string) => {
+  // The database rejects moves the status model doesn't allow and stamps viewed/response dates
+  // Hiring and rejecting go through the decision dialog, which asks for the reason
+  const updateApplicationStatus = async (application: Application, status: ApplicationStatus) => {
+    if (isHiringDecision(status)) {
+      setPendingDecision({ application, decision: status });
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('job_applications')
         .update({ status })
-        .eq('id', applicationId);
+        .eq('id', application.id);
 
       if (error) throw error;
 
-      toast.success(`Application status updated to ${status}!`);
+      toast.success(`Application moved to ${applicationStatusLabel(status)}`);
+      sendApplicationEmail('status_changed', application.id);
       fetchApplications();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error updating application status:', error);
-      toast.error('Failed to update application status');
+      toast.error(error instanceof Error ? error.message : 'Failed to update application status');
     }
   };
 
+  const handleDecision = async (reason: string) => {
+    if (!pendingDecision) return;
+
+    const { application, decision } = pendingDecision;
+    setDeciding(true);
+    try {
+      await recordHiringDecision(application.id, decision, reason);
+      toast.success(`Application moved to ${applicationStatusLabel(decision)}`);
+      // Rejecting cancels any scheduled interviews
+      if (decision === 'rejected') sendInterviewInvites(application.id);
+      sendApplicationEmail('status_changed', application.id);
+      setPendingDecision(null);
+      fetchApplications();
+    } catch (error) {
+      console.error('Error recording hiring decision:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record the decision');
+    } finally {
+      setDeciding(false);
+    }
+  };
+
+  // Lets the candidate see the application was opened; the database sets the actual time
+  const markApplicationViewed = async (application: Application) => {
+    if (application.viewed_at) return;
+
+    const { error } = await supabase
+      .from('job_applications')
+      .update({ viewed_at: new Date().toISOString() })
+      .eq('id', application.id);
+
+    if (error) {
+      console.error('Error marking application viewed:', error);
+      return;
+    }
+    setApplications(prev => prev.map(app => (app.id === application.id ? { ...app, viewed_at: new Date().toISOString() } : app)));
+  };
+
+  const applicationMatchScore = (application: Application) =>
+    application.resume_id ? matchScores[matchKey(application.resume_id, application.job_id)]?.score ?? -1 : -1;
+
+  const sortedApplications = applicationSort === 'match'
+    ? [...applications].sort((a, b) => applicationMatchScore(b) - applicationMatchScore(a))
+    : applications;
+
   const stats = {
     totalJobs: jobs.length,
     activeJobs: jobs.filter(job => job.status === 'active').length,
     totalApplications: applications.length,
-    pendingApplications: applications.filter(app => app.status === 'pending').length,
+    pendingApplications: applications.filter(app => app.status === 'applied').length,
   };
 
   return (
@@ -210,6 +299,23 @@ const CompanyDashboard = () => {
               <span className="text-sm text-gray-700">
                 Welcome, {profile?.company_name || profile?.full_name || 'Company'}
               </span>
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button variant="outline">
+                    <UserCog className="h-4 w-4 mr-2" />
+                    HR Team
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>HR Team</DialogTitle>
+                    <DialogDescription>
+                      HR users who can manage applications, interviews and offers for your jobs
+                    </DialogDescription>
+                  </DialogHeader>
+                  <HrTeamManager />
+                </DialogContent>
+              </Dialog>
               <Button variant="outline" onClick={signOut}>
                 <LogOut className="h-4 w-4 mr-2" />
                 Logout
@@ -323,17 +429,93 @@ const CompanyDashboard = () => {
                         required
                       />
                     </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="required_skills">Required Skills</Label>
+                        <Input
+                          id="required_skills"
+                          value={jobForm.required_skills}
+                          onChange={(e) => setJobForm({ ...jobForm, required_skills: e.target.value })}
+                          placeholder="e.g. React, TypeScript, SQL"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="nice_to_have_skills">Nice-to-have Skills</Label>
+                        <Input
+                          id="nice_to_have_skills"
+                          value={jobForm.nice_to_have_skills}
+                          onChange={(e) => setJobForm({ ...jobForm, nice_to_have_skills: e.target.value })}
+                          placeholder="e.g. GraphQL, AWS"
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="min_experience_years">Min Experience (yrs)</Label>
+                        <Input
+                          id="min_experience_years"
+                          type="number"
+                          min={0}
+                          value={jobForm.min_experience_years}
+                          onChange={(e) => setJobForm({ ...jobForm, min_experience_years: e.target.value })}
+                          placeholder="2"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="max_experience_years">Max Experience (yrs)</Label>
+                        <Input
+                          id="max_experience_years"
+                          type="number"
+                          min={0}
+                          value={jobForm.max_experience_years}
+                          onChange={(e) => setJobForm({ ...jobForm, max_experience_years: e.target.value })}
+                          placeholder="6"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="seniority_level">Seniority</Label>
+                        <Select
+                          value={jobForm.seniority_level}
+                          onValueChange={(value) => setJobForm({ ...jobForm, seniority_level: value })}
+                        >
+                          <SelectTrigger id="seniority_level">
+                            <SelectValue placeholder="Select level" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {SENIORITY_LEVELS.map(({ value, label }) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="education_level">Education</Label>
+                        <Select
+                          value={jobForm.education_level}
+                          onValueChange={(value) => setJobForm({ ...jobForm, education_level: value })}
+                        >
+                          <SelectTrigger id="education_level">
+                            <SelectValue placeholder="Select education" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {EDUCATION_LEVELS.map(({ value, label }) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
                     <div className="space-y-2">
-                      <Label htmlFor="requirements">Requirements</Label>
+                      <Label htmlFor="requirements">Additional Requirements</Label>
                       <Textarea
                         id="requirements"
                         value={jobForm.requirements}
                         onChange={(e) => setJobForm({ ...jobForm, requirements: e.target.value })}
-                        placeholder="List the required skills, experience, education..."
+                        placeholder="Anything else candidates should know: certifications, languages, travel..."
                         className="min-h-[80px]"
                       />
                     </div>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                       <div className="space-y-2">
                         <Label htmlFor="job_type">Job Type</Label>
                         <Select
@@ -351,6 +533,22 @@ const CompanyDashboard = () => {
                           </SelectContent>
                         </Select>
                       </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="remote_policy">Work Arrangement</Label>
+                        <Select
+                          value={jobForm.remote_policy}
+                          onValueChange={(value) => setJobForm({ ...jobForm, remote_policy: value })}
+                        >
+                          <SelectTrigger id="remote_policy">
+                            <SelectValue placeholder="Select policy" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {REMOTE_POLICIES.map(({ value, label }) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
                       <div className="space-y-2">
                         <Label htmlFor="salary_min">Min Salary</Label>
                         <Input
@@ -454,7 +652,7 @@ const CompanyDashboard = () => {
                           >
                             Close
                           </Button>
-                          <Button size="sm">
+                          <Button size="sm" onClick={() => navigate(`/dashboard/company/pipeline?job=${job.id}`)}>
                             View Applications
                           </Button>
                         </div>
@@ -470,10 +668,30 @@ const CompanyDashboard = () => {
           <div className="space-y-6">
             <Card>
               <CardHeader>
-                <CardTitle className="flex items-center">
-                  <Users className="h-5 w-5 mr-2" />
-                  Recent Applications
-                </CardTitle>
+                <div className="flex justify-between items-center">
+                  <CardTitle className="flex items-center">
+                    <Users className="h-5 w-5 mr-2" />
+                    {applicationSort === 'match' ? 'Top Applicants' : 'Recent Applications'}
+                  </CardTitle>
+                  <div className="flex items-center gap-2">
+                    <Button size="sm" variant="outline" className="h-8 text-xs" onClick={() => navigate('/dashboard/company/pipeline')}>
+                      <Columns3 className="h-3 w-3 mr-1" />
+                      Pipeline
+                    </Button>
+                    <Select
+                      value={applicationSort}
+                      onValueChange={(value) => setApplicationSort(value as 'newest' | 'match')}
+                    >
+                      <SelectTrigger className="w-32 h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="newest">Newest</SelectItem>
+                        <SelectItem value="match">Match score</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
               </CardHeader>
               <CardContent>
                 {applications.length === 0 ? (
@@ -483,7 +701,7 @@ const CompanyDashboard = () => {
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {applications.slice(0, 5).map((application) => (
+                    {sortedApplications.slice(0, 5).map((application) => (
                       <div key={application.id} className="border rounded-lg p-3">
                         <div className="flex justify-between items-start mb-2">
                           <div>
@@ -494,51 +712,58 @@ const CompanyDashboard = () => {
                               {application.jobs?.title}
                             </p>
                           </div>
-                          <Badge
-                            variant={
-                              application.status === 'pending'
-                                ? 'outline'
-                                : application.status === 'accepted'
-                                ? 'default'
-                                : 'secondary'
-                            }
-                          >
-                            {application.status}
-                          </Badge>
+                          <ApplicationStatusBadge status={application.status} />
+                        </div>
+                        <div className="flex justify-between items-center mb-2">
+                          <p className="text-xs text-gray-500">
+                            {application.profiles?.email}
+                          </p>
+                          {application.resume_id && (
+                            <MatchScoreBadge match={matchScores[matchKey(application.resume_id, application.job_id)]} />
+                          )}
                         </div>
-                        <p className="text-xs text-gray-500 mb-2">
-                          {application.profiles?.email}
-                        </p>
                         <div className="flex gap-1">
-                          {application.status === 'pending' && (
-                            <>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                className="text-xs h-6"
-                                onClick={() => updateApplicationStatus(application.id, 'reviewed')}
-                              >
-                                Review
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                className="text-xs h-6"
-                                onClick={() => updateApplicationStatus(application.id, 'interview')}
-                              >
-                                Interview
-                              </Button>
-                            </>
+                          {application.resume_id && (
+                            <Dialog onOpenChange={(open) => open && markApplicationViewed(application)}>
+                              <DialogTrigger asChild>
+                                <Button size="sm" variant="ghost" className="text-xs h-6">
+                                  Career history
+                                </Button>
+                              </DialogTrigger>
+                              <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+                                <DialogHeader>
+                                  <DialogTitle>{application.profiles?.full_name}</DialogTitle>
+                                  <DialogDescription>Career history parsed from the submitted resume</DialogDescription>
+                                </DialogHeader>
+                                <ResumeTimeline resumeId={application.resume_id} />
+                              </DialogContent>
+                            </Dialog>
                           )}
-                          {application.status === 'reviewed' && (
+                          <Dialog onOpenChange={(open) => open && markApplicationViewed(application)}>
+                            <DialogTrigger asChild>
+                              <Button size="sm" variant="ghost" className="text-xs h-6">
+                                History
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent className="sm:max-w-lg">
+                              <DialogHeader>
+                                <DialogTitle>{application.profiles?.full_name}</DialogTitle>
+                                <DialogDescription>{application.jobs?.title}: application history, messages and notes</DialogDescription>
+                              </DialogHeader>
+                              <ApplicationTimeline applicationId={application.id} viewer="employer" />
+                            </DialogContent>
+                          </Dialog>
+                          {employerNextStatuses(application.status).map(next => (
                             <Button
+                              key={next}
                               size="sm"
-                              className="text-xs h-6"
-                              onClick={() => updateApplicationStatus(application.id, 'accepted')}
+                              variant={next === 'rejected' ? 'ghost' : 'outline'}
+                              className={`text-xs h-6 ${next === 'rejected' ? 'text-destructive' : ''}`}
+                              onClick={() => updateApplicationStatus(application, next)}
                             >
-                              Accept
+                              {APPLICATION_STATUS_ACTIONS[next]}
                             </Button>
-                          )}
+                          ))}
                         </div>
                       </div>
                     ))}
@@ -550,6 +775,17 @@ const CompanyDashboard = () => {
         </div>
       </div>
 
+      {pendingDecision && (
+        <HiringDecisionDialog
+          decision={pendingDecision.decision}
+          candidates={[{ id: pendingDecision.application.id, name: pendingDecision.application.profiles?.full_name || 'Candidate' }]}
+          jobId={pendingDecision.application.job_id}
+          busy={deciding}
+          onConfirm={handleDecision}
+          onOpenChange={(open) => !open && setPendingDecision(null)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="bg-white border-t mt-16">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -6,8 +6,12 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { CalendarFeedDialog } from '@/components/CalendarFeedDialog';
+import { SkillTaxonomyManager } from '@/components/SkillTaxonomyManager';
+import { sendApplicationEmail, submitApplication } from '@/lib/applications';
+import { canonicalSkill, fetchSkillLookup, skillKey, type SkillLookup } from '@/lib/skills';
 import { toast } from 'sonner';
-import { Search, Users, Building, LogOut, Briefcase, MapPin, DollarSign, UserPlus } from 'lucide-react';
+import { Search, Users, Building, LogOut, Briefcase, MapPin, DollarSign, UserPlus, Tags } from 'lucide-react';
 
 interface Job {
   id: string;
@@ -43,7 +47,9 @@ const HRDashboard = () => {
   const [jobs, setJobs] = useState<Job[]>([]);
   const [candidates, setCandidates] = useState<Candidate[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [skillLookup, setSkillLookup] = useState<SkillLookup>(new Map());
   const [loading, setLoading] = useState(false);
+  const isPlatformAdmin = user?.app_metadata?.role === 'admin';
 
   useEffect(() => {
     if (!user) {
@@ -52,6 +58,9 @@ const HRDashboard = () => {
     }
     fetchJobs();
     fetchCandidates();
+    fetchSkillLookup()
+      .then(setSkillLookup)
+      .catch(error => console.error('Error fetching skills:', error));
   }, [user, navigate]);
 
   const fetchJobs = async () => {
@@ -104,31 +113,14 @@ const HRDashboard = () => {
 
     setLoading(true);
     try {
-      // Check if already referred
-      const { data: existingApplication } = await supabase
-        .from('job_applications')
-        .select('id')
-        .eq('job_id', jobId)
-        .eq('applicant_id', candidateId)
-        .single();
-
-      if (existingApplication) {
-        toast.error('Candidate already applied or referred to this job');
-        return;
-      }
-
-      // Create application with referred status
-      const { error } = await supabase
-        .from('job_applications')
-        .insert({
-          job_id: jobId,
-          applicant_id: candidateId,
-          status: 'reviewed', // Start with reviewed status for referred candidates
-          cover_letter: `Referred by HR: ${profile?.full_name || 'HR Professional'}`
-        });
-
-      if (error) throw error;
+      // Referrals skip the candidate's quota and start at screening
+      const applicationId = await submitApplication({
+        jobId,
+        applicantId: candidateId,
+        coverLetter: `Referred by HR: ${profile?.full_name || 'HR Professional'}`
+      });
 
+      sendApplicationEmail('applied', applicationId);
       toast.success('Candidate referred successfully!');
     } catch (error: any) {
       console.error('Error referring candidate:', error);
@@ -145,13 +137,19 @@ const HRDashboard = () => {
     job.profiles?.company_name?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  // Resume skills are stored under canonical names, so "js" should also find "JavaScript"
+  const searchedSkill = canonicalSkill(skillLookup, searchTerm);
+
   const filteredCandidates = candidates.filter(candidate =>
     candidate.full_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     candidate.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     candidate.bio?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     candidate.resumes?.some(resume =>
       resume.job_role?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      resume.skills?.some(skill => skill.toLowerCase().includes(searchTerm.toLowerCase()))
+      resume.skills?.some(skill =>
+        skill.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        (searchedSkill !== null && skillKey(skill) === skillKey(searchedSkill))
+      )
     )
   );
 
@@ -184,6 +182,7 @@ const HRDashboard = () => {
               <span className="text-sm text-gray-700">
                 Welcome, {profile?.full_name || 'HR Professional'}
               </span>
+              <CalendarFeedDialog />
               <Button variant="outline" onClick={signOut}>
                 <LogOut className="h-4 w-4 mr-2" />
                 Logout
@@ -405,6 +404,24 @@ const HRDashboard = () => {
             </CardContent>
           </Card>
         </div>
+
+        {/* Skills Taxonomy, maintained by platform admins (see is_platform_admin()) */}
+        {isPlatformAdmin && (
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Tags className="h-5 w-5 mr-2" />
+                Skills Taxonomy
+              </CardTitle>
+              <CardDescription>
+                Canonical skill names and the aliases that map to them, used for resume skills, job requirements and matching
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SkillTaxonomyManager />
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       {/* Footer */}
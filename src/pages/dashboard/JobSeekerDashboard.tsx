@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/button';
@@ -11,8 +11,24 @@ import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ApplicationStatusBadge } from '@/components/ApplicationStatusBadge';
+import { ApplicationTimeline } from '@/components/ApplicationTimeline';
+import { CalendarFeedDialog } from '@/components/CalendarFeedDialog';
+import { InterviewSchedule } from '@/components/InterviewSchedule';
+import { OfferResponse } from '@/components/OfferResponse';
+import { MatchScoreBadge } from '@/components/MatchScoreBadge';
+import { ResumeImproveDialog } from '@/components/ResumeImproveDialog';
+import { ResumeTimeline, type CareerGap } from '@/components/ResumeTimeline';
+import { ResumeVersionDiff } from '@/components/ResumeVersionDiff';
 import { useAuth } from '@/hooks/useAuth';
+import { matchKey, useMatchScores } from '@/hooks/useMatchScores';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { canWithdraw } from '@/lib/applicationStatus';
+import { FREE_APPLICATION_LIMIT, sendApplicationEmail, submitApplication as submitJobApplication } from '@/lib/applications';
+import { generateCoverLetter, LENGTH_OPTIONS, MAX_COVER_LETTER_LENGTH, TONE_OPTIONS, type CoverLetterLength, type CoverLetterTone } from '@/lib/coverLetter';
+import { sendInterviewInvites } from '@/lib/interviews';
+import { analysisErrorMessage, requestResumeAnalysis } from '@/lib/resumeAnalysis';
 import { toast } from 'sonner';
 import { 
   Upload, 
@@ -29,9 +45,6 @@ import {
   Eye,
   Plus,
   Home,
-  Clock,
-  CheckCircle,
-  XCircle,
   AlertTriangle,
   Crown,
   Trash2,
@@ -39,7 +52,11 @@ import {
   Send,
   Download,
   Star,
-  Sparkles
+  Sparkles,
+  Loader2,
+  RefreshCw,
+  History,
+  GitCompare
 } from 'lucide-react';
 
 interface Job {
@@ -58,6 +75,9 @@ interface Job {
 
 interface Resume {
   id: string;
+  document_id: string;
+  version: number;
+  created_at: string;
   file_name: string;
   file_url: string;
   skills: string[];
@@ -68,10 +88,43 @@ interface Resume {
   recommendations?: string[];
   missing_skills?: string[];
   strength_areas?: string[];
+  experience_months: number | null;
+  career_gaps: Json;
+  analysis_status: string;
+  analysis_progress: number;
+  analysis_error: string | null;
+  resume_documents: {
+    title: string;
+  } | null;
+}
+
+interface ResumeDocument {
+  id: string;
+  title: string;
+  versions: Resume[]; // newest first
 }
 
+// Resumes arrive newest first, so each document's first version is its latest
+const groupByDocument = (resumes: Resume[]): ResumeDocument[] => {
+  const documents = new Map<string, ResumeDocument>();
+  for (const resume of resumes) {
+    const document = documents.get(resume.document_id);
+    if (document) {
+      document.versions.push(resume);
+    } else {
+      documents.set(resume.document_id, {
+        id: resume.document_id,
+        title: resume.resume_documents?.title || resume.file_name,
+        versions: [resume]
+      });
+    }
+  }
+  return [...documents.values()];
+};
+
 interface Application {
   id: string;
+  job_id: string;
   status: string;
   created_at: string;
   viewed_at: string | null;
@@ -86,6 +139,9 @@ interface Application {
   };
 }
 
+// Stages where the application has, or had, interviews to show
+const INTERVIEW_STAGES = ['interview', 'offer', 'hired'];
+
 const JobSeekerDashboard = () => {
   const { user, profile, signOut } = useAuth();
   const navigate = useNavigate();
@@ -93,15 +149,27 @@ const JobSeekerDashboard = () => {
   const [resumes, setResumes] = useState<Resume[]>([]);
   const [applications, setApplications] = useState<Application[]>([]);
   const [uploading, setUploading] = useState(false);
-  const [analyzing, setAnalyzing] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [canApply, setCanApply] = useState(true);
   const [applicationsLeft, setApplicationsLeft] = useState(3);
   const [showApplyModal, setShowApplyModal] = useState(false);
   const [selectedJobId, setSelectedJobId] = useState<string>('');
   const [selectedResumeId, setSelectedResumeId] = useState<string>('');
-  const [preferredInterviewDate, setPreferredInterviewDate] = useState('');
   const [coverLetter, setCoverLetter] = useState('');
+  const [coverLetterTone, setCoverLetterTone] = useState<CoverLetterTone>('professional');
+  const [coverLetterLength, setCoverLetterLength] = useState<CoverLetterLength>('medium');
+  const [draftingLetter, setDraftingLetter] = useState(false);
+  const [versionTarget, setVersionTarget] = useState<string | null>(null);
+  const [shownVersions, setShownVersions] = useState<Record<string, string>>({});
+  const [compareDocumentId, setCompareDocumentId] = useState<string | null>(null);
+  const [improveResume, setImproveResume] = useState<Resume | null>(null);
+  const versionInputRef = useRef<HTMLInputElement>(null);
+  // Last analysis status seen per resume. Realtime payloads don't carry the previous row (under
+  // RLS payload.old holds only the key), so completion is detected against this instead.
+  const analysisStatuses = useRef<Record<string, string>>({});
+  const resumeDocuments = groupByDocument(resumes);
+  const latestResumeId = resumes[0]?.id;
+  const { scores: matchScores } = useMatchScores(jobs.map(job => ({ resumeId: latestResumeId, jobId: job.id })));
 
   useEffect(() => {
     const initializeDashboard = async () => {
@@ -122,6 +190,32 @@ const JobSeekerDashboard = () => {
     initializeDashboard();
   }, [user]);
 
+  // Analysis runs in the background; the worker's status and progress updates arrive here
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`resumes-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'resumes', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const updated = payload.new as Resume;
+          const previousStatus = analysisStatuses.current[updated.id];
+          analysisStatuses.current[updated.id] = updated.analysis_status;
+          setResumes(prev => prev.map(r => (r.id === updated.id ? { ...r, ...updated } : r)));
+          if (updated.analysis_status === 'complete' && previousStatus !== 'complete') {
+            toast.success(`${updated.file_name} analyzed successfully!`);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
   const fetchJobs = async () => {
     try {
       const { data, error } = await supabase
@@ -150,11 +244,13 @@ const JobSeekerDashboard = () => {
     try {
       const { data, error } = await supabase
         .from('resumes')
-        .select('*')
+        .select('*, resume_documents ( title )')
         .eq('user_id', user.id)
+        .is('archived_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
+      analysisStatuses.current = Object.fromEntries((data || []).map(resume => [resume.id, resume.analysis_status]));
       setResumes(data || []);
     } catch (error) {
       console.error('Error fetching resumes:', error);
@@ -202,13 +298,15 @@ const JobSeekerDashboard = () => {
     }
 
     const applicationsCount = (profile as any).applications_count || 0;
-    const remaining = Math.max(0, 3 - applicationsCount);
+    const remaining = Math.max(0, FREE_APPLICATION_LIMIT - applicationsCount);
     setApplicationsLeft(remaining);
     setCanApply(remaining > 0);
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>, documentId: string | null = null) => {
     const file = event.target.files?.[0];
+    // Allows picking the same file again after a failed upload
+    event.target.value = '';
     if (!file || !user) return;
 
     // Check file size (5MB limit)
@@ -217,24 +315,34 @@ const JobSeekerDashboard = () => {
       return;
     }
 
-    // Check file type
+    // Check file type; browsers leave the type empty for some formats (.md, often .rtf), so the
+    // extension is accepted too. The analysis sniffs the real format from the file contents.
     const allowedTypes = [
       'application/pdf',
       'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.oasis.opendocument.text',
+      'application/rtf',
+      'text/rtf',
+      'text/plain',
+      'text/markdown',
+      // Scans and photos of a printed resume are read with OCR
+      'image/png',
+      'image/jpeg'
     ];
-    if (!allowedTypes.includes(file.type)) {
-      toast.error('Only PDF, DOC, and DOCX files are allowed');
+    const allowedExtensions = ['pdf', 'doc', 'docx', 'odt', 'rtf', 'txt', 'md', 'png', 'jpg', 'jpeg'];
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    if (!allowedTypes.includes(file.type) && !allowedExtensions.includes(extension)) {
+      toast.error('Only PDF, DOC, DOCX, ODT, RTF, TXT, Markdown, PNG, and JPG files are allowed');
       return;
     }
 
     setUploading(true);
-    setAnalyzing(true);
 
     try {
       // Upload file to Supabase storage
       const fileName = `${user.id}/${Date.now()}-${file.name}`;
-      const { data: uploadData, error: uploadError } = await supabase.storage
+      const { error: uploadError } = await supabase.storage
         .from('resumes')
         .upload(fileName, file);
 
@@ -245,73 +353,71 @@ const JobSeekerDashboard = () => {
         .from('resumes')
         .getPublicUrl(fileName);
 
-      // Call AI analysis function
-      const { data: analysisData, error: analysisError } = await supabase.functions
-        .invoke('analyze-resume', {
-          body: { 
-            fileUrl: urlData.publicUrl,
-            fileName: file.name 
-          }
-        });
-
-      if (analysisError) throw analysisError;
-
-      // Save resume with analysis to database
+      // Saving the row enqueues its analysis; results stream in through the realtime subscription.
+      // Without a document_id the database starts a new resume document at version 1.
       const { error: insertError } = await supabase
         .from('resumes')
         .insert({
           user_id: user.id,
+          document_id: documentId ?? undefined,
           file_name: file.name,
           file_url: urlData.publicUrl,
-          file_size: file.size,
-          skills: analysisData.skills || [],
-          experience_years: analysisData.experience_years || 0,
-          job_role: analysisData.job_role || '',
-          ats_score: analysisData.ats_score || 0,
-          summary: analysisData.summary || '',
-          recommendations: analysisData.recommendations || [],
-          missing_skills: analysisData.missing_skills || [],
-          strength_areas: analysisData.strength_areas || []
+          file_size: file.size
         });
 
       if (insertError) throw insertError;
 
-      toast.success('Resume uploaded and analyzed successfully!');
+      toast.success(documentId ? 'New version uploaded! Analysis has started.' : 'Resume uploaded! Analysis has started.');
       fetchResumes();
     } catch (error: any) {
       console.error('Error uploading resume:', error);
       toast.error(error.message || 'Failed to upload resume');
     } finally {
       setUploading(false);
-      setAnalyzing(false);
+    }
+  };
+
+  const handleUploadVersion = (documentId: string) => {
+    setVersionTarget(documentId);
+    versionInputRef.current?.click();
+  };
+
+  const handleReanalyzeResume = async (resumeId: string) => {
+    try {
+      await requestResumeAnalysis(resumeId);
+      analysisStatuses.current[resumeId] = 'queued';
+      setResumes(prev => prev.map(r => (r.id === resumeId ? { ...r, analysis_status: 'queued', analysis_progress: 0, analysis_error: null } : r)));
+    } catch (error) {
+      console.error('Error re-analyzing resume:', error);
+      toast.error('Failed to start resume analysis');
     }
   };
 
   const handleDeleteResume = async (resumeId: string, fileUrl: string) => {
     try {
-      // Extract file path from URL
-      const urlParts = fileUrl.split('/');
-      const fileName = urlParts[urlParts.length - 1];
-      const filePath = `${user?.id}/${fileName}`;
+      // Versions submitted with an application are only archived, so their file has to stay
+      const { data: outcome, error: dbError } = await supabase.rpc('delete_resume_version', { p_resume_id: resumeId });
 
-      // Delete file from storage
-      const { error: storageError } = await supabase.storage
-        .from('resumes')
-        .remove([filePath]);
+      if (dbError) throw dbError;
 
-      if (storageError) {
-        console.warn('Storage deletion warning:', storageError);
-      }
+      if (outcome === 'deleted') {
+        // Extract file path from URL
+        const urlParts = fileUrl.split('/');
+        const fileName = urlParts[urlParts.length - 1];
+        const filePath = `${user?.id}/${fileName}`;
 
-      // Delete resume record from database
-      const { error: dbError } = await supabase
-        .from('resumes')
-        .delete()
-        .eq('id', resumeId);
+        const { error: storageError } = await supabase.storage
+          .from('resumes')
+          .remove([filePath]);
 
-      if (dbError) throw dbError;
+        if (storageError) {
+          console.warn('Storage deletion warning:', storageError);
+        }
 
-      toast.success('Resume deleted successfully');
+        toast.success('Resume deleted successfully');
+      } else {
+        toast.success('Resume removed. Employers you applied to keep the version you sent them.');
+      }
       fetchResumes();
     } catch (error: any) {
       console.error('Error deleting resume:', error);
@@ -339,98 +445,78 @@ const JobSeekerDashboard = () => {
     setShowApplyModal(true);
   };
 
+  // Replaces the textarea with an editable draft built from the selected resume and job
+  const handleDraftCoverLetter = async () => {
+    if (!selectedResumeId || !selectedJobId) return;
+
+    setDraftingLetter(true);
+    try {
+      setCoverLetter(await generateCoverLetter({
+        resumeId: selectedResumeId,
+        jobId: selectedJobId,
+        tone: coverLetterTone,
+        length: coverLetterLength
+      }));
+    } catch (error) {
+      console.error('Error drafting cover letter:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to draft a cover letter');
+    } finally {
+      setDraftingLetter(false);
+    }
+  };
+
   const submitApplication = async () => {
-    if (!selectedResumeId || !preferredInterviewDate) {
-      toast.error('Please select a resume and preferred interview date');
+    if (!selectedResumeId) {
+      toast.error('Please select a resume');
       return;
     }
 
     try {
-      // Check if user has already applied to this job
-      const { data: existingApplication } = await supabase
-        .from('job_applications')
-        .select('id')
-        .eq('job_id', selectedJobId)
-        .eq('applicant_id', user.id)
-        .single();
-
-      if (existingApplication) {
-        toast.error('You have already applied to this job');
-        return;
-      }
-
-      // Get selected resume and job details
-      const selectedResume = resumes.find(r => r.id === selectedResumeId);
-      const selectedJob = jobs.find(j => j.id === selectedJobId);
-
-      if (!selectedResume || !selectedJob) {
-        toast.error('Invalid resume or job selection');
-        return;
-      }
+      // Quota, duplicate and job status checks happen server-side
+      const applicationId = await submitJobApplication({
+        jobId: selectedJobId,
+        resumeId: selectedResumeId,
+        coverLetter
+      });
 
-      // Create new application
-      const { data: applicationData, error: applicationError } = await supabase
-        .from('job_applications')
-        .insert({
-          job_id: selectedJobId,
-          applicant_id: user.id,
-          resume_id: selectedResumeId,
-          cover_letter: coverLetter,
-          status: 'pending'
-        })
-        .select()
-        .single();
-
-      if (applicationError) throw applicationError;
-
-      // Send email notifications
-      const { error: emailError } = await supabase.functions
-        .invoke('send-application-email', {
-          body: {
-            hrEmail: selectedJob.profiles.full_name, // Assume this is email for now
-            candidateEmail: user.email,
-            candidateName: profile?.full_name || 'Unknown',
-            jobTitle: selectedJob.title,
-            companyName: selectedJob.profiles.company_name,
-            resumeUrl: selectedResume.file_url,
-            skills: selectedResume.skills || [],
-            preferredInterviewDate,
-            coverLetter,
-            applicationId: applicationData.id
-          }
-        });
-
-      if (emailError) {
-        console.warn('Email notification failed:', emailError);
-      }
+      sendApplicationEmail('applied', applicationId);
 
       toast.success('Application submitted successfully!');
       setShowApplyModal(false);
       setSelectedJobId('');
       setSelectedResumeId('');
-      setPreferredInterviewDate('');
       setCoverLetter('');
       
-      // Refresh data to update counts
+      // The profile in useAuth still has the old count
       fetchApplications();
-      checkApplicationLimits();
+      if (applicationsLeft > 0) {
+        setApplicationsLeft(applicationsLeft - 1);
+        setCanApply(applicationsLeft > 1);
+      }
     } catch (error: any) {
       console.error('Error applying to job:', error);
       toast.error(error.message || 'Failed to submit application');
     }
   };
 
-  const getStatusBadge = (status: string, viewedAt: string | null, responseDate: string | null) => {
-    if (status === 'accepted') {
-      return <Badge className="bg-green-100 text-green-800"><CheckCircle className="h-3 w-3 mr-1" />Accepted</Badge>;
-    }
-    if (status === 'rejected') {
-      return <Badge className="bg-red-100 text-red-800"><XCircle className="h-3 w-3 mr-1" />Rejected</Badge>;
-    }
-    if (viewedAt) {
-      return <Badge className="bg-blue-100 text-blue-800"><Eye className="h-3 w-3 mr-1" />Reviewed</Badge>;
+  // Withdrawing doesn't give the application back to the free quota
+  const handleWithdrawApplication = async (applicationId: string) => {
+    try {
+      const { error } = await supabase
+        .from('job_applications')
+        .update({ status: 'withdrawn' })
+        .eq('id', applicationId);
+
+      if (error) throw error;
+
+      toast.success('Application withdrawn');
+      // Withdrawing cancels any scheduled interviews
+      sendInterviewInvites(applicationId);
+      fetchApplications();
+    } catch (error) {
+      console.error('Error withdrawing application:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to withdraw application');
     }
-    return <Badge className="bg-gray-100 text-gray-800"><Clock className="h-3 w-3 mr-1" />Pending</Badge>;
   };
 
   const filteredJobs = jobs.filter(job =>
@@ -478,6 +564,7 @@ const JobSeekerDashboard = () => {
               <span className="text-sm text-white/90">
                 Welcome, {profile?.full_name || 'Job Seeker'}
               </span>
+              <CalendarFeedDialog className="border-white/30 text-white hover:bg-white/10" />
               <Button variant="outline" onClick={signOut} className="border-white/30 text-white hover:bg-white/10">
                 <LogOut className="h-4 w-4 mr-2" />
                 Logout
@@ -529,9 +616,11 @@ const JobSeekerDashboard = () => {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-8">
-              {resumes.map((resume) => (
+              {resumeDocuments.map((document) => {
+                const resume = document.versions.find(v => v.id === shownVersions[document.id]) ?? document.versions[0];
+                return (
                  <motion.div 
-                   key={resume.id} 
+                   key={document.id} 
                    initial={{ opacity: 0, y: 20 }}
                    animate={{ opacity: 1, y: 0 }}
                    transition={{ duration: 0.5 }}
@@ -541,8 +630,54 @@ const JobSeekerDashboard = () => {
                    <div className="flex justify-between items-start mb-8">
                      <div className="flex-1">
                        <div className="flex items-center justify-between mb-4">
-                         <h3 className="text-xl font-bold text-gray-900">{resume.file_name}</h3>
+                         <div>
+                           <h3 className="text-xl font-bold text-gray-900">{document.title}</h3>
+                           <div className="flex items-center gap-2 mt-1 text-sm text-gray-500">
+                             {document.versions.length > 1 ? (
+                               <Select
+                                 value={resume.id}
+                                 onValueChange={(id) => setShownVersions(prev => ({ ...prev, [document.id]: id }))}
+                               >
+                                 <SelectTrigger className="h-7 w-auto gap-2 text-xs">
+                                   <History className="h-3 w-3" />
+                                   <SelectValue />
+                                 </SelectTrigger>
+                                 <SelectContent>
+                                   {document.versions.map(v => (
+                                     <SelectItem key={v.id} value={v.id}>
+                                       Version {v.version}{v === document.versions[0] ? ' (latest)' : ''}
+                                     </SelectItem>
+                                   ))}
+                                 </SelectContent>
+                               </Select>
+                             ) : (
+                               <Badge variant="outline" className="text-xs">Version {resume.version}</Badge>
+                             )}
+                             <span className="truncate">{resume.file_name}</span>
+                           </div>
+                         </div>
                          <div className="flex items-center space-x-2">
+                           <Button
+                             variant="outline"
+                             size="sm"
+                             className="text-gray-600 hover:text-blue-600"
+                             onClick={() => handleUploadVersion(document.id)}
+                             disabled={uploading}
+                           >
+                             <Upload className="h-4 w-4 mr-1" />
+                             New Version
+                           </Button>
+                           {document.versions.length > 1 && (
+                             <Button
+                               variant="outline"
+                               size="sm"
+                               className="text-gray-600 hover:text-blue-600"
+                               onClick={() => setCompareDocumentId(document.id)}
+                             >
+                               <GitCompare className="h-4 w-4 mr-1" />
+                               Compare
+                             </Button>
+                           )}
                            <Button
                              variant="outline"
                              size="sm"
@@ -552,6 +687,17 @@ const JobSeekerDashboard = () => {
                              <Download className="h-4 w-4 mr-1" />
                              View
                            </Button>
+                           {resume.analysis_status === 'complete' && (
+                             <Button
+                               variant="outline"
+                               size="sm"
+                               className="text-gray-600 hover:text-blue-600"
+                               onClick={() => handleReanalyzeResume(resume.id)}
+                             >
+                               <RefreshCw className="h-4 w-4 mr-1" />
+                               Re-analyze
+                             </Button>
+                           )}
                            <Button
                              variant="destructive"
                              size="sm"
@@ -563,6 +709,31 @@ const JobSeekerDashboard = () => {
                            </Button>
                          </div>
                        </div>
+                       {(resume.analysis_status === 'queued' || resume.analysis_status === 'processing') && (
+                         <div className="mb-4 space-y-2">
+                           <div className="flex items-center text-gray-600 text-sm">
+                             <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                             {resume.analysis_status === 'processing'
+                               ? 'Analyzing resume...'
+                               : resume.analysis_error
+                                 ? `Retrying shortly — ${analysisErrorMessage(resume.analysis_error)}`
+                                 : 'Queued for analysis...'}
+                           </div>
+                           <Progress value={resume.analysis_progress} className="h-2" />
+                         </div>
+                       )}
+                       {resume.analysis_status === 'failed' && (
+                         <Alert variant="destructive" className="mb-2">
+                           <AlertTriangle className="h-4 w-4" />
+                           <AlertDescription className="flex items-center justify-between gap-4">
+                             <span>Analysis failed — {analysisErrorMessage(resume.analysis_error)}</span>
+                             <Button variant="outline" size="sm" onClick={() => handleReanalyzeResume(resume.id)}>
+                               <RefreshCw className="h-4 w-4 mr-1" />
+                               Retry
+                             </Button>
+                           </AlertDescription>
+                         </Alert>
+                       )}
                        {resume.job_role && (
                          <div className="flex items-center mb-2">
                            <Badge className="badge-gradient text-base px-4 py-2">
@@ -663,20 +834,38 @@ const JobSeekerDashboard = () => {
                              ))}
                            </ul>
                          ) : (
-                           <p className="text-gray-700 text-base leading-relaxed">{resume.summary}</p>
+                           <p className="text-gray-700 text-base leading-relaxed whitespace-pre-line">{resume.summary}</p>
                          )}
                        </div>
                      </motion.div>
                    )}
 
+                  {/* Career Timeline */}
+                  {resume.analysis_status === 'complete' && (
+                    <div className="mb-8">
+                      <ResumeTimeline
+                        resumeId={resume.id}
+                        gaps={Array.isArray(resume.career_gaps) ? (resume.career_gaps as unknown as CareerGap[]) : []}
+                      />
+                    </div>
+                  )}
+
                   {/* Recommendations & Missing Skills */}
                   <div className="grid md:grid-cols-2 gap-6">
                     {resume.recommendations && resume.recommendations.length > 0 && (
                       <div>
-                        <h4 className="text-lg font-semibold mb-4 flex items-center">
-                          <span className="w-4 h-4 bg-orange-500 rounded-full mr-2"></span>
-                          Recommendations
-                        </h4>
+                        <div className="flex items-center justify-between mb-4">
+                          <h4 className="text-lg font-semibold flex items-center">
+                            <span className="w-4 h-4 bg-orange-500 rounded-full mr-2"></span>
+                            Recommendations
+                          </h4>
+                          {resume.analysis_status === 'complete' && (
+                            <Button variant="outline" size="sm" onClick={() => setImproveResume(resume)}>
+                              <Sparkles className="h-4 w-4 mr-1" />
+                              Improve
+                            </Button>
+                          )}
+                        </div>
                         <ul className="space-y-2">
                           {resume.recommendations.map((rec, index) => (
                             <li key={index} className="text-sm text-gray-600 flex items-start">
@@ -709,14 +898,42 @@ const JobSeekerDashboard = () => {
                     )}
                   </div>
                  </motion.div>
-               ))}
+                );
+              })}
              </CardContent>
            </Card>
         )}
 
+        {/* Version Comparison Modal */}
+        <Dialog open={compareDocumentId !== null} onOpenChange={(open) => !open && setCompareDocumentId(null)}>
+          <DialogContent className="sm:max-w-3xl">
+            <DialogHeader>
+              <DialogTitle className="flex items-center">
+                <GitCompare className="h-5 w-5 mr-2 text-primary" />
+                Compare Versions
+              </DialogTitle>
+              <DialogDescription>
+                See how your ATS score and skills changed between two versions of this resume.
+              </DialogDescription>
+            </DialogHeader>
+            {compareDocumentId && (
+              <ResumeVersionDiff
+                versions={resumeDocuments.find(d => d.id === compareDocumentId)?.versions || []}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* Bullet Rewrite Modal */}
+        <ResumeImproveDialog
+          resume={improveResume}
+          onOpenChange={(open) => !open && setImproveResume(null)}
+          onVersionCreated={fetchResumes}
+        />
+
         {/* Application Modal */}
         <Dialog open={showApplyModal} onOpenChange={setShowApplyModal}>
-          <DialogContent className="sm:max-w-md">
+          <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle className="flex items-center">
                 <Send className="h-5 w-5 mr-2 text-primary" />
@@ -736,33 +953,58 @@ const JobSeekerDashboard = () => {
                   <SelectContent>
                     {resumes.map((resume) => (
                       <SelectItem key={resume.id} value={resume.id}>
-                        {resume.file_name} {resume.job_role && `(${resume.job_role})`}
+                        {resume.resume_documents?.title || resume.file_name} v{resume.version} {resume.job_role && `(${resume.job_role})`}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
               
-              <div>
-                <Label htmlFor="interview-date">Preferred Interview Date</Label>
-                <Input
-                  id="interview-date"
-                  type="datetime-local"
-                  value={preferredInterviewDate}
-                  onChange={(e) => setPreferredInterviewDate(e.target.value)}
-                  min={new Date().toISOString().slice(0, 16)}
-                />
-              </div>
-              
-              <div>
+              <div className="space-y-2">
                 <Label htmlFor="cover-letter">Cover Letter (Optional)</Label>
+                <div className="flex gap-2">
+                  <Select value={coverLetterTone} onValueChange={(value) => setCoverLetterTone(value as CoverLetterTone)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TONE_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={coverLetterLength} onValueChange={(value) => setCoverLetterLength(value as CoverLetterLength)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LENGTH_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleDraftCoverLetter}
+                    disabled={!selectedResumeId || draftingLetter}
+                    className="whitespace-nowrap"
+                  >
+                    {draftingLetter ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Sparkles className="h-4 w-4 mr-1" />}
+                    Draft with AI
+                  </Button>
+                </div>
                 <Textarea
                   id="cover-letter"
                   placeholder="Tell the employer why you're a great fit for this role..."
                   value={coverLetter}
                   onChange={(e) => setCoverLetter(e.target.value)}
-                  rows={4}
+                  maxLength={MAX_COVER_LETTER_LENGTH}
+                  rows={coverLetter ? 10 : 4}
                 />
+                {coverLetter && (
+                  <p className="text-xs text-gray-500">Review and edit the letter before submitting; it only uses facts from your resume.</p>
+                )}
               </div>
               
               {selectedResumeId && (
@@ -878,7 +1120,7 @@ const JobSeekerDashboard = () => {
                   Resume Upload
                 </CardTitle>
                 <CardDescription>
-                  Upload your resume for AI analysis (PDF, DOC, DOCX - Max 5MB)
+                  Upload your resume for AI analysis (PDF, DOC, DOCX, ODT, RTF, TXT, MD, PNG, JPG - Max 5MB)
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -886,16 +1128,25 @@ const JobSeekerDashboard = () => {
                   <Upload className="h-12 w-12 mx-auto text-gray-400 mb-4" />
                   <div className="space-y-2">
                     <p className="text-sm text-gray-600">
-                      {analyzing ? 'Analyzing resume with AI...' : 'Click to upload or drag and drop'}
+                      {uploading ? 'Uploading resume...' : 'Click to upload or drag and drop'}
                     </p>
                     <input
                       type="file"
-                      accept=".pdf,.doc,.docx"
+                      accept=".pdf,.doc,.docx,.odt,.rtf,.txt,.md,.png,.jpg,.jpeg"
                       onChange={handleFileUpload}
                       disabled={uploading}
                       className="hidden"
                       id="resume-upload"
                     />
+                    {/* Target of the "New Version" buttons on each resume */}
+                    <input
+                      ref={versionInputRef}
+                      type="file"
+                      accept=".pdf,.doc,.docx,.odt,.rtf,.txt,.md,.png,.jpg,.jpeg"
+                      onChange={(event) => handleFileUpload(event, versionTarget)}
+                      disabled={uploading}
+                      className="hidden"
+                    />
                     <label htmlFor="resume-upload">
                       <Button
                         variant="outline"
@@ -910,6 +1161,13 @@ const JobSeekerDashboard = () => {
                     </label>
                   </div>
                 </div>
+                <div className="mt-4 text-center">
+                  <p className="text-sm text-gray-600 mb-2">No polished resume yet?</p>
+                  <Button variant="outline" className="w-full" onClick={() => navigate('/resume-builder')}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Build a Resume
+                  </Button>
+                </div>
               </CardContent>
             </Card>
 
@@ -933,7 +1191,7 @@ const JobSeekerDashboard = () => {
                       <div key={application.id} className="border rounded-lg p-3">
                         <div className="flex justify-between items-start mb-2">
                           <h4 className="font-medium text-sm">{application.jobs.title}</h4>
-                          {getStatusBadge(application.status, application.viewed_at, application.response_date)}
+                          <ApplicationStatusBadge status={application.status} />
                         </div>
                         <p className="text-xs text-gray-600 mb-1">
                           {application.jobs.profiles?.company_name || application.jobs.profiles?.full_name}
@@ -946,6 +1204,76 @@ const JobSeekerDashboard = () => {
                             Viewed: {new Date(application.viewed_at).toLocaleDateString()}
                           </p>
                         )}
+                        {application.response_date && (
+                          <p className="text-xs text-green-700">
+                            Response: {new Date(application.response_date).toLocaleDateString()}
+                          </p>
+                        )}
+                        <div className="flex gap-1 mt-1">
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <Button variant="ghost" size="sm" className="text-xs h-6 px-2">
+                                History
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent className="sm:max-w-lg">
+                              <DialogHeader>
+                                <DialogTitle>{application.jobs.title}</DialogTitle>
+                                <DialogDescription>Everything that happened with this application</DialogDescription>
+                              </DialogHeader>
+                              <ApplicationTimeline applicationId={application.id} viewer="applicant" />
+                            </DialogContent>
+                          </Dialog>
+                          {INTERVIEW_STAGES.includes(application.status) && (
+                            <Dialog>
+                              <DialogTrigger asChild>
+                                <Button variant="ghost" size="sm" className="text-xs h-6 px-2">
+                                  Interviews
+                                </Button>
+                              </DialogTrigger>
+                              <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+                                <DialogHeader>
+                                  <DialogTitle>{application.jobs.title}</DialogTitle>
+                                  <DialogDescription>Book, reschedule or cancel your interviews</DialogDescription>
+                                </DialogHeader>
+                                <InterviewSchedule
+                                  applicationId={application.id}
+                                  jobId={application.job_id}
+                                  viewer="applicant"
+                                  canSchedule={application.status === 'interview'}
+                                />
+                              </DialogContent>
+                            </Dialog>
+                          )}
+                          {['offer', 'hired'].includes(application.status) && (
+                            <Dialog>
+                              <DialogTrigger asChild>
+                                <Button variant="ghost" size="sm" className="text-xs h-6 px-2">
+                                  Offer
+                                </Button>
+                              </DialogTrigger>
+                              <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+                                <DialogHeader>
+                                  <DialogTitle>{application.jobs.title}</DialogTitle>
+                                  <DialogDescription>
+                                    Your offer from {application.jobs.profiles?.company_name || application.jobs.profiles?.full_name || 'the employer'}
+                                  </DialogDescription>
+                                </DialogHeader>
+                                <OfferResponse applicationId={application.id} onRespond={fetchApplications} />
+                              </DialogContent>
+                            </Dialog>
+                          )}
+                          {canWithdraw(application.status) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-xs h-6 px-2 text-destructive"
+                              onClick={() => handleWithdrawApplication(application.id)}
+                            >
+                              Withdraw
+                            </Button>
+                          )}
+                        </div>
                       </div>
                     ))}
                   </div>
@@ -1004,7 +1332,12 @@ const JobSeekerDashboard = () => {
                        >
                         <div className="flex justify-between items-start mb-2">
                           <h3 className="font-semibold text-lg">{job.title}</h3>
-                          <Badge variant="secondary">{job.job_type?.replace('_', ' ') || 'Full-time'}</Badge>
+                          <div className="flex items-center gap-2">
+                            {latestResumeId && (
+                              <MatchScoreBadge match={matchScores[matchKey(latestResumeId, job.id)]} />
+                            )}
+                            <Badge variant="secondary">{job.job_type?.replace('_', ' ') || 'Full-time'}</Badge>
+                          </div>
                         </div>
                         <p className="text-sm text-gray-600 mb-2">
                           {job.profiles?.company_name || job.profiles?.full_name || 'Company'}
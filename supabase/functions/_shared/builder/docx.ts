@@ -0,0 +1,88 @@
+import { AlignmentType, BorderStyle, Document, Packer, Paragraph, TextRun } from "npm:docx@8.5.0";
+import {
+  contactLine,
+  dateRange,
+  entryHeading,
+  type ResumeDraftContent,
+  SKILLS_HEADING,
+  SUMMARY_HEADING,
+} from "./draft.ts";
+import { headingText, type TemplateStyle } from "./templates.ts";
+
+// docx measures font sizes in half-points and spacing/margins in twentieths of a point
+const halfPoints = (pt: number) => Math.round(pt * 2);
+const twips = (pt: number) => Math.round(pt * 20);
+
+export async function renderDocx(content: ResumeDraftContent, style: TemplateStyle): Promise<Uint8Array> {
+  const font = style.font === "serif" ? "Times New Roman" : "Arial";
+  const alignment = style.centerHeader ? AlignmentType.CENTER : AlignmentType.LEFT;
+  const line = twips(style.bodySize * style.lineHeight);
+  const children: Paragraph[] = [];
+
+  const heading = (text: string) =>
+    children.push(new Paragraph({
+      keepNext: true,
+      spacing: { before: twips(style.sectionGap), after: twips(3) },
+      border: style.headingRule
+        ? { bottom: { color: style.accent, space: 1, style: BorderStyle.SINGLE, size: 6 } }
+        : undefined,
+      children: [new TextRun({ text: headingText(style, text), bold: true, size: halfPoints(style.headingSize), color: style.accent })],
+    }));
+
+  const body = (text: string, opts: { bold?: boolean; italics?: boolean; before?: number; keepNext?: boolean } = {}) =>
+    children.push(new Paragraph({
+      keepNext: opts.keepNext,
+      spacing: { before: twips(opts.before ?? 0), line },
+      children: [new TextRun({ text, bold: opts.bold, italics: opts.italics })],
+    }));
+
+  const { contact } = content;
+  children.push(new Paragraph({
+    alignment,
+    children: [new TextRun({ text: contact.fullName, bold: true, size: halfPoints(style.nameSize), color: style.accent })],
+  }));
+  if (contact.headline) {
+    children.push(new Paragraph({ alignment, children: [new TextRun({ text: contact.headline, size: halfPoints(style.bodySize + 1.5) })] }));
+  }
+  const contacts = contactLine(contact);
+  if (contacts) children.push(new Paragraph({ alignment, children: [new TextRun(contacts)] }));
+
+  if (content.summary) {
+    heading(SUMMARY_HEADING);
+    for (const paragraph of content.summary.split(/\n+/)) {
+      if (paragraph.trim()) body(paragraph.trim());
+    }
+  }
+
+  if (content.skills.length > 0) {
+    heading(SKILLS_HEADING);
+    body(content.skills.join(", "));
+  }
+
+  for (const section of content.sections) {
+    heading(section.title);
+    section.entries.forEach((entry, i) => {
+      const before = i > 0 ? style.entryGap : 0;
+      const title = entryHeading(entry);
+      const dates = dateRange(entry);
+      if (title) body(title, { bold: true, before, keepNext: true });
+      if (dates) body(dates, { italics: true, before: title ? 0 : before, keepNext: true });
+      for (const bullet of entry.bullets) {
+        children.push(new Paragraph({ bullet: { level: 0 }, spacing: { line }, children: [new TextRun(bullet)] }));
+      }
+    });
+  }
+
+  const doc = new Document({
+    creator: contact.fullName,
+    title: `${contact.fullName} – Resume`,
+    styles: { default: { document: { run: { font, size: halfPoints(style.bodySize) } } } },
+    sections: [{
+      properties: {
+        page: { margin: { top: twips(style.margin), right: twips(style.margin), bottom: twips(style.margin), left: twips(style.margin) } },
+      },
+      children,
+    }],
+  });
+  return new Uint8Array(await Packer.toBuffer(doc));
+}
@@ -0,0 +1,135 @@
+// Structured resume drafts from the in-app builder (public.resume_drafts.content). The client
+// mirrors these types in src/lib/resumeBuilder.ts; stored JSON is user-editable, so it is
+// re-validated here before rendering.
+import { ServiceError } from "../errors.ts";
+
+export type ResumeTemplate = "classic" | "modern" | "compact";
+export type DraftSectionKind = "experience" | "education" | "projects" | "certifications" | "custom";
+export type ExportFormat = "pdf" | "docx";
+
+export interface DraftContact {
+  fullName: string;
+  headline: string;
+  email: string;
+  phone: string;
+  location: string;
+  website: string;
+}
+
+export interface DraftEntry {
+  title: string; // role, degree, project or certificate name
+  subtitle: string; // company, institution or issuer
+  location: string;
+  startDate: string; // free text as written on the resume, e.g. "Jan 2020"
+  endDate: string; // "Present" for ongoing roles
+  bullets: string[];
+}
+
+export interface DraftSection {
+  kind: DraftSectionKind;
+  title: string;
+  entries: DraftEntry[];
+}
+
+export interface ResumeDraftContent {
+  contact: DraftContact;
+  summary: string;
+  skills: string[];
+  sections: DraftSection[];
+}
+
+export const TEMPLATES: readonly ResumeTemplate[] = ["classic", "modern", "compact"];
+const SECTION_KINDS: readonly DraftSectionKind[] = ["experience", "education", "projects", "certifications", "custom"];
+
+// Keeps a rendered file within the 5MB upload limit and a sensible page count
+const MAX_SECTIONS = 12;
+const MAX_ENTRIES = 30;
+const MAX_BULLETS = 15;
+const MAX_SKILLS = 80;
+const MAX_FIELD = 300;
+const MAX_PARAGRAPH = 2000;
+
+const str = (value: unknown, max = MAX_FIELD) =>
+  typeof value === "string" ? value.replace(/\s+/g, " ").trim().slice(0, max) : "";
+
+const record = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+const strings = (value: unknown, limit: number, max = MAX_FIELD) =>
+  (Array.isArray(value) ? value : []).map((v) => str(v, max)).filter(Boolean).slice(0, limit);
+
+function parseEntry(raw: unknown): DraftEntry {
+  const entry = record(raw);
+  return {
+    title: str(entry.title),
+    subtitle: str(entry.subtitle),
+    location: str(entry.location),
+    startDate: str(entry.startDate, 40),
+    endDate: str(entry.endDate, 40),
+    bullets: strings(entry.bullets, MAX_BULLETS, 600),
+  };
+}
+
+const isEmptyEntry = (e: DraftEntry) => !e.title && !e.subtitle && e.bullets.length === 0;
+
+function parseSection(raw: unknown): DraftSection {
+  const section = record(raw);
+  const kind = SECTION_KINDS.includes(section.kind as DraftSectionKind) ? section.kind as DraftSectionKind : "custom";
+  return {
+    kind,
+    title: str(section.title, 60),
+    entries: (Array.isArray(section.entries) ? section.entries : []).slice(0, MAX_ENTRIES).map(parseEntry).filter((e) => !isEmptyEntry(e)),
+  };
+}
+
+// Normalized copy of a stored draft; blank fields are dropped rather than rendered as gaps
+export function parseDraftContent(raw: unknown): ResumeDraftContent {
+  const content = record(raw);
+  const contact = record(content.contact);
+  const parsed: ResumeDraftContent = {
+    contact: {
+      fullName: str(contact.fullName, 100),
+      headline: str(contact.headline, 120),
+      email: str(contact.email, 120),
+      phone: str(contact.phone, 40),
+      location: str(contact.location, 100),
+      website: str(contact.website, 200),
+    },
+    summary: typeof content.summary === "string" ? content.summary.trim().slice(0, MAX_PARAGRAPH) : "",
+    skills: strings(content.skills, MAX_SKILLS, 60),
+    sections: (Array.isArray(content.sections) ? content.sections : [])
+      .slice(0, MAX_SECTIONS)
+      .map(parseSection)
+      .filter((s) => s.title && s.entries.length > 0),
+  };
+
+  if (!parsed.contact.fullName) throw new ServiceError("invalid_request", "The resume needs a name");
+  if (!parsed.summary && parsed.skills.length === 0 && parsed.sections.length === 0) {
+    throw new ServiceError("empty_text", "The resume has no content to export");
+  }
+  return parsed;
+}
+
+export const parseTemplate = (value: unknown): ResumeTemplate =>
+  TEMPLATES.includes(value as ResumeTemplate) ? value as ResumeTemplate : "classic";
+
+// "Jan 2020 – Present"; written the way the resume parser (structure.ts) reads date ranges
+export const dateRange = (entry: DraftEntry) =>
+  [entry.startDate, entry.endDate].filter(Boolean).join(" – ");
+
+// "Senior Engineer | Acme Corp | Berlin"
+export const entryHeading = (entry: DraftEntry) =>
+  [entry.title, entry.subtitle, entry.location].filter(Boolean).join(" | ");
+
+export const contactLine = (contact: DraftContact) =>
+  [contact.email, contact.phone, contact.location, contact.website].filter(Boolean).join(" | ");
+
+// Section headings the parser recognises, so built resumes get the same structure extraction
+export const SUMMARY_HEADING = "Professional Summary";
+export const SKILLS_HEADING = "Skills";
+
+export function exportFileName(title: string, format: ExportFormat) {
+  // Storage keys stay ASCII: "Résumé" -> "Resume"
+  const base = title.normalize("NFKD").replace(/[^\w\s.-]+/g, "").trim().replace(/\s+/g, "-") || "resume";
+  return `${base.slice(0, 80)}.${format}`;
+}
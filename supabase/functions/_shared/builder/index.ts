@@ -0,0 +1,23 @@
+import type { ExportFormat, ResumeDraftContent, ResumeTemplate } from "./draft.ts";
+import { renderDocx } from "./docx.ts";
+import { renderPdf } from "./pdf.ts";
+import { TEMPLATE_STYLES } from "./templates.ts";
+
+export {
+  exportFileName,
+  parseDraftContent,
+  parseTemplate,
+  type ExportFormat,
+  type ResumeDraftContent,
+  type ResumeTemplate,
+} from "./draft.ts";
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+export function renderResumeDraft(content: ResumeDraftContent, template: ResumeTemplate, format: ExportFormat): Promise<Uint8Array> {
+  const style = TEMPLATE_STYLES[template];
+  return format === "pdf" ? renderPdf(content, style) : renderDocx(content, style);
+}
@@ -0,0 +1,162 @@
+import { PDFDocument, type PDFFont, type PDFPage, rgb, StandardFonts } from "npm:pdf-lib@1.17.1";
+import {
+  contactLine,
+  dateRange,
+  entryHeading,
+  type ResumeDraftContent,
+  SKILLS_HEADING,
+  SUMMARY_HEADING,
+} from "./draft.ts";
+import { headingText, type TemplateStyle } from "./templates.ts";
+
+const PAGE_WIDTH = 612; // US Letter
+const PAGE_HEIGHT = 792;
+const BULLET_INDENT = 12;
+
+// Characters the standard fonts' WinAnsi encoding has beyond Latin-1
+const WIN_ANSI_EXTRAS = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+
+// The standard 14 fonts cannot draw anything outside WinAnsi and pdf-lib throws on it. Common
+// punctuation is mapped; anything else (CJK, emoji) becomes "?" — the DOCX export keeps it.
+export const toWinAnsi = (text: string) =>
+  text
+    .replace(/[\u2010-\u2012]/g, "-")
+    .replace(/[\u25cf\u25aa\u25e6]/g, "\u2022")
+    .replace(/\u00a0/g, " ")
+    .replace(/[^\x20-\x7e\u00a1-\u00ff]/gu, (ch) => (WIN_ANSI_EXTRAS.includes(ch) ? ch : "?"));
+
+const hexColor = (hex: string) =>
+  rgb(parseInt(hex.slice(0, 2), 16) / 255, parseInt(hex.slice(2, 4), 16) / 255, parseInt(hex.slice(4, 6), 16) / 255);
+
+export interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+}
+
+export async function embedFonts(doc: PDFDocument, style: TemplateStyle): Promise<Fonts> {
+  const serif = style.font === "serif";
+  return {
+    regular: await doc.embedFont(serif ? StandardFonts.TimesRoman : StandardFonts.Helvetica),
+    bold: await doc.embedFont(serif ? StandardFonts.TimesRomanBold : StandardFonts.HelveticaBold),
+    italic: await doc.embedFont(serif ? StandardFonts.TimesRomanItalic : StandardFonts.HelveticaOblique),
+  };
+}
+
+// Top-to-bottom text flow that wraps lines and starts new pages as needed
+export class PdfWriter {
+  private page: PDFPage;
+  private y: number;
+
+  constructor(private doc: PDFDocument, private fonts: Fonts, private style: TemplateStyle) {
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - style.margin;
+  }
+
+  private get width() {
+    return PAGE_WIDTH - 2 * this.style.margin;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height >= this.style.margin) return;
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - this.style.margin;
+  }
+
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    let line = "";
+    for (const word of text.split(" ")) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (!line || font.widthOfTextAtSize(candidate, size) <= width) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    }
+    if (line) lines.push(line);
+    return lines;
+  }
+
+  gap(points: number) {
+    this.y -= points;
+  }
+
+  text(raw: string, opts: { font?: keyof Fonts; size?: number; color?: string; center?: boolean; indent?: number; prefix?: string } = {}) {
+    const font = this.fonts[opts.font ?? "regular"];
+    const size = opts.size ?? this.style.bodySize;
+    const lineHeight = size * this.style.lineHeight;
+    const indent = opts.indent ?? 0;
+    const color = hexColor(opts.color ?? "000000");
+
+    this.wrap(toWinAnsi(raw), font, size, this.width - indent).forEach((line, i) => {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      const x = opts.center
+        ? (PAGE_WIDTH - font.widthOfTextAtSize(line, size)) / 2
+        : this.style.margin + indent;
+      if (opts.prefix && i === 0) {
+        this.page.drawText(opts.prefix, { x: x - BULLET_INDENT, y: this.y, size, font, color });
+      }
+      this.page.drawText(line, { x, y: this.y, size, font, color });
+    });
+  }
+
+  heading(raw: string) {
+    const { style } = this;
+    // Keep a heading together with at least the first line under it
+    this.ensureSpace(style.sectionGap + style.headingSize * 1.4 + style.bodySize * style.lineHeight * 2);
+    this.gap(style.sectionGap);
+    this.text(headingText(style, raw), { font: "bold", size: style.headingSize, color: style.accent });
+    if (style.headingRule) {
+      this.gap(3);
+      this.page.drawLine({
+        start: { x: style.margin, y: this.y },
+        end: { x: PAGE_WIDTH - style.margin, y: this.y },
+        thickness: 0.75,
+        color: hexColor(style.accent),
+      });
+      this.gap(2);
+    }
+  }
+}
+
+export async function renderPdf(content: ResumeDraftContent, style: TemplateStyle): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const fonts = await embedFonts(doc, style);
+  doc.setTitle(toWinAnsi(`${content.contact.fullName} – Resume`));
+  doc.setAuthor(toWinAnsi(content.contact.fullName));
+
+  const out = new PdfWriter(doc, fonts, style);
+  const { contact } = content;
+
+  out.text(contact.fullName, { font: "bold", size: style.nameSize, color: style.accent, center: style.centerHeader });
+  if (contact.headline) out.text(contact.headline, { size: style.bodySize + 1.5, center: style.centerHeader });
+  const contacts = contactLine(contact);
+  if (contacts) out.text(contacts, { center: style.centerHeader });
+
+  if (content.summary) {
+    out.heading(SUMMARY_HEADING);
+    for (const paragraph of content.summary.split(/\n+/)) out.text(paragraph.trim());
+  }
+
+  if (content.skills.length > 0) {
+    out.heading(SKILLS_HEADING);
+    out.text(content.skills.join(", "));
+  }
+
+  for (const section of content.sections) {
+    out.heading(section.title);
+    section.entries.forEach((entry, i) => {
+      if (i > 0) out.gap(style.entryGap);
+      const heading = entryHeading(entry);
+      if (heading) out.text(heading, { font: "bold" });
+      const dates = dateRange(entry);
+      if (dates) out.text(dates, { font: "italic" });
+      for (const bullet of entry.bullets) out.text(bullet, { indent: BULLET_INDENT, prefix: "•" });
+    });
+  }
+
+  return await doc.save();
+}
@@ -0,0 +1,66 @@
+import type { ResumeTemplate } from "./draft.ts";
+
+// Layout shared by the PDF and DOCX renderers, so both exports of a draft look alike.
+// Sizes are in points; all templates are single-column, which ATS parsers read most reliably.
+export interface TemplateStyle {
+  font: "serif" | "sans";
+  nameSize: number;
+  headingSize: number;
+  bodySize: number;
+  lineHeight: number; // multiple of the font size
+  sectionGap: number; // space above a section heading
+  entryGap: number; // space above an entry
+  margin: number;
+  accent: string; // hex, for the name and section headings
+  centerHeader: boolean;
+  uppercaseHeadings: boolean;
+  headingRule: boolean; // line under section headings
+}
+
+export const TEMPLATE_STYLES: Record<ResumeTemplate, TemplateStyle> = {
+  classic: {
+    font: "serif",
+    nameSize: 22,
+    headingSize: 12,
+    bodySize: 10.5,
+    lineHeight: 1.3,
+    sectionGap: 14,
+    entryGap: 8,
+    margin: 54,
+    accent: "000000",
+    centerHeader: true,
+    uppercaseHeadings: true,
+    headingRule: true,
+  },
+  modern: {
+    font: "sans",
+    nameSize: 24,
+    headingSize: 12.5,
+    bodySize: 10,
+    lineHeight: 1.35,
+    sectionGap: 16,
+    entryGap: 8,
+    margin: 50,
+    accent: "1d4ed8",
+    centerHeader: false,
+    uppercaseHeadings: false,
+    headingRule: false,
+  },
+  compact: {
+    font: "sans",
+    nameSize: 18,
+    headingSize: 11,
+    bodySize: 9.5,
+    lineHeight: 1.2,
+    sectionGap: 10,
+    entryGap: 5,
+    margin: 40,
+    accent: "374151",
+    centerHeader: false,
+    uppercaseHeadings: true,
+    headingRule: true,
+  },
+};
+
+export const headingText = (style: TemplateStyle, heading: string) =>
+  style.uppercaseHeadings ? heading.toUpperCase() : heading;
@@ -0,0 +1,100 @@
+// npm run test:functions (deno test), offline: no network or database
+import { assert, assertEquals, assertStringIncludes } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { buildCalendar, escapeText, foldLine, formatUtc, type IcsEvent } from "./ics.ts";
+
+const octets = (text: string) => new TextEncoder().encode(text).length;
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, "");
+
+const event = (overrides: Partial<IcsEvent> = {}): IcsEvent => ({
+  uid: "interview-1@hireloop.app",
+  sequence: 0,
+  start: new Date("2025-09-01T14:30:00Z"),
+  end: new Date("2025-09-01T15:15:00Z"),
+  stamp: new Date("2025-08-20T09:00:00.123Z"),
+  summary: "Interview",
+  ...overrides,
+});
+
+Deno.test("escapeText escapes backslashes, separators and every newline style", () => {
+  assertEquals(escapeText("a\\b;c,d"), "a\\\\b\\;c\\,d");
+  assertEquals(escapeText("one\r\ntwo\nthree\rfour"), "one\\ntwo\\nthree\\nfour");
+});
+
+Deno.test("formatUtc writes basic-format UTC without milliseconds", () => {
+  assertEquals(formatUtc(new Date("2025-09-01T14:30:05.999Z")), "20250901T143005Z");
+});
+
+Deno.test("foldLine leaves lines of up to 75 octets alone", () => {
+  const line = "X".repeat(75);
+  assertEquals(foldLine(line), line);
+});
+
+Deno.test("foldLine splits long lines into 75-octet lines continued by a space", () => {
+  const line = `DESCRIPTION:${"abcdefghij".repeat(20)}`;
+  const folded = foldLine(line);
+  const physical = folded.split("\r\n");
+
+  assert(physical.length > 1);
+  assertEquals(octets(physical[0]), 75);
+  for (const continuation of physical.slice(1)) {
+    assert(continuation.startsWith(" "));
+    assert(octets(continuation) <= 75);
+  }
+  assertEquals(unfold(folded), line);
+});
+
+Deno.test("foldLine never splits a multi-byte character", () => {
+  const line = `SUMMARY:${"Zoë – 面接 🎉 ".repeat(12)}`;
+  const folded = foldLine(line);
+
+  for (const physical of folded.split("\r\n")) {
+    assert(octets(physical) <= 75);
+    // A split surrogate pair wouldn't survive encoding
+    assertEquals(new TextDecoder().decode(new TextEncoder().encode(physical)), physical);
+  }
+  assertEquals(unfold(folded), line);
+});
+
+Deno.test("buildCalendar ends every line with CRLF and folds long properties", () => {
+  const ics = buildCalendar({ method: "REQUEST", events: [event({ description: "Long ".repeat(40) })] });
+
+  assert(ics.startsWith("BEGIN:VCALENDAR\r\n"));
+  assert(ics.endsWith("END:VCALENDAR\r\n"));
+  assert(!/[^\r]\n/.test(ics));
+  for (const line of ics.split("\r\n")) assert(octets(line) <= 75);
+});
+
+Deno.test("buildCalendar escapes text values and quotes parameter values", () => {
+  const ics = unfold(buildCalendar({
+    method: "REQUEST",
+    events: [event({
+      summary: "Ada, Grace; and \\ others",
+      location: "Room 1\nFloor 2",
+      organizer: { email: "jobs@acme.test", name: 'Acme, "Inc"' },
+      attendees: [{ email: "ada@example.test", name: "Lovelace; Ada" }],
+    })],
+  }));
+
+  assertStringIncludes(ics, "SUMMARY:Ada\\, Grace\\; and \\\\ others\r\n");
+  assertStringIncludes(ics, "LOCATION:Room 1\\nFloor 2\r\n");
+  assertStringIncludes(ics, 'ORGANIZER;CN="Acme, Inc":mailto:jobs@acme.test\r\n');
+  assertStringIncludes(ics, 'ATTENDEE;CN="Lovelace; Ada";ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:ada@example.test\r\n');
+});
+
+Deno.test("buildCalendar writes times in UTC and the event's sequence", () => {
+  const ics = buildCalendar({ method: "REQUEST", events: [event({ sequence: 3 })] });
+
+  assertStringIncludes(ics, "DTSTART:20250901T143000Z\r\n");
+  assertStringIncludes(ics, "DTEND:20250901T151500Z\r\n");
+  assertStringIncludes(ics, "DTSTAMP:20250820T090000Z\r\n");
+  assertStringIncludes(ics, "SEQUENCE:3\r\n");
+});
+
+Deno.test("buildCalendar names subscribable feeds", () => {
+  const ics = buildCalendar({ method: "PUBLISH", name: "Hireloop, interviews", events: [] });
+
+  assertStringIncludes(ics, "METHOD:PUBLISH\r\n");
+  assertStringIncludes(ics, "X-WR-CALNAME:Hireloop\\, interviews\r\n");
+  assert(!ics.includes("BEGIN:VEVENT"));
+});
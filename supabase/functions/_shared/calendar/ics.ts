@@ -0,0 +1,140 @@
+// iCalendar (RFC 5545) text for invites and subscribable feeds. Pure string building with no
+// Deno or network dependencies. Times are always written in UTC, so no VTIMEZONE blocks are
+// needed; calendar apps show them in the reader's own zone.
+
+export type IcsMethod = "REQUEST" | "CANCEL" | "PUBLISH";
+
+export interface IcsPerson {
+  email: string;
+  name?: string | null;
+}
+
+export interface IcsEvent {
+  // Stable across updates and the cancellation so calendars replace the same entry
+  uid: string;
+  // Must increase with every change the attendees should see
+  sequence: number;
+  start: Date;
+  end: Date;
+  // When this version of the event was produced
+  stamp: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  organizer?: IcsPerson | null;
+  attendees?: IcsPerson[];
+  cancelled?: boolean;
+}
+
+export interface IcsCalendar {
+  method: IcsMethod;
+  events: IcsEvent[];
+  // Shown by calendar apps that subscribe to a feed
+  name?: string;
+}
+
+const PRODUCT_ID = "-//Hireloop//Interviews//EN";
+const MAX_LINE_OCTETS = 75;
+
+// TEXT values: backslash, semicolon, comma and newlines are escaped
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+// Parameter values can't be escaped, only quoted, and may not contain quotes or control characters
+function paramValue(value: string): string {
+  const clean = Array.from(value).filter((char) => {
+    const code = char.charCodeAt(0);
+    return char !== '"' && code >= 0x20 && code !== 0x7f;
+  }).join("").trim();
+  return /[;:,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+function mailto(email: string): string {
+  return `mailto:${email.replace(/[\s<>"]/g, "")}`;
+}
+
+// 20250901T143000Z
+export function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Lines longer than 75 octets continue on the next line after a single space. Splits never
+// fall inside a multi-byte UTF-8 character.
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function personProperty(name: "ORGANIZER" | "ATTENDEE", person: IcsPerson, extra: string[] = []): string {
+  const params = [...(person.name ? [`CN=${paramValue(person.name)}`] : []), ...extra];
+  return `${name}${params.map((p) => `;${p}`).join("")}:${mailto(person.email)}`;
+}
+
+function eventLines(event: IcsEvent, method: IcsMethod): string[] {
+  const cancelled = event.cancelled || method === "CANCEL";
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `SEQUENCE:${Math.max(0, Math.floor(event.sequence))}`,
+    `DTSTAMP:${formatUtc(event.stamp)}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url.replace(/[\r\n]/g, "")}`);
+  if (event.organizer) lines.push(personProperty("ORGANIZER", event.organizer));
+  for (const attendee of event.attendees ?? []) {
+    lines.push(personProperty("ATTENDEE", attendee, [
+      "ROLE=REQ-PARTICIPANT",
+      ...(method === "REQUEST" ? ["PARTSTAT=NEEDS-ACTION", "RSVP=TRUE"] : []),
+    ]));
+  }
+  lines.push(`STATUS:${cancelled ? "CANCELLED" : "CONFIRMED"}`);
+  lines.push("TRANSP:OPAQUE");
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function buildCalendar({ method, events, name }: IcsCalendar): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${method}`,
+  ];
+  if (name) {
+    lines.push(`X-WR-CALNAME:${escapeText(name)}`);
+    lines.push("REFRESH-INTERVAL;VALUE=DURATION:PT1H");
+    lines.push("X-PUBLISHED-TTL:PT1H");
+  }
+  for (const event of events) lines.push(...eventLines(event, method));
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,85 @@
+// npm run test:functions (deno test), offline: no network or database
+import { assert, assertEquals, assertStringIncludes } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { interviewFeed, interviewInvite, interviewUid, type InterviewCalendarEntry } from "./interviews.ts";
+
+const NOW = new Date("2025-08-20T09:00:00Z");
+
+const entry = (overrides: Partial<InterviewCalendarEntry> = {}): InterviewCalendarEntry => ({
+  id: "7f1c2a9e-0000-4000-8000-000000000001",
+  round: 1,
+  startsAt: "2025-09-01T14:30:00+00:00",
+  endsAt: "2025-09-01T15:15:00+00:00",
+  location: null,
+  videoUrl: "https://meet.example.test/abc",
+  interviewers: ["Lead@Acme.test", "ada@example.test"],
+  status: "scheduled",
+  sequence: 0,
+  jobTitle: "Backend Engineer",
+  companyName: "Acme",
+  companyEmail: "jobs@acme.test",
+  candidateName: "Ada Lovelace",
+  candidateEmail: "ada@example.test",
+  ...overrides,
+});
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, "");
+
+const property = (ics: string, name: string) =>
+  unfold(ics).split("\r\n").filter((line) => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+
+Deno.test("interviewUid is derived from the interview id alone", () => {
+  assertEquals(interviewUid("abc"), "interview-abc@hireloop.app");
+  assertEquals(interviewUid("abc"), interviewUid("abc"));
+});
+
+Deno.test("invites keep the same UID through updates and the cancellation", () => {
+  const uids = [
+    interviewInvite(entry(), NOW),
+    interviewInvite(entry({ sequence: 1, startsAt: "2025-09-02T10:00:00Z", endsAt: "2025-09-02T11:00:00Z" }), NOW),
+    interviewInvite(entry({ sequence: 2, status: "cancelled" }), NOW),
+  ].map((invite) => property(invite.ics, "UID"));
+
+  for (const uid of uids) assertEquals(uid, [`UID:${interviewUid(entry().id)}`]);
+});
+
+Deno.test("a scheduled interview is sent as a REQUEST asking attendees to respond", () => {
+  const invite = interviewInvite(entry({ sequence: 1 }), NOW);
+
+  assertEquals(invite.method, "REQUEST");
+  assertEquals(invite.fileName, "invite.ics");
+  assertStringIncludes(invite.ics, "METHOD:REQUEST\r\n");
+  assertStringIncludes(invite.ics, "STATUS:CONFIRMED\r\n");
+  assertStringIncludes(invite.ics, "SEQUENCE:1\r\n");
+  assertStringIncludes(invite.ics, "DTSTAMP:20250820T090000Z\r\n");
+  for (const attendee of property(invite.ics, "ATTENDEE")) {
+    assertStringIncludes(attendee, "PARTSTAT=NEEDS-ACTION;RSVP=TRUE");
+  }
+});
+
+Deno.test("a cancelled interview is sent as a CANCEL without asking for a response", () => {
+  const invite = interviewInvite(entry({ sequence: 2, status: "cancelled" }), NOW);
+
+  assertEquals(invite.method, "CANCEL");
+  assertEquals(invite.fileName, "cancel.ics");
+  assertStringIncludes(invite.ics, "METHOD:CANCEL\r\n");
+  assertStringIncludes(invite.ics, "STATUS:CANCELLED\r\n");
+  assertStringIncludes(invite.ics, "SEQUENCE:2\r\n");
+  assert(!invite.ics.includes("RSVP=TRUE"));
+});
+
+Deno.test("attendees are the candidate then the interviewers, de-duplicated; the company also receives it", () => {
+  const invite = interviewInvite(entry(), NOW);
+
+  assertEquals(invite.recipients, ["ada@example.test", "lead@acme.test", "jobs@acme.test"]);
+  assertEquals(property(invite.ics, "ATTENDEE").map((line) => line.split(":mailto:")[1]), ["ada@example.test", "lead@acme.test"]);
+  assertEquals(property(invite.ics, "ORGANIZER"), ["ORGANIZER;CN=Acme:mailto:jobs@acme.test"]);
+});
+
+Deno.test("the feed publishes every interview under its own UID", () => {
+  const ics = interviewFeed([entry(), entry({ id: "second", round: 2 })], "Hireloop interviews", NOW);
+
+  assertStringIncludes(ics, "METHOD:PUBLISH\r\n");
+  assertStringIncludes(ics, "X-WR-CALNAME:Hireloop interviews\r\n");
+  assertEquals(property(ics, "UID"), [`UID:${interviewUid(entry().id)}`, `UID:${interviewUid("second")}`]);
+  assert(!ics.includes("RSVP=TRUE"));
+});
@@ -0,0 +1,106 @@
+// Interviews as calendar events: one stable UID per interview, its sequence from the database,
+// the company as organizer and the candidate plus interviewers as attendees.
+import { buildCalendar, type IcsEvent, type IcsMethod, type IcsPerson } from "./ics.ts";
+
+export interface InterviewCalendarEntry {
+  id: string;
+  round: number;
+  startsAt: string;
+  endsAt: string;
+  location: string | null;
+  videoUrl: string | null;
+  interviewers: string[];
+  status: string;
+  sequence: number;
+  jobTitle: string;
+  companyName: string | null;
+  companyEmail: string | null;
+  candidateName: string | null;
+  candidateEmail: string | null;
+}
+
+export interface InterviewInvite {
+  method: IcsMethod;
+  ics: string;
+  fileName: string;
+  recipients: string[];
+}
+
+const UID_DOMAIN = "hireloop.app";
+const FALLBACK_ORGANIZER = "noreply@hireloop.app";
+
+export const interviewUid = (interviewId: string) => `interview-${interviewId}@${UID_DOMAIN}`;
+
+const isCancelled = (entry: InterviewCalendarEntry) => entry.status === "cancelled";
+
+function summary(entry: InterviewCalendarEntry): string {
+  const who = entry.candidateName ? `${entry.candidateName} – ` : "";
+  const where = entry.companyName ? ` at ${entry.companyName}` : "";
+  return `${who}${entry.jobTitle}${where} (interview round ${entry.round})`;
+}
+
+function description(entry: InterviewCalendarEntry): string {
+  return [
+    `Round ${entry.round} interview for ${entry.jobTitle}${entry.companyName ? ` at ${entry.companyName}` : ""}.`,
+    entry.candidateName ? `Candidate: ${entry.candidateName}` : "",
+    entry.interviewers.length > 0 ? `Interviewers: ${entry.interviewers.join(", ")}` : "",
+    entry.videoUrl ? `Join: ${entry.videoUrl}` : "",
+    entry.location ? `Location: ${entry.location}` : "",
+  ].filter(Boolean).join("\n");
+}
+
+// Candidate first, then interviewers, without duplicates
+function attendees(entry: InterviewCalendarEntry): IcsPerson[] {
+  const seen = new Set<string>();
+  const people: IcsPerson[] = [];
+  const add = (email: string | null, name?: string | null) => {
+    const key = email?.trim().toLowerCase();
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    people.push({ email: key, name });
+  };
+  add(entry.candidateEmail, entry.candidateName);
+  for (const email of entry.interviewers) add(email);
+  return people;
+}
+
+export function interviewEvent(entry: InterviewCalendarEntry, now = new Date()): IcsEvent {
+  return {
+    uid: interviewUid(entry.id),
+    sequence: entry.sequence,
+    start: new Date(entry.startsAt),
+    end: new Date(entry.endsAt),
+    stamp: now,
+    summary: summary(entry),
+    description: description(entry),
+    location: entry.location || entry.videoUrl,
+    url: entry.videoUrl,
+    organizer: { email: entry.companyEmail || FALLBACK_ORGANIZER, name: entry.companyName },
+    attendees: attendees(entry),
+    cancelled: isCancelled(entry),
+  };
+}
+
+// REQUEST for a new or changed interview, CANCEL once it's cancelled; the same UID either way.
+// Recipients are the attendees plus the company account, which organizes it.
+export function interviewInvite(entry: InterviewCalendarEntry, now = new Date()): InterviewInvite {
+  const method: IcsMethod = isCancelled(entry) ? "CANCEL" : "REQUEST";
+  const recipients = attendees(entry).map((person) => person.email);
+  const organizer = entry.companyEmail?.trim().toLowerCase();
+  if (organizer && !recipients.includes(organizer)) recipients.push(organizer);
+
+  return {
+    method,
+    ics: buildCalendar({ method, events: [interviewEvent(entry, now)] }),
+    fileName: isCancelled(entry) ? "cancel.ics" : "invite.ics",
+    recipients,
+  };
+}
+
+export function interviewFeed(entries: InterviewCalendarEntry[], name: string, now = new Date()): string {
+  return buildCalendar({
+    method: "PUBLISH",
+    name,
+    events: entries.map((entry) => interviewEvent(entry, now)),
+  });
+}
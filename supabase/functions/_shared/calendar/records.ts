@@ -0,0 +1,66 @@
+// Loading interviews with everything a calendar entry needs: the job, the company and the
+// candidate. Shared by the invite and feed functions.
+import type { InterviewCalendarEntry } from "./interviews.ts";
+
+export const INTERVIEW_CALENDAR_COLUMNS = `
+  id, application_id, round, starts_at, ends_at, timezone, location, video_url, interviewers, status, sequence, invited_sequence,
+  job_applications!inner (
+    applicant_id,
+    candidate:applicant_id ( full_name, email ),
+    jobs!inner (
+      title,
+      company_id,
+      company:company_id ( company_name, email )
+    )
+  )
+`;
+
+interface Person {
+  full_name?: string | null;
+  company_name?: string | null;
+  email: string | null;
+}
+
+export interface InterviewCalendarRow {
+  id: string;
+  application_id: string;
+  round: number;
+  starts_at: string;
+  ends_at: string;
+  timezone: string;
+  location: string | null;
+  video_url: string | null;
+  interviewers: string[];
+  status: string;
+  sequence: number;
+  invited_sequence: number | null;
+  job_applications: {
+    applicant_id: string;
+    candidate: Person | null;
+    jobs: {
+      title: string;
+      company_id: string;
+      company: Person | null;
+    };
+  };
+}
+
+export function toCalendarEntry(row: InterviewCalendarRow): InterviewCalendarEntry {
+  const application = row.job_applications;
+  return {
+    id: row.id,
+    round: row.round,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    location: row.location,
+    videoUrl: row.video_url,
+    interviewers: row.interviewers ?? [],
+    status: row.status,
+    sequence: row.sequence,
+    jobTitle: application.jobs.title,
+    companyName: application.jobs.company?.company_name ?? null,
+    companyEmail: application.jobs.company?.email ?? null,
+    candidateName: application.candidate?.full_name ?? null,
+    candidateEmail: application.candidate?.email ?? null,
+  };
+}
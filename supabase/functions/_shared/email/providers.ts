@@ -0,0 +1,129 @@
+// Where email goes. EMAIL_PROVIDER picks one of:
+//   resend   the Resend API (RESEND_API_KEY)
+//   smtp     any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD)
+//   console  logs each message's recipients and subject, and writes the whole message to
+//            EMAIL_OUTBOX_DIR as JSON when set; for local development and tests only
+// Without EMAIL_PROVIDER, Resend is used when its key is set. The console is never a fallback,
+// so a missing key fails loudly instead of logging candidates' emails.
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import nodemailer from "npm:nodemailer@6.9.14";
+import { Resend } from "npm:resend@3.5.0";
+import type { EmailContent } from "./render.ts";
+
+const DEFAULT_FROM = "HireLoop <noreply@hireloop.app>";
+
+export interface EmailAttachment {
+  filename: string;
+  // Text, such as an .ics file; providers encode it as they need
+  content: string;
+  contentType?: string;
+}
+
+export interface EmailMessage extends EmailContent {
+  to: string[];
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailProvider {
+  readonly name: string;
+  // False when messages are only logged, so callers don't record them as sent
+  readonly delivers: boolean;
+  // Resolves with the provider's message id; throws when the message wasn't accepted
+  send(message: EmailMessage): Promise<{ id: string | null }>;
+}
+
+class ResendProvider implements EmailProvider {
+  readonly name = "resend";
+  readonly delivers = true;
+  private client: Resend;
+
+  constructor(apiKey: string, private from: string) {
+    this.client = new Resend(apiKey);
+  }
+
+  async send(message: EmailMessage) {
+    const { data, error } = await this.client.emails.send({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      // Resend reads string content as base64
+      attachments: message.attachments?.map(({ filename, content, contentType }) => ({
+        filename,
+        content: encodeBase64(content),
+        content_type: contentType,
+      })),
+    });
+    if (error) throw new Error(`Resend rejected the message: ${error.message}`);
+    return { id: data?.id ?? null };
+  }
+}
+
+class SmtpProvider implements EmailProvider {
+  readonly name = "smtp";
+  readonly delivers = true;
+  private transport: ReturnType<typeof nodemailer.createTransport>;
+
+  constructor(host: string, port: number, private from: string, user?: string, password?: string) {
+    this.transport = nodemailer.createTransport({
+      host,
+      port,
+      // Implicit TLS on 465; other ports upgrade with STARTTLS when the server offers it
+      secure: port === 465,
+      auth: user ? { user, pass: password } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage) {
+    const info = await this.transport.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      attachments: message.attachments,
+    });
+    return { id: info.messageId ?? null };
+  }
+}
+
+class ConsoleProvider implements EmailProvider {
+  readonly name = "console";
+  readonly delivers = false;
+
+  constructor(private from: string, private outboxDir?: string) {}
+
+  async send(message: EmailMessage) {
+    const id = `${Date.now()}-${crypto.randomUUID().slice(0, 8)}`;
+    console.log("Email (console provider)", { id, to: message.to, subject: message.subject });
+
+    if (this.outboxDir) {
+      await Deno.mkdir(this.outboxDir, { recursive: true });
+      await Deno.writeTextFile(`${this.outboxDir}/${id}.json`, JSON.stringify({ id, from: this.from, ...message }, null, 2));
+    }
+    return { id };
+  }
+}
+
+export function emailProvider(): EmailProvider {
+  const from = Deno.env.get("EMAIL_FROM") || DEFAULT_FROM;
+  const resendKey = Deno.env.get("RESEND_API_KEY");
+  const name = Deno.env.get("EMAIL_PROVIDER") || (resendKey ? "resend" : null);
+  if (!name) throw new Error("No email provider configured: set RESEND_API_KEY or EMAIL_PROVIDER");
+
+  switch (name) {
+    case "resend":
+      if (!resendKey) throw new Error("RESEND_API_KEY is not set");
+      return new ResendProvider(resendKey, from);
+    case "smtp": {
+      const host = Deno.env.get("SMTP_HOST");
+      if (!host) throw new Error("SMTP_HOST is not set");
+      return new SmtpProvider(host, Number(Deno.env.get("SMTP_PORT") || 587), from, Deno.env.get("SMTP_USER"), Deno.env.get("SMTP_PASSWORD"));
+    }
+    case "console":
+      return new ConsoleProvider(from, Deno.env.get("EMAIL_OUTBOX_DIR"));
+    default:
+      throw new Error(`Unknown EMAIL_PROVIDER "${name}"`);
+  }
+}
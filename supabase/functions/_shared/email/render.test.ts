@@ -0,0 +1,99 @@
+// npm run test:functions (deno test), offline: no network or database
+import { assert, assertEquals, assertStringIncludes } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { escapeHtml, html, isWebUrl, renderEmail, SafeHtml } from "./render.ts";
+import { applicationReceivedForEmployer, type ApplicationEmailData } from "./templates.ts";
+
+const ATTACK = `<script>alert("x")</script><img src=x onerror='y'> & co`;
+const ESCAPED = "&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;&lt;img src=x onerror=&#39;y&#39;&gt; &amp; co";
+
+Deno.test("escapeHtml escapes every markup character", () => {
+  assertEquals(escapeHtml(ATTACK), ESCAPED);
+  assertEquals(escapeHtml("plain text"), "plain text");
+});
+
+Deno.test("html escapes interpolations but not nested SafeHtml", () => {
+  const name = "<b>Ada</b>";
+  const rendered = html`<p>${name} ${html`<em>${name}</em>`} ${new SafeHtml("<br>")} ${[1, "<", null, false]}</p>`;
+
+  assertEquals(rendered.value, "<p>&lt;b&gt;Ada&lt;/b&gt; <em>&lt;b&gt;Ada&lt;/b&gt;</em> <br> 1&lt;</p>");
+});
+
+Deno.test("only http and https URLs count as web links", () => {
+  assert(isWebUrl("https://app.example.test/dashboard"));
+  assert(isWebUrl("http://localhost:5173"));
+  assert(!isWebUrl("javascript:alert(1)"));
+  assert(!isWebUrl("data:text/html,<b>x</b>"));
+  assert(!isWebUrl("#"));
+  assert(!isWebUrl(null));
+});
+
+Deno.test("every block escapes user text in the HTML body and keeps it in the text body", () => {
+  const email = renderEmail({
+    subject: "Hello",
+    heading: ATTACK,
+    greeting: ATTACK,
+    blocks: [
+      { kind: "paragraph", text: ATTACK },
+      { kind: "details", title: ATTACK, rows: [[ATTACK, ATTACK], ["Empty", null]] },
+      { kind: "list", items: [ATTACK] },
+      { kind: "tags", title: ATTACK, items: [ATTACK] },
+      { kind: "quote", title: ATTACK, text: ATTACK },
+      { kind: "button", label: ATTACK, url: `https://example.test/?q="><script>` },
+    ],
+    footer: ATTACK,
+  });
+
+  assert(!email.html.includes("<script>"));
+  assert(!email.html.includes("onerror='"));
+  assertEquals(email.html.split(ESCAPED).length - 1, 13);
+  assertStringIncludes(email.html, 'href="https://example.test/?q=&quot;&gt;&lt;script&gt;"');
+  assert(!email.html.includes("Empty"));
+  assertStringIncludes(email.text, `${ATTACK}: ${ATTACK}`);
+  assertStringIncludes(email.text, `> ${ATTACK}`);
+});
+
+Deno.test("buttons without a web URL are left out", () => {
+  const email = renderEmail({
+    subject: "Hello",
+    heading: "Hello",
+    blocks: [
+      { kind: "button", label: "Bad", url: "javascript:alert(1)" },
+      { kind: "button", label: "Missing", url: null },
+    ],
+  });
+
+  assert(!email.html.includes("<a "));
+  assert(!email.html.includes("javascript:"));
+  assert(!email.text.includes("Bad"));
+  assert(!email.text.includes("Missing"));
+});
+
+Deno.test("line breaks in a subject can't start new headers", () => {
+  const email = renderEmail({ subject: "Hi\r\nBcc: victim@example.test", heading: "Hi", blocks: [] });
+
+  assertEquals(email.subject, "Hi Bcc: victim@example.test");
+});
+
+Deno.test("application emails escape the candidate's name and cover letter", () => {
+  const data: ApplicationEmailData = {
+    applicationId: "app-1",
+    jobId: "job&1",
+    jobTitle: "Engineer",
+    companyName: "Acme",
+    candidateName: `<img src=x onerror="steal()">`,
+    candidateEmail: "ada@example.test",
+    status: "applied",
+    coverLetter: "Dear team,\n<script>alert(1)</script>",
+    skills: ["<b>Python</b>"],
+    resumeUrl: "javascript:alert(1)",
+    appUrl: "https://app.example.test/",
+  };
+  const email = applicationReceivedForEmployer(data);
+
+  assert(!email.html.includes("<img"));
+  assert(!email.html.includes("<script>"));
+  assert(!email.html.includes("<b>Python"));
+  assert(!email.html.includes("javascript:"));
+  assertStringIncludes(email.html, 'href="https://app.example.test/dashboard/company/pipeline?job=job%261"');
+  assertStringIncludes(email.text, "<script>alert(1)</script>");
+});
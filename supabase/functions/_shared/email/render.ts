@@ -0,0 +1,164 @@
+// Rendering for transactional email. A message is a heading and a list of blocks, rendered
+// once as HTML inside the shared layout and once as the text/plain alternative. Every value
+// interpolated into HTML is escaped unless it is already SafeHtml, so names, cover letters and
+// other user input can't inject markup.
+
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString() {
+    return this.value;
+  }
+}
+
+type HtmlValue = SafeHtml | string | number | null | undefined | false | HtmlValue[];
+
+const ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export const escapeHtml = (text: string) => text.replace(/[&<>"']/g, (ch) => ENTITIES[ch]);
+
+const renderValue = (value: HtmlValue): string => {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(renderValue).join("");
+  if (value === null || value === undefined || value === false) return "";
+  return escapeHtml(String(value));
+};
+
+// Tagged template that escapes its interpolations: html`<p>${name}</p>`
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+  return new SafeHtml(strings.reduce((out, part, i) => out + part + (i < values.length ? renderValue(values[i]) : ""), ""));
+}
+
+// Links are only rendered for web URLs; anything else (javascript:, data:, "#") is dropped
+export const isWebUrl = (url: string | null | undefined): url is string => {
+  if (!url) return false;
+  try {
+    return ["http:", "https:"].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+export type EmailBlock =
+  | { kind: "paragraph"; text: string }
+  | { kind: "details"; title?: string; rows: [label: string, value: string | null | undefined][] }
+  | { kind: "list"; items: string[] }
+  | { kind: "tags"; title: string; items: string[] }
+  // Multi-line text the sender didn't write, such as a cover letter
+  | { kind: "quote"; title: string; text: string }
+  | { kind: "button"; label: string; url: string | null | undefined };
+
+export type EmailTone = "info" | "success" | "warning";
+
+export interface EmailTemplate {
+  subject: string;
+  heading: string;
+  tone?: EmailTone;
+  greeting?: string;
+  blocks: EmailBlock[];
+  // Small print under the sign-off, e.g. a reference number
+  footer?: string;
+}
+
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const GRADIENTS: Record<EmailTone, string> = {
+  info: "linear-gradient(135deg, #3b82f6, #8b5cf6)",
+  success: "linear-gradient(135deg, #10b981, #3b82f6)",
+  warning: "linear-gradient(135deg, #f59e0b, #ef4444)",
+};
+
+const CARD = "background: white; padding: 20px; border-radius: 8px; margin-bottom: 20px;";
+const BODY_TEXT = "color: #475569; line-height: 1.6;";
+
+const presentRows = (rows: [string, string | null | undefined][]) =>
+  rows.filter((row): row is [string, string] => Boolean(row[1]));
+
+function blockHtml(block: EmailBlock, tone: EmailTone): SafeHtml {
+  switch (block.kind) {
+    case "paragraph":
+      return html`<p style="${BODY_TEXT}">${block.text}</p>`;
+    case "details":
+      return html`<div style="${CARD}">
+        ${block.title ? html`<h3 style="color: #1e293b; margin-top: 0;">${block.title}</h3>` : ""}
+        ${presentRows(block.rows).map(([label, value]) => html`<p><strong>${label}:</strong> ${value}</p>`)}
+      </div>`;
+    case "list":
+      return html`<ul style="${BODY_TEXT}">${block.items.map((item) => html`<li>${item}</li>`)}</ul>`;
+    case "tags":
+      return html`<div style="${CARD}">
+        <h3 style="color: #1e293b; margin-top: 0;">${block.title}</h3>
+        <div>${block.items.map((item) => html`<span style="display: inline-block; background: #e0e7ff; color: #3730a3; padding: 4px 12px; margin: 0 8px 8px 0; border-radius: 20px; font-size: 14px;">${item}</span>`)}</div>
+      </div>`;
+    case "quote":
+      return html`<div style="${CARD}">
+        <h3 style="color: #1e293b; margin-top: 0;">${block.title}</h3>
+        <p style="${BODY_TEXT} white-space: pre-line;">${block.text}</p>
+      </div>`;
+    case "button":
+      return isWebUrl(block.url)
+        ? html`<div style="text-align: center; margin: 30px 0;">
+            <a href="${block.url}" style="background: ${GRADIENTS[tone]}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">${block.label}</a>
+          </div>`
+        : html``;
+  }
+}
+
+function blockText(block: EmailBlock): string {
+  switch (block.kind) {
+    case "paragraph":
+      return block.text;
+    case "details":
+      return [
+        block.title ? `${block.title}\n` : "",
+        presentRows(block.rows).map(([label, value]) => `${label}: ${value}`).join("\n"),
+      ].join("");
+    case "list":
+      return block.items.map((item) => `- ${item}`).join("\n");
+    case "tags":
+      return `${block.title}: ${block.items.join(", ")}`;
+    case "quote":
+      return `${block.title}\n${block.text.split("\n").map((line) => `> ${line}`).join("\n")}`;
+    case "button":
+      return isWebUrl(block.url) ? `${block.label}: ${block.url}` : "";
+  }
+}
+
+const SIGN_OFF = "Best regards,\nThe HireLoop Team";
+
+export function renderEmail(template: EmailTemplate): EmailContent {
+  const tone = template.tone ?? "info";
+
+  const body = html`<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <div style="background: ${GRADIENTS[tone]}; padding: 20px; text-align: center;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">${template.heading}</h1>
+  </div>
+  <div style="padding: 30px; background: #f8fafc;">
+    ${template.greeting ? html`<h2 style="color: #1e293b;">${template.greeting}</h2>` : ""}
+    ${template.blocks.map((block) => blockHtml(block, tone))}
+    <p style="color: #64748b; font-size: 14px;">Best regards,<br>The HireLoop Team</p>
+    ${template.footer ? html`<p style="color: #94a3b8; font-size: 12px; text-align: center;">${template.footer}</p>` : ""}
+  </div>
+</div>`;
+
+  const text = [
+    template.heading,
+    template.greeting,
+    ...template.blocks.map(blockText),
+    SIGN_OFF,
+    template.footer,
+  ].filter(Boolean).join("\n\n");
+
+  // Line breaks in a subject would start new mail headers
+  return { subject: template.subject.replace(/\s*[\r\n]+\s*/g, " "), html: body.value, text: `${text}\n` };
+}
@@ -0,0 +1,233 @@
+// One template per event the platform emails about. Each takes plain data, loaded and
+// authorized by the calling function, and returns the subject, HTML and text bodies.
+import { type EmailBlock, type EmailContent, renderEmail } from "./render.ts";
+
+export interface ApplicationEmailData {
+  applicationId: string;
+  jobId: string;
+  jobTitle: string;
+  companyName: string | null;
+  candidateName: string | null;
+  candidateEmail: string | null;
+  status: string;
+  coverLetter: string | null;
+  skills: string[];
+  resumeUrl: string | null;
+  // Where the web app is served, for links back to it; links are left out without it
+  appUrl: string | null;
+}
+
+export interface OfferEmailData {
+  salary: number;
+  startDate: string;
+  respondBy: string | null;
+}
+
+export interface InterviewEmailData {
+  round: number;
+  startsAt: string;
+  endsAt: string;
+  timeZone: string | null;
+  location: string | null;
+  videoUrl: string | null;
+  interviewers: string[];
+  jobTitle: string;
+  companyName: string | null;
+  candidateName: string | null;
+  cancelled: boolean;
+  // 0 for the first invitation, higher once the interview has changed
+  sequence: number;
+}
+
+const appLink = (appUrl: string | null, path: string) => (appUrl ? `${appUrl.replace(/\/+$/, "")}${path}` : null);
+
+const candidateDashboard = (data: ApplicationEmailData) => appLink(data.appUrl, "/dashboard/jobseeker");
+
+const atCompany = (companyName: string | null) => (companyName ? ` at ${companyName}` : "");
+
+const greeting = (name: string | null) => (name ? `Hi ${name},` : "Hi,");
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric", timeZone: "UTC" });
+
+const formatSalary = (salary: number) => `$${salary.toLocaleString("en-US")}`;
+
+// In the interview's own time zone, which is how the employer published it
+function formatInterviewTime(data: InterviewEmailData): string {
+  const timeZone = data.timeZone || "UTC";
+  const options: Intl.DateTimeFormatOptions = { timeZone, hour: "numeric", minute: "2-digit" };
+  const start = new Date(data.startsAt);
+  const day = start.toLocaleDateString("en-US", { timeZone, weekday: "long", month: "long", day: "numeric", year: "numeric" });
+  const from = start.toLocaleTimeString("en-US", options);
+  const to = new Date(data.endsAt).toLocaleTimeString("en-US", { ...options, timeZoneName: "short" });
+  return `${day}, ${from} – ${to}`;
+}
+
+const reference = (data: ApplicationEmailData) => `Application ID: ${data.applicationId}`;
+
+// To the hiring company when a candidate applies or is referred
+export function applicationReceivedForEmployer(data: ApplicationEmailData): EmailContent {
+  const candidate = data.candidateName || "A candidate";
+  const blocks: EmailBlock[] = [
+    {
+      kind: "details",
+      title: "Application Details",
+      rows: [
+        ["Candidate", data.candidateName],
+        ["Position", data.jobTitle],
+        ["Company", data.companyName],
+        ["Email", data.candidateEmail],
+      ],
+    },
+  ];
+  if (data.skills.length > 0) blocks.push({ kind: "tags", title: "Skills", items: data.skills });
+  if (data.coverLetter) blocks.push({ kind: "quote", title: "Cover Letter", text: data.coverLetter });
+  blocks.push(
+    { kind: "button", label: "Review in Pipeline", url: appLink(data.appUrl, `/dashboard/company/pipeline?job=${encodeURIComponent(data.jobId)}`) },
+    { kind: "button", label: "View Resume", url: data.resumeUrl },
+  );
+
+  return renderEmail({
+    subject: `New Application: ${candidate} for ${data.jobTitle}`,
+    heading: "New Job Application",
+    blocks,
+    footer: reference(data),
+  });
+}
+
+// Confirmation to the candidate
+export function applicationReceivedForCandidate(data: ApplicationEmailData): EmailContent {
+  return renderEmail({
+    subject: `Application Received: ${data.jobTitle}${atCompany(data.companyName)}`,
+    heading: "Application Received!",
+    tone: "success",
+    greeting: greeting(data.candidateName),
+    blocks: [
+      {
+        kind: "paragraph",
+        text: `Thank you for applying to the ${data.jobTitle} position${atCompany(data.companyName)}. We have received your application and the team will review it soon.`,
+      },
+      { kind: "details", title: "Application Summary", rows: [["Position", data.jobTitle], ["Company", data.companyName]] },
+      { kind: "paragraph", text: "What happens next:" },
+      {
+        kind: "list",
+        items: [
+          "The hiring team reviews your application",
+          "If selected, you'll be invited to book an interview",
+          "You can track your application status in your dashboard",
+        ],
+      },
+      { kind: "button", label: "View Application Status", url: candidateDashboard(data) },
+    ],
+    footer: reference(data),
+  });
+}
+
+// What the candidate is told when their application reaches a stage. Applied and withdrawn
+// have no message: the candidate caused both.
+const STATUS_MESSAGES: Record<string, { heading: string; text: string; tone: "info" | "success" | "warning" }> = {
+  screening: {
+    heading: "Your Application Is Being Reviewed",
+    text: "Good news: the hiring team has started reviewing your application.",
+    tone: "info",
+  },
+  interview: {
+    heading: "You're Invited to Interview",
+    text: "The hiring team would like to interview you. Book a time that suits you from your dashboard.",
+    tone: "success",
+  },
+  offer: {
+    heading: "You've Reached the Offer Stage",
+    text: "The hiring team is preparing an offer for you. You'll be notified as soon as it's ready.",
+    tone: "success",
+  },
+  hired: {
+    heading: "Welcome Aboard!",
+    text: "Congratulations, you've been hired. The team will be in touch about your first day.",
+    tone: "success",
+  },
+  rejected: {
+    heading: "An Update on Your Application",
+    text: "Thank you for your interest. After careful consideration, the team has decided not to move forward with your application. We wish you the best in your search.",
+    tone: "warning",
+  },
+};
+
+export const hasStatusEmail = (status: string) => status in STATUS_MESSAGES;
+
+export function applicationStatusChanged(data: ApplicationEmailData): EmailContent {
+  const message = STATUS_MESSAGES[data.status];
+  if (!message) throw new Error(`No email for status ${data.status}`);
+
+  return renderEmail({
+    subject: `${message.heading}: ${data.jobTitle}${atCompany(data.companyName)}`,
+    heading: message.heading,
+    tone: message.tone,
+    greeting: greeting(data.candidateName),
+    blocks: [
+      { kind: "paragraph", text: message.text },
+      { kind: "details", rows: [["Position", data.jobTitle], ["Company", data.companyName]] },
+      { kind: "button", label: "View Application Status", url: candidateDashboard(data) },
+    ],
+    footer: reference(data),
+  });
+}
+
+export function interviewScheduled(data: InterviewEmailData): EmailContent {
+  const what = `Round ${data.round} interview for ${data.jobTitle}${atCompany(data.companyName)}`;
+  const heading = data.cancelled ? "Interview Cancelled" : data.sequence > 0 ? "Interview Updated" : "Interview Booked";
+
+  return renderEmail({
+    subject: `${heading}: ${data.candidateName ? `${data.candidateName} – ` : ""}${data.jobTitle}${atCompany(data.companyName)}`,
+    heading,
+    tone: data.cancelled ? "warning" : "info",
+    blocks: [
+      {
+        kind: "paragraph",
+        text: data.cancelled
+          ? `The ${what} has been cancelled. The attached calendar file removes it from your calendar.`
+          : `${what}. The attached calendar file adds it to your calendar${data.sequence > 0 ? " and replaces the earlier time" : ""}.`,
+      },
+      {
+        kind: "details",
+        rows: [
+          ["When", formatInterviewTime(data)],
+          ["Candidate", data.candidateName],
+          ["Interviewers", data.interviewers.join(", ")],
+          ["Location", data.location],
+          ["Video call", data.videoUrl],
+        ],
+      },
+      ...(data.cancelled ? [] : [{ kind: "button" as const, label: "Join Video Call", url: data.videoUrl }]),
+    ],
+  });
+}
+
+// To the candidate once an offer has been approved and sent
+export function offerSent(data: ApplicationEmailData, offer: OfferEmailData): EmailContent {
+  return renderEmail({
+    subject: `Your Offer: ${data.jobTitle}${atCompany(data.companyName)}`,
+    heading: "You Have an Offer!",
+    tone: "success",
+    greeting: greeting(data.candidateName),
+    blocks: [
+      {
+        kind: "paragraph",
+        text: `Congratulations! ${data.companyName || "The hiring team"} has sent you an offer for the ${data.jobTitle} position.`,
+      },
+      {
+        kind: "details",
+        title: "Offer Summary",
+        rows: [
+          ["Position", data.jobTitle],
+          ["Salary", `${formatSalary(offer.salary)} per year`],
+          ["Start date", formatDate(offer.startDate)],
+          ["Respond by", offer.respondBy ? formatDate(offer.respondBy) : null],
+        ],
+      },
+      { kind: "paragraph", text: "Read the full letter, download it as a PDF, and accept or decline it from your dashboard." },
+      { kind: "button", label: "View Your Offer", url: candidateDashboard(data) },
+    ],
+    footer: reference(data),
+  });
+}
@@ -0,0 +1,63 @@
+// Typed failures surfaced to clients. Every error response carries a stable `code`
+// so the UI can explain what went wrong instead of showing made-up results.
+import { jsonResponse } from "./cors.ts";
+
+export type ErrorCode =
+  | "invalid_request"
+  | "download_failed"
+  | "unsupported_file"
+  | "empty_text"
+  | "scanned_pdf"
+  | "provider_timeout"
+  | "rate_limited"
+  | "provider_error"
+  | "not_found"
+  | "internal";
+
+const HTTP_STATUS: Record<ErrorCode, number> = {
+  invalid_request: 400,
+  download_failed: 502,
+  unsupported_file: 415,
+  empty_text: 422,
+  scanned_pdf: 422,
+  provider_timeout: 504,
+  rate_limited: 429,
+  provider_error: 502,
+  not_found: 404,
+  internal: 500,
+};
+
+// Transient failures worth retrying as-is; the rest need a different file or a fix on our side
+const RETRYABLE = new Set<ErrorCode>(["download_failed", "provider_timeout", "rate_limited", "provider_error", "internal"]);
+
+export class ServiceError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = "ServiceError";
+    this.code = code;
+  }
+
+  get status() {
+    return HTTP_STATUS[this.code];
+  }
+
+  get retryable() {
+    return RETRYABLE.has(this.code);
+  }
+}
+
+// Normalize anything thrown into a ServiceError, recognising fetch timeouts
+export function toServiceError(e: unknown): ServiceError {
+  if (e instanceof ServiceError) return e;
+  if (e instanceof Error && (e.name === "TimeoutError" || e.name === "AbortError")) {
+    return new ServiceError("provider_timeout", "The analysis provider did not respond in time");
+  }
+  return new ServiceError("internal", e instanceof Error ? e.message : "Unknown error");
+}
+
+export function errorResponse(e: unknown) {
+  const err = toServiceError(e);
+  return jsonResponse({ ok: false, code: err.code, error: err.message, retryable: err.retryable }, err.status);
+}
@@ -0,0 +1,66 @@
+// Structured job requirements as stored on public.jobs, shared by matching and resume analysis
+import { parseRequirementTerms } from "./matching.ts";
+import { emptySkillTaxonomy, normalizeSkills, skillVariants, type SkillTaxonomy } from "./skills/taxonomy.ts";
+
+export interface JobRequirements {
+  title: string;
+  description: string;
+  requirements: string | null; // free-text extras
+  location: string | null;
+  job_type: string | null;
+  required_skills?: string[] | null;
+  nice_to_have_skills?: string[] | null;
+  min_experience_years?: number | null;
+  max_experience_years?: number | null;
+  seniority_level?: string | null;
+  education_level?: string | null;
+  remote_policy?: string | null;
+}
+
+export const JOB_REQUIREMENTS_COLUMNS =
+  "title, description, requirements, location, job_type, required_skills, nice_to_have_skills, min_experience_years, max_experience_years, seniority_level, education_level, remote_policy";
+
+// Plain-text rendering for AI prompts
+export function describeJobRequirements(job: JobRequirements): string {
+  const lines = [`Title: ${job.title}`];
+  if (job.seniority_level) lines.push(`Seniority: ${job.seniority_level}`);
+  if (job.required_skills?.length) lines.push(`Required skills: ${job.required_skills.join(", ")}`);
+  if (job.nice_to_have_skills?.length) lines.push(`Nice-to-have skills: ${job.nice_to_have_skills.join(", ")}`);
+  if (job.min_experience_years != null || job.max_experience_years != null) {
+    lines.push(`Experience: ${job.min_experience_years ?? 0}${job.max_experience_years != null ? `-${job.max_experience_years}` : "+"} years`);
+  }
+  if (job.education_level && job.education_level !== "none") lines.push(`Education: ${job.education_level}`);
+  if (job.remote_policy) lines.push(`Work arrangement: ${job.remote_policy}`);
+  if (job.location) lines.push(`Location: ${job.location}`);
+  if (job.requirements) lines.push(`Other requirements: ${job.requirements}`);
+  lines.push(`Description: ${job.description}`);
+  return lines.join("\n");
+}
+
+// Keywords an ATS would screen for: structured skills first, then terms from the free-text requirements,
+// under their canonical names so "JS" and "JavaScript" count once
+export function jobKeywords(job: JobRequirements, taxonomy: SkillTaxonomy = emptySkillTaxonomy()): string[] {
+  return normalizeSkills(taxonomy, [
+    ...(job.required_skills || []),
+    ...(job.nice_to_have_skills || []),
+    ...parseRequirementTerms(job.requirements),
+  ]);
+}
+
+const searchable = (s: string) => s.toLowerCase().replace(/[^a-z0-9+#.]+/g, " ").trim();
+
+// Case-insensitive, word-boundary-aware keyword presence check against resume text; a keyword
+// is present when any of its spellings is ("JS" on the resume covers "JavaScript")
+export function splitKeywordsByPresence(keywords: string[], text: string, taxonomy: SkillTaxonomy = emptySkillTaxonomy()) {
+  const haystack = ` ${searchable(text)} `;
+  const matched: string[] = [];
+  const missing: string[] = [];
+  for (const k of keywords) {
+    const found = skillVariants(taxonomy, k).some((variant) => {
+      const needle = searchable(variant);
+      return needle !== "" && haystack.includes(` ${needle} `);
+    });
+    (found ? matched : missing).push(k);
+  }
+  return { matched, missing };
+}
@@ -0,0 +1,134 @@
+// npm run test:functions (deno test), offline: no network or database
+import { assert, assertEquals, assertStringIncludes } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { heuristicProvider } from "./heuristic.ts";
+import type { CoverLetterFacts, ResumeAnalysisInput } from "./types.ts";
+
+const RESUME = [
+  "Ada Lovelace",
+  "ada@example.test | +1 555 010 2030",
+  "Summary",
+  "Senior Software Engineer building data platforms.",
+  "Experience",
+  "Senior Software Engineer, Acme",
+  "Built Python and AWS pipelines serving 20000 users; cut costs by 35%.",
+  "Migrated services to Docker and Kubernetes, reducing deploy time by 60%.",
+  "Education",
+  "BSc Mathematics",
+  "Skills",
+  "Python, AWS, Docker, Kubernetes, SQL, Git",
+].join("\n");
+
+const analyze = (overrides: Partial<ResumeAnalysisInput> = {}) =>
+  heuristicProvider.analyzeResume({ resumeText: RESUME, experienceYearsHint: 6, ...overrides });
+
+Deno.test("analysis is deterministic", async () => {
+  assertEquals(await analyze(), await analyze());
+});
+
+Deno.test("analysis finds canonical skills, the role and the strongest area", async () => {
+  const analysis = await analyze();
+
+  assertEquals(analysis.job_role, "Senior Software Engineer");
+  assertEquals(analysis.skills, ["Python", "SQL", "AWS", "Docker", "Kubernetes", "Git"]);
+  assertEquals(analysis.strength_areas, ["Technology"]);
+  assertEquals(analysis.experience_years, 6);
+  assertEquals(analysis.summary.length, 5);
+  assertStringIncludes(analysis.summary[0], "6 years of experience");
+});
+
+Deno.test("the ATS score rewards sections, numbers, skills and contact details", async () => {
+  const full = await analyze();
+  const bare = await analyze({ resumeText: "Worked at a shop." });
+
+  assert(full.ats_score > bare.ats_score);
+  assert(full.ats_score >= 0 && full.ats_score <= 100);
+  assertEquals(bare.ats_score, 0);
+  assert(bare.recommendations!.some((r) => r.includes('"Experience" section')));
+  assert(bare.recommendations!.some((r) => r.includes("email address and phone number")));
+});
+
+Deno.test("without a job, missing skills come from the strongest category", async () => {
+  const analysis = await analyze();
+
+  assertEquals(analysis.job_match, undefined);
+  assertEquals(analysis.missing_skills, ["JavaScript", "TypeScript", "Java", "C#", "C++"]);
+});
+
+Deno.test("a job match is scored from the deterministic keyword check", async () => {
+  const analysis = await analyze({
+    job: { description: "Data engineer", keywords: ["Python", "AWS", "Spark", "Airflow"] },
+    keywordCheck: { matched: ["Python", "AWS"], missing: ["Spark", "Airflow"] },
+  });
+
+  assertEquals(analysis.missing_skills, ["Spark", "Airflow"]);
+  assertEquals(analysis.job_match?.matched_keywords, ["Python", "AWS"]);
+  assertEquals(analysis.job_match?.missing_keywords, ["Spark", "Airflow"]);
+  assertEquals(analysis.job_match?.ats_score, Math.round(0.5 * 80 + (analysis.ats_score / 100) * 20));
+  assertEquals(analysis.job_match?.recommendations.length, 2);
+});
+
+Deno.test("bullet rewrites replace weak openers and add placeholders, never numbers", async () => {
+  const { suggestions } = await heuristicProvider.rewriteBullet({
+    bullet: "Responsible for managing various vendor contracts.",
+    recommendation: "Quantify achievements",
+  });
+
+  assertEquals(suggestions[0], "Managed vendor contracts");
+  assertEquals(suggestions.length, 3);
+  for (const suggestion of suggestions.slice(1)) assert(!/\d/.test(suggestion));
+  assertStringIncludes(suggestions[1], "[X%]");
+});
+
+Deno.test("bullet rewrites keep quantified bullets without placeholders", async () => {
+  const { suggestions } = await heuristicProvider.rewriteBullet({
+    bullet: "Worked on the billing service, cutting latency by 40%",
+    recommendation: "Use stronger verbs",
+  });
+
+  assertEquals(suggestions, ["Delivered the billing service, cutting latency by 40%"]);
+});
+
+const FACTS: CoverLetterFacts = {
+  candidateName: "Ada Lovelace",
+  jobRole: "Software Engineer",
+  experienceYears: 6,
+  skills: ["Python", "AWS", "Figma"],
+  summary: ["Builds data platforms."],
+  strengthAreas: ["Technology"],
+  roles: ["Senior Software Engineer | Acme"],
+};
+
+Deno.test("cover letters only claim the resume's facts, in the chosen tone", async () => {
+  const { letter } = await heuristicProvider.writeCoverLetter({
+    facts: FACTS,
+    job: { title: "Data Engineer", company: "Beta", description: "We use Python daily.", keywords: ["AWS"] },
+    tone: "enthusiastic",
+    length: "medium",
+  });
+
+  assert(letter.startsWith("Dear Hiring Team,"));
+  assertStringIncludes(letter, "the Data Engineer opening at Beta");
+  assertStringIncludes(letter, "6 years of experience as a Software Engineer");
+  assertStringIncludes(letter, "Most recently I worked as Senior Software Engineer at Acme.");
+  assertStringIncludes(letter, "My experience with Python and AWS lines up");
+  assert(!letter.includes("Figma"));
+  assert(letter.endsWith("Best regards,\nAda Lovelace"));
+});
+
+Deno.test("cover letter length controls the optional paragraphs", async () => {
+  const write = (length: "short" | "long") =>
+    heuristicProvider.writeCoverLetter({
+      facts: FACTS,
+      job: { title: "Data Engineer", company: null, description: "", keywords: [] },
+      tone: "professional",
+      length,
+    });
+
+  const short = (await write("short")).letter;
+  const long = (await write("long")).letter;
+
+  assertStringIncludes(short, "your company");
+  assert(!short.includes("My strengths include"));
+  assertStringIncludes(long, "My strengths include Technology.");
+  assertStringIncludes(long, "Builds data platforms.");
+});
@@ -0,0 +1,222 @@
+// Offline provider: keyword dictionaries and regexes only. Deterministic, needs no network or keys,
+// so local development and tests get stable results.
+import { containsKeyword, INDUSTRY_CATEGORIES, ROLE_TITLES, SKILL_KEYWORDS, type IndustryCategory } from "../resume/keywords.ts";
+import type { BulletRewriteInput, CoverLetterInput, CoverLetterTone, LlmProvider, ResumeAnalysis, ResumeAnalysisInput } from "./types.ts";
+
+const SECTION_HEADINGS: Record<string, RegExp> = {
+  Experience: /\b(work experience|professional experience|employment history|experience)\b/i,
+  Education: /\beducation\b/i,
+  Skills: /\b(skills|technical skills|core competencies)\b/i,
+  Summary: /\b(summary|profile|objective)\b/i,
+};
+
+const QUANTIFIED = /(\d+(?:\.\d+)?\s*%|[$₹€£]\s?\d[\d,.]*\s*[kmb]?|\b\d{2,}[\d,]*\+?\s+(?:users|customers|clients|people|projects|accounts|hours|members|students|patients)\b)/gi;
+
+function extractSkills(text: string) {
+  const byCategory = new Map<IndustryCategory, string[]>();
+  for (const category of INDUSTRY_CATEGORIES) {
+    const found = SKILL_KEYWORDS[category].filter((k) => containsKeyword(text, k));
+    if (found.length > 0) byCategory.set(category, found);
+  }
+  return byCategory;
+}
+
+function detectRole(text: string): string {
+  // Titles usually sit near the top, so prefer the earliest mention
+  let best: { title: string; index: number } | null = null;
+  for (const title of ROLE_TITLES) {
+    const index = text.toLowerCase().indexOf(title.toLowerCase());
+    if (index !== -1 && (!best || index < best.index)) best = { title, index };
+  }
+  return best?.title ?? "Professional";
+}
+
+function scoreAts(text: string, skillCount: number) {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const sections = Object.entries(SECTION_HEADINGS).filter(([, re]) => re.test(text)).map(([name]) => name);
+  const quantified = (text.match(QUANTIFIED) || []).length;
+  const hasEmail = /[\w.+-]+@[\w-]+\.[\w.]+/.test(text);
+  const hasPhone = /\+?\d[\d\s().-]{8,}\d/.test(text);
+
+  const score =
+    Math.min(30, sections.length * 7.5) +
+    Math.min(20, quantified * 4) +
+    Math.min(25, skillCount * 2.5) +
+    (words >= 300 && words <= 1200 ? 15 : words >= 150 ? 8 : 0) +
+    (hasEmail ? 5 : 0) + (hasPhone ? 5 : 0);
+
+  const recommendations: string[] = [];
+  for (const name of Object.keys(SECTION_HEADINGS)) {
+    if (!sections.includes(name)) recommendations.push(`Add a clearly labelled "${name}" section so ATS parsers can find it.`);
+  }
+  if (quantified < 3) recommendations.push("Quantify achievements with numbers (%, revenue, users, time saved).");
+  if (skillCount < 6) recommendations.push("List the specific tools, platforms and methodologies you use.");
+  if (words < 300) recommendations.push("Expand role descriptions; the resume is too short for most ATS rankings.");
+  if (words > 1200) recommendations.push("Tighten the resume to the most relevant two pages.");
+  if (!hasEmail || !hasPhone) recommendations.push("Include an email address and phone number in the header.");
+
+  return { score: Math.round(Math.min(100, score)), sections, quantified, recommendations };
+}
+
+function analyze({ resumeText, experienceYearsHint, job, keywordCheck }: ResumeAnalysisInput): Partial<ResumeAnalysis> {
+  const byCategory = extractSkills(resumeText);
+  const skills = Array.from(byCategory.values()).flat();
+  const ranked = Array.from(byCategory.entries()).sort((a, b) => b[1].length - a[1].length);
+  const role = detectRole(resumeText);
+  const ats = scoreAts(resumeText, skills.length);
+
+  const topCategory = ranked[0]?.[0];
+  const missingSkills = keywordCheck
+    ? keywordCheck.missing.slice(0, 8)
+    : topCategory ? SKILL_KEYWORDS[topCategory].filter((k) => !skills.includes(k)).slice(0, 5) : [];
+
+  const summary = [
+    `${role} with ${experienceYearsHint} years of experience based on listed employment dates.`,
+    skills.length > 0 ? `Hard skills mentioned: ${skills.slice(0, 8).join(", ")}.` : "No recognised hard skills were found in the text.",
+    ranked.length > 0 ? `Strongest areas: ${ranked.slice(0, 3).map(([c]) => c).join(", ")}.` : "Domain focus could not be determined from the text.",
+    `${ats.quantified} quantified achievement${ats.quantified === 1 ? "" : "s"} detected.`,
+    ats.sections.length > 0 ? `Sections detected: ${ats.sections.join(", ")}.` : "No standard section headings detected.",
+  ];
+
+  const result: Partial<ResumeAnalysis> = {
+    job_role: role,
+    experience_years: experienceYearsHint,
+    skills,
+    summary,
+    ats_score: ats.score,
+    recommendations: ats.recommendations,
+    missing_skills: missingSkills,
+    strength_areas: ranked.slice(0, 3).map(([c]) => c),
+  };
+
+  if (job && keywordCheck) {
+    const coverage = job.keywords.length > 0 ? keywordCheck.matched.length / job.keywords.length : 0;
+    result.job_match = {
+      ats_score: Math.round(coverage * 80 + (ats.score / 100) * 20),
+      matched_keywords: keywordCheck.matched,
+      missing_keywords: keywordCheck.missing,
+      recommendations: keywordCheck.missing.slice(0, 5).map((k) => `If you have experience with ${k}, mention it explicitly with a concrete example.`),
+    };
+  }
+
+  return result;
+}
+
+// Weak openers and the action verb that replaces them
+const WEAK_OPENERS: [RegExp, string][] = [
+  [/^(was )?responsible for\s+/i, "Owned "],
+  [/^in charge of\s+/i, "Led "],
+  [/^worked on\s+/i, "Delivered "],
+  [/^(helped|helping)( to)?\s+/i, "Contributed to "],
+  [/^assisted (with|in)\s+/i, "Supported "],
+  [/^(participated|involved) in\s+/i, "Contributed to "],
+  [/^handled\s+/i, "Managed "],
+  [/^made\s+/i, "Built "],
+  [/^did\s+/i, "Completed "],
+];
+
+// "Responsible for managing X" -> "Managed X"
+const IRREGULAR_PAST: Record<string, string> = {
+  leading: "Led",
+  building: "Built",
+  running: "Ran",
+  writing: "Wrote",
+  making: "Made",
+  teaching: "Taught",
+  selling: "Sold",
+  driving: "Drove",
+  overseeing: "Oversaw",
+  setting: "Set",
+};
+
+const gerundToPast = (word: string) =>
+  IRREGULAR_PAST[word.toLowerCase()] ?? `${word.charAt(0).toUpperCase()}${word.slice(1, -3)}ed`;
+
+const FILLER = /\b(successfully|effectively|various|several|different|very)\s+/gi;
+
+const QUANTIFY_HINT = /quantif|number|metric|measur|%|result|impact|achievement/i;
+
+function rewrite({ bullet, recommendation }: BulletRewriteInput): string[] {
+  let base = bullet.trim().replace(/[.;]+$/, "").replace(FILLER, "");
+  for (const [pattern, verb] of WEAK_OPENERS) {
+    if (!pattern.test(base)) continue;
+    const rest = base.replace(pattern, "");
+    const gerund = rest.match(/^([a-z]{3,}ing)\b/i);
+    base = gerund ? gerundToPast(gerund[1]) + rest.slice(gerund[1].length) : verb + rest;
+    break;
+  }
+  base = base.charAt(0).toUpperCase() + base.slice(1);
+
+  const suggestions = [base];
+  // Placeholders rather than made-up numbers; the candidate fills them in before accepting.
+  // Also the fallback when the wording needed no change.
+  if (!/\d/.test(base) || QUANTIFY_HINT.test(recommendation) || base === bullet.trim()) {
+    suggestions.push(`${base}, improving [metric] by [X%]`);
+    suggestions.push(`${base} for [N] [users/clients/projects], saving [time or cost]`);
+  }
+  return suggestions;
+}
+
+const LETTER_TONES: Record<CoverLetterTone, { opening: string; closing: string; signOff: string }> = {
+  professional: {
+    opening: "I am writing to apply for the {title} position at {company}.",
+    closing: "I would welcome the opportunity to discuss how I can contribute to {company}. Thank you for your consideration.",
+    signOff: "Sincerely",
+  },
+  enthusiastic: {
+    opening: "I was excited to see the {title} opening at {company} and would love to join your team.",
+    closing: "I would be thrilled to talk about how I can help {company} and look forward to hearing from you!",
+    signOff: "Best regards",
+  },
+  conversational: {
+    opening: "I'd like to throw my hat in the ring for the {title} role at {company}.",
+    closing: "If this sounds like a good fit, I'd be glad to chat. Thanks for reading.",
+    signOff: "Thanks",
+  },
+};
+
+const withArticle = (noun: string) => `${/^[aeiou]/i.test(noun) ? "an" : "a"} ${noun}`;
+
+const joinList = (items: string[]) =>
+  items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+
+// Fills a fixed outline from the resume facts only, so it can never claim anything the resume doesn't
+function coverLetter({ facts, job, tone, length }: CoverLetterInput): string {
+  const style = LETTER_TONES[tone];
+  const company = job.company || "your company";
+  const fill = (text: string) => text.replace("{title}", job.title || "open").replace(/\{company\}/g, company);
+
+  const matched = facts.skills.filter((skill) =>
+    job.keywords.some((k) => k.toLowerCase() === skill.toLowerCase()) || containsKeyword(job.description, skill)
+  );
+  const highlighted = (matched.length > 0 ? matched : facts.skills).slice(0, length === "short" ? 3 : 5);
+
+  const intro = [fill(style.opening)];
+  if (facts.jobRole && facts.experienceYears) {
+    intro.push(`I bring ${facts.experienceYears} years of experience as ${withArticle(facts.jobRole)}.`);
+  } else if (facts.jobRole) {
+    intro.push(`I currently work as ${withArticle(facts.jobRole)}.`);
+  }
+
+  const experience: string[] = [];
+  if (facts.roles.length > 0) experience.push(`Most recently I worked as ${facts.roles[0].replace(" | ", " at ")}.`);
+  if (highlighted.length > 0) {
+    experience.push(`My experience with ${joinList(highlighted)} ${matched.length > 0 ? "lines up with what this role calls for" : "would carry over to this role"}.`);
+  }
+
+  const paragraphs = [intro.join(" "), experience.join(" ")];
+  if (length !== "short" && facts.strengthAreas.length > 0) {
+    paragraphs.push(`My strengths include ${joinList(facts.strengthAreas.slice(0, 3))}.`);
+  }
+  if (length === "long" && facts.summary.length > 0) paragraphs.push(facts.summary.slice(0, 3).join(" "));
+  paragraphs.push(fill(style.closing));
+
+  return ["Dear Hiring Team,", ...paragraphs.filter(Boolean), `${style.signOff},\n${facts.candidateName}`].join("\n\n");
+}
+
+export const heuristicProvider: LlmProvider = {
+  name: "heuristic",
+  analyzeResume: async (input) => analyze(input),
+  rewriteBullet: async (input) => ({ suggestions: rewrite(input) }),
+  writeCoverLetter: async (input) => ({ letter: coverLetter(input) }),
+};
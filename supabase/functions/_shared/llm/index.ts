@@ -0,0 +1,53 @@
+import { heuristicProvider } from "./heuristic.ts";
+import { createOpenAICompatibleProvider } from "./openai.ts";
+import type { LlmProvider } from "./types.ts";
+
+export { PROMPT_VERSION } from "./prompts.ts";
+export type {
+  BulletRewrite,
+  BulletRewriteInput,
+  CoverLetter,
+  CoverLetterFacts,
+  CoverLetterInput,
+  CoverLetterLength,
+  CoverLetterTone,
+  JobContext,
+  JobMatchResult,
+  KeywordCheck,
+  LlmProvider,
+  ResumeAnalysis,
+  ResumeAnalysisInput,
+} from "./types.ts";
+
+/**
+ * Provider selection from env:
+ *   LLM_PROVIDER      openai (default) | openai-compatible | heuristic
+ *   LLM_MODEL         model name (default gpt-4o-mini for openai)
+ *   LLM_BASE_URL      required for openai-compatible, e.g. http://localhost:11434/v1
+ *   LLM_API_KEY       key for openai-compatible servers that need one
+ *   OPENAI_API_KEY    key for openai
+ *   LLM_TIMEOUT_MS    per-request timeout (default 60000)
+ */
+export function getLlmProvider(): LlmProvider {
+  const kind = (Deno.env.get("LLM_PROVIDER") || "openai").toLowerCase();
+  const timeoutMs = parseInt(Deno.env.get("LLM_TIMEOUT_MS") || "") || 60_000;
+  const model = Deno.env.get("LLM_MODEL");
+
+  switch (kind) {
+    case "heuristic":
+      return heuristicProvider;
+    case "openai-compatible": {
+      const baseUrl = Deno.env.get("LLM_BASE_URL");
+      if (!baseUrl) throw new Error("LLM_BASE_URL not configured");
+      if (!model) throw new Error("LLM_MODEL not configured");
+      return createOpenAICompatibleProvider({ name: "openai-compatible", baseUrl, apiKey: Deno.env.get("LLM_API_KEY"), model, timeoutMs });
+    }
+    case "openai": {
+      const apiKey = Deno.env.get("OPENAI_API_KEY");
+      if (!apiKey) throw new Error("OPENAI_API_KEY not configured");
+      return createOpenAICompatibleProvider({ name: "openai", baseUrl: "https://api.openai.com/v1", apiKey, model: model || "gpt-4o-mini", timeoutMs });
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}"`);
+  }
+}
@@ -0,0 +1,71 @@
+import { ServiceError } from "../errors.ts";
+import { bulletRewritePrompt, coverLetterPrompt, resumeAnalysisPrompt } from "./prompts.ts";
+import type { BulletRewrite, CoverLetter, LlmProvider, ResumeAnalysis } from "./types.ts";
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string; // e.g. "https://api.openai.com/v1" or a self-hosted "http://localhost:11434/v1"
+  apiKey?: string; // optional for local servers
+  model: string;
+  timeoutMs: number;
+}
+
+// Chat-completions client for OpenAI and any server exposing the same API (vLLM, Ollama, LM Studio, ...)
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LlmProvider {
+  const chat = async (system: string, user: string): Promise<string> => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.apiKey) headers["Authorization"] = `Bearer ${config.apiKey}`;
+
+    const res = await fetch(`${config.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        temperature: 0.2,
+        messages: [ { role: "system", content: system }, { role: "user", content: user } ],
+      }),
+      signal: AbortSignal.timeout(config.timeoutMs),
+    });
+
+    if (res.status === 429) throw new ServiceError("rate_limited", `${config.name} rate limit reached, try again shortly`);
+    if (!res.ok) throw new ServiceError("provider_error", `${config.name} API error: ${res.status} ${res.statusText}`);
+    const data = await res.json();
+    return data?.choices?.[0]?.message?.content ?? "";
+  };
+
+  // Models sometimes wrap the JSON in prose or code fences
+  const chatJson = async <T>(system: string, user: string): Promise<Partial<T>> => {
+    const content = await chat(system, user);
+
+    let jsonText = content.trim();
+    const match = jsonText.match(/\{[\s\S]*\}/);
+    if (match) jsonText = match[0];
+
+    try {
+      return JSON.parse(jsonText) as Partial<T>;
+    } catch (e) {
+      console.error("AI returned non-JSON", e, { preview: content.slice(0, 400) });
+      throw new ServiceError("provider_error", `${config.name} returned a response that is not valid JSON`);
+    }
+  };
+
+  return {
+    name: config.name,
+    model: config.model,
+
+    async analyzeResume(input) {
+      const { system, user } = resumeAnalysisPrompt(input);
+      return chatJson<ResumeAnalysis>(system, user);
+    },
+
+    async rewriteBullet(input) {
+      const { system, user } = bulletRewritePrompt(input);
+      return chatJson<BulletRewrite>(system, user);
+    },
+
+    async writeCoverLetter(input) {
+      const { system, user } = coverLetterPrompt(input);
+      return chatJson<CoverLetter>(system, user);
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { INDUSTRY_CATEGORIES } from "../resume/keywords.ts";
+import type { BulletRewriteInput, CoverLetterInput, CoverLetterLength, CoverLetterTone, ResumeAnalysisInput } from "./types.ts";
+
+// Part of the analysis cache key: bump whenever the prompt text or the expected output shape
+// changes, so results produced by the old prompt are no longer served
+export const PROMPT_VERSION = "2025-08-16.1";
+
+export function resumeAnalysisPrompt({ resumeText, experienceYearsHint, job, keywordCheck }: ResumeAnalysisInput) {
+  const jobSection = job && keywordCheck
+    ? `\n\nTarget job posting:\n${job.description}\n\nKeywords from the posting found in the resume: ${keywordCheck.matched.join(", ") || "none"}\nKeywords from the posting NOT found in the resume: ${keywordCheck.missing.join(", ") || "none"}\n\nJob-specific instructions:\n- Score "job_match.ats_score" (0-100) as how well an ATS screening for THIS posting would rank the resume: keyword coverage, relevant experience, title alignment.\n- "job_match.missing_keywords" lists posting requirements absent from the resume (start from the NOT found list; drop any the resume clearly covers with a synonym).\n- "job_match.recommendations" are 3-5 concrete edits to tailor the resume to this posting. Never suggest claiming experience the candidate does not have.`
+    : "";
+  const jobShape = job ? `,\n  "job_match": {\n    "ats_score": number,\n    "missing_keywords": string[],\n    "recommendations": string[]\n  }` : "";
+
+  const system = `You are an expert resume analyzer in 2025. Analyze resumes across ALL industries and seniority levels. Be factual and only use information present in the text.`;
+  const user = `Resume text (sanitized):\n\n${resumeText.slice(0, 120_000)}\n\nInstructions:\n- Detect the most accurate job role/title (e.g., VP Sales, Director Operations, Business Analyst, Marketing Manager, Financial Analyst, Legal Counsel, UX Designer, Software Engineer).\n- Extract ONLY domain-specific, technical, and hard skills explicitly mentioned (tools, platforms, methodologies, frameworks). DO NOT include soft skills (e.g., communication, teamwork).\n- Years of experience were computed from the employment date ranges (overlaps merged, gaps and education excluded): ${experienceYearsHint}. Use this value for "experience_years".\n- Provide a concise 5-line professional summary focused on achievements and domain expertise (no fluff).\n- Consider these categories when relevant: ${INDUSTRY_CATEGORIES.join("; ")}.\n- Score "ats_score" (0-100) on ATS readiness only: parseable structure, standard section headings, quantified achievements, role-relevant keywords. Seniority alone must not raise the score.${jobSection}\n\nReturn ONLY valid JSON with this exact shape:\n{\n  "job_role": string,\n  "experience_years": number,\n  "skills": string[],\n  "summary": [string, string, string, string, string],\n  "ats_score": number,\n  "recommendations": string[],\n  "missing_skills": string[],\n  "strength_areas": string[]${jobShape}\n}`;
+
+  return { system, user };
+}
+
+export function bulletRewritePrompt({ bullet, recommendation, jobRole, context, missingSkills }: BulletRewriteInput) {
+  const system = `You are an expert resume writer. You rewrite single resume bullet points to be stronger for ATS screening and human reviewers without changing what the candidate actually did.`;
+  const user = `Bullet point:\n${bullet}\n\n${context ? `Role: ${context}\n` : ""}${jobRole ? `Target job role: ${jobRole}\n` : ""}${missingSkills?.length ? `Skills the resume is missing for this role: ${missingSkills.join(", ")}\n` : ""}\nRecommendation to apply:\n${recommendation}\n\nInstructions:\n- Write 3 alternative versions of the bullet that apply the recommendation.\n- Start with a strong action verb; keep each under 40 words and in the same language as the bullet.\n- Never invent numbers, employers, tools or results. Where a metric would help but is not in the bullet, insert a placeholder in square brackets such as [X%] or [N users] for the candidate to fill in.\n- Only mention a missing skill if the bullet already implies it.\n\nReturn ONLY valid JSON with this exact shape:\n{\n  "suggestions": [string, string, string]\n}`;
+
+  return { system, user };
+}
+
+const TONE_INSTRUCTIONS: Record<CoverLetterTone, string> = {
+  professional: "formal and confident, no slang or exclamation marks",
+  enthusiastic: "warm and energetic, showing genuine interest in the company and role",
+  conversational: "friendly and plain-spoken, short sentences, still suitable for a hiring manager",
+};
+
+const LENGTH_WORDS: Record<CoverLetterLength, string> = {
+  short: "120-180 words in 2-3 paragraphs",
+  medium: "220-300 words in 3-4 paragraphs",
+  long: "350-450 words in 4-5 paragraphs",
+};
+
+export function coverLetterPrompt({ facts, job, tone, length }: CoverLetterInput) {
+  const list = (items: string[]) => items.length > 0 ? items.join("; ") : "none";
+  const candidate = [
+    `Name: ${facts.candidateName}`,
+    `Current role: ${facts.jobRole || "unknown"}`,
+    `Years of experience: ${facts.experienceYears ?? "unknown"}`,
+    `Work history: ${list(facts.roles)}`,
+    `Skills: ${list(facts.skills)}`,
+    `Strengths: ${list(facts.strengthAreas)}`,
+    `Resume summary: ${facts.summary.join(" ") || "none"}`,
+  ].join("\n");
+
+  const system = `You are an expert career coach who writes tailored cover letters. Be factual and only use information present in the candidate facts.`;
+  const user = `Candidate facts (from their resume):\n${candidate}\n\nTarget job:\n${job.company ? `Company: ${job.company}\n` : ""}${job.description.slice(0, 20_000)}\n\nInstructions:\n- Write a cover letter for this job in a ${tone} tone: ${TONE_INSTRUCTIONS[tone]}.\n- Length: ${LENGTH_WORDS[length]}.\n- Connect the candidate's skills and experience to the job's requirements (${list(job.keywords)}), leading with the strongest matches.\n- Never invent employers, titles, degrees, numbers, tools or achievements that are not in the candidate facts. If the job asks for something the candidate lacks, do not claim it; an interest in learning it may be mentioned.\n- Start with a greeting to the hiring team and end with a sign-off using the candidate's name. No placeholders, addresses or dates.\n\nReturn ONLY valid JSON with this exact shape:\n{\n  "letter": string\n}`;
+
+  return { system, user };
+}
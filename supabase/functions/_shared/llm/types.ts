@@ -0,0 +1,91 @@
+// Provider-agnostic contracts for the AI features behind the edge functions
+
+export interface KeywordCheck {
+  matched: string[];
+  missing: string[];
+}
+
+// Target job resolved from a jobId or a pasted description
+export interface JobContext {
+  description: string; // prompt text
+  keywords: string[];
+}
+
+export interface JobMatchResult {
+  ats_score: number;
+  matched_keywords: string[];
+  missing_keywords: string[];
+  recommendations: string[];
+}
+
+export interface ResumeAnalysis {
+  skills: string[];
+  experience_years: number;
+  job_role: string;
+  ats_score: number;
+  summary: string[];
+  recommendations?: string[];
+  missing_skills?: string[];
+  strength_areas?: string[];
+  job_match?: JobMatchResult;
+}
+
+export interface ResumeAnalysisInput {
+  resumeText: string;
+  fileName?: string;
+  experienceYearsHint: number;
+  job?: JobContext | null;
+  keywordCheck?: KeywordCheck | null;
+}
+
+// One analysis recommendation applied to one resume bullet
+export interface BulletRewriteInput {
+  bullet: string;
+  recommendation: string;
+  jobRole?: string | null;
+  context?: string | null; // "Title | Company" of the role the bullet belongs to
+  missingSkills?: string[];
+}
+
+export interface BulletRewrite {
+  suggestions: string[];
+}
+
+export type CoverLetterTone = "professional" | "enthusiastic" | "conversational";
+export type CoverLetterLength = "short" | "medium" | "long";
+
+// Everything a cover letter may claim about the candidate comes from here
+export interface CoverLetterFacts {
+  candidateName: string;
+  jobRole: string | null;
+  experienceYears: number | null;
+  skills: string[];
+  summary: string[]; // analysis summary lines
+  strengthAreas: string[];
+  roles: string[]; // "Title | Company" from the parsed work history, newest first
+}
+
+export interface CoverLetterInput {
+  facts: CoverLetterFacts;
+  job: {
+    title: string;
+    company: string | null;
+    description: string; // prompt text
+    keywords: string[];
+  };
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+}
+
+export interface CoverLetter {
+  letter: string;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model?: string; // for providers serving several models; part of the analysis cache key
+  // Raw provider output; callers sanitize it before use
+  analyzeResume(input: ResumeAnalysisInput): Promise<Partial<ResumeAnalysis>>;
+  rewriteBullet(input: BulletRewriteInput): Promise<Partial<BulletRewrite>>;
+  writeCoverLetter(input: CoverLetterInput): Promise<Partial<CoverLetter>>;
+}
@@ -0,0 +1,115 @@
+// npm run test:functions (deno test), offline: no network or database
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { computeMatchScore, parseRequiredYears, parseRequirementTerms, type MatchJob, type MatchResume } from "./matching.ts";
+import { buildSkillTaxonomy } from "./skills/taxonomy.ts";
+
+const taxonomy = buildSkillTaxonomy(
+  [
+    { id: "js", name: "JavaScript", parent_id: null },
+    { id: "react", name: "React", parent_id: "js" },
+    { id: "pg", name: "PostgreSQL", parent_id: null },
+  ],
+  [{ skill_id: "pg", alias: "Postgres" }, { skill_id: "react", alias: "ReactJS" }],
+);
+
+const resume = (overrides: Partial<MatchResume> = {}): MatchResume => ({
+  skills: ["ReactJS", "Postgres", "Docker"],
+  experience_years: 5,
+  job_role: "Frontend Developer",
+  location: "Berlin, Germany",
+  ...overrides,
+});
+
+const job = (overrides: Partial<MatchJob> = {}): MatchJob => ({
+  title: "Senior Frontend Developer",
+  description: "Build our web app.",
+  requirements: null,
+  location: "Berlin",
+  job_type: "full_time",
+  required_skills: ["JavaScript", "PostgreSQL"],
+  nice_to_have_skills: ["GraphQL"],
+  min_experience_years: 3,
+  max_experience_years: 6,
+  ...overrides,
+});
+
+Deno.test("the same inputs always give the same score", () => {
+  assertEquals(computeMatchScore(resume(), job(), taxonomy), computeMatchScore(resume(), job(), taxonomy));
+});
+
+Deno.test("required skills match through aliases and implied parent skills", () => {
+  const { skills } = computeMatchScore(resume(), job(), taxonomy).breakdown;
+
+  assertEquals(skills.matched, ["JavaScript", "PostgreSQL"]);
+  assertEquals(skills.missing, []);
+  assertEquals(skills.score, 85);
+  assertEquals(skills.detail, "2 of 2 required skills, 0 of 1 nice-to-have");
+});
+
+Deno.test("without a taxonomy, a skill implies nothing else", () => {
+  const { skills } = computeMatchScore(resume(), job()).breakdown;
+
+  // "Postgres" still matches "PostgreSQL" as a substring
+  assertEquals(skills.matched, ["PostgreSQL"]);
+  assertEquals(skills.missing, ["JavaScript"]);
+});
+
+Deno.test("free-text requirements are split into terms when no skills are listed", () => {
+  const { skills } = computeMatchScore(
+    resume(),
+    job({ required_skills: [], nice_to_have_skills: [], requirements: "- React\n- Postgres, Kubernetes\n5+ years experience" }),
+    taxonomy,
+  ).breakdown;
+
+  assertEquals(skills.matched, ["React", "PostgreSQL"]);
+  assertEquals(skills.missing, ["kubernetes"]);
+  assertEquals(skills.score, 67);
+});
+
+Deno.test("experience is scored against the structured year range", () => {
+  const score = (years: number) => computeMatchScore(resume({ experience_years: years }), job(), taxonomy).breakdown.experience;
+
+  assertEquals(score(1.5).score, 50);
+  assertEquals(score(5).score, 100);
+  assertEquals(score(12).score, 80);
+  assertEquals(score(5).detail, "5 years meets the 3-6 year requirement");
+});
+
+Deno.test("precise experience months take precedence over rounded years", () => {
+  const { experience } = computeMatchScore(
+    resume({ experience_years: 3, experience_months: 30 }),
+    job(),
+    taxonomy,
+  ).breakdown;
+
+  assertEquals(experience.detail, "2.5 of 3-6 years required");
+});
+
+Deno.test("role and location factors", () => {
+  const onSite = computeMatchScore(resume({ location: "Lisbon" }), job(), taxonomy).breakdown;
+  const hybrid = computeMatchScore(resume({ location: "Lisbon" }), job({ remote_policy: "hybrid" }), taxonomy).breakdown;
+  const remote = computeMatchScore(resume({ location: "Lisbon" }), job({ remote_policy: "remote" }), taxonomy).breakdown;
+  const local = computeMatchScore(resume(), job(), taxonomy).breakdown;
+
+  assertEquals(local.role.score, 67);
+  assertEquals(onSite.location.score, 25);
+  assertEquals(hybrid.location.score, 50);
+  assertEquals(remote.location.score, 100);
+  assertEquals(local.location.score, 100);
+});
+
+Deno.test("the total is the weighted sum of the factors", () => {
+  const { score, breakdown } = computeMatchScore(resume(), job(), taxonomy);
+  const factors = Object.values(breakdown);
+
+  assertEquals(factors.reduce((sum, f) => sum + f.weight, 0), 1);
+  assertEquals(score, Math.round(factors.reduce((sum, f) => sum + f.score * f.weight, 0)));
+  assert(score >= 0 && score <= 100);
+});
+
+Deno.test("requirement text parsing", () => {
+  assertEquals(parseRequirementTerms("React, TypeScript and GraphQL\n3+ years of experience"), ["react", "typescript", "graphql"]);
+  assertEquals(parseRequiredYears("Needs 3-5 years in sales"), { min: 3, max: 5 });
+  assertEquals(parseRequiredYears("7+ yrs"), { min: 7, max: undefined });
+  assertEquals(parseRequiredYears("No requirement"), null);
+});
@@ -0,0 +1,199 @@
+// Deterministic resume ↔ job match scoring. No AI calls: the same inputs always
+// produce the same score, so results can be recomputed and compared freely.
+import type { JobRequirements } from "./jobRequirements.ts";
+import { emptySkillTaxonomy, normalizeSkills, skillKey, skillWithAncestors, type SkillTaxonomy } from "./skills/taxonomy.ts";
+
+export interface MatchResume {
+  skills: string[] | null;
+  experience_years: number | null;
+  experience_months?: number | null; // precise total from merged employment ranges
+  job_role: string | null;
+  location?: string | null; // candidate profile location
+}
+
+export type MatchJob = JobRequirements;
+
+export interface MatchFactor {
+  score: number; // 0-100
+  weight: number; // 0-1, weights sum to 1
+  detail: string;
+  matched?: string[];
+  missing?: string[];
+}
+
+export interface MatchScore {
+  score: number; // 0-100
+  breakdown: {
+    skills: MatchFactor;
+    experience: MatchFactor;
+    role: MatchFactor;
+    location: MatchFactor;
+  };
+}
+
+const WEIGHTS = { skills: 0.5, experience: 0.2, role: 0.15, location: 0.15 };
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "or", "the", "of", "in", "on", "for", "to", "with", "at", "by", "as",
+  "is", "are", "be", "we", "you", "our", "your", "will", "must", "should", "have", "has",
+  "experience", "knowledge", "strong", "good", "excellent", "ability", "skills", "working",
+]);
+
+const normalize = (s: string) => s.toLowerCase().replace(/\s+/g, " ").trim();
+
+const tokenize = (s: string | null | undefined) =>
+  (s || "")
+    .toLowerCase()
+    .split(/[^a-z0-9+#.]+/)
+    .map((t) => t.replace(/^\.+|\.+$/g, ""))
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+
+const round = (n: number) => Math.round(Math.max(0, Math.min(1, n)) * 100);
+
+// Split a free-text requirements blob into short skill-like terms
+export function parseRequirementTerms(text: string | null): string[] {
+  if (!text) return [];
+  const terms = text
+    .split(/[\n,;|•·●▪]|\band\b|\bor\b/i)
+    .map((t) => t.replace(/^[\s\-*\d.)]+/, "").replace(/[.:]+$/, ""))
+    .map(normalize)
+    .filter((t) => t.length > 1 && t.split(" ").length <= 4)
+    .filter((t) => !/\b(years?|yrs)\b/.test(t));
+  return Array.from(new Set(terms));
+}
+
+// First "N years" / "N+ years" / "N-M years" mention in the text
+export function parseRequiredYears(text: string | null): { min: number; max?: number } | null {
+  if (!text) return null;
+  const m = text.match(/(\d{1,2})\s*\+?\s*(?:(?:-|–|to)\s*(\d{1,2})\s*)?(?:years?|yrs)/i);
+  if (!m) return null;
+  const min = parseInt(m[1]);
+  const max = m[2] ? parseInt(m[2]) : undefined;
+  return { min, max };
+}
+
+const skillMatches = (term: string, skill: string) =>
+  term === skill || (skill.length > 2 && term.includes(skill)) || (term.length > 2 && skill.includes(term));
+
+// Terms keep their display form; comparison is on skill keys
+const coverage = (terms: string[], skillKeys: string[]) => {
+  const matched = terms.filter((t) => skillKeys.some((s) => skillMatches(skillKey(t), s)));
+  return { matched, missing: terms.filter((t) => !matched.includes(t)) };
+};
+
+function scoreSkills(resume: MatchResume, job: MatchJob, taxonomy: SkillTaxonomy): MatchFactor {
+  const skills = normalizeSkills(taxonomy, resume.skills);
+  // A listed skill also covers the skills it implies (React covers JavaScript)
+  const skillKeys = Array.from(new Set(skills.flatMap((s) => skillWithAncestors(taxonomy, s)).map(skillKey)));
+  const required = normalizeSkills(taxonomy, job.required_skills);
+  const niceToHave = normalizeSkills(taxonomy, job.nice_to_have_skills);
+
+  if (required.length > 0) {
+    // Structured requirements: required skills dominate, nice-to-haves add up to 15 points
+    const req = coverage(required, skillKeys);
+    const nice = coverage(niceToHave, skillKeys);
+    const ratio = niceToHave.length > 0
+      ? 0.85 * (req.matched.length / required.length) + 0.15 * (nice.matched.length / niceToHave.length)
+      : req.matched.length / required.length;
+    return {
+      score: round(ratio),
+      weight: WEIGHTS.skills,
+      detail: `${req.matched.length} of ${required.length} required skills` +
+        (niceToHave.length > 0 ? `, ${nice.matched.length} of ${niceToHave.length} nice-to-have` : ""),
+      matched: [...req.matched, ...nice.matched],
+      missing: req.missing,
+    };
+  }
+
+  const terms = normalizeSkills(taxonomy, parseRequirementTerms(job.requirements));
+
+  if (terms.length === 0) {
+    // No requirement list: fall back to how many resume skills the posting mentions at all
+    const jobText = normalize(`${job.title} ${job.description}`);
+    const mentioned = skills.filter((s) => jobText.includes(skillKey(s)));
+    if (skills.length === 0) return { score: 0, weight: WEIGHTS.skills, detail: "No skills found on resume", matched: [], missing: [] };
+    const ratio = Math.min(1, mentioned.length / Math.min(skills.length, 5));
+    return {
+      score: round(ratio),
+      weight: WEIGHTS.skills,
+      detail: `${mentioned.length} resume skills mentioned in the job description`,
+      matched: mentioned,
+      missing: [],
+    };
+  }
+
+  const { matched, missing } = coverage(terms, skillKeys);
+  return {
+    score: round(matched.length / terms.length),
+    weight: WEIGHTS.skills,
+    detail: `${matched.length} of ${terms.length} requirements covered`,
+    matched,
+    missing,
+  };
+}
+
+function scoreExperience(resume: MatchResume, job: MatchJob): MatchFactor {
+  const years = resume.experience_months != null
+    ? Math.round((resume.experience_months / 12) * 10) / 10
+    : resume.experience_years ?? 0;
+  const required = job.min_experience_years != null || job.max_experience_years != null
+    ? { min: job.min_experience_years ?? 0, max: job.max_experience_years ?? undefined }
+    : parseRequiredYears(job.requirements) ?? parseRequiredYears(job.description);
+  if (!required) {
+    return { score: 100, weight: WEIGHTS.experience, detail: "No experience requirement stated" };
+  }
+  const range = required.max ? `${required.min}-${required.max}` : `${required.min}+`;
+  if (years < required.min) {
+    return {
+      score: round(required.min === 0 ? 1 : years / required.min),
+      weight: WEIGHTS.experience,
+      detail: `${years} of ${range} years required`,
+    };
+  }
+  if (required.max !== undefined && years > required.max + 3) {
+    return { score: 80, weight: WEIGHTS.experience, detail: `${years} years, above the ${range} year range` };
+  }
+  return { score: 100, weight: WEIGHTS.experience, detail: `${years} years meets the ${range} year requirement` };
+}
+
+function scoreRole(resume: MatchResume, job: MatchJob): MatchFactor {
+  const titleTokens = new Set(tokenize(job.title));
+  const roleTokens = new Set(tokenize(resume.job_role));
+  if (titleTokens.size === 0 || roleTokens.size === 0) {
+    return { score: 0, weight: WEIGHTS.role, detail: "No role detected on resume" };
+  }
+  const overlap = [...titleTokens].filter((t) => roleTokens.has(t));
+  return {
+    score: round(overlap.length / titleTokens.size),
+    weight: WEIGHTS.role,
+    detail: overlap.length > 0 ? `Role shares "${overlap.join(" ")}" with the job title` : "Role differs from the job title",
+  };
+}
+
+function scoreLocation(resume: MatchResume, job: MatchJob): MatchFactor {
+  const jobLocation = normalize(job.location || "");
+  if (job.remote_policy === "remote" || job.job_type === "remote" || /\bremote\b/.test(jobLocation)) {
+    return { score: 100, weight: WEIGHTS.location, detail: "Remote position" };
+  }
+  const candidate = tokenize(resume.location);
+  if (!jobLocation || candidate.length === 0) {
+    return { score: 50, weight: WEIGHTS.location, detail: "Location not specified" };
+  }
+  const shared = candidate.filter((t) => tokenize(jobLocation).includes(t));
+  if (shared.length > 0) return { score: 100, weight: WEIGHTS.location, detail: `Candidate is in ${job.location}` };
+  // Hybrid roles need occasional presence, so distance hurts less than for fully on-site roles
+  return job.remote_policy === "hybrid"
+    ? { score: 50, weight: WEIGHTS.location, detail: `Hybrid role; candidate is outside ${job.location}` }
+    : { score: 25, weight: WEIGHTS.location, detail: `Candidate is outside ${job.location}` };
+}
+
+export function computeMatchScore(resume: MatchResume, job: MatchJob, taxonomy: SkillTaxonomy = emptySkillTaxonomy()): MatchScore {
+  const breakdown = {
+    skills: scoreSkills(resume, job, taxonomy),
+    experience: scoreExperience(resume, job),
+    role: scoreRole(resume, job),
+    location: scoreLocation(resume, job),
+  };
+  const total = Object.values(breakdown).reduce((sum, f) => sum + f.score * f.weight, 0);
+  return { score: Math.round(total), breakdown };
+}
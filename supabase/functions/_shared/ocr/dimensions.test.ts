@@ -0,0 +1,36 @@
+// npm run test:functions (deno test), offline: no network or database
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { imageDimensions } from "./dimensions.ts";
+
+const u16 = (n: number) => [n >> 8, n & 0xff];
+const u32 = (n: number) => [n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const ascii = (s: string) => Array.from(s, (c) => c.charCodeAt(0));
+
+const png = (width: number, height: number) =>
+  new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...u32(13), ...ascii("IHDR"), ...u32(width), ...u32(height), 8, 6, 0, 0, 0]);
+
+// SOI, an APP0 segment, a DQT segment, then the frame header
+const jpeg = (width: number, height: number, frameMarker = 0xc0) =>
+  new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe0, ...u16(16), ...ascii("JFIF"), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0,
+    0xff, 0xdb, ...u16(3), 0,
+    0xff, frameMarker, ...u16(17), 8, ...u16(height), ...u16(width), 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1,
+  ]);
+
+Deno.test("PNG size comes from the IHDR chunk", () => {
+  assertEquals(imageDimensions(png(1240, 1754), "png"), { width: 1240, height: 1754 });
+  assertEquals(imageDimensions(png(100_000, 100_000), "png"), { width: 100_000, height: 100_000 });
+});
+
+Deno.test("JPEG size comes from the first frame header, past other segments", () => {
+  assertEquals(imageDimensions(jpeg(4032, 3024), "jpeg"), { width: 4032, height: 3024 });
+  assertEquals(imageDimensions(jpeg(65_535, 65_535, 0xc2), "jpeg"), { width: 65_535, height: 65_535 });
+});
+
+Deno.test("files without a readable header have no size", () => {
+  assertEquals(imageDimensions(png(10, 10).subarray(0, 20), "png"), null);
+  assertEquals(imageDimensions(jpeg(10, 10).subarray(0, 30), "jpeg"), null);
+  assertEquals(imageDimensions(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), "jpeg"), null);
+  assertEquals(imageDimensions(jpeg(10, 10), "png"), null);
+});
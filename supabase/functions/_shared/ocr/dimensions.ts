@@ -0,0 +1,51 @@
+// Image size read from the file header, before anything is decoded. A small file can declare
+// a huge canvas, and decoding allocates width × height × 4 bytes up front.
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Start-of-frame markers carry the size; C4 (DHT), C8 (JPG) and CC (DAC) share the range but don't
+const isStartOfFrame = (marker: number) => marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+
+// The IHDR chunk always comes first: width and height are big-endian at bytes 16 and 20
+function pngDimensions(bytes: Uint8Array): ImageDimensions | null {
+  if (bytes.length < 24 || !PNG_SIGNATURE.every((b, i) => bytes[i] === b)) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (String.fromCharCode(...bytes.subarray(12, 16)) !== "IHDR") return null;
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+// Walks the marker segments up to the first frame header
+function jpegDimensions(bytes: Uint8Array): ImageDimensions | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // Fill bytes and standalone markers have no length
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xd9 || marker === 0xda) return null;
+    const length = view.getUint16(offset + 2);
+    if (isStartOfFrame(marker)) {
+      if (offset + 9 > bytes.length) return null;
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+export const imageDimensions = (bytes: Uint8Array, format: "png" | "jpeg"): ImageDimensions | null =>
+  format === "png" ? pngDimensions(bytes) : jpegDimensions(bytes);
@@ -0,0 +1,174 @@
+// Offline OCR for resumes without a text layer: scanned PDFs and photos of a printed resume.
+// Runs Tesseract compiled to WASM inside the function, so no page image leaves our infrastructure.
+import { createOCREngine, type OCREngine } from "npm:tesseract-wasm@0.11.0";
+import jpeg from "npm:jpeg-js@0.4.4";
+import UPNG from "npm:upng-js@2.1.0";
+import { ServiceError } from "../errors.ts";
+import { imageDimensions } from "./dimensions.ts";
+
+/**
+ * Engine assets, committed under assets/ and deployed as function static files (config.toml):
+ *   tesseract-core.wasm     dist/ of the tesseract-wasm@0.11.0 npm package
+ *   eng.traineddata.gz      4.0.0_best_int/ of the @tesseract.js-data/eng@1.0.0 npm package,
+ *                           the LSTM-only English model
+ * Override the locations with:
+ *   OCR_WASM_PATH     path to tesseract-core.wasm
+ *   OCR_MODEL_PATH    path to a .traineddata model, gzipped or not
+ */
+const ASSETS_DIR = new URL("./assets/", import.meta.url);
+
+// RGBA pixels, the layout the engine reads (same shape as the DOM's ImageData)
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export type ImageFormat = "png" | "jpeg";
+
+// Tesseract gains nothing from more pixels than a ~300 DPI letter page; phone photos are far larger
+const MAX_SIDE = 2500;
+
+// Largest upload we decode: a 16 MP photo, about 64 MB as RGBA. Recognition downscales to
+// MAX_SIDE anyway, so bigger images add nothing but memory.
+const MAX_IMAGE_PIXELS = 16_000_000;
+const MAX_IMAGE_SIDE = 16_384;
+
+// pdf.js ImageKind values for decoded image XObjects
+const PDF_IMAGE_KIND = { GRAYSCALE_1BPP: 1, RGB_24BPP: 2, RGBA_32BPP: 3 } as const;
+
+let enginePromise: Promise<OCREngine | null> | null = null;
+
+async function readAsset(envName: string, fileName: string) {
+  return await Deno.readFile(Deno.env.get(envName) || new URL(fileName, ASSETS_DIR));
+}
+
+async function gunzipIfNeeded(bytes: Uint8Array): Promise<Uint8Array> {
+  if (bytes[0] !== 0x1f || bytes[1] !== 0x8b) return bytes;
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// One engine per function instance; loading the model takes longer than recognizing a page
+function getEngine(): Promise<OCREngine | null> {
+  enginePromise ??= (async () => {
+    try {
+      const [wasmBinary, model] = await Promise.all([
+        readAsset("OCR_WASM_PATH", "tesseract-core.wasm"),
+        readAsset("OCR_MODEL_PATH", "eng.traineddata.gz"),
+      ]);
+      const engine = await createOCREngine({ wasmBinary });
+      engine.loadModel(await gunzipIfNeeded(model));
+      return engine;
+    } catch (e) {
+      console.error("OCR engine unavailable", e);
+      return null;
+    }
+  })();
+  return enginePromise;
+}
+
+// Box-filter downscale so the longest side is at most maxSide
+function downscale(image: RgbaImage, maxSide = MAX_SIDE): RgbaImage {
+  const scale = maxSide / Math.max(image.width, image.height);
+  if (scale >= 1) return image;
+
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y / scale);
+    const y1 = Math.min(image.height, Math.max(y0 + 1, Math.floor((y + 1) / scale)));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x / scale);
+      const x1 = Math.min(image.width, Math.max(x0 + 1, Math.floor((x + 1) / scale)));
+      const sum = [0, 0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          for (let c = 0; c < 4; c++) sum[c] += image.data[i + c];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) data[o + c] = sum[c] / count;
+    }
+  }
+  return { width, height, data };
+}
+
+// Checks the size the header declares before decoding, so a crafted file can't exhaust memory
+export function decodeImage(buffer: ArrayBuffer, format: ImageFormat): RgbaImage {
+  const size = imageDimensions(new Uint8Array(buffer), format);
+  if (!size || size.width === 0 || size.height === 0) throw new Error(`No ${format} image header found`);
+  if (size.width > MAX_IMAGE_SIDE || size.height > MAX_IMAGE_SIDE || size.width * size.height > MAX_IMAGE_PIXELS) {
+    throw new ServiceError("unsupported_file", `The image is too large (${size.width}×${size.height}); upload a smaller photo or a PDF`);
+  }
+
+  if (format === "jpeg") {
+    const img = jpeg.decode(new Uint8Array(buffer), {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxResolutionInMP: MAX_IMAGE_PIXELS / 1_000_000,
+      maxMemoryUsageInMB: 128,
+    });
+    return { width: img.width, height: img.height, data: new Uint8ClampedArray(img.data.buffer, img.data.byteOffset, img.data.byteLength) };
+  }
+  const img = UPNG.decode(buffer);
+  return { width: img.width, height: img.height, data: new Uint8ClampedArray(UPNG.toRGBA8(img)[0]) };
+}
+
+// Converts a decoded pdf.js image object (page.objs entry) to RGBA; null for layouts we can't read
+export function fromPdfImage(img: { width: number; height: number; kind?: number; data?: Uint8Array | Uint8ClampedArray }): RgbaImage | null {
+  const { width, height, kind, data: src } = img;
+  if (!src || !width || !height) return null;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  switch (kind) {
+    case PDF_IMAGE_KIND.RGBA_32BPP:
+      data.set(src.subarray(0, data.length));
+      break;
+    case PDF_IMAGE_KIND.RGB_24BPP:
+      for (let p = 0, s = 0; p < width * height; p++, s += 3) {
+        data[p * 4] = src[s];
+        data[p * 4 + 1] = src[s + 1];
+        data[p * 4 + 2] = src[s + 2];
+        data[p * 4 + 3] = 255;
+      }
+      break;
+    case PDF_IMAGE_KIND.GRAYSCALE_1BPP: {
+      // One bit per pixel, rows padded to whole bytes; set bits are white
+      const rowBytes = (width + 7) >> 3;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const bit = (src[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+          const o = (y * width + x) * 4;
+          data[o] = data[o + 1] = data[o + 2] = bit ? 255 : 0;
+          data[o + 3] = 255;
+        }
+      }
+      break;
+    }
+    default:
+      return null;
+  }
+  return { width, height, data };
+}
+
+/**
+ * Recognizes the text on each page image, pages separated by a blank line.
+ * Resolves to null when the engine assets are not deployed, so callers can tell
+ * "OCR found nothing" apart from "OCR could not run".
+ */
+export async function recognizeText(pages: RgbaImage[]): Promise<string | null> {
+  const engine = await getEngine();
+  if (!engine) return null;
+
+  const texts: string[] = [];
+  for (const page of pages) {
+    engine.loadImage(downscale(page) as unknown as ImageData);
+    texts.push(engine.getText());
+    engine.clearImage();
+  }
+  return texts.join("\n\n");
+}
@@ -0,0 +1,71 @@
+import { PDFDocument } from "npm:pdf-lib@1.17.1";
+import { embedFonts, PdfWriter, toWinAnsi } from "../builder/pdf.ts";
+import { TEMPLATE_STYLES } from "../builder/templates.ts";
+
+// Offer letters are laid out like the classic resume template
+const STYLE = TEMPLATE_STYLES.classic;
+
+export interface OfferLetter {
+  // The merged letter as stored on the offer
+  letter: string;
+  status: string;
+  jobTitle: string;
+  companyName: string | null;
+  candidateName: string | null;
+  sentAt: string | null;
+  respondBy: string | null;
+  respondedAt: string | null;
+}
+
+const formatDate = (value: string) =>
+  new Date(value.length === 10 ? `${value}T00:00:00Z` : value).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+export const offerFileName = (offer: OfferLetter) =>
+  `${`Offer ${offer.companyName ?? ""} ${offer.jobTitle}`.trim().replace(/[^\w\- ]+/g, "").replace(/\s+/g, "-")}.pdf`;
+
+// Returns the PDF as base64. Offers that haven't been sent are marked as drafts, and an
+// accepted offer carries the candidate's electronic acceptance.
+export async function renderOfferPdf(offer: OfferLetter): Promise<string> {
+  const doc = await PDFDocument.create();
+  const fonts = await embedFonts(doc, STYLE);
+  doc.setTitle(toWinAnsi(`Offer of employment – ${offer.jobTitle}`));
+  if (offer.companyName) doc.setAuthor(toWinAnsi(offer.companyName));
+
+  const out = new PdfWriter(doc, fonts, STYLE);
+  if (!offer.sentAt) {
+    out.text("DRAFT – NOT SENT TO THE CANDIDATE", { font: "bold", color: "b91c1c", center: true });
+    out.gap(STYLE.sectionGap);
+  }
+  if (offer.companyName) out.text(offer.companyName, { font: "bold", size: STYLE.nameSize, color: STYLE.accent });
+  out.text(offer.sentAt ? formatDate(offer.sentAt) : formatDate(new Date().toISOString()));
+  out.heading(`Offer of employment: ${offer.jobTitle}`);
+
+  // Blank lines separate paragraphs; single line breaks are kept
+  for (const paragraph of offer.letter.split(/\n\s*\n/)) {
+    for (const line of paragraph.split("\n")) {
+      if (line.trim()) out.text(line.trim());
+    }
+    out.gap(STYLE.bodySize * STYLE.lineHeight * 0.6);
+  }
+
+  if (offer.status === "accepted" && offer.respondedAt) {
+    out.heading("Acceptance");
+    out.text(`Accepted electronically by ${offer.candidateName ?? "the candidate"} on ${formatDate(offer.respondedAt)}.`);
+  } else if (offer.status === "declined") {
+    out.heading("Response");
+    out.text(`Declined by the candidate${offer.respondedAt ? ` on ${formatDate(offer.respondedAt)}` : ""}.`);
+  } else if (offer.status === "withdrawn") {
+    out.heading("Status");
+    out.text("This offer has been withdrawn.");
+  } else if (offer.respondBy) {
+    out.gap(STYLE.sectionGap);
+    out.text(`Please respond by ${formatDate(offer.respondBy)}.`, { font: "italic" });
+  }
+
+  return await doc.saveAsBase64();
+}
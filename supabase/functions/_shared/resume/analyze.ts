@@ -0,0 +1,168 @@
+// Resume analysis pipeline shared by the analyze-resume endpoint and the queue worker:
+// download the file, extract its text, then run the configured LLM provider over it.
+import { ServiceError } from "../errors.ts";
+import { requireAdmin, supabaseAdmin } from "../supabase.ts";
+import {
+  describeJobRequirements,
+  JOB_REQUIREMENTS_COLUMNS,
+  jobKeywords,
+  splitKeywordsByPresence,
+  type JobRequirements,
+} from "../jobRequirements.ts";
+import { getLlmProvider, type JobContext, type JobMatchResult, type LlmProvider, type ResumeAnalysis } from "../llm/index.ts";
+import { loadSkillTaxonomy, normalizeSkills, type SkillTaxonomy } from "../skills/index.ts";
+import { analysisCacheKey, hashContent, readCachedText, withAnalysisCache } from "./cache.ts";
+import { computeExperience, type ExperienceSummary } from "./experience.ts";
+import { extractText } from "./extract.ts";
+import { parseResumeStructure, type StructuredResume } from "./structure.ts";
+
+// Request types
+export interface AnalyzeRequest {
+  storagePath?: string; // preferred, e.g. "<user-id>/<filename>.pdf"
+  bucket?: string; // default: "resumes"
+  fileUrl?: string; // legacy Supabase Storage URL, downloaded from storage with the admin client
+  fileName?: string; // optional hint
+  jobId?: string; // score against this posting
+  jobDescription?: string; // or against a pasted job description
+}
+
+// Parse storage info from a Supabase URL
+function parseSupabaseStoragePath(url: string): { bucket: string; path: string } | null {
+  try {
+    const u = new URL(url);
+    const parts = u.pathname.split("/").filter(Boolean);
+    const i = parts.findIndex((p) => p === "storage");
+    if (i === -1) return null;
+    const after = parts.slice(i);
+    const objectIdx = after.findIndex((p) => p === "object");
+    if (objectIdx === -1) return null;
+    let bucketIdx = objectIdx + 1;
+    if (after[bucketIdx] === "public" || after[bucketIdx] === "sign") bucketIdx += 1;
+    const bucket = after[bucketIdx];
+    const path = decodeURIComponent(after.slice(bucketIdx + 1).join("/"));
+    if (!bucket || !path) return null;
+    return { bucket, path };
+  } catch (e) {
+    console.log("parseSupabaseStoragePath failed", e);
+    return null;
+  }
+}
+
+async function downloadFromSupabase(bucket: string, path: string) {
+  if (!supabaseAdmin) throw new Error("Supabase admin client not configured");
+  const { data, error } = await supabaseAdmin.storage.from(bucket).download(path);
+  if (error) throw new ServiceError("download_failed", `Storage download error: ${error.message}`);
+  return { buffer: await data.arrayBuffer() };
+}
+
+async function loadJobContext(taxonomy: SkillTaxonomy, jobId?: string, jobDescription?: string): Promise<JobContext | null> {
+  if (jobId) {
+    const { data, error } = await requireAdmin().from("jobs").select(JOB_REQUIREMENTS_COLUMNS).eq("id", jobId).maybeSingle();
+    if (error) throw new Error(`Job lookup failed: ${error.message}`);
+    if (!data) throw new ServiceError("not_found", "Job not found");
+    const job = data as JobRequirements;
+    return { description: describeJobRequirements(job), keywords: jobKeywords(job, taxonomy) };
+  }
+  if (jobDescription?.trim()) {
+    const job: JobRequirements = { title: "", description: "", requirements: jobDescription, location: null, job_type: null };
+    return { description: jobDescription.slice(0, 20_000), keywords: jobKeywords(job, taxonomy) };
+  }
+  return null;
+}
+
+async function analyzeWithAI(
+  provider: LlmProvider,
+  taxonomy: SkillTaxonomy,
+  resumeText: string,
+  fileName?: string,
+  experienceYearsHint?: number,
+  job?: JobContext | null,
+): Promise<ResumeAnalysis> {
+  const hint = experienceYearsHint ?? 0;
+
+  // Keyword presence is checked deterministically; the model only explains and prioritizes it
+  const keywordCheck = job ? splitKeywordsByPresence(job.keywords, resumeText, taxonomy) : null;
+
+  console.log("Analyzing with provider", provider.name);
+  const parsed = await provider.analyzeResume({ resumeText, fileName, experienceYearsHint: hint, job, keywordCheck }) as ResumeAnalysis;
+
+  // Sanitize
+  parsed.skills = normalizeSkills(taxonomy, parsed.skills);
+  parsed.missing_skills = normalizeSkills(taxonomy, parsed.missing_skills);
+  parsed.summary = (parsed.summary || []).slice(0, 5).map((s) => `${s}`.trim()).filter(Boolean);
+  // Years come from merged employment ranges, not the model's reading of the dates
+  parsed.experience_years = hint;
+  if (typeof parsed.ats_score !== "number" || !isFinite(parsed.ats_score)) {
+    throw new ServiceError("provider_error", `${provider.name} did not return an ATS score`);
+  }
+  parsed.job_role = `${parsed.job_role || "Professional"}`.trim();
+
+  if (job && keywordCheck) {
+    const ai: Partial<JobMatchResult> = parsed.job_match ?? {};
+    const coverage = job.keywords.length > 0 ? keywordCheck.matched.length / job.keywords.length : 0;
+    // The model may drop keywords it judged covered by synonyms, but it cannot invent new gaps
+    const missing = (ai.missing_keywords || []).map((k) => `${k}`.trim()).filter((k) => keywordCheck.missing.some((m) => m.toLowerCase() === k.toLowerCase()));
+    parsed.job_match = {
+      ats_score: typeof ai.ats_score === "number" && isFinite(ai.ats_score) ? Math.round(Math.max(0, Math.min(100, ai.ats_score))) : Math.round(coverage * 100),
+      matched_keywords: keywordCheck.matched,
+      missing_keywords: Array.isArray(ai.missing_keywords) ? missing : keywordCheck.missing,
+      recommendations: (ai.recommendations || []).map((r) => `${r}`.trim()).filter(Boolean),
+    };
+  } else {
+    delete parsed.job_match;
+  }
+
+  return parsed;
+}
+
+export type AnalysisStage = "downloading" | "extracting" | "analyzing";
+
+export interface ResumeFileAnalysis extends ResumeAnalysis {
+  structured: StructuredResume;
+  experience: ExperienceSummary;
+}
+
+// Where in storage the requested file lives. Only storage objects are read: other URLs are
+// rejected rather than fetched, so a request can't make the function call arbitrary hosts.
+export function resumeLocation({ storagePath, fileUrl, fileName, bucket = "resumes" }: AnalyzeRequest) {
+  const location = storagePath ? { bucket, path: storagePath } : fileUrl ? parseSupabaseStoragePath(fileUrl) : null;
+  if (!location) throw new ServiceError("invalid_request", "Missing storagePath, or fileUrl is not a storage URL");
+  return { ...location, fileName: fileName || location.path.split("/").pop() || "document" };
+}
+
+async function downloadResume(request: AnalyzeRequest) {
+  const { bucket, path, fileName } = resumeLocation(request);
+  const dl = await downloadFromSupabase(bucket, path);
+  return { ...dl, fileName };
+}
+
+export async function analyzeResumeFile(
+  request: AnalyzeRequest,
+  onStage?: (stage: AnalysisStage) => Promise<void> | void,
+): Promise<ResumeFileAnalysis> {
+  // Download
+  await onStage?.("downloading");
+  const { buffer, fileName } = await downloadResume(request);
+  const contentHash = await hashContent(buffer);
+
+  // Extract (skipped, OCR included, for a file we have seen before)
+  await onStage?.("extracting");
+  const cachedText = await readCachedText(contentHash);
+  const text = cachedText ?? await extractText(buffer, fileName);
+  console.log("Extracted text length:", text.length, cachedText !== null ? "(cached)" : "");
+
+  // Experience and structure
+  const structured = parseResumeStructure(text);
+  const experience = computeExperience(text, structured.work_history);
+
+  // Optional target job
+  const taxonomy = await loadSkillTaxonomy();
+  const jobContext = await loadJobContext(taxonomy, request.jobId, request.jobDescription);
+
+  // AI analysis; job-specific output depends on the posting, so only general analyses are cached
+  await onStage?.("analyzing");
+  const llm = getLlmProvider();
+  const provider = jobContext ? llm : withAnalysisCache(llm, analysisCacheKey(contentHash, llm));
+  const analysis = await analyzeWithAI(provider, taxonomy, text, fileName, experience.years, jobContext);
+  return { ...analysis, structured, experience };
+}
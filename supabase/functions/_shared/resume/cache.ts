@@ -0,0 +1,103 @@
+// Analysis cache keyed by (file hash, prompt version, provider), backed by resume_analysis_cache.
+// Cache problems are logged and skipped: a broken cache must never fail an analysis.
+import { PROMPT_VERSION, type LlmProvider, type ResumeAnalysis } from "../llm/index.ts";
+import { requireAdmin } from "../supabase.ts";
+
+export interface AnalysisCacheKey {
+  contentHash: string;
+  promptVersion: string;
+  provider: string;
+}
+
+export async function hashContent(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export const analysisCacheKey = (contentHash: string, provider: LlmProvider): AnalysisCacheKey => ({
+  contentHash,
+  promptVersion: PROMPT_VERSION,
+  provider: provider.model ? `${provider.name}/${provider.model}` : provider.name,
+});
+
+// Extracted text depends only on the file, so any entry for the hash will do
+export async function readCachedText(contentHash: string): Promise<string | null> {
+  const { data, error } = await requireAdmin()
+    .from("resume_analysis_cache")
+    .select("extracted_text")
+    .eq("content_hash", contentHash)
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    console.error("Analysis cache read failed", error);
+    return null;
+  }
+  return data?.extracted_text ?? null;
+}
+
+async function readCachedAnalysis(key: AnalysisCacheKey): Promise<Partial<ResumeAnalysis> | null> {
+  const admin = requireAdmin();
+  const { data, error } = await admin
+    .from("resume_analysis_cache")
+    .select("id, analysis")
+    .eq("content_hash", key.contentHash)
+    .eq("prompt_version", key.promptVersion)
+    .eq("provider", key.provider)
+    .maybeSingle();
+  if (error) {
+    console.error("Analysis cache read failed", error);
+    return null;
+  }
+  if (!data) return null;
+
+  const { error: touchError } = await admin
+    .from("resume_analysis_cache")
+    .update({ last_hit_at: new Date().toISOString() })
+    .eq("id", data.id);
+  if (touchError) console.error("Analysis cache touch failed", touchError);
+  return data.analysis as Partial<ResumeAnalysis>;
+}
+
+async function writeCachedAnalysis(key: AnalysisCacheKey, extractedText: string, analysis: Partial<ResumeAnalysis>) {
+  const { error } = await requireAdmin()
+    .from("resume_analysis_cache")
+    .upsert(
+      {
+        content_hash: key.contentHash,
+        prompt_version: key.promptVersion,
+        provider: key.provider,
+        extracted_text: extractedText,
+        analysis,
+        last_hit_at: new Date().toISOString(),
+      },
+      { onConflict: "content_hash,prompt_version,provider" },
+    );
+  if (error) console.error("Analysis cache write failed", error);
+}
+
+/**
+ * Wraps a provider so identical files skip the model call. Only for analyses without a target
+ * job: job-specific output depends on the posting, which is not part of the key.
+ */
+export function withAnalysisCache(provider: LlmProvider, key: AnalysisCacheKey): LlmProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+
+    async analyzeResume(input) {
+      const cached = await readCachedAnalysis(key);
+      if (cached) {
+        console.log("Analysis cache hit", key);
+        return cached;
+      }
+
+      const analysis = await provider.analyzeResume(input);
+      // Output the pipeline would reject anyway is not worth keeping
+      if (typeof analysis.ats_score === "number") await writeCachedAnalysis(key, input.resumeText, analysis);
+      return analysis;
+    },
+
+    rewriteBullet: (input) => provider.rewriteBullet(input),
+    writeCoverLetter: (input) => provider.writeCoverLetter(input),
+  };
+}
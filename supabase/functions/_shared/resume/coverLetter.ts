@@ -0,0 +1,40 @@
+// Cover letter drafts for the apply modal. The letter is grounded in the resume's analysis and
+// parsed work history (never the raw text), and is returned for the candidate to edit; nothing
+// is stored until they submit the application.
+import { ServiceError } from "../errors.ts";
+import type { CoverLetterInput, CoverLetterLength, CoverLetterTone, LlmProvider } from "../llm/index.ts";
+
+export const COVER_LETTER_TONES: readonly CoverLetterTone[] = ["professional", "enthusiastic", "conversational"];
+export const COVER_LETTER_LENGTHS: readonly CoverLetterLength[] = ["short", "medium", "long"];
+
+// Same cap as the apply modal's textarea
+const MAX_LETTER_LENGTH = 5000;
+
+export function parseCoverLetterOptions(tone: unknown, length: unknown) {
+  if (tone !== undefined && !COVER_LETTER_TONES.includes(tone as CoverLetterTone)) {
+    throw new ServiceError("invalid_request", `Unknown tone "${tone}"`);
+  }
+  if (length !== undefined && !COVER_LETTER_LENGTHS.includes(length as CoverLetterLength)) {
+    throw new ServiceError("invalid_request", `Unknown length "${length}"`);
+  }
+  return {
+    tone: (tone ?? "professional") as CoverLetterTone,
+    length: (length ?? "medium") as CoverLetterLength,
+  };
+}
+
+export async function writeCoverLetter(provider: LlmProvider, input: CoverLetterInput): Promise<string> {
+  if (!input.facts.candidateName.trim()) throw new ServiceError("invalid_request", "Add your name to your profile first");
+
+  console.log("Writing cover letter with provider", provider.name);
+  const raw = await provider.writeCoverLetter(input);
+
+  const letter = (typeof raw.letter === "string" ? raw.letter : "")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+    .slice(0, MAX_LETTER_LENGTH);
+  if (!letter) throw new ServiceError("provider_error", `${provider.name} did not write a cover letter`);
+  return letter;
+}
@@ -0,0 +1,83 @@
+// Date ranges as written on resumes: "Jan 2019 – Present", "03/2018 - 06/2020", "2016-2018", ...
+
+export interface YearMonth {
+  year: number;
+  month: number; // 1-12; a year-only date is January as a start and December as an end
+}
+
+export interface DateRange {
+  start: YearMonth;
+  end: YearMonth | null; // null while current ("Present")
+}
+
+export interface DateRangeMatch {
+  range: DateRange;
+  index: number;
+  text: string;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const MONTH_NAME = "(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?";
+const DATE = `(?:${MONTH_NAME}\\s*,?\\s*(?:19|20)\\d{2}|(?:0?[1-9]|1[0-2])[/.](?:19|20)\\d{2}|(?:19|20)\\d{2}[/-](?:0[1-9]|1[0-2])(?![\\d])|(?:19|20)\\d{2})`;
+const CURRENT = "(?:present|current|now|today|ongoing)";
+const RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|${CURRENT})`, "gi");
+const SINGLE = new RegExp(DATE, "gi");
+
+// "2016 - 2018" covers all of 2018, so a year-only end date is read as its December
+export function parseYearMonth(raw: string, edge: "start" | "end" = "start"): YearMonth | null {
+  const s = raw.trim().toLowerCase();
+  let m = s.match(/^([a-z]+)\.?\s*,?\s*(\d{4})$/);
+  if (m) {
+    const month = MONTHS[m[1].slice(0, 4) === "sept" ? "sept" : m[1].slice(0, 3)];
+    return month ? { year: parseInt(m[2]), month } : null;
+  }
+  m = s.match(/^(\d{1,2})[/.](\d{4})$/);
+  if (m) return { year: parseInt(m[2]), month: parseInt(m[1]) };
+  m = s.match(/^(\d{4})[/-](\d{2})$/);
+  if (m) return { year: parseInt(m[1]), month: parseInt(m[2]) };
+  m = s.match(/^(\d{4})$/);
+  if (m) return { year: parseInt(m[1]), month: edge === "end" ? 12 : 1 };
+  return null;
+}
+
+export const currentYearMonth = (now = new Date()): YearMonth => ({ year: now.getFullYear(), month: now.getMonth() + 1 });
+
+export const toMonthIndex = ({ year, month }: YearMonth) => year * 12 + (month - 1);
+
+export const fromMonthIndex = (index: number): YearMonth => ({ year: Math.floor(index / 12), month: (index % 12) + 1 });
+
+// "YYYY-MM-01", the form stored in DATE columns
+export const toIsoDate = ({ year, month }: YearMonth) => `${year}-${String(month).padStart(2, "0")}-01`;
+
+export const fromIsoDate = (iso: string): YearMonth => ({ year: parseInt(iso.slice(0, 4)), month: parseInt(iso.slice(5, 7)) });
+
+// Months covered by a range, counting both the start and the end month ("Jan–Dec 2019" is 12).
+// Nothing past the current month counts, as a year-only end in the current year would.
+export const rangeMonths = ({ start, end }: DateRange, now = currentYearMonth()) =>
+  Math.max(0, Math.min(toMonthIndex(end ?? now), toMonthIndex(now)) - toMonthIndex(start) + 1);
+
+// Every date range in the text, in order of appearance
+export function findDateRanges(text: string): DateRangeMatch[] {
+  const out: DateRangeMatch[] = [];
+  for (const m of text.matchAll(RANGE)) {
+    const start = parseYearMonth(m[1]);
+    const isCurrent = new RegExp(`^${CURRENT}$`, "i").test(m[2].trim());
+    const end = isCurrent ? null : parseYearMonth(m[2], "end");
+    if (!start || (!isCurrent && !end)) continue;
+    if (end && toMonthIndex(end) < toMonthIndex(start)) continue;
+    out.push({ range: { start, end }, index: m.index ?? 0, text: m[0] });
+  }
+  return out;
+}
+
+// A lone date such as a graduation or certification year
+export function findSingleDate(text: string): { date: YearMonth; text: string } | null {
+  for (const m of text.matchAll(SINGLE)) {
+    const date = parseYearMonth(m[0]);
+    if (date) return { date, text: m[0] };
+  }
+  return null;
+}
@@ -0,0 +1,77 @@
+// npm run test:functions (deno test), offline: no network or database
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { parseYearMonth, rangeMonths } from "./dates.ts";
+import { computeExperience } from "./experience.ts";
+import { parseResumeStructure } from "./structure.ts";
+
+const NOW = { year: 2025, month: 8 };
+
+const experienceOf = (text: string) => computeExperience(text, parseResumeStructure(text).work_history, NOW);
+
+Deno.test("a year-only date is January as a start and December as an end", () => {
+  assertEquals(parseYearMonth("2016"), { year: 2016, month: 1 });
+  assertEquals(parseYearMonth("2018", "end"), { year: 2018, month: 12 });
+  assertEquals(parseYearMonth("Mar 2018", "end"), { year: 2018, month: 3 });
+});
+
+Deno.test("rangeMonths counts both ends and nothing after the current month", () => {
+  assertEquals(rangeMonths({ start: { year: 2016, month: 1 }, end: { year: 2018, month: 12 } }, NOW), 36);
+  assertEquals(rangeMonths({ start: { year: 2024, month: 1 }, end: { year: 2025, month: 12 } }, NOW), 20);
+  assertEquals(rangeMonths({ start: { year: 2024, month: 9 }, end: null }, NOW), 12);
+});
+
+Deno.test("a year-only range covers every month of both years", () => {
+  const experience = experienceOf(["Experience", "Software Engineer, Acme", "2016 - 2018"].join("\n"));
+
+  assertEquals(experience.total_months, 36);
+  assertEquals(experience.years, 3);
+  assertEquals(experience.roles.map((r) => r.months), [36]);
+});
+
+Deno.test("a year-only end followed by a January start leaves no gap", () => {
+  const experience = experienceOf([
+    "Experience",
+    "Senior Engineer, Beta",
+    "Jan 2019 - Present",
+    "Software Engineer, Acme",
+    "2016 - 2018",
+  ].join("\n"));
+
+  assertEquals(experience.gaps, []);
+  assertEquals(experience.total_months, 36 + 80);
+});
+
+Deno.test("a break of three months or more between roles is a gap", () => {
+  const experience = experienceOf([
+    "Experience",
+    "Senior Engineer, Beta",
+    "Jun 2019 - Present",
+    "Software Engineer, Acme",
+    "2016 - 2018",
+  ].join("\n"));
+
+  assertEquals(experience.gaps, [{ start_date: "2019-01-01", end_date: "2019-05-01", months: 5 }]);
+});
+
+Deno.test("overlapping roles count once and education dates are left out", () => {
+  const experience = experienceOf([
+    "Experience",
+    "Software Engineer, Acme",
+    "Jan 2020 - Dec 2021",
+    "Consultant, Freelance",
+    "Jun 2021 - Jun 2022",
+    "Education",
+    "BSc Computer Science, State University",
+    "2012 - 2016",
+  ].join("\n"));
+
+  assertEquals(experience.total_months, 30);
+  assertEquals(experience.gaps, [{ start_date: "2022-07-01", end_date: null, months: 38 }]);
+});
+
+Deno.test("without parsed roles, ranges anywhere outside education are used", () => {
+  const experience = computeExperience("Worked at Acme 2016 - 2018\nEducation\nState University 2012 - 2016", [], NOW);
+
+  assertEquals(experience.total_months, 36);
+  assertEquals(experience.roles, []);
+});
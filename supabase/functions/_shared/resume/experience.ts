@@ -0,0 +1,105 @@
+// Experience from employment date ranges: overlapping roles are merged so concurrent jobs
+// count once, gaps between roles are not counted, and education dates are left out.
+import {
+  currentYearMonth,
+  findDateRanges,
+  fromIsoDate,
+  fromMonthIndex,
+  rangeMonths,
+  toIsoDate,
+  toMonthIndex,
+  type DateRange,
+} from "./dates.ts";
+import { splitSections, type SectionKind, type WorkEntry } from "./structure.ts";
+
+export interface CareerGap {
+  start_date: string; // first month without work, YYYY-MM-01
+  end_date: string | null; // last month without work; null while the gap is ongoing
+  months: number;
+}
+
+export interface RoleDuration {
+  title: string | null;
+  company: string | null;
+  months: number;
+}
+
+export interface ExperienceSummary {
+  years: number; // total_months / 12, one decimal
+  total_months: number;
+  gaps: CareerGap[];
+  roles: RoleDuration[];
+}
+
+// Shorter breaks are ordinary job changes, not gaps worth surfacing
+const MIN_GAP_MONTHS = 3;
+
+// Sections whose dates are never employment
+const NON_WORK_SECTIONS = new Set<SectionKind>(["education", "certifications"]);
+
+interface Interval {
+  start: number; // month index, inclusive
+  end: number; // month index, inclusive
+}
+
+function toInterval(range: DateRange, now: number): Interval {
+  return { start: toMonthIndex(range.start), end: range.end ? Math.min(toMonthIndex(range.end), now) : now };
+}
+
+function workEntryRange(entry: WorkEntry): DateRange | null {
+  if (!entry.start_date) return null;
+  return { start: fromIsoDate(entry.start_date), end: entry.end_date ? fromIsoDate(entry.end_date) : null };
+}
+
+// Date ranges from everything except education/certification sections; used when no
+// work-history entries could be parsed (e.g. a resume without an "Experience" heading)
+function rangesOutsideEducation(text: string): DateRange[] {
+  const lines: string[] = [];
+  for (const [kind, sectionLines] of splitSections(text)) {
+    if (!NON_WORK_SECTIONS.has(kind)) lines.push(...sectionLines);
+  }
+  return findDateRanges(lines.join("\n")).map((m) => m.range);
+}
+
+function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    // Overlapping or back-to-back (next role starts the month after) ranges join up
+    if (last && interval.start <= last.end + 1) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+export function computeExperience(text: string, workHistory: WorkEntry[] = [], now = currentYearMonth()): ExperienceSummary {
+  const nowIndex = toMonthIndex(now);
+  const dated = workHistory.map((entry) => ({ entry, range: workEntryRange(entry) })).filter((d) => d.range);
+  const ranges = dated.length > 0 ? dated.map((d) => d.range!) : rangesOutsideEducation(text);
+
+  const merged = mergeIntervals(ranges.map((r) => toInterval(r, nowIndex)).filter((i) => i.end >= i.start));
+  const totalMonths = merged.reduce((sum, i) => sum + (i.end - i.start + 1), 0);
+
+  const gaps: CareerGap[] = [];
+  merged.forEach((interval, k) => {
+    const next = merged[k + 1];
+    const gapStart = interval.end + 1;
+    const gapEnd = next ? next.start - 1 : nowIndex;
+    const months = gapEnd - gapStart + 1;
+    if (months >= MIN_GAP_MONTHS) {
+      gaps.push({
+        start_date: toIsoDate(fromMonthIndex(gapStart)),
+        end_date: next ? toIsoDate(fromMonthIndex(gapEnd)) : null,
+        months,
+      });
+    }
+  });
+
+  const roles = dated.map(({ entry, range }) => ({ title: entry.title, company: entry.company, months: rangeMonths(range!, now) }));
+
+  return { years: Math.round((totalMonths / 12) * 10) / 10, total_months: totalMonths, gaps, roles };
+}
@@ -0,0 +1,205 @@
+// Text extraction for every supported resume format. The format is sniffed from the file's
+// bytes; the uploaded name only distinguishes Markdown from other plain text.
+import { Buffer } from "node:buffer";
+import { getDocument, OPS, type PDFDocumentProxy, type PDFPageProxy } from "npm:pdfjs-dist@4.7.76/legacy/build/pdf.mjs";
+import mammoth from "npm:mammoth@1.8.0";
+import JSZip from "npm:jszip@3.10.1";
+import WordExtractor from "npm:word-extractor@1.0.4";
+import { ServiceError } from "../errors.ts";
+import { decodeImage, fromPdfImage, recognizeText, type ImageFormat, type RgbaImage } from "../ocr/index.ts";
+import { sniffFormat, SUPPORTED_FORMATS_LABEL } from "./formats.ts";
+import { markdownToText, odfXmlToText, rtfToText } from "./markup.ts";
+
+// Fewer visible characters than this cannot be a resume worth analyzing
+const MIN_TEXT_LENGTH = 50;
+
+// A real text layer carries far more than this per page; less means the pages are mostly images
+// (a scan, or a design-tool export with a text name/header over a picture of the rest)
+const LOW_TEXT_PER_PAGE = 200;
+
+// OCR costs seconds per page; resumes longer than this are not scans worth the wait
+const MAX_OCR_PAGES = 5;
+
+// Embedded images smaller than this are logos and icons, not scanned pages
+const MIN_SCAN_SIDE = 300;
+
+function cleanExtractedText(text: string): string {
+  try {
+    // Line breaks are kept: section and work-history parsing rely on them
+    return text
+      .replace(/\r\n?/g, "\n")
+      .replace(/[\t\u00A0]+/g, " ")
+      .replace(/ {2,}/g, " ")
+      .replace(/ *\n */g, "\n")
+      .replace(/([a-z])-\n(?=[a-z])/g, "$1")
+      .replace(/[•·●▪◦]/g, "-")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  } catch {
+    return text;
+  }
+}
+
+
+// The largest image painted on the page, i.e. the scan itself on an image-only PDF
+async function largestPageImage(page: PDFPageProxy): Promise<RgbaImage | null> {
+  const ops = await page.getOperatorList();
+  let best: RgbaImage | null = null;
+  for (let i = 0; i < ops.fnArray.length; i++) {
+    if (ops.fnArray[i] !== OPS.paintImageXObject) continue;
+    const name: string = ops.argsArray[i][0];
+    // Images shared across pages live in commonObjs
+    const objs = name.startsWith("g_") ? page.commonObjs : page.objs;
+    const image = fromPdfImage(await new Promise<Parameters<typeof fromPdfImage>[0]>((resolve) => objs.get(name, resolve)));
+    if (!image || Math.min(image.width, image.height) < MIN_SCAN_SIDE) continue;
+    if (!best || image.width * image.height > best.width * best.height) best = image;
+  }
+  return best;
+}
+
+async function ocrPdf(pdf: PDFDocumentProxy): Promise<string | null> {
+  const images: RgbaImage[] = [];
+  for (let i = 1; i <= Math.min(pdf.numPages, MAX_OCR_PAGES); i++) {
+    const image = await largestPageImage(await pdf.getPage(i));
+    if (image) images.push(image);
+  }
+  if (images.length === 0) return "";
+  console.log("Running OCR on", images.length, "PDF page image(s)");
+  const text = await recognizeText(images);
+  return text === null ? null : cleanExtractedText(text);
+}
+
+async function extractPdf(buffer: ArrayBuffer): Promise<string> {
+  let pdf;
+  try {
+    // No OffscreenCanvas: image objects must come back as raw pixels for OCR
+    pdf = await getDocument({ data: new Uint8Array(buffer), isEvalSupported: false, isOffscreenCanvasSupported: false } as any).promise;
+  } catch (e) {
+    console.error("PDF parse failed", e);
+    throw new ServiceError("unsupported_file", "The file could not be read as a PDF");
+  }
+  let out = "";
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    const pageText = (content.items as any[]).map((it) => (typeof it?.str === "string" ? it.str : "") + (it?.hasEOL ? "\n" : " ")).join("");
+    out += pageText + "\n";
+  }
+  const text = cleanExtractedText(out);
+  if (pdf.numPages === 0 || text.length >= LOW_TEXT_PER_PAGE * pdf.numPages) return text;
+
+  // Little or no text layer: the pages are images, i.e. a scan or a photo of the resume
+  const ocrText = await ocrPdf(pdf);
+  if (ocrText === null && text.length < MIN_TEXT_LENGTH) {
+    throw new ServiceError("scanned_pdf", "This PDF has no text layer and OCR is not available; upload a text-based PDF or DOCX");
+  }
+  if (ocrText && ocrText.length > text.length) return ocrText;
+  if (text.length < MIN_TEXT_LENGTH) {
+    throw new ServiceError("scanned_pdf", "No readable text was found in this scanned PDF; upload a clearer scan or a text-based PDF");
+  }
+  return text;
+}
+
+async function extractImage(buffer: ArrayBuffer, format: ImageFormat): Promise<string> {
+  let image: RgbaImage;
+  try {
+    image = decodeImage(buffer, format);
+  } catch (e) {
+    if (e instanceof ServiceError) throw e;
+    console.error("Image decode failed", e);
+    throw new ServiceError("unsupported_file", `The file could not be read as a ${format.toUpperCase()} image`);
+  }
+  const text = await recognizeText([image]);
+  if (text === null) {
+    throw new ServiceError("scanned_pdf", "Image resumes need OCR, which is not available; upload a PDF or DOCX");
+  }
+  const cleaned = cleanExtractedText(text);
+  if (cleaned.length < MIN_TEXT_LENGTH) {
+    throw new ServiceError("scanned_pdf", "No readable text was found in this image; upload a sharper, well-lit photo or a PDF");
+  }
+  return cleaned;
+}
+
+async function extractDocx(buffer: ArrayBuffer): Promise<string> {
+  try {
+    const { value } = await mammoth.extractRawText({ arrayBuffer: buffer } as any);
+    return cleanExtractedText(value || "");
+  } catch (e) {
+    console.error("DOCX parse failed", e);
+    throw new ServiceError("unsupported_file", "The file could not be read as a DOCX document");
+  }
+}
+
+async function extractDoc(buffer: ArrayBuffer): Promise<string> {
+  try {
+    const doc = await new WordExtractor().extract(Buffer.from(buffer));
+    return cleanExtractedText(doc.getBody() || "");
+  } catch (e) {
+    console.error("DOC parse failed", e);
+    throw new ServiceError("unsupported_file", "The file could not be read as a Word 97-2003 document");
+  }
+}
+
+async function extractOdt(buffer: ArrayBuffer): Promise<string> {
+  let xml: string | undefined;
+  try {
+    const zip = await JSZip.loadAsync(buffer);
+    xml = await zip.file("content.xml")?.async("string");
+  } catch (e) {
+    console.error("ODT parse failed", e);
+  }
+  if (xml === undefined) throw new ServiceError("unsupported_file", "The file could not be read as an OpenDocument text file");
+  return cleanExtractedText(odfXmlToText(xml));
+}
+
+// UTF-8 unless a BOM says otherwise; files that aren't valid UTF-8 are legacy Windows text
+function decodeText(bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder("utf-16le").decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder("utf-16be").decode(bytes);
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder("windows-1252").decode(bytes);
+  }
+}
+
+export async function extractText(buffer: ArrayBuffer, fileName?: string): Promise<string> {
+  const bytes = new Uint8Array(buffer);
+  const format = sniffFormat(bytes, fileName);
+  console.log("Extracting text, detected format:", format ?? "unknown");
+
+  let text: string;
+  switch (format) {
+    case "pdf":
+      text = await extractPdf(buffer);
+      break;
+    case "docx":
+      text = await extractDocx(buffer);
+      break;
+    case "doc":
+      text = await extractDoc(buffer);
+      break;
+    case "odt":
+      text = await extractOdt(buffer);
+      break;
+    case "rtf":
+      text = cleanExtractedText(rtfToText(decodeText(bytes)));
+      break;
+    case "png":
+    case "jpeg":
+      text = await extractImage(buffer, format);
+      break;
+    case "markdown":
+      text = cleanExtractedText(markdownToText(decodeText(bytes)));
+      break;
+    case "text":
+      text = cleanExtractedText(decodeText(bytes));
+      break;
+    default:
+      throw new ServiceError("unsupported_file", `${fileName || "This file"} is not a supported resume format; upload a ${SUPPORTED_FORMATS_LABEL} file`);
+  }
+  if (text.length < MIN_TEXT_LENGTH) {
+    throw new ServiceError("empty_text", "No readable text was found in the file");
+  }
+  return text;
+}
@@ -0,0 +1,56 @@
+// npm run test:functions (deno test), offline: no network or database
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { sniffFormat } from "./formats.ts";
+
+const bytes = (...parts: (number[] | string)[]) =>
+  new Uint8Array(parts.flatMap((part) => typeof part === "string" ? Array.from(part, (c) => c.charCodeAt(0)) : part));
+
+const utf16le = (text: string) => Array.from(text).flatMap((c) => [c.charCodeAt(0), 0]);
+
+const ZIP = [0x50, 0x4b, 0x03, 0x04];
+const OLE2 = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+Deno.test("PDFs are found by their header, even after leading junk", () => {
+  assertEquals(sniffFormat(bytes("%PDF-1.7\n")), "pdf");
+  assertEquals(sniffFormat(bytes([0xef, 0xbb, 0xbf], "\r\n%PDF-1.4")), "pdf");
+});
+
+Deno.test("images are found by their signature", () => {
+  assertEquals(sniffFormat(bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13])), "png");
+  assertEquals(sniffFormat(bytes([0xff, 0xd8, 0xff, 0xe0, 0, 16], "JFIF")), "jpeg");
+});
+
+Deno.test("ZIP containers are told apart by their entries", () => {
+  const odt = bytes(ZIP, new Array(26).fill(0), "mimetype", "application/vnd.oasis.opendocument.text", "content.xml");
+  const ods = bytes(ZIP, new Array(26).fill(0), "mimetype", "application/vnd.oasis.opendocument.spreadsheet");
+  const docx = bytes(ZIP, new Array(26).fill(0), "[Content_Types].xml", "word/document.xml");
+  const xlsx = bytes(ZIP, new Array(26).fill(0), "[Content_Types].xml", "xl/workbook.xml");
+
+  assertEquals(sniffFormat(odt), "odt");
+  assertEquals(sniffFormat(ods), null);
+  assertEquals(sniffFormat(docx, "resume.pdf"), "docx");
+  assertEquals(sniffFormat(xlsx), null);
+});
+
+Deno.test("compound files are only accepted when they hold a Word document", () => {
+  assertEquals(sniffFormat(bytes(OLE2, new Array(32).fill(0), utf16le("Root Entry"), utf16le("WordDocument"))), "doc");
+  assertEquals(sniffFormat(bytes(OLE2, new Array(32).fill(0), utf16le("Root Entry"), utf16le("Workbook"))), null);
+});
+
+Deno.test("RTF is found by its header", () => {
+  assertEquals(sniffFormat(bytes("{\\rtf1\\ansi Resume}")), "rtf");
+});
+
+Deno.test("plain text is text, or Markdown when the name says so", () => {
+  const text = bytes("Ada Lovelace\n\tEngineer\r\nSkills: Python");
+
+  assertEquals(sniffFormat(text), "text");
+  assertEquals(sniffFormat(text, "resume.md"), "markdown");
+  assertEquals(sniffFormat(text, "resume.MARKDOWN"), "markdown");
+  assertEquals(sniffFormat(bytes([0xff, 0xfe], utf16le("Ada"))), "text");
+});
+
+Deno.test("binary data is not mistaken for text", () => {
+  assertEquals(sniffFormat(bytes("MZ", [0x90, 0, 3, 0, 0, 0])), null);
+  assertEquals(sniffFormat(bytes(Array.from({ length: 200 }, (_, i) => (i % 8) + 1))), null);
+});
@@ -0,0 +1,59 @@
+// Resume file formats, identified from the bytes themselves. File names and content types come
+// from the uploader's browser and are often missing or wrong (.doc renamed to .docx, octet-stream).
+
+export type ResumeFormat = "pdf" | "docx" | "odt" | "doc" | "rtf" | "png" | "jpeg" | "text" | "markdown";
+
+export const SUPPORTED_FORMATS_LABEL = "PDF, DOCX, DOC, ODT, RTF, TXT, Markdown, PNG or JPG";
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((b, i) => bytes[offset + i] === b);
+
+const ascii = (s: string) => Array.from(s, (c) => c.charCodeAt(0));
+
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG = [0xff, 0xd8, 0xff];
+const ZIP = [0x50, 0x4b, 0x03, 0x04];
+const OLE2 = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]; // compound file: .doc, .xls, .ppt, .msg
+const RTF = ascii("{\\rtf");
+const UTF16_BOMS = [[0xff, 0xfe], [0xfe, 0xff]];
+
+// ZIP central directories store entry names uncompressed, so a byte search finds them
+function zipFormat(bytes: Uint8Array): ResumeFormat | null {
+  const raw = new TextDecoder("latin1").decode(bytes);
+  // ODF requires an uncompressed "mimetype" entry first, holding the document type
+  if (raw.slice(30, 38) === "mimetype") {
+    return raw.slice(38, 100).startsWith("application/vnd.oasis.opendocument.text") ? "odt" : null;
+  }
+  return raw.includes("word/document.xml") ? "docx" : null;
+}
+
+// Word stores its text in a "WordDocument" stream; directory names are UTF-16LE
+function isWordCompoundFile(bytes: Uint8Array): boolean {
+  const raw = new TextDecoder("utf-16le").decode(bytes.subarray(0, bytes.length & ~1));
+  return raw.includes("WordDocument");
+}
+
+function isPlainText(bytes: Uint8Array): boolean {
+  const head = bytes.subarray(0, 8192);
+  // NUL bytes never appear in UTF-8 text
+  if (head.includes(0)) return false;
+  let control = 0;
+  for (const b of head) {
+    if (b < 0x20 && b !== 0x09 && b !== 0x0a && b !== 0x0d && b !== 0x0c) control++;
+  }
+  return control <= head.length * 0.01;
+}
+
+export function sniffFormat(bytes: Uint8Array, fileName?: string): ResumeFormat | null {
+  // Some generators put a BOM or junk before the header; the spec allows it within 1 KB
+  const pdfHeader = new TextDecoder("latin1").decode(bytes.subarray(0, 1024));
+  if (pdfHeader.includes("%PDF-")) return "pdf";
+  if (startsWith(bytes, PNG)) return "png";
+  if (startsWith(bytes, JPEG)) return "jpeg";
+  if (startsWith(bytes, ZIP)) return zipFormat(bytes);
+  if (startsWith(bytes, OLE2)) return isWordCompoundFile(bytes) ? "doc" : null;
+  if (startsWith(bytes, RTF)) return "rtf";
+  const isText = UTF16_BOMS.some((bom) => startsWith(bytes, bom)) || isPlainText(bytes);
+  if (isText) return /\.(md|markdown)$/i.test(fileName ?? "") ? "markdown" : "text";
+  return null;
+}
@@ -0,0 +1,35 @@
+// "Improve this resume": rewrites one bullet to act on one analysis recommendation. Suggestions
+// are proposals only; the user accepts or rejects each one before it reaches a resume version.
+import { ServiceError } from "../errors.ts";
+import type { BulletRewriteInput, LlmProvider } from "../llm/index.ts";
+
+const MAX_SUGGESTIONS = 3;
+const MAX_BULLET_LENGTH = 600;
+const MAX_RECOMMENDATION_LENGTH = 500;
+
+const BULLET_PREFIX = /^(?:[-*•·●▪◦>]|\d+[.)])\s*/;
+
+const clean = (text: string) => text.trim().replace(BULLET_PREFIX, "").replace(/\s+/g, " ").trim();
+
+export async function suggestBulletRewrites(provider: LlmProvider, input: BulletRewriteInput): Promise<string[]> {
+  const bullet = clean(input.bullet).slice(0, MAX_BULLET_LENGTH);
+  const recommendation = input.recommendation.trim().slice(0, MAX_RECOMMENDATION_LENGTH);
+  if (!bullet) throw new ServiceError("invalid_request", "Missing bullet to rewrite");
+  if (!recommendation) throw new ServiceError("invalid_request", "Missing recommendation to apply");
+
+  console.log("Rewriting bullet with provider", provider.name);
+  const raw = await provider.rewriteBullet({ ...input, bullet, recommendation });
+
+  // Drop blanks, repeats and anything that is just the original bullet again
+  const seen = new Set([bullet.toLowerCase()]);
+  const suggestions: string[] = [];
+  for (const suggestion of Array.isArray(raw.suggestions) ? raw.suggestions : []) {
+    const text = clean(`${suggestion}`).slice(0, MAX_BULLET_LENGTH);
+    if (!text || seen.has(text.toLowerCase())) continue;
+    seen.add(text.toLowerCase());
+    suggestions.push(text);
+    if (suggestions.length === MAX_SUGGESTIONS) break;
+  }
+  if (suggestions.length === 0) throw new ServiceError("provider_error", `${provider.name} did not suggest any rewrites`);
+  return suggestions;
+}
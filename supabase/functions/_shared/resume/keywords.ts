@@ -0,0 +1,83 @@
+// Industry categories used by the resume analyzer prompt and the offline heuristic provider
+
+export const INDUSTRY_CATEGORIES = [
+  "Executive Leadership",
+  "Business & Operations",
+  "Sales & BD",
+  "Marketing & Brand",
+  "Customer Experience",
+  "Finance & Accounting",
+  "Creative & Design",
+  "Legal & Compliance",
+  "Healthcare & Education",
+  "Technology",
+] as const;
+
+export type IndustryCategory = typeof INDUSTRY_CATEGORIES[number];
+
+// Hard skills per category, written in their canonical display form
+export const SKILL_KEYWORDS: Record<IndustryCategory, string[]> = {
+  "Executive Leadership": [
+    "P&L Management", "Strategic Planning", "Board Reporting", "M&A", "Change Management",
+    "Organizational Design", "OKRs", "Fundraising",
+  ],
+  "Business & Operations": [
+    "Lean", "Six Sigma", "Supply Chain", "Procurement", "Logistics", "ERP", "SAP", "Vendor Management",
+    "Process Improvement", "Project Management", "PMP", "Agile", "Scrum", "Jira",
+  ],
+  "Sales & BD": [
+    "Salesforce", "HubSpot", "CRM", "Lead Generation", "Account Management", "Pipeline Management",
+    "Negotiation", "B2B Sales", "SaaS Sales", "Forecasting",
+  ],
+  "Marketing & Brand": [
+    "SEO", "SEM", "Google Analytics", "Google Ads", "Content Marketing", "Email Marketing",
+    "Social Media Marketing", "Brand Strategy", "Marketo", "A/B Testing", "Market Research",
+  ],
+  "Customer Experience": [
+    "Zendesk", "Intercom", "Customer Success", "NPS", "CSAT", "Customer Support", "Onboarding",
+    "Retention",
+  ],
+  "Finance & Accounting": [
+    "Financial Modeling", "Budgeting", "FP&A", "GAAP", "IFRS", "QuickBooks", "Tally", "Excel",
+    "Auditing", "Taxation", "Accounts Payable", "Accounts Receivable", "Valuation", "CPA", "CFA",
+  ],
+  "Creative & Design": [
+    "Figma", "Sketch", "Adobe Photoshop", "Adobe Illustrator", "Adobe XD", "InDesign",
+    "UX Research", "UI Design", "Wireframing", "Prototyping", "Motion Graphics", "Typography",
+  ],
+  "Legal & Compliance": [
+    "Contract Negotiation", "Contract Drafting", "Litigation", "Regulatory Compliance", "GDPR",
+    "SOX", "KYC", "AML", "Corporate Law", "Intellectual Property", "Risk Assessment",
+  ],
+  "Healthcare & Education": [
+    "EMR", "EHR", "HIPAA", "Patient Care", "Clinical Research", "Nursing", "Pharmacology",
+    "Curriculum Development", "Lesson Planning", "Instructional Design", "LMS",
+  ],
+  "Technology": [
+    "JavaScript", "TypeScript", "Python", "Java", "C#", "C++", "Golang", "Rust", "Ruby", "PHP", "Kotlin",
+    "Swift", "SQL", "PostgreSQL", "MySQL", "MongoDB", "Redis", "React", "Angular", "Vue.js",
+    "Node.js", "Django", "Flask", "Spring Boot", ".NET", "GraphQL", "REST APIs", "AWS", "Azure",
+    "GCP", "Docker", "Kubernetes", "Terraform", "CI/CD", "Git", "Linux", "Machine Learning",
+    "TensorFlow", "PyTorch", "Pandas", "Spark", "Tableau", "Power BI", "Data Analysis",
+  ],
+};
+
+// Common titles, most specific first so "Senior Software Engineer" wins over "Software Engineer"
+export const ROLE_TITLES = [
+  "Chief Executive Officer", "Chief Technology Officer", "Chief Financial Officer", "Chief Operating Officer",
+  "Vice President", "VP Sales", "VP Marketing", "Director of Operations", "Director of Engineering",
+  "Engineering Manager", "Product Manager", "Project Manager", "Program Manager",
+  "Senior Software Engineer", "Software Engineer", "Software Developer", "Full Stack Developer",
+  "Frontend Developer", "Backend Developer", "DevOps Engineer", "Data Scientist", "Data Analyst",
+  "Data Engineer", "Machine Learning Engineer", "QA Engineer", "Business Analyst", "Financial Analyst",
+  "Accountant", "Marketing Manager", "Digital Marketing Specialist", "Sales Manager",
+  "Account Executive", "Business Development Manager", "Customer Success Manager",
+  "Operations Manager", "HR Manager", "Recruiter", "UX Designer", "UI Designer", "Graphic Designer",
+  "Legal Counsel", "Paralegal", "Compliance Officer", "Registered Nurse", "Teacher",
+];
+
+// Whole-word, case-insensitive keyword test that tolerates symbols like "C++" or "Node.js"
+export function containsKeyword(text: string, keyword: string): boolean {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9])${escaped}(?=$|[^a-z0-9+#])`, "i").test(text);
+}
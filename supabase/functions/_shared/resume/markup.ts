@@ -0,0 +1,174 @@
+// Plain text from the markup-based resume formats (RTF, OpenDocument XML, Markdown). Paragraph
+// breaks are kept because section and work-history parsing rely on them.
+
+// RTF destinations whose content is never body text
+const SKIP_DESTINATIONS = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "object", "header", "footer", "headerl", "headerr",
+  "footerl", "footerr", "footnote", "listtable", "listoverridetable", "revtbl", "rsidtbl", "xmlnstbl",
+  "generator", "themedata", "colorschememapping", "latentstyles", "datastore", "fldinst", "bkmkstart", "bkmkend",
+]);
+
+const BREAKS: Record<string, string> = { par: "\n", line: "\n", row: "\n", sect: "\n\n", page: "\n\n", tab: "\t", cell: "\t" };
+
+const SYMBOLS: Record<string, string> = {
+  emdash: "—", endash: "–", bullet: "•", lquote: "‘", rquote: "’", ldblquote: "“", rdblquote: "”", emspace: " ", enspace: " ",
+};
+
+interface GroupState {
+  skip: boolean;
+  unicodeSkip: number; // \ucN: fallback characters following each \u
+}
+
+// Keeps paragraphs, tabs and non-ASCII characters; drops formatting and the non-text
+// destinations (font/colour tables, embedded pictures, document metadata)
+export function rtfToText(rtf: string): string {
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let out = "";
+  let pendingSkip = 0; // fallback characters still to drop after a \u escape
+  // \'hh bytes are collected and decoded together so multi-byte code pages come out right
+  let bytes: number[] = [];
+
+  const flushBytes = () => {
+    if (bytes.length === 0) return;
+    if (!state.skip) out += new TextDecoder("windows-1252").decode(new Uint8Array(bytes));
+    bytes = [];
+  };
+  const emit = (text: string) => {
+    flushBytes();
+    if (!state.skip) out += text;
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const ch = rtf[i];
+
+    if (ch === "{") {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      i++;
+      continue;
+    }
+    if (ch === "}") {
+      flushBytes();
+      state = stack.pop() ?? state;
+      i++;
+      continue;
+    }
+    if (ch === "\r" || ch === "\n") {
+      i++;
+      continue;
+    }
+
+    if (ch !== "\\") {
+      if (pendingSkip > 0) pendingSkip--;
+      else emit(ch);
+      i++;
+      continue;
+    }
+
+    // Control symbol or control word
+    const next = rtf[i + 1];
+    if (next === "'") {
+      const byte = parseInt(rtf.slice(i + 2, i + 4), 16);
+      if (pendingSkip > 0) pendingSkip--;
+      else if (!isNaN(byte)) bytes.push(byte);
+      i += 4;
+      continue;
+    }
+    if (next === "*") {
+      // Ignorable destination: unknown to older readers, never body text
+      state.skip = true;
+      i += 2;
+      continue;
+    }
+    if (next === "\\" || next === "{" || next === "}") {
+      emit(next);
+      i += 2;
+      continue;
+    }
+    if (next === "~") {
+      emit(" ");
+      i += 2;
+      continue;
+    }
+    if (next === "-" || next === "_") {
+      if (next === "_") emit("-");
+      i += 2;
+      continue;
+    }
+    if (next === "\n" || next === "\r") {
+      emit("\n");
+      i += 2;
+      continue;
+    }
+
+    const m = /^([a-z]{1,32})(-?\d{1,10})? ?/i.exec(rtf.slice(i + 1, i + 48));
+    if (!m) {
+      i++;
+      continue;
+    }
+    i += 1 + m[0].length;
+    const word = m[1];
+    const param = m[2] !== undefined ? parseInt(m[2]) : null;
+
+    if (SKIP_DESTINATIONS.has(word)) {
+      state.skip = true;
+    } else if (word === "uc" && param !== null) {
+      state.unicodeSkip = param;
+    } else if (word === "u" && param !== null) {
+      // Signed 16-bit code unit
+      emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+      pendingSkip = state.unicodeSkip;
+    } else if (word in BREAKS) {
+      emit(BREAKS[word]);
+    } else if (word in SYMBOLS) {
+      emit(SYMBOLS[word]);
+    }
+  }
+  flushBytes();
+
+  return out.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+const XML_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+const decodeXmlEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== "#") return XML_ENTITIES[name] ?? entity;
+    const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1));
+    return String.fromCodePoint(code);
+  });
+
+// content.xml of an OpenDocument text file
+export function odfXmlToText(xml: string): string {
+  const start = xml.indexOf("<office:body");
+  const body = start === -1 ? xml : xml.slice(start);
+  const text = body
+    .replace(/<text:tab\/>/g, "\t")
+    .replace(/<text:line-break\/>/g, "\n")
+    .replace(/<text:s(?: text:c="(\d+)")?\/>/g, (_, count?: string) => " ".repeat(count ? parseInt(count) : 1))
+    .replace(/<text:list-item>/g, "- ")
+    .replace(/<\/text:(?:p|h)>/g, "\n")
+    .replace(/<[^>]+>/g, "");
+  return decodeXmlEntities(text).replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// Markdown syntax removed, structure kept: headings stay on their own line, list items become
+// "- " bullets and links keep their URL so profile links can still be found
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^[ \t]*```.*$/gm, "")
+    .replace(/^[ \t]*([-*_])(?:[ \t]*\1){2,}[ \t]*$/gm, "")
+    .replace(/^#{1,6}[ \t]+(.*?)[ \t]*#*$/gm, "$1")
+    .replace(/^[ \t]*>[ \t]?/gm, "")
+    .replace(/^([ \t]*)[*+-][ \t]+/gm, "$1- ")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, "$1 ($2)")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/\*(\S(?:.*?\S)?)\*/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
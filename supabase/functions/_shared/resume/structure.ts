@@ -0,0 +1,291 @@
+// Rule-based parsing of resume text into work history, education, certifications, languages
+// and links. Deterministic like the experience calculation, so every provider gets the same
+// structure and re-analysis never shuffles a candidate's career history.
+import { findDateRanges, findSingleDate, rangeMonths, toIsoDate, type DateRange } from "./dates.ts";
+import { ROLE_TITLES } from "./keywords.ts";
+
+export interface WorkEntry {
+  title: string | null;
+  company: string | null;
+  location: string | null;
+  start_date: string | null; // YYYY-MM-01
+  end_date: string | null;
+  is_current: boolean;
+  months: number | null; // time in this role, start and end month included
+  bullets: string[];
+}
+
+export interface EducationEntry {
+  institution: string | null;
+  degree: string | null;
+  field_of_study: string | null;
+  start_date: string | null;
+  end_date: string | null;
+}
+
+export interface CertificationEntry {
+  name: string;
+  issuer: string | null;
+  issued_date: string | null;
+}
+
+export interface LanguageEntry {
+  language: string;
+  proficiency: string | null;
+}
+
+export type LinkKind = "linkedin" | "github" | "portfolio" | "other";
+
+export interface LinkEntry {
+  kind: LinkKind;
+  url: string;
+}
+
+export interface StructuredResume {
+  work_history: WorkEntry[];
+  education: EducationEntry[];
+  certifications: CertificationEntry[];
+  languages: LanguageEntry[];
+  links: LinkEntry[];
+}
+
+export type SectionKind = "header" | "summary" | "experience" | "education" | "certifications" | "languages" | "skills" | "projects" | "other";
+
+const SECTION_HEADINGS: [SectionKind, RegExp][] = [
+  ["experience", /^(work experience|professional experience|experience|employment( history)?|work history|career history|relevant experience)$/i],
+  ["education", /^(education|academic background|education and training|academics?|qualifications)$/i],
+  ["certifications", /^(certifications?|certificates?|licenses?( (and|&) certifications)?|certifications? (and|&) licenses?|courses( (and|&) certifications)?)$/i],
+  ["languages", /^languages?$/i],
+  ["skills", /^(skills|technical skills|core competencies|key skills|competencies|tools( (and|&) technologies)?)$/i],
+  ["summary", /^(summary|professional summary|profile|about( me)?|objective|career objective)$/i],
+  ["projects", /^(projects|selected projects|personal projects)$/i],
+  ["other", /^(awards|honou?rs|achievements|interests|hobbies|references|volunteer( experience|ing)?|publications|activities)$/i],
+];
+
+const BULLET = /^[-*•·●▪◦>]\s*/;
+
+const ROLE_WORDS = /\b(engineer|developer|manager|director|analyst|designer|consultant|intern|specialist|lead|officer|coordinator|assistant|associate|executive|head|vp|vice president|president|founder|architect|administrator|accountant|teacher|nurse|scientist|recruiter|counsel|paralegal|representative|advisor|supervisor|technician|researcher|programmer|owner|partner|strategist|editor|writer|tester|trainee)\b/i;
+
+const DEGREE = /\b(ph\.?\s?d|doctor(ate)? of|master'?s?|m\.?\s?sc|m\.?\s?s\.?|m\.?\s?a\.?|mba|m\.?\s?tech|m\.?\s?eng|bachelor'?s?|b\.?\s?sc|b\.?\s?s\.?|b\.?\s?a\.?|b\.?\s?tech|b\.?\s?e\.?|b\.?\s?eng|b\.?\s?com|associate'?s? degree|diploma|high school|ged|a-levels?)(?=\s|,|$|\.)/i;
+const INSTITUTION = /\b(university|college|institute|school|academy|polytechnic|universität|université|universidad)\b/i;
+
+const PROFICIENCY = /\b(native|bilingual|fluent|proficient|professional( working)?|conversational|intermediate|basic|beginner|elementary|advanced|limited working|full professional|mother tongue|[abc][12])\b/i;
+
+const LINK = /\b(?:https?:\/\/|www\.)[^\s<>()"',;]+|\b(?:linkedin\.com\/in|github\.com|gitlab\.com|behance\.net|dribbble\.com)\/[^\s<>()"',;]+/gi;
+
+// Splits "Title | Company | City" style headers; "Inc." style suffixes stay with the company
+const HEADER_SEPARATOR = /\s+[|–—•·]\s+|\s+-\s+|,\s+(?!(?:inc|llc|ltd|gmbh|corp|co)\b\.?)|\s+@\s+|\s+at\s+/i;
+
+const toLines = (text: string) =>
+  text.split(/\n/).map((l) => l.replace(/\s+/g, " ").trim()).filter(Boolean);
+
+const stripBullet = (line: string) => line.replace(BULLET, "").trim();
+
+const isBullet = (line: string) => BULLET.test(line);
+
+// Descriptive sentences, as opposed to short "Title, Company" header lines
+const isSentence = (line: string) => line.length > 90 || (/[.;]$/.test(line) && line.split(" ").length > 4);
+
+const cleanPart = (s: string) => s.replace(/^[\s,|–—:-]+|[\s,|–—:-]+$/g, "").replace(/\(\s*\)/g, "").trim();
+
+const rangeDates = (range: DateRange | null) => ({
+  start_date: range ? toIsoDate(range.start) : null,
+  end_date: range?.end ? toIsoDate(range.end) : null,
+  is_current: range ? range.end === null : false,
+});
+
+function headingKind(line: string): SectionKind | null {
+  const candidate = line.replace(/[:\s]+$/, "").trim();
+  if (candidate.length > 40) return null;
+  for (const [kind, re] of SECTION_HEADINGS) {
+    if (re.test(candidate)) return kind;
+  }
+  return null;
+}
+
+// Group lines under the section heading they follow; text before the first heading is the header
+export function splitSections(text: string): Map<SectionKind, string[]> {
+  const sections = new Map<SectionKind, string[]>();
+  let current: SectionKind = "header";
+  for (const line of toLines(text)) {
+    const kind = headingKind(line);
+    if (kind) {
+      current = kind;
+      if (!sections.has(kind)) sections.set(kind, []);
+      continue;
+    }
+    // "Languages: English, German" written inline under another heading
+    const inline = line.match(/^languages?\s*:\s*(.+)$/i);
+    if (inline) {
+      sections.set("languages", [...(sections.get("languages") || []), inline[1]]);
+      continue;
+    }
+    sections.set(current, [...(sections.get(current) || []), line]);
+  }
+  return sections;
+}
+
+const looksLikeRole = (part: string) =>
+  ROLE_WORDS.test(part) || ROLE_TITLES.some((t) => part.toLowerCase().includes(t.toLowerCase()));
+
+function parseWorkHeader(lines: string[]) {
+  const parts = lines.flatMap((l) => l.split(HEADER_SEPARATOR)).map(cleanPart).filter((p) => p.length > 1);
+  const titleIdx = parts.findIndex(looksLikeRole);
+  const title = titleIdx >= 0 ? parts[titleIdx] : null;
+  const rest = parts.filter((_, i) => i !== titleIdx);
+  return {
+    title,
+    company: rest[0] ?? null,
+    location: rest[1] && rest[1].length <= 40 ? rest[1] : null,
+  };
+}
+
+function parseWorkHistory(lines: string[]): WorkEntry[] {
+  const dated = lines
+    .map((line, i) => ({ i, match: findDateRanges(line)[0] }))
+    .filter((d) => d.match);
+  const entries: WorkEntry[] = [];
+
+  dated.forEach(({ i, match }, k) => {
+    const prevDate = k > 0 ? dated[k - 1].i : -1;
+    const nextDate = k + 1 < dated.length ? dated[k + 1].i : lines.length;
+
+    // Up to two short, non-bullet lines right above the date line belong to this entry's header
+    let headerStart = i;
+    while (headerStart - 1 > prevDate && i - headerStart < 2) {
+      const above = lines[headerStart - 1];
+      if (isBullet(above) || isSentence(above)) break;
+      headerStart -= 1;
+    }
+    // The header of the next entry is not part of this entry's bullets
+    let bodyEnd = nextDate;
+    if (k + 1 < dated.length) {
+      let j = nextDate;
+      while (j - 1 > i && nextDate - j < 2 && !isBullet(lines[j - 1]) && !isSentence(lines[j - 1])) j -= 1;
+      bodyEnd = j;
+    }
+
+    const header = lines.slice(headerStart, i);
+    header.push(lines[i].replace(match!.text, " "));
+    let bodyStart = i + 1;
+    // "Jan 2019 - Present" on its own line with the company on the line below
+    const parsed = parseWorkHeader(header);
+    if ((!parsed.title || !parsed.company) && bodyStart < bodyEnd && !isBullet(lines[bodyStart]) && !isSentence(lines[bodyStart])) {
+      header.push(lines[bodyStart]);
+      bodyStart += 1;
+    }
+    const { title, company, location } = parseWorkHeader(header);
+
+    entries.push({
+      title,
+      company,
+      location,
+      ...rangeDates(match!.range),
+      months: rangeMonths(match!.range),
+      bullets: lines.slice(bodyStart, bodyEnd).map(stripBullet).filter(Boolean),
+    });
+  });
+
+  return entries.filter((e) => e.title || e.company);
+}
+
+function parseEducation(lines: string[]): EducationEntry[] {
+  const entries: EducationEntry[] = [];
+  let current: EducationEntry | null = null;
+
+  for (const raw of lines) {
+    const line = stripBullet(raw);
+    const range = findDateRanges(line)[0];
+    const single = range ? null : findSingleDate(line);
+    const text = cleanPart(line.replace(range?.text ?? single?.text ?? "", " "));
+    const degreeMatch = text.match(DEGREE);
+    const isInstitution = INSTITUTION.test(text);
+
+    // A second degree or institution means the previous entry is complete
+    if (!current || (degreeMatch && current.degree) || (isInstitution && current.institution)) {
+      if (!degreeMatch && !isInstitution && !range && !single) continue;
+      current = { institution: null, degree: null, field_of_study: null, start_date: null, end_date: null };
+      entries.push(current);
+    }
+
+    for (const part of text.split(HEADER_SEPARATOR).map(cleanPart).filter(Boolean)) {
+      const degree = part.match(DEGREE);
+      if (degree && !current.degree) {
+        current.degree = part;
+        const field = part.match(/\b(?:in|of)\s+(.+)$/i);
+        if (field && !/^(science|arts|engineering|technology|business administration)$/i.test(field[1])) current.field_of_study = field[1];
+      } else if (INSTITUTION.test(part) && !current.institution) {
+        current.institution = part;
+      } else if (current.degree && !current.field_of_study && !current.institution && part.length <= 60) {
+        current.field_of_study = part;
+      }
+    }
+
+    if (range) {
+      current.start_date = toIsoDate(range.range.start);
+      current.end_date = range.range.end ? toIsoDate(range.range.end) : null;
+    } else if (single && !current.end_date) {
+      current.end_date = toIsoDate(single.date);
+    }
+  }
+
+  return entries.filter((e) => e.degree || e.institution);
+}
+
+function parseCertifications(lines: string[]): CertificationEntry[] {
+  return lines.map(stripBullet).filter((l) => l.length > 2 && !isSentence(l)).map((line) => {
+    const date = findSingleDate(line);
+    const text = cleanPart(line.replace(date?.text ?? "", " "));
+    const issuerMatch = text.match(/^(.*?)(?:\s+[–—-]\s+|,\s+|\s+by\s+|\s*\(\s*)([^()]+?)\)?$/i);
+    return {
+      name: cleanPart(issuerMatch ? issuerMatch[1] : text),
+      issuer: issuerMatch ? cleanPart(issuerMatch[2]) || null : null,
+      issued_date: date ? toIsoDate(date.date) : null,
+    };
+  }).filter((c) => c.name.length > 1);
+}
+
+function parseLanguages(lines: string[]): LanguageEntry[] {
+  const seen = new Set<string>();
+  const out: LanguageEntry[] = [];
+  for (const item of lines.flatMap((l) => stripBullet(l).split(/[,;|•·]/))) {
+    const proficiency = item.match(PROFICIENCY)?.[0] ?? null;
+    const language = cleanPart(item.replace(PROFICIENCY, " ").replace(/[()]/g, " ").replace(/\s+/g, " "));
+    if (!language || language.length > 30 || /\d/.test(language) || seen.has(language.toLowerCase())) continue;
+    seen.add(language.toLowerCase());
+    out.push({ language, proficiency });
+  }
+  return out;
+}
+
+function classifyLink(url: string): LinkKind {
+  if (/linkedin\.com/i.test(url)) return "linkedin";
+  if (/github\.com|gitlab\.com/i.test(url)) return "github";
+  if (/behance\.net|dribbble\.com|portfolio/i.test(url)) return "portfolio";
+  return "other";
+}
+
+function parseLinks(text: string): LinkEntry[] {
+  const seen = new Set<string>();
+  const out: LinkEntry[] = [];
+  for (const m of text.matchAll(LINK)) {
+    const raw = m[0].replace(/[.)\]]+$/, "");
+    const url = /^https?:\/\//i.test(raw) ? raw : `https://${raw}`;
+    const key = url.toLowerCase().replace(/^https?:\/\/(www\.)?/, "").replace(/\/+$/, "");
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push({ kind: classifyLink(url), url });
+  }
+  return out;
+}
+
+export function parseResumeStructure(text: string): StructuredResume {
+  const sections = splitSections(text);
+  return {
+    work_history: parseWorkHistory(sections.get("experience") || []),
+    education: parseEducation(sections.get("education") || []),
+    certifications: parseCertifications(sections.get("certifications") || []),
+    languages: parseLanguages(sections.get("languages") || []),
+    links: parseLinks(text),
+  };
+}
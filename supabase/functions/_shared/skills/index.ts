@@ -0,0 +1,32 @@
+import { requireAdmin } from "../supabase.ts";
+import { buildSkillTaxonomy, type SkillAliasRow, type SkillRow, type SkillTaxonomy } from "./taxonomy.ts";
+
+export {
+  normalizeSkill,
+  normalizeSkills,
+  skillKey,
+  skillVariants,
+  skillWithAncestors,
+  type SkillTaxonomy,
+} from "./taxonomy.ts";
+
+// Platform admins edit aliases from the dashboard; a warm instance picks the edits up within this window
+const CACHE_TTL_MS = 5 * 60_000;
+
+let cached: { taxonomy: SkillTaxonomy; loadedAt: number } | null = null;
+
+export async function loadSkillTaxonomy(): Promise<SkillTaxonomy> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.taxonomy;
+
+  const admin = requireAdmin();
+  const [{ data: skills, error: skillsError }, { data: aliases, error: aliasesError }] = await Promise.all([
+    admin.from("skills").select("id, name, parent_id"),
+    admin.from("skill_aliases").select("skill_id, alias"),
+  ]);
+  if (skillsError) throw new Error(`Skills lookup failed: ${skillsError.message}`);
+  if (aliasesError) throw new Error(`Skill aliases lookup failed: ${aliasesError.message}`);
+
+  const taxonomy = buildSkillTaxonomy((skills || []) as SkillRow[], (aliases || []) as SkillAliasRow[]);
+  cached = { taxonomy, loadedAt: Date.now() };
+  return taxonomy;
+}
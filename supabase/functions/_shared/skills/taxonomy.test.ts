@@ -0,0 +1,77 @@
+// npm run test:functions (deno test), offline: no network or database
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import {
+  buildSkillTaxonomy,
+  emptySkillTaxonomy,
+  normalizeSkill,
+  normalizeSkills,
+  skillKey,
+  skillVariants,
+  skillWithAncestors,
+} from "./taxonomy.ts";
+
+const taxonomy = buildSkillTaxonomy(
+  [
+    { id: "js", name: "JavaScript", parent_id: null },
+    { id: "ts", name: "TypeScript", parent_id: "js" },
+    { id: "ng", name: "Angular", parent_id: "ts" },
+    { id: "go", name: "Golang", parent_id: null },
+    { id: "node", name: "Node", parent_id: null },
+    { id: "nodejs", name: "Node.js", parent_id: "js" },
+  ],
+  [
+    { skill_id: "js", alias: "JS" },
+    { skill_id: "js", alias: "ES6" },
+    { skill_id: "go", alias: "Go" },
+    { skill_id: "ng", alias: "AngularJS" },
+    // An alias that is also a canonical name loses to the name
+    { skill_id: "nodejs", alias: "Node" },
+  ],
+);
+
+Deno.test("skillKey ignores case and extra whitespace", () => {
+  assertEquals(skillKey("  Machine   Learning "), "machine learning");
+});
+
+Deno.test("names and aliases resolve to the canonical name", () => {
+  assertEquals(normalizeSkill(taxonomy, "javascript"), "JavaScript");
+  assertEquals(normalizeSkill(taxonomy, " js "), "JavaScript");
+  assertEquals(normalizeSkill(taxonomy, "GO"), "Golang");
+  assertEquals(normalizeSkill(taxonomy, "Node"), "Node");
+});
+
+Deno.test("qualifiers and versions are dropped when the full text is unknown", () => {
+  assertEquals(normalizeSkill(taxonomy, "JavaScript (ES6)"), "JavaScript");
+  assertEquals(normalizeSkill(taxonomy, "TypeScript 5.4"), "TypeScript");
+  assertEquals(normalizeSkill(taxonomy, "AngularJS v12"), "Angular");
+});
+
+Deno.test("unknown skills are kept trimmed, blanks are dropped", () => {
+  assertEquals(normalizeSkill(taxonomy, "  Elixir   Phoenix "), "Elixir Phoenix");
+  assertEquals(normalizeSkill(taxonomy, "   "), null);
+  assertEquals(normalizeSkill(emptySkillTaxonomy(), "JS"), "JS");
+});
+
+Deno.test("normalizeSkills de-duplicates by canonical name in first-seen order", () => {
+  assertEquals(normalizeSkills(taxonomy, ["ES6", "Go", "", "javascript", "Golang", "Elixir", "elixir"]), ["JavaScript", "Golang", "Elixir"]);
+  assertEquals(normalizeSkills(taxonomy, null), []);
+});
+
+Deno.test("a skill implies its ancestors", () => {
+  assertEquals(skillWithAncestors(taxonomy, "Angular"), ["Angular", "TypeScript", "JavaScript"]);
+  assertEquals(skillWithAncestors(taxonomy, "Golang"), ["Golang"]);
+});
+
+Deno.test("a parent cycle does not loop forever", () => {
+  const cyclic = buildSkillTaxonomy(
+    [{ id: "a", name: "A", parent_id: "b" }, { id: "b", name: "B", parent_id: "a" }],
+    [],
+  );
+
+  assertEquals(skillWithAncestors(cyclic, "A"), ["A", "B"]);
+});
+
+Deno.test("skillVariants lists the name and every alias", () => {
+  assertEquals(skillVariants(taxonomy, "JavaScript"), ["JavaScript", "JS", "ES6"]);
+  assertEquals(skillVariants(taxonomy, "Elixir"), ["Elixir"]);
+});
@@ -0,0 +1,84 @@
+// Canonical skill names from the public.skills / public.skill_aliases taxonomy. Stored rows are
+// normalized by database triggers; this mirrors public.normalize_skill for values that never hit
+// the database (LLM output before it is saved, free-text job requirements, pasted job descriptions).
+
+export interface SkillRow {
+  id: string;
+  name: string;
+  parent_id: string | null;
+}
+
+export interface SkillAliasRow {
+  skill_id: string;
+  alias: string;
+}
+
+export interface SkillTaxonomy {
+  byKey: Map<string, string>; // key of a canonical name or alias -> canonical name
+  parentOf: Map<string, string>; // key of a canonical name -> parent's canonical name
+  aliasesOf: Map<string, string[]>; // key of a canonical name -> its aliases
+}
+
+// Same as public.skill_key
+export const skillKey = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+export function buildSkillTaxonomy(skills: SkillRow[], aliases: SkillAliasRow[]): SkillTaxonomy {
+  const byId = new Map(skills.map((s) => [s.id, s]));
+  const byKey = new Map<string, string>();
+  const parentOf = new Map<string, string>();
+  const aliasesOf = new Map<string, string[]>();
+
+  // Canonical names win over aliases, as in public.normalize_skill
+  for (const alias of aliases) {
+    const skill = byId.get(alias.skill_id);
+    if (!skill) continue;
+    byKey.set(skillKey(alias.alias), skill.name);
+    const key = skillKey(skill.name);
+    aliasesOf.set(key, [...(aliasesOf.get(key) ?? []), alias.alias]);
+  }
+  for (const skill of skills) {
+    byKey.set(skillKey(skill.name), skill.name);
+    const parent = skill.parent_id ? byId.get(skill.parent_id) : undefined;
+    if (parent) parentOf.set(skillKey(skill.name), parent.name);
+  }
+  return { byKey, parentOf, aliasesOf };
+}
+
+export const emptySkillTaxonomy = (): SkillTaxonomy => buildSkillTaxonomy([], []);
+
+// Canonical name for a raw skill; unknown skills come back whitespace-trimmed, blanks as null
+export function normalizeSkill(taxonomy: SkillTaxonomy, raw: string): string | null {
+  const clean = `${raw}`.trim().replace(/\s+/g, " ");
+  if (!clean) return null;
+  // "JavaScript (ES6)", "Python 3", "Angular v12"
+  const base = clean.replace(/\s*\([^)]*\)/g, "").replace(/\s+v?\d+(\.\d+)*$/, "").trim();
+  return taxonomy.byKey.get(skillKey(clean)) ?? (base ? taxonomy.byKey.get(skillKey(base)) : undefined) ?? clean;
+}
+
+// Canonical names without blanks or duplicates, in first-seen order (public.normalize_skills)
+export function normalizeSkills(taxonomy: SkillTaxonomy, raw: readonly string[] | null | undefined): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const skill of raw ?? []) {
+    const name = normalizeSkill(taxonomy, skill);
+    if (!name || seen.has(skillKey(name))) continue;
+    seen.add(skillKey(name));
+    out.push(name);
+  }
+  return out;
+}
+
+// The skill plus everything it implies: React -> JavaScript
+export function skillWithAncestors(taxonomy: SkillTaxonomy, name: string): string[] {
+  const chain = [name];
+  let current = taxonomy.parentOf.get(skillKey(name));
+  while (current && !chain.includes(current)) {
+    chain.push(current);
+    current = taxonomy.parentOf.get(skillKey(current));
+  }
+  return chain;
+}
+
+// Every spelling of a skill worth looking for in resume text
+export const skillVariants = (taxonomy: SkillTaxonomy, name: string): string[] =>
+  [name, ...(taxonomy.aliasesOf.get(skillKey(name)) ?? [])];
@@ -0,0 +1,31 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Service-role client; bypasses RLS, so callers must authorize requests themselves
+export const supabaseAdmin = SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } })
+  : null;
+
+export function requireAdmin() {
+  if (!supabaseAdmin) throw new Error("Supabase admin client not configured");
+  return supabaseAdmin;
+}
+
+// Resolve the calling user from the request's bearer token (null when anonymous)
+export async function getRequestUser(req: Request) {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token || !supabaseAdmin) return null;
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error) return null;
+  return data.user;
+}
+
+// Companies the user acts for: their own id, plus every company that added them to its HR
+// team. Mirrors is_company_member() in the database for functions that use the admin client.
+export async function memberCompanyIds(userId: string): Promise<Set<string>> {
+  const { data, error } = await requireAdmin().from("company_hr_members").select("company_id").eq("hr_id", userId);
+  if (error) throw new Error(`HR team lookup failed: ${error.message}`);
+  return new Set([userId, ...(data || []).map((row) => row.company_id as string)]);
+}
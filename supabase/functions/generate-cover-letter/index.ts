@@ -0,0 +1,99 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { errorResponse, ServiceError } from "../_shared/errors.ts";
+import { describeJobRequirements, JOB_REQUIREMENTS_COLUMNS, jobKeywords, type JobRequirements } from "../_shared/jobRequirements.ts";
+import { getLlmProvider } from "../_shared/llm/index.ts";
+import { parseCoverLetterOptions, writeCoverLetter } from "../_shared/resume/coverLetter.ts";
+import { loadSkillTaxonomy } from "../_shared/skills/index.ts";
+import { getRequestUser, requireAdmin } from "../_shared/supabase.ts";
+
+// Drafts a cover letter for one of the caller's analyzed resumes and a job posting. The
+// letter is returned for editing in the apply modal, not saved.
+
+interface CoverLetterRequest {
+  resumeId?: string;
+  jobId?: string;
+  tone?: string;
+  length?: string;
+}
+
+// Most recent roles are enough context and keep the prompt small
+const MAX_ROLES = 4;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) return jsonResponse({ ok: false, error: "Not authenticated" }, 401);
+
+    const body: CoverLetterRequest = await req.json().catch(() => {
+      throw new ServiceError("invalid_request", "Request body must be JSON");
+    });
+    if (!body.resumeId || !body.jobId) throw new ServiceError("invalid_request", "Missing resumeId or jobId");
+    const { tone, length } = parseCoverLetterOptions(body.tone, body.length);
+
+    const admin = requireAdmin();
+    const [{ data: resume, error: resumeError }, { data: job, error: jobError }, { data: profile }] = await Promise.all([
+      admin
+        .from("resumes")
+        .select("id, job_role, experience_years, skills, summary, strength_areas, analysis_status")
+        .eq("id", body.resumeId)
+        .eq("user_id", user.id)
+        .maybeSingle(),
+      admin
+        .from("jobs")
+        .select(`${JOB_REQUIREMENTS_COLUMNS}, profiles:company_id ( company_name )`)
+        .eq("id", body.jobId)
+        .maybeSingle(),
+      admin.from("profiles").select("full_name").eq("id", user.id).maybeSingle(),
+    ]);
+    if (resumeError) throw new Error(`Resume lookup failed: ${resumeError.message}`);
+    if (jobError) throw new Error(`Job lookup failed: ${jobError.message}`);
+    if (!resume) throw new ServiceError("not_found", "Resume not found");
+    if (!job) throw new ServiceError("not_found", "Job not found");
+    if (resume.analysis_status !== "complete") {
+      throw new ServiceError("invalid_request", "Wait for the resume analysis to finish before drafting a cover letter");
+    }
+
+    const [{ data: roles }, taxonomy] = await Promise.all([
+      admin
+        .from("resume_work_history")
+        .select("title, company")
+        .eq("resume_id", resume.id)
+        .order("position")
+        .limit(MAX_ROLES),
+      loadSkillTaxonomy(),
+    ]);
+
+    const requirements = job as JobRequirements;
+    const employer = job.profiles as unknown as { company_name: string | null } | null;
+
+    const letter = await writeCoverLetter(getLlmProvider(), {
+      facts: {
+        candidateName: profile?.full_name || "",
+        jobRole: resume.job_role,
+        experienceYears: resume.experience_years,
+        skills: resume.skills ?? [],
+        summary: (resume.summary || "").split("\n").filter(Boolean),
+        strengthAreas: resume.strength_areas ?? [],
+        roles: (roles || []).map((r) => [r.title, r.company].filter(Boolean).join(" | ")).filter(Boolean),
+      },
+      job: {
+        title: requirements.title,
+        company: employer?.company_name || null,
+        description: describeJobRequirements(requirements),
+        keywords: jobKeywords(requirements, taxonomy),
+      },
+      tone,
+      length,
+    });
+    return jsonResponse({ ok: true, letter });
+  } catch (e) {
+    console.error("generate-cover-letter error", e);
+    return errorResponse(e);
+  }
+});
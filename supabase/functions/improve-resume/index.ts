@@ -0,0 +1,70 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { errorResponse, ServiceError } from "../_shared/errors.ts";
+import { getLlmProvider } from "../_shared/llm/index.ts";
+import { suggestBulletRewrites } from "../_shared/resume/improve.ts";
+import { getRequestUser, requireAdmin } from "../_shared/supabase.ts";
+
+// Proposes rewrites of one resume bullet that apply one of the resume's analysis
+// recommendations. Nothing is saved here: accepted suggestions become a new resume version
+// through the resume builder (render-resume).
+
+interface ImproveRequest {
+  resumeId?: string;
+  bullet?: string;
+  recommendation?: string;
+  workHistoryId?: string; // role the bullet came from, used as context
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) return jsonResponse({ ok: false, error: "Not authenticated" }, 401);
+
+    const { resumeId, bullet, recommendation, workHistoryId }: ImproveRequest = await req.json().catch(() => {
+      throw new ServiceError("invalid_request", "Request body must be JSON");
+    });
+    if (!resumeId) throw new ServiceError("invalid_request", "Missing resumeId");
+    if (typeof bullet !== "string" || typeof recommendation !== "string") {
+      throw new ServiceError("invalid_request", "Missing bullet or recommendation");
+    }
+
+    const admin = requireAdmin();
+    const { data: resume, error: resumeError } = await admin
+      .from("resumes")
+      .select("id, job_role, missing_skills")
+      .eq("id", resumeId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (resumeError) throw new Error(`Resume lookup failed: ${resumeError.message}`);
+    if (!resume) throw new ServiceError("not_found", "Resume not found");
+
+    let context: string | null = null;
+    if (workHistoryId) {
+      const { data: role } = await admin
+        .from("resume_work_history")
+        .select("title, company")
+        .eq("id", workHistoryId)
+        .eq("resume_id", resume.id)
+        .maybeSingle();
+      if (role) context = [role.title, role.company].filter(Boolean).join(" | ") || null;
+    }
+
+    const suggestions = await suggestBulletRewrites(getLlmProvider(), {
+      bullet,
+      recommendation,
+      jobRole: resume.job_role,
+      context,
+      missingSkills: resume.missing_skills ?? [],
+    });
+    return jsonResponse({ ok: true, suggestions });
+  } catch (e) {
+    console.error("improve-resume error", e);
+    return errorResponse(e);
+  }
+});
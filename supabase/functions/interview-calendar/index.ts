@@ -0,0 +1,109 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { errorResponse, ServiceError } from "../_shared/errors.ts";
+import { interviewFeed } from "../_shared/calendar/interviews.ts";
+import { INTERVIEW_CALENDAR_COLUMNS, toCalendarEntry, type InterviewCalendarRow } from "../_shared/calendar/records.ts";
+import { getRequestUser, memberCompanyIds, requireAdmin } from "../_shared/supabase.ts";
+
+// Subscribable interview calendar.
+//   GET ?token=...       the feed of upcoming interviews for the token's owner: a candidate's own
+//                        interviews, a company's interviews for its jobs, or the interviews an
+//                        HR user sits on at the companies whose team they are on. Deployed without JWT verification (see config.toml);
+//                        the secret token is the credential.
+//   POST { rotate? }     the caller's feed URL, creating the token on first use. rotate replaces
+//                        the token, which breaks the old URL.
+
+const MAX_FEED_INTERVIEWS = 500;
+
+const feedUrl = (token: string) =>
+  `${Deno.env.get("SUPABASE_URL")}/functions/v1/interview-calendar?token=${encodeURIComponent(token)}`;
+
+const newToken = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(24)), (b) => b.toString(16).padStart(2, "0")).join("");
+
+async function serveFeed(token: string) {
+  const admin = requireAdmin();
+  const { data: feed, error: feedError } = await admin
+    .from("calendar_feeds")
+    .select("user_id, profiles:user_id ( user_type )")
+    .eq("token", token)
+    .maybeSingle();
+  if (feedError) throw new Error(`Feed lookup failed: ${feedError.message}`);
+  if (!feed) throw new ServiceError("not_found", "Calendar feed not found");
+
+  const owner = feed.profiles as unknown as { user_type: string } | null;
+  let query = admin
+    .from("interviews")
+    .select(INTERVIEW_CALENDAR_COLUMNS)
+    .eq("status", "scheduled")
+    .gte("ends_at", new Date().toISOString())
+    .order("starts_at")
+    .limit(MAX_FEED_INTERVIEWS);
+
+  if (owner?.user_type === "company") {
+    query = query.eq("job_applications.jobs.company_id", feed.user_id);
+  } else if (owner?.user_type === "hr") {
+    // Interviews at the HR user's companies that list their confirmed sign-in email; the
+    // profile's email is not proof of owning the address
+    const [{ data: account, error: accountError }, companies] = await Promise.all([
+      admin.auth.admin.getUserById(feed.user_id),
+      memberCompanyIds(feed.user_id),
+    ]);
+    if (accountError) throw new Error(`Account lookup failed: ${accountError.message}`);
+    const email = account.user?.email_confirmed_at ? account.user.email : null;
+    if (!email) return new Response(interviewFeed([], "Hireloop interviews"), { headers: calendarHeaders });
+    query = query
+      .in("job_applications.jobs.company_id", Array.from(companies))
+      .contains("interviewers", [email.toLowerCase()]);
+  } else {
+    query = query.eq("job_applications.applicant_id", feed.user_id);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Interview lookup failed: ${error.message}`);
+
+  const entries = ((data || []) as unknown as InterviewCalendarRow[]).map(toCalendarEntry);
+  return new Response(interviewFeed(entries, "Hireloop interviews"), { headers: calendarHeaders });
+}
+
+const calendarHeaders = {
+  "Content-Type": "text/calendar; charset=utf-8",
+  "Cache-Control": "private, max-age=300",
+  ...corsHeaders,
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method === "GET") {
+      const token = new URL(req.url).searchParams.get("token");
+      if (!token) throw new ServiceError("invalid_request", "Missing token");
+      return await serveFeed(token);
+    }
+
+    const user = await getRequestUser(req);
+    if (!user) return jsonResponse({ ok: false, error: "Not authenticated" }, 401);
+
+    const { rotate }: { rotate?: boolean } = await req.json().catch(() => ({}));
+    const admin = requireAdmin();
+
+    if (!rotate) {
+      const { data: existing, error } = await admin.from("calendar_feeds").select("token").eq("user_id", user.id).maybeSingle();
+      if (error) throw new Error(`Feed lookup failed: ${error.message}`);
+      if (existing) return jsonResponse({ ok: true, url: feedUrl(existing.token) });
+    }
+
+    const token = newToken();
+    const { error } = await admin
+      .from("calendar_feeds")
+      .upsert({ user_id: user.id, token, created_at: new Date().toISOString() });
+    if (error) throw new Error(`Feed token update failed: ${error.message}`);
+    return jsonResponse({ ok: true, url: feedUrl(token) });
+  } catch (e) {
+    console.error("interview-calendar error", e);
+    return errorResponse(e);
+  }
+});
@@ -0,0 +1,107 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { errorResponse, ServiceError } from "../_shared/errors.ts";
+import { interviewInvite } from "../_shared/calendar/interviews.ts";
+import { INTERVIEW_CALENDAR_COLUMNS, toCalendarEntry, type InterviewCalendarRow } from "../_shared/calendar/records.ts";
+import { emailProvider } from "../_shared/email/providers.ts";
+import { interviewScheduled } from "../_shared/email/templates.ts";
+import { getRequestUser, memberCompanyIds, requireAdmin } from "../_shared/supabase.ts";
+
+// Calendar invites for interviews.
+//   { applicationId }  emails an .ics REQUEST or CANCEL for every interview of the application
+//                      whose sequence hasn't been sent yet. Clients call it after any change
+//                      (booking, rescheduling, cancelling, closing the application); calls are
+//                      idempotent.
+//   { interviewId }    returns the current .ics for one interview, for "Add to calendar".
+
+interface InviteRequest {
+  applicationId?: string;
+  interviewId?: string;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) return jsonResponse({ ok: false, error: "Not authenticated" }, 401);
+
+    const { applicationId, interviewId }: InviteRequest = await req.json().catch(() => {
+      throw new ServiceError("invalid_request", "Request body must be JSON");
+    });
+    if (!applicationId && !interviewId) throw new ServiceError("invalid_request", "Missing applicationId or interviewId");
+
+    const admin = requireAdmin();
+    let query = admin.from("interviews").select(INTERVIEW_CALENDAR_COLUMNS).order("starts_at");
+    query = interviewId ? query.eq("id", interviewId) : query.eq("application_id", applicationId);
+    const [{ data, error }, companies] = await Promise.all([query, memberCompanyIds(user.id)]);
+    if (error) throw new Error(`Interview lookup failed: ${error.message}`);
+
+    // Same rule as application_role(): the candidate, or the job's company and its HR team
+    const rows = ((data || []) as unknown as InterviewCalendarRow[]).filter((row) =>
+      row.job_applications.applicant_id === user.id
+      || companies.has(row.job_applications.jobs.company_id)
+    );
+
+    if (interviewId) {
+      if (rows.length === 0) throw new ServiceError("not_found", "Interview not found");
+      const invite = interviewInvite(toCalendarEntry(rows[0]));
+      return jsonResponse({ ok: true, ics: invite.ics, fileName: invite.fileName, method: invite.method });
+    }
+
+    const provider = emailProvider();
+    let sent = 0;
+    for (const row of rows) {
+      if (row.invited_sequence !== null && row.invited_sequence >= row.sequence) continue;
+
+      // Nothing to retract if the first invite never went out
+      const skip = (row.status === "cancelled" && row.invited_sequence === null) || new Date(row.ends_at) <= new Date();
+      if (!skip) {
+        const entry = toCalendarEntry(row);
+        const invite = interviewInvite(entry);
+        const content = interviewScheduled({
+          round: entry.round,
+          startsAt: entry.startsAt,
+          endsAt: entry.endsAt,
+          timeZone: row.timezone,
+          location: entry.location,
+          videoUrl: entry.videoUrl,
+          interviewers: entry.interviewers,
+          jobTitle: entry.jobTitle,
+          companyName: entry.companyName,
+          candidateName: entry.candidateName,
+          cancelled: invite.method === "CANCEL",
+          sequence: entry.sequence,
+        });
+        try {
+          await provider.send({
+            to: invite.recipients,
+            ...content,
+            attachments: [{ filename: invite.fileName, content: invite.ics, contentType: `text/calendar; method=${invite.method}` }],
+          });
+        } catch (sendError) {
+          console.error("Invite email failed", row.id, sendError);
+          continue;
+        }
+        // Only logged; left pending so it goes out once a delivering provider is configured
+        if (!provider.delivers) continue;
+        sent++;
+      }
+
+      // Only if no newer change landed while sending
+      const { error: markError } = await admin
+        .from("interviews")
+        .update({ invited_sequence: row.sequence })
+        .eq("id", row.id)
+        .eq("sequence", row.sequence);
+      if (markError) console.error("Marking invite sent failed", row.id, markError);
+    }
+
+    return jsonResponse({ ok: true, sent });
+  } catch (e) {
+    console.error("interview-invites error", e);
+    return errorResponse(e);
+  }
+});
@@ -0,0 +1,93 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { getRequestUser, memberCompanyIds, requireAdmin } from "../_shared/supabase.ts";
+import { computeMatchScore } from "../_shared/matching.ts";
+import { JOB_REQUIREMENTS_COLUMNS } from "../_shared/jobRequirements.ts";
+import { loadSkillTaxonomy } from "../_shared/skills/index.ts";
+
+interface MatchPair {
+  resumeId: string;
+  jobId: string;
+}
+
+interface MatchRequest {
+  resumeId?: string;
+  jobId?: string;
+  pairs?: MatchPair[]; // batch form, used by job lists and applicant tables
+}
+
+const MAX_PAIRS = 100;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) return jsonResponse({ ok: false, error: "Not authenticated" }, 401);
+
+    const body: MatchRequest = await req.json();
+    const pairs = body.pairs ?? (body.resumeId && body.jobId ? [{ resumeId: body.resumeId, jobId: body.jobId }] : []);
+    if (pairs.length === 0) return jsonResponse({ ok: false, error: "Missing resumeId/jobId or pairs" }, 400);
+    if (pairs.length > MAX_PAIRS) return jsonResponse({ ok: false, error: `At most ${MAX_PAIRS} pairs per request` }, 400);
+
+    const admin = requireAdmin();
+    const resumeIds = Array.from(new Set(pairs.map((p) => p.resumeId)));
+    const jobIds = Array.from(new Set(pairs.map((p) => p.jobId)));
+
+    const [
+      companies,
+      { data: resumes, error: resumeError },
+      { data: jobs, error: jobError },
+      { data: applications, error: applicationError },
+      taxonomy,
+    ] = await Promise.all([
+      memberCompanyIds(user.id),
+      admin
+        .from("resumes")
+        .select("id, user_id, skills, experience_years, experience_months, job_role, profiles:user_id ( location )")
+        .in("id", resumeIds),
+      admin
+        .from("jobs")
+        .select(`id, company_id, ${JOB_REQUIREMENTS_COLUMNS}`)
+        .in("id", jobIds),
+      admin
+        .from("job_applications")
+        .select("resume_id, jobs!inner ( company_id )")
+        .in("resume_id", resumeIds),
+      loadSkillTaxonomy(),
+    ]);
+    if (resumeError) throw new Error(`Resume lookup failed: ${resumeError.message}`);
+    if (jobError) throw new Error(`Job lookup failed: ${jobError.message}`);
+    if (applicationError) throw new Error(`Application lookup failed: ${applicationError.message}`);
+
+    const resumeById = new Map((resumes || []).map((r) => [r.id, r]));
+    const jobById = new Map((jobs || []).map((j) => [j.id, j]));
+    // resumeId:companyId for every company a resume was submitted to
+    const submittedTo = new Set(
+      ((applications || []) as unknown as { resume_id: string; jobs: { company_id: string } }[])
+        .map((a) => `${a.resume_id}:${a.jobs.company_id}`),
+    );
+
+    const results = pairs.map(({ resumeId, jobId }) => {
+      const resume = resumeById.get(resumeId);
+      const job = jobById.get(jobId);
+      if (!resume || !job) return { resumeId, jobId, error: "Not found" };
+
+      // Resume owners, and the job's company or its HR team once the resume was submitted to
+      // that company (the same rule as can_view_resume())
+      const allowed = resume.user_id === user.id
+        || (companies.has(job.company_id) && submittedTo.has(`${resumeId}:${job.company_id}`));
+      if (!allowed) return { resumeId, jobId, error: "Forbidden" };
+
+      const profile = resume.profiles as unknown as { location: string | null } | null;
+      return { resumeId, jobId, ...computeMatchScore({ ...resume, location: profile?.location }, job, taxonomy) };
+    });
+
+    return jsonResponse({ ok: true, results });
+  } catch (e) {
+    console.error("match-score error", e);
+    return jsonResponse({ ok: false, error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+});
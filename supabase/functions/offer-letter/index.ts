@@ -0,0 +1,93 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { errorResponse, ServiceError } from "../_shared/errors.ts";
+import { offerFileName, renderOfferPdf, type OfferLetter } from "../_shared/offers/pdf.ts";
+import { getRequestUser, memberCompanyIds, requireAdmin } from "../_shared/supabase.ts";
+
+// Renders an offer as a PDF: { offerId } -> { ok, pdf (base64), fileName }. The candidate can
+// only download offers that have been sent to them.
+
+interface OfferLetterRequest {
+  offerId?: string;
+}
+
+interface OfferRow {
+  letter: string;
+  status: string;
+  sent_at: string | null;
+  respond_by: string | null;
+  responded_at: string | null;
+  job_applications: {
+    applicant_id: string;
+    candidate: { full_name: string | null } | null;
+    jobs: {
+      title: string;
+      company_id: string;
+      company: { company_name: string | null } | null;
+    };
+  };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) return jsonResponse({ ok: false, error: "Not authenticated" }, 401);
+
+    const { offerId }: OfferLetterRequest = await req.json().catch(() => {
+      throw new ServiceError("invalid_request", "Request body must be JSON");
+    });
+    if (!offerId) throw new ServiceError("invalid_request", "Missing offerId");
+
+    const admin = requireAdmin();
+    const [{ data, error }, companies] = await Promise.all([
+      admin
+        .from("offers")
+        .select(`
+          letter, status, sent_at, respond_by, responded_at,
+          job_applications!inner (
+            applicant_id,
+            candidate:applicant_id ( full_name ),
+            jobs!inner (
+              title,
+              company_id,
+              company:company_id ( company_name )
+            )
+          )
+        `)
+        .eq("id", offerId)
+        .maybeSingle(),
+      memberCompanyIds(user.id),
+    ]);
+    if (error) throw new Error(`Offer lookup failed: ${error.message}`);
+
+    // Same rule as the offers SELECT policy
+    const row = data as unknown as OfferRow | null;
+    const application = row?.job_applications;
+    const allowed = application && (
+      companies.has(application.jobs.company_id)
+      || (application.applicant_id === user.id && row.sent_at !== null)
+    );
+    if (!row || !application || !allowed) throw new ServiceError("not_found", "Offer not found");
+
+    const offer: OfferLetter = {
+      letter: row.letter,
+      status: row.status,
+      jobTitle: application.jobs.title,
+      companyName: application.jobs.company?.company_name ?? null,
+      candidateName: application.candidate?.full_name ?? null,
+      sentAt: row.sent_at,
+      respondBy: row.respond_by,
+      respondedAt: row.responded_at,
+    };
+    const pdf = await renderOfferPdf(offer);
+
+    return jsonResponse({ ok: true, pdf, fileName: offerFileName(offer) });
+  } catch (e) {
+    console.error("offer-letter error", e);
+    return errorResponse(e);
+  }
+});
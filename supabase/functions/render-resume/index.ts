@@ -0,0 +1,98 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { errorResponse, ServiceError } from "../_shared/errors.ts";
+import { getRequestUser, requireAdmin } from "../_shared/supabase.ts";
+import {
+  CONTENT_TYPES,
+  exportFileName,
+  type ExportFormat,
+  parseDraftContent,
+  parseTemplate,
+  renderResumeDraft,
+} from "../_shared/builder/index.ts";
+
+// Renders a resume-builder draft to PDF or DOCX and saves it like an upload: the file goes to
+// the resumes bucket and a resumes row is inserted, which enqueues its analysis. Every export
+// of a draft becomes the next version of the same resume document.
+
+interface RenderRequest {
+  draftId?: string;
+  format?: ExportFormat;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) return jsonResponse({ ok: false, error: "Not authenticated" }, 401);
+
+    const { draftId, format }: RenderRequest = await req.json().catch(() => {
+      throw new ServiceError("invalid_request", "Request body must be JSON");
+    });
+    if (!draftId) throw new ServiceError("invalid_request", "Missing draftId");
+    if (format !== "pdf" && format !== "docx") throw new ServiceError("invalid_request", "format must be pdf or docx");
+
+    const admin = requireAdmin();
+    const { data: draft, error: draftError } = await admin
+      .from("resume_drafts")
+      .select("id, document_id, title, template, content")
+      .eq("id", draftId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (draftError) throw new Error(`Draft lookup failed: ${draftError.message}`);
+    if (!draft) throw new ServiceError("not_found", "Resume draft not found");
+
+    const content = parseDraftContent(draft.content);
+    const bytes = await renderResumeDraft(content, parseTemplate(draft.template), format);
+    const fileName = exportFileName(draft.title || content.contact.fullName, format);
+
+    console.log("Render request", { draftId, format, bytes: bytes.byteLength });
+
+    const storagePath = `${user.id}/${Date.now()}-${fileName}`;
+    const { error: uploadError } = await admin.storage
+      .from("resumes")
+      .upload(storagePath, bytes, { contentType: CONTENT_TYPES[format] });
+    if (uploadError) throw new Error(`Upload failed: ${uploadError.message}`);
+    const { data: urlData } = admin.storage.from("resumes").getPublicUrl(storagePath);
+
+    const { data: resume, error: insertError } = await admin
+      .from("resumes")
+      .insert({
+        user_id: user.id,
+        document_id: draft.document_id ?? undefined,
+        file_name: fileName,
+        file_url: urlData.publicUrl,
+        file_size: bytes.byteLength,
+      })
+      .select("id, document_id, version")
+      .single();
+    if (insertError) {
+      await admin.storage.from("resumes").remove([storagePath]);
+      throw new Error(`Resume insert failed: ${insertError.message}`);
+    }
+
+    // The first export started a new document; later exports add versions to it
+    if (!draft.document_id) {
+      const { error: linkError } = await admin
+        .from("resume_drafts")
+        .update({ document_id: resume.document_id })
+        .eq("id", draft.id);
+      if (linkError) console.error("Draft document link failed", draft.id, linkError);
+    }
+
+    return jsonResponse({
+      ok: true,
+      resumeId: resume.id,
+      documentId: resume.document_id,
+      version: resume.version,
+      fileName,
+      fileUrl: urlData.publicUrl,
+    });
+  } catch (e) {
+    console.error("render-resume error", e);
+    return errorResponse(e);
+  }
+});
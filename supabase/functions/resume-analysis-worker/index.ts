@@ -0,0 +1,148 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { errorResponse, toServiceError } from "../_shared/errors.ts";
+import { requireAdmin } from "../_shared/supabase.ts";
+import { analyzeResumeFile, type AnalysisStage } from "../_shared/resume/analyze.ts";
+
+// Drains the resume_analysis_jobs queue. wake_resume_analysis_worker() invokes it as soon as a
+// job is queued, and every minute from pg_cron for retries whose backoff has elapsed and jobs
+// orphaned by a crashed worker. Only the database (with the shared RESUME_WORKER_SECRET) and
+// service-role callers may run it.
+
+const BATCH_SIZE = 5;
+const BACKOFF_BASE_MS = 30_000; // 30s, 60s, 120s, ...
+
+const STAGE_PROGRESS: Record<AnalysisStage, number> = { downloading: 10, extracting: 30, analyzing: 60 };
+
+interface AnalysisJob {
+  id: string;
+  resume_id: string;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+}
+
+type JobOutcome = "complete" | "retrying" | "failed";
+
+// Compares in constant time so the secret can't be guessed byte by byte from response times
+function secretsMatch(given: string | null | undefined, expected: string | null | undefined) {
+  if (!given || !expected) return false;
+  const a = new TextEncoder().encode(given);
+  const b = new TextEncoder().encode(expected);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  return diff === 0;
+}
+
+const isAuthorized = (req: Request) =>
+  secretsMatch(req.headers.get("x-worker-secret"), Deno.env.get("RESUME_WORKER_SECRET")) ||
+  secretsMatch(req.headers.get("Authorization")?.replace(/^Bearer\s+/i, ""), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"));
+
+async function updateResume(resumeId: string, fields: Record<string, unknown>) {
+  const { error } = await requireAdmin().from("resumes").update(fields).eq("id", resumeId);
+  if (error) console.error("Resume update failed", resumeId, error);
+}
+
+async function updateJob(jobId: string, fields: Record<string, unknown>) {
+  const { error } = await requireAdmin().from("resume_analysis_jobs").update(fields).eq("id", jobId);
+  if (error) console.error("Job update failed", jobId, error);
+}
+
+async function failJob(job: AnalysisJob, code: string): Promise<JobOutcome> {
+  await updateJob(job.id, { status: "failed", locked_at: null, last_error: code });
+  await updateResume(job.resume_id, { analysis_status: "failed", analysis_progress: 0, analysis_error: code });
+  return "failed";
+}
+
+async function processJob(job: AnalysisJob): Promise<JobOutcome> {
+  // Reclaimed after its worker died mid-run too many times
+  if (job.attempts > job.max_attempts) return failJob(job, job.last_error || "provider_timeout");
+
+  const { data: resume, error } = await requireAdmin()
+    .from("resumes")
+    .select("id, file_url, file_name")
+    .eq("id", job.resume_id)
+    .maybeSingle();
+  if (error) throw new Error(`Resume lookup failed: ${error.message}`);
+  if (!resume) return failJob(job, "not_found");
+
+  try {
+    const analysis = await analyzeResumeFile(
+      { fileUrl: resume.file_url, fileName: resume.file_name },
+      (stage) => updateResume(resume.id, { analysis_status: "processing", analysis_progress: STAGE_PROGRESS[stage] }),
+    );
+
+    const { error: structureError } = await requireAdmin().rpc("replace_resume_structure", {
+      p_resume_id: resume.id,
+      p_structure: analysis.structured,
+    });
+    if (structureError) throw new Error(`Saving resume structure failed: ${structureError.message}`);
+
+    await updateResume(resume.id, {
+      skills: analysis.skills,
+      experience_years: Math.floor(analysis.experience.total_months / 12),
+      experience_months: analysis.experience.total_months,
+      career_gaps: analysis.experience.gaps,
+      job_role: analysis.job_role,
+      ats_score: analysis.ats_score,
+      summary: analysis.summary.join("\n"),
+      recommendations: analysis.recommendations || [],
+      missing_skills: analysis.missing_skills || [],
+      strength_areas: analysis.strength_areas || [],
+      analysis_status: "complete",
+      analysis_progress: 100,
+      analysis_error: null,
+    });
+    await updateJob(job.id, { status: "complete", locked_at: null, last_error: null });
+    return "complete";
+  } catch (e) {
+    const err = toServiceError(e);
+    console.error("Resume analysis failed", { jobId: job.id, attempt: job.attempts, code: err.code, message: err.message });
+
+    if (!err.retryable || job.attempts >= job.max_attempts) return failJob(job, err.code);
+
+    const delayMs = BACKOFF_BASE_MS * 2 ** (job.attempts - 1);
+    await updateJob(job.id, {
+      status: "queued",
+      locked_at: null,
+      last_error: err.code,
+      run_after: new Date(Date.now() + delayMs).toISOString(),
+    });
+    await updateResume(resume.id, { analysis_status: "queued", analysis_progress: 0, analysis_error: err.code });
+    return "retrying";
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isAuthorized(req)) return jsonResponse({ ok: false, error: "Not authorized" }, 401);
+
+  try {
+    const { data, error } = await requireAdmin().rpc("claim_resume_analysis_jobs", { p_limit: BATCH_SIZE });
+    if (error) throw new Error(`Claiming jobs failed: ${error.message}`);
+
+    const jobs = (data || []) as AnalysisJob[];
+    const results: { jobId: string; resumeId: string; outcome: JobOutcome }[] = [];
+
+    // One at a time: analyses are provider-bound and the provider enforces its own rate limits.
+    // A job that fails outside the analysis itself is failed on its own, so the rest of the
+    // batch isn't left locked in processing.
+    for (const job of jobs) {
+      const outcome = await processJob(job).catch((e) => {
+        console.error("Resume analysis job failed", job.id, e);
+        return failJob(job, toServiceError(e).code);
+      });
+      results.push({ jobId: job.id, resumeId: job.resume_id, outcome });
+    }
+
+    return jsonResponse({ ok: true, processed: results.length, results });
+  } catch (e) {
+    console.error("resume-analysis-worker error", e);
+    return errorResponse(e);
+  }
+});
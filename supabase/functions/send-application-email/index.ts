@@ -1,170 +1,209 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { Resend } from "npm:resend@2.0.0";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { errorResponse, ServiceError } from "../_shared/errors.ts";
+import { type EmailMessage, emailProvider } from "../_shared/email/providers.ts";
+import { isWebUrl } from "../_shared/email/render.ts";
+import {
+  type ApplicationEmailData,
+  applicationReceivedForCandidate,
+  applicationReceivedForEmployer,
+  applicationStatusChanged,
+  hasStatusEmail,
+  offerSent,
+} from "../_shared/email/templates.ts";
+import { getRequestUser, memberCompanyIds, requireAdmin } from "../_shared/supabase.ts";
+
+// Emails about an application: { event, applicationId }.
+//   applied         the company gets the application, the candidate a confirmation
+//   status_changed  tells the candidate about the application's current stage
+//   offer_sent      tells the candidate their offer is ready to answer
+// Everything in the emails is loaded here; clients only say which application changed. Each
+// email is sent once (see application_emails), so repeating a call is a no-op.
+
+type ApplicationEmailEvent = "applied" | "status_changed" | "offer_sent";
 
-const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+interface ApplicationEmailRequest {
+  event?: ApplicationEmailEvent;
+  applicationId?: string;
+}
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+interface ApplicationRow {
+  id: string;
+  job_id: string;
+  applicant_id: string;
+  status: string;
+  cover_letter: string | null;
+  candidate: { full_name: string | null; email: string | null } | null;
+  resume: { file_url: string | null; skills: string[] | null } | null;
+  jobs: {
+    title: string;
+    company_id: string;
+    company: { company_name: string | null; email: string | null } | null;
+  };
+}
 
-interface ApplicationEmailRequest {
-  hrEmail: string;
-  candidateEmail: string;
-  candidateName: string;
-  jobTitle: string;
-  companyName: string;
-  resumeUrl: string;
-  skills: string[];
-  preferredInterviewDate: string;
-  coverLetter?: string;
-  applicationId: string;
+const EVENTS: ApplicationEmailEvent[] = ["applied", "status_changed", "offer_sent"];
+
+// Links in the emails only ever point at the configured APP_URL. Request headers such as
+// Origin are set by the caller, so building links from them would let anyone who can trigger
+// an email aim its buttons at their own site.
+function appUrl(): string | null {
+  const url = Deno.env.get("APP_URL");
+  if (isWebUrl(url)) return url;
+  console.warn("APP_URL is not set to an http(s) URL; emails are sent without links to the app");
+  return null;
 }
 
-const handler = async (req: Request): Promise<Response> => {
-  // Handle CORS preflight requests
+serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const {
-      hrEmail,
-      candidateEmail,
-      candidateName,
-      jobTitle,
-      companyName,
-      resumeUrl,
-      skills,
-      preferredInterviewDate,
-      coverLetter,
-      applicationId
-    }: ApplicationEmailRequest = await req.json();
-
-    // Send email to HR
-    const hrEmailResponse = await resend.emails.send({
-      from: "HireLoop <noreply@hireloop.app>",
-      to: [hrEmail],
-      subject: `New Application: ${candidateName} for ${jobTitle}`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <div style="background: linear-gradient(135deg, #3b82f6, #8b5cf6); padding: 20px; text-align: center;">
-            <h1 style="color: white; margin: 0; font-size: 24px;">New Job Application</h1>
-          </div>
-          
-          <div style="padding: 30px; background: #f8fafc;">
-            <h2 style="color: #1e293b; margin-bottom: 20px;">Application Details</h2>
-            
-            <div style="background: white; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
-              <p><strong>Candidate:</strong> ${candidateName}</p>
-              <p><strong>Position:</strong> ${jobTitle}</p>
-              <p><strong>Company:</strong> ${companyName}</p>
-              <p><strong>Email:</strong> ${candidateEmail}</p>
-              <p><strong>Preferred Interview Date:</strong> ${preferredInterviewDate}</p>
-            </div>
-
-            <div style="background: white; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
-              <h3 style="color: #1e293b; margin-bottom: 15px;">Skills</h3>
-              <div style="display: flex; flex-wrap: wrap; gap: 8px;">
-                ${skills.map(skill => `<span style="background: #e0e7ff; color: #3730a3; padding: 4px 12px; border-radius: 20px; font-size: 14px;">${skill}</span>`).join('')}
-              </div>
-            </div>
-
-            ${coverLetter ? `
-            <div style="background: white; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
-              <h3 style="color: #1e293b; margin-bottom: 15px;">Cover Letter</h3>
-              <p style="line-height: 1.6; color: #475569;">${coverLetter}</p>
-            </div>
-            ` : ''}
-
-            <div style="text-align: center; margin: 30px 0;">
-              <a href="${resumeUrl}" style="background: linear-gradient(135deg, #3b82f6, #8b5cf6); color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">View Resume</a>
-            </div>
-
-            <p style="color: #64748b; font-size: 14px; text-align: center;">
-              Application ID: ${applicationId}
-            </p>
-          </div>
-        </div>
-      `,
-    });
+    const user = await getRequestUser(req);
+    if (!user) return jsonResponse({ ok: false, error: "Not authenticated" }, 401);
 
-    // Send confirmation email to candidate
-    const candidateEmailResponse = await resend.emails.send({
-      from: "HireLoop <noreply@hireloop.app>",
-      to: [candidateEmail],
-      subject: `Application Received: ${jobTitle} at ${companyName}`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <div style="background: linear-gradient(135deg, #10b981, #3b82f6); padding: 20px; text-align: center;">
-            <h1 style="color: white; margin: 0; font-size: 24px;">Application Received!</h1>
-          </div>
-          
-          <div style="padding: 30px; background: #f8fafc;">
-            <h2 style="color: #1e293b;">Hi ${candidateName},</h2>
-            
-            <p style="color: #475569; line-height: 1.6;">
-              Thank you for applying to the <strong>${jobTitle}</strong> position at <strong>${companyName}</strong>. 
-              We have received your application and our team will review it soon.
-            </p>
-
-            <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
-              <h3 style="color: #1e293b; margin-bottom: 15px;">Application Summary</h3>
-              <p><strong>Position:</strong> ${jobTitle}</p>
-              <p><strong>Company:</strong> ${companyName}</p>
-              <p><strong>Preferred Interview Date:</strong> ${preferredInterviewDate}</p>
-              <p><strong>Application ID:</strong> ${applicationId}</p>
-            </div>
-
-            <p style="color: #475569; line-height: 1.6;">
-              What happens next:
-            </p>
-            <ul style="color: #475569; line-height: 1.6;">
-              <li>Our HR team will review your application</li>
-              <li>If selected, we'll contact you to schedule an interview</li>
-              <li>You can track your application status in your dashboard</li>
-            </ul>
-
-            <div style="text-align: center; margin: 30px 0;">
-              <a href="#" style="background: linear-gradient(135deg, #10b981, #3b82f6); color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">View Application Status</a>
-            </div>
-
-            <p style="color: #64748b; font-size: 14px;">
-              Best regards,<br>
-              The HireLoop Team
-            </p>
-          </div>
-        </div>
-      `,
+    const { event, applicationId }: ApplicationEmailRequest = await req.json().catch(() => {
+      throw new ServiceError("invalid_request", "Request body must be JSON");
     });
-
-    console.log("HR Email sent:", hrEmailResponse);
-    console.log("Candidate Email sent:", candidateEmailResponse);
-
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        hrEmailId: hrEmailResponse.data?.id,
-        candidateEmailId: candidateEmailResponse.data?.id 
-      }),
-      {
-        status: 200,
-        headers: {
-          "Content-Type": "application/json",
-          ...corsHeaders,
-        },
+    if (!applicationId) throw new ServiceError("invalid_request", "Missing applicationId");
+    if (!event || !EVENTS.includes(event)) throw new ServiceError("invalid_request", `event must be one of ${EVENTS.join(", ")}`);
+
+    const admin = requireAdmin();
+    const [{ data, error }, companies, { data: submission }] = await Promise.all([
+      admin
+        .from("job_applications")
+        .select(`
+          id, job_id, applicant_id, status, cover_letter,
+          candidate:applicant_id ( full_name, email ),
+          resume:resume_id ( file_url, skills ),
+          jobs!inner (
+            title,
+            company_id,
+            company:company_id ( company_name, email )
+          )
+        `)
+        .eq("id", applicationId)
+        .maybeSingle(),
+      memberCompanyIds(user.id),
+      // Whoever submitted it: the candidate, or the HR user who referred them
+      admin
+        .from("application_events")
+        .select("actor_id")
+        .eq("application_id", applicationId)
+        .eq("event_type", "submitted")
+        .maybeSingle(),
+    ]);
+    if (error) throw new Error(`Application lookup failed: ${error.message}`);
+
+    // Same rule as application_role(): the job's company and its HR team. Whoever submitted
+    // the application may only announce it.
+    const application = data as unknown as ApplicationRow | null;
+    const isEmployer = application !== null && companies.has(application.jobs.company_id);
+    const isSubmitter = application !== null && (application.applicant_id === user.id || submission?.actor_id === user.id);
+    if (!application || !(isEmployer || (isSubmitter && event === "applied"))) {
+      throw new ServiceError("not_found", "Application not found");
+    }
+
+    const details: ApplicationEmailData = {
+      applicationId: application.id,
+      jobId: application.job_id,
+      jobTitle: application.jobs.title,
+      companyName: application.jobs.company?.company_name ?? null,
+      candidateName: application.candidate?.full_name ?? null,
+      candidateEmail: application.candidate?.email ?? null,
+      status: application.status,
+      coverLetter: application.cover_letter,
+      skills: application.resume?.skills ?? [],
+      resumeUrl: application.resume?.file_url ?? null,
+      appUrl: appUrl(),
+    };
+    const companyEmail = application.jobs.company?.email;
+    // Each message is recorded in application_emails under its own key
+    const messages: { key: string; message: EmailMessage }[] = [];
+
+    if (event === "applied") {
+      // Only while the application is new; referrals start at screening
+      if (!["applied", "screening"].includes(application.status)) {
+        throw new ServiceError("invalid_request", "This application has already been processed");
       }
-    );
-  } catch (error: any) {
-    console.error("Error in send-application-email function:", error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        status: 500,
-        headers: { "Content-Type": "application/json", ...corsHeaders },
+      if (companyEmail) {
+        messages.push({ key: "applied:employer", message: { to: [companyEmail], ...applicationReceivedForEmployer(details) } });
+      }
+      if (details.candidateEmail) {
+        messages.push({ key: "applied:candidate", message: { to: [details.candidateEmail], ...applicationReceivedForCandidate(details) } });
+      }
+    } else if (event === "status_changed") {
+      if (details.candidateEmail && hasStatusEmail(application.status)) {
+        messages.push({
+          key: `status_changed:${application.status}`,
+          message: { to: [details.candidateEmail], ...applicationStatusChanged(details) },
+        });
+      }
+    } else {
+      const { data: offer, error: offerError } = await admin
+        .from("offers")
+        .select("id, salary, start_date, respond_by")
+        .eq("application_id", application.id)
+        .eq("status", "sent")
+        .maybeSingle();
+      if (offerError) throw new Error(`Offer lookup failed: ${offerError.message}`);
+      if (!offer) throw new ServiceError("not_found", "No offer has been sent for this application");
+      if (details.candidateEmail) {
+        messages.push({
+          key: `offer_sent:${offer.id}`,
+          message: {
+            to: [details.candidateEmail],
+            ...offerSent(details, { salary: offer.salary, startDate: offer.start_date, respondBy: offer.respond_by }),
+          },
+        });
+      }
+    }
+
+    if (messages.length === 0) return jsonResponse({ ok: true, sent: 0 });
+    // Before claiming, so a missing provider leaves nothing to release
+    const provider = emailProvider();
+
+    let sent = 0;
+    let alreadySent = 0;
+    for (const { key, message } of messages) {
+      // Claimed before sending so repeated or concurrent calls send nothing more
+      const { error: claimError } = await admin
+        .from("application_emails")
+        .insert({ application_id: application.id, email_key: key });
+      if (claimError?.code === "23505") {
+        alreadySent++;
+        continue;
+      }
+      if (claimError) throw new Error(`Recording the email failed: ${claimError.message}`);
+
+      let delivered = false;
+      try {
+        const { id } = await provider.send(message);
+        console.log("Application email sent", { key, applicationId, provider: provider.name, id });
+        delivered = provider.delivers;
+      } catch (sendError) {
+        console.error("Application email failed", { key, applicationId, provider: provider.name }, sendError);
+      }
+      if (delivered) {
+        sent++;
+        continue;
       }
-    );
-  }
-};
 
-serve(handler);
\ No newline at end of file
+      // Not delivered (failed, or only logged): release this message's claim so a later call
+      // retries it without resending the others
+      const { error: releaseError } = await admin
+        .from("application_emails")
+        .delete()
+        .eq("application_id", application.id)
+        .eq("email_key", key);
+      if (releaseError) console.error("Releasing the email claim failed", { key, applicationId }, releaseError);
+    }
+
+    if (alreadySent === messages.length) return jsonResponse({ ok: true, sent: 0, alreadySent: true });
+    return jsonResponse({ ok: true, sent });
+  } catch (e) {
+    console.error("send-application-email error", e);
+    return errorResponse(e);
+  }
+});
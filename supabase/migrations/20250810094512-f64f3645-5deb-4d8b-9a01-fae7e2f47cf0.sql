@@ -0,0 +1,18 @@
+-- Structured job requirements alongside the free-text requirements column
+ALTER TABLE public.jobs
+ADD COLUMN required_skills TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN nice_to_have_skills TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN min_experience_years INTEGER CHECK (min_experience_years >= 0),
+ADD COLUMN max_experience_years INTEGER CHECK (max_experience_years >= 0),
+ADD COLUMN seniority_level TEXT CHECK (seniority_level IN ('intern', 'entry', 'mid', 'senior', 'lead', 'executive')),
+ADD COLUMN education_level TEXT CHECK (education_level IN ('none', 'high_school', 'associate', 'bachelor', 'master', 'doctorate')),
+ADD COLUMN remote_policy TEXT CHECK (remote_policy IN ('onsite', 'hybrid', 'remote')),
+ADD CONSTRAINT jobs_experience_range_check CHECK (
+  min_experience_years IS NULL OR max_experience_years IS NULL OR min_experience_years <= max_experience_years
+);
+
+-- Existing remote postings only recorded this through job_type
+UPDATE public.jobs SET remote_policy = 'remote' WHERE job_type = 'remote';
+
+-- Skill filters use array containment (required_skills @> ARRAY[...])
+CREATE INDEX idx_jobs_required_skills ON public.jobs USING GIN (required_skills);
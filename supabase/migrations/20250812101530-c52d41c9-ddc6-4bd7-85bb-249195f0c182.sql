@@ -0,0 +1,9 @@
+-- Track whether a resume's analysis actually ran, instead of storing placeholder results on failure
+ALTER TABLE public.resumes
+ADD COLUMN analysis_status TEXT NOT NULL DEFAULT 'pending' CHECK (analysis_status IN ('pending', 'complete', 'failed')),
+ADD COLUMN analysis_error TEXT;
+
+COMMENT ON COLUMN public.resumes.analysis_error IS 'Error code from analyze-resume when analysis_status = failed (e.g. scanned_pdf, provider_timeout)';
+
+-- Rows created before this column existed were saved together with their analysis
+UPDATE public.resumes SET analysis_status = 'complete';
@@ -0,0 +1,111 @@
+-- Resume analysis runs in the background: inserting a resume enqueues a job that the
+-- resume-analysis-worker edge function picks up, retrying transient failures with backoff.
+
+-- Resume-side status, pushed to the dashboard over realtime
+ALTER TABLE public.resumes DROP CONSTRAINT resumes_analysis_status_check;
+UPDATE public.resumes SET analysis_status = 'queued' WHERE analysis_status = 'pending';
+ALTER TABLE public.resumes
+ALTER COLUMN analysis_status SET DEFAULT 'queued',
+ADD CONSTRAINT resumes_analysis_status_check CHECK (analysis_status IN ('queued', 'processing', 'complete', 'failed')),
+ADD COLUMN analysis_progress SMALLINT NOT NULL DEFAULT 0 CHECK (analysis_progress BETWEEN 0 AND 100);
+
+UPDATE public.resumes SET analysis_progress = 100 WHERE analysis_status = 'complete';
+
+-- Queue of analysis jobs. Only the worker (service role) touches it, so no client policies.
+CREATE TABLE public.resume_analysis_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resume_id UUID NOT NULL REFERENCES public.resumes(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'complete', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.resume_analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_resume_analysis_jobs_updated_at BEFORE UPDATE ON public.resume_analysis_jobs FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- At most one live job per resume; re-enqueueing an in-flight resume is a no-op
+CREATE UNIQUE INDEX idx_resume_analysis_jobs_active ON public.resume_analysis_jobs (resume_id) WHERE status IN ('queued', 'processing');
+CREATE INDEX idx_resume_analysis_jobs_due ON public.resume_analysis_jobs (run_after) WHERE status = 'queued';
+
+-- Enqueue (or re-enqueue) analysis for a resume and reset its visible status
+CREATE OR REPLACE FUNCTION public.enqueue_resume_analysis(p_resume_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.resumes WHERE id = p_resume_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Resume not found';
+  END IF;
+
+  UPDATE public.resumes
+  SET analysis_status = 'queued', analysis_progress = 0, analysis_error = NULL
+  WHERE id = p_resume_id;
+
+  INSERT INTO public.resume_analysis_jobs (resume_id)
+  VALUES (p_resume_id)
+  ON CONFLICT (resume_id) WHERE status IN ('queued', 'processing') DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_new_resume_analysis()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.resume_analysis_jobs (resume_id) VALUES (NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_resume_created_enqueue_analysis
+  AFTER INSERT ON public.resumes
+  FOR EACH ROW
+  WHEN (NEW.analysis_status = 'queued')
+  EXECUTE FUNCTION public.enqueue_new_resume_analysis();
+
+-- Atomically hand due jobs to a worker. Jobs stuck in processing longer than the lock
+-- timeout (worker crashed or timed out) are picked up again.
+CREATE OR REPLACE FUNCTION public.claim_resume_analysis_jobs(p_limit INTEGER DEFAULT 5, p_lock_timeout INTERVAL DEFAULT interval '10 minutes')
+RETURNS SETOF public.resume_analysis_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.resume_analysis_jobs j
+  SET status = 'processing', attempts = j.attempts + 1, locked_at = now()
+  WHERE j.id IN (
+    SELECT id FROM public.resume_analysis_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status = 'processing' AND locked_at < now() - p_lock_timeout)
+    ORDER BY run_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_resume_analysis_jobs(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_resume_analysis(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.enqueue_resume_analysis(UUID) TO authenticated;
+
+-- Resumes that were still waiting when this migration ran
+INSERT INTO public.resume_analysis_jobs (resume_id)
+SELECT id FROM public.resumes WHERE analysis_status = 'queued';
+
+-- Stream status/progress changes to the owner's dashboard
+ALTER PUBLICATION supabase_realtime ADD TABLE public.resumes;
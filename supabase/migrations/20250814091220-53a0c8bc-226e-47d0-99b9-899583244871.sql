@@ -0,0 +1,132 @@
+-- Structured resume data parsed by the analysis worker. Each re-analysis replaces a
+-- resume's rows wholesale through replace_resume_structure.
+
+CREATE TABLE public.resume_work_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resume_id UUID NOT NULL REFERENCES public.resumes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  title TEXT,
+  company TEXT,
+  location TEXT,
+  start_date DATE,
+  end_date DATE,
+  is_current BOOLEAN NOT NULL DEFAULT false,
+  bullets TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.resume_education (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resume_id UUID NOT NULL REFERENCES public.resumes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  institution TEXT,
+  degree TEXT,
+  field_of_study TEXT,
+  start_date DATE,
+  end_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.resume_certifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resume_id UUID NOT NULL REFERENCES public.resumes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  issuer TEXT,
+  issued_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.resume_languages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resume_id UUID NOT NULL REFERENCES public.resumes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  language TEXT NOT NULL,
+  proficiency TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.resume_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resume_id UUID NOT NULL REFERENCES public.resumes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('linkedin', 'github', 'portfolio', 'other')),
+  url TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_resume_work_history_resume_id ON public.resume_work_history (resume_id, position);
+CREATE INDEX idx_resume_education_resume_id ON public.resume_education (resume_id, position);
+CREATE INDEX idx_resume_certifications_resume_id ON public.resume_certifications (resume_id, position);
+CREATE INDEX idx_resume_languages_resume_id ON public.resume_languages (resume_id, position);
+CREATE INDEX idx_resume_links_resume_id ON public.resume_links (resume_id, position);
+
+-- Owners, companies the resume was submitted to, and HR users may read a resume's structure
+CREATE OR REPLACE FUNCTION public.can_view_resume(p_resume_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.resumes WHERE id = p_resume_id AND user_id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.job_applications a
+      JOIN public.jobs j ON j.id = a.job_id
+      WHERE a.resume_id = p_resume_id AND j.company_id = auth.uid()
+    )
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND user_type = 'hr');
+$$;
+
+ALTER TABLE public.resume_work_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.resume_education ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.resume_certifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.resume_languages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.resume_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Permitted users can view resume work history" ON public.resume_work_history FOR SELECT USING (public.can_view_resume(resume_id));
+CREATE POLICY "Permitted users can view resume education" ON public.resume_education FOR SELECT USING (public.can_view_resume(resume_id));
+CREATE POLICY "Permitted users can view resume certifications" ON public.resume_certifications FOR SELECT USING (public.can_view_resume(resume_id));
+CREATE POLICY "Permitted users can view resume languages" ON public.resume_languages FOR SELECT USING (public.can_view_resume(resume_id));
+CREATE POLICY "Permitted users can view resume links" ON public.resume_links FOR SELECT USING (public.can_view_resume(resume_id));
+
+-- Atomically swap in a freshly parsed structure (the StructuredResume JSON from the worker)
+CREATE OR REPLACE FUNCTION public.replace_resume_structure(p_resume_id UUID, p_structure JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  DELETE FROM public.resume_work_history WHERE resume_id = p_resume_id;
+  DELETE FROM public.resume_education WHERE resume_id = p_resume_id;
+  DELETE FROM public.resume_certifications WHERE resume_id = p_resume_id;
+  DELETE FROM public.resume_languages WHERE resume_id = p_resume_id;
+  DELETE FROM public.resume_links WHERE resume_id = p_resume_id;
+
+  INSERT INTO public.resume_work_history (resume_id, position, title, company, location, start_date, end_date, is_current, bullets)
+  SELECT p_resume_id, e.ord - 1, e.value->>'title', e.value->>'company', e.value->>'location',
+    (e.value->>'start_date')::date, (e.value->>'end_date')::date, COALESCE((e.value->>'is_current')::boolean, false),
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(e.value->'bullets')), '{}')
+  FROM jsonb_array_elements(COALESCE(p_structure->'work_history', '[]')) WITH ORDINALITY AS e(value, ord);
+
+  INSERT INTO public.resume_education (resume_id, position, institution, degree, field_of_study, start_date, end_date)
+  SELECT p_resume_id, e.ord - 1, e.value->>'institution', e.value->>'degree', e.value->>'field_of_study',
+    (e.value->>'start_date')::date, (e.value->>'end_date')::date
+  FROM jsonb_array_elements(COALESCE(p_structure->'education', '[]')) WITH ORDINALITY AS e(value, ord);
+
+  INSERT INTO public.resume_certifications (resume_id, position, name, issuer, issued_date)
+  SELECT p_resume_id, e.ord - 1, e.value->>'name', e.value->>'issuer', (e.value->>'issued_date')::date
+  FROM jsonb_array_elements(COALESCE(p_structure->'certifications', '[]')) WITH ORDINALITY AS e(value, ord);
+
+  INSERT INTO public.resume_languages (resume_id, position, language, proficiency)
+  SELECT p_resume_id, e.ord - 1, e.value->>'language', e.value->>'proficiency'
+  FROM jsonb_array_elements(COALESCE(p_structure->'languages', '[]')) WITH ORDINALITY AS e(value, ord);
+
+  INSERT INTO public.resume_links (resume_id, position, kind, url)
+  SELECT p_resume_id, e.ord - 1, e.value->>'kind', e.value->>'url'
+  FROM jsonb_array_elements(COALESCE(p_structure->'links', '[]')) WITH ORDINALITY AS e(value, ord);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_resume_structure(UUID, JSONB) FROM PUBLIC, anon, authenticated;
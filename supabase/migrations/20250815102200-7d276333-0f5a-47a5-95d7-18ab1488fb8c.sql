@@ -0,0 +1,49 @@
+-- Experience computed from merged employment intervals instead of earliest start to latest end.
+-- experience_years stays the whole-year figure; experience_months is the precise total.
+ALTER TABLE public.resumes
+ADD COLUMN experience_months INTEGER CHECK (experience_months >= 0),
+ADD COLUMN career_gaps JSONB NOT NULL DEFAULT '[]';
+
+COMMENT ON COLUMN public.resumes.career_gaps IS 'Breaks of 3+ months between roles: [{ start_date, end_date (null = ongoing), months }]';
+
+ALTER TABLE public.resume_work_history
+ADD COLUMN months INTEGER CHECK (months >= 0);
+
+CREATE OR REPLACE FUNCTION public.replace_resume_structure(p_resume_id UUID, p_structure JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  DELETE FROM public.resume_work_history WHERE resume_id = p_resume_id;
+  DELETE FROM public.resume_education WHERE resume_id = p_resume_id;
+  DELETE FROM public.resume_certifications WHERE resume_id = p_resume_id;
+  DELETE FROM public.resume_languages WHERE resume_id = p_resume_id;
+  DELETE FROM public.resume_links WHERE resume_id = p_resume_id;
+
+  INSERT INTO public.resume_work_history (resume_id, position, title, company, location, start_date, end_date, is_current, months, bullets)
+  SELECT p_resume_id, e.ord - 1, e.value->>'title', e.value->>'company', e.value->>'location',
+    (e.value->>'start_date')::date, (e.value->>'end_date')::date, COALESCE((e.value->>'is_current')::boolean, false),
+    (e.value->>'months')::integer,
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(e.value->'bullets')), '{}')
+  FROM jsonb_array_elements(COALESCE(p_structure->'work_history', '[]')) WITH ORDINALITY AS e(value, ord);
+
+  INSERT INTO public.resume_education (resume_id, position, institution, degree, field_of_study, start_date, end_date)
+  SELECT p_resume_id, e.ord - 1, e.value->>'institution', e.value->>'degree', e.value->>'field_of_study',
+    (e.value->>'start_date')::date, (e.value->>'end_date')::date
+  FROM jsonb_array_elements(COALESCE(p_structure->'education', '[]')) WITH ORDINALITY AS e(value, ord);
+
+  INSERT INTO public.resume_certifications (resume_id, position, name, issuer, issued_date)
+  SELECT p_resume_id, e.ord - 1, e.value->>'name', e.value->>'issuer', (e.value->>'issued_date')::date
+  FROM jsonb_array_elements(COALESCE(p_structure->'certifications', '[]')) WITH ORDINALITY AS e(value, ord);
+
+  INSERT INTO public.resume_languages (resume_id, position, language, proficiency)
+  SELECT p_resume_id, e.ord - 1, e.value->>'language', e.value->>'proficiency'
+  FROM jsonb_array_elements(COALESCE(p_structure->'languages', '[]')) WITH ORDINALITY AS e(value, ord);
+
+  INSERT INTO public.resume_links (resume_id, position, kind, url)
+  SELECT p_resume_id, e.ord - 1, e.value->>'kind', e.value->>'url'
+  FROM jsonb_array_elements(COALESCE(p_structure->'links', '[]')) WITH ORDINALITY AS e(value, ord);
+END;
+$$;
@@ -0,0 +1,449 @@
+-- Canonical skills taxonomy. Resume and job skills are stored under their canonical name, so
+-- "JS", "Javascript" and "JavaScript (ES6)" are all the single value "JavaScript".
+
+-- Comparison key: case- and whitespace-insensitive. Mirrored by skillKey in _shared/skills/taxonomy.ts
+CREATE OR REPLACE FUNCTION public.skill_key(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT lower(regexp_replace(btrim(p_name), '\s+', ' ', 'g'));
+$$;
+
+CREATE TABLE public.skills (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  name_key TEXT NOT NULL GENERATED ALWAYS AS (public.skill_key(name)) STORED UNIQUE,
+  -- Same categories as the resume analyzer prompt (INDUSTRY_CATEGORIES in _shared/resume/keywords.ts)
+  category TEXT NOT NULL CHECK (category IN (
+    'Executive Leadership', 'Business & Operations', 'Sales & BD', 'Marketing & Brand', 'Customer Experience',
+    'Finance & Accounting', 'Creative & Design', 'Legal & Compliance', 'Healthcare & Education', 'Technology'
+  )),
+  -- A child implies its parent: a React developer knows JavaScript
+  parent_id UUID REFERENCES public.skills(id) ON DELETE SET NULL CHECK (parent_id <> id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.skill_aliases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  skill_id UUID NOT NULL REFERENCES public.skills(id) ON DELETE CASCADE,
+  alias TEXT NOT NULL CHECK (btrim(alias) <> ''),
+  alias_key TEXT NOT NULL GENERATED ALWAYS AS (public.skill_key(alias)) STORED UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_skills_parent_id ON public.skills (parent_id);
+CREATE INDEX idx_skill_aliases_skill_id ON public.skill_aliases (skill_id);
+
+CREATE TRIGGER update_skills_updated_at BEFORE UPDATE ON public.skills FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.skills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.skill_aliases ENABLE ROW LEVEL SECURITY;
+
+-- Everyone may read the taxonomy (skill pickers, search); HR users maintain it
+CREATE POLICY "Anyone can view skills" ON public.skills FOR SELECT USING (true);
+CREATE POLICY "HR users can manage skills" ON public.skills FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND user_type = 'hr'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND user_type = 'hr'));
+
+CREATE POLICY "Anyone can view skill aliases" ON public.skill_aliases FOR SELECT USING (true);
+CREATE POLICY "HR users can manage skill aliases" ON public.skill_aliases FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND user_type = 'hr'))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND user_type = 'hr'));
+
+-- Canonical name for a raw skill string: exact name or alias first, then the same lookup with
+-- qualifiers dropped ("JavaScript (ES6)", "Python 3"). Unknown skills are kept, whitespace-trimmed.
+-- Mirrored by normalizeSkill in _shared/skills/taxonomy.ts
+CREATE OR REPLACE FUNCTION public.normalize_skill(p_raw TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = ''
+AS $$
+DECLARE
+  v_clean TEXT := regexp_replace(btrim(p_raw), '\s+', ' ', 'g');
+  v_base TEXT;
+  v_candidate TEXT;
+  v_name TEXT;
+BEGIN
+  IF v_clean IS NULL OR v_clean = '' THEN
+    RETURN NULL;
+  END IF;
+  v_base := btrim(regexp_replace(regexp_replace(v_clean, '\s*\([^)]*\)', '', 'g'), '\s+v?\d+(\.\d+)*$', ''));
+
+  FOREACH v_candidate IN ARRAY ARRAY[v_clean, v_base] LOOP
+    SELECT name INTO v_name FROM public.skills WHERE name_key = public.skill_key(v_candidate);
+    IF v_name IS NULL THEN
+      SELECT s.name INTO v_name
+      FROM public.skill_aliases a JOIN public.skills s ON s.id = a.skill_id
+      WHERE a.alias_key = public.skill_key(v_candidate);
+    END IF;
+    IF v_name IS NOT NULL THEN
+      RETURN v_name;
+    END IF;
+  END LOOP;
+  RETURN v_clean;
+END;
+$$;
+
+-- Normalizes a skill list, dropping blanks and duplicates and keeping first-seen order
+CREATE OR REPLACE FUNCTION public.normalize_skills(p_skills TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+STRICT
+SET search_path = ''
+AS $$
+  SELECT COALESCE(array_agg(d.name ORDER BY d.ord), '{}')
+  FROM (
+    SELECT DISTINCT ON (public.skill_key(n.name)) n.name, t.ord
+    FROM unnest(p_skills) WITH ORDINALITY AS t(raw, ord)
+    CROSS JOIN LATERAL (SELECT public.normalize_skill(t.raw) AS name) n
+    WHERE n.name IS NOT NULL
+    ORDER BY public.skill_key(n.name), t.ord
+  ) d;
+$$;
+
+-- Every write path (analysis worker, company job forms, manual edits) stores canonical names
+CREATE OR REPLACE FUNCTION public.normalize_resume_skills()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.skills := public.normalize_skills(NEW.skills);
+  NEW.missing_skills := public.normalize_skills(NEW.missing_skills);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_job_skills()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.required_skills := public.normalize_skills(NEW.required_skills);
+  NEW.nice_to_have_skills := public.normalize_skills(NEW.nice_to_have_skills);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_resume_skills
+  BEFORE INSERT OR UPDATE OF skills, missing_skills ON public.resumes
+  FOR EACH ROW EXECUTE FUNCTION public.normalize_resume_skills();
+
+CREATE TRIGGER normalize_job_skills
+  BEFORE INSERT OR UPDATE OF required_skills, nice_to_have_skills ON public.jobs
+  FOR EACH ROW EXECUTE FUNCTION public.normalize_job_skills();
+
+-- Re-applies the taxonomy to stored rows after aliases change; returns how many rows moved
+CREATE OR REPLACE FUNCTION public.renormalize_skills()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_resumes INTEGER;
+  v_jobs INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND user_type = 'hr') THEN
+    RAISE EXCEPTION 'Only HR users can re-normalize skills' USING ERRCODE = '42501';
+  END IF;
+
+  -- The triggers do the normalizing; only rows whose value would change are touched
+  UPDATE public.resumes SET skills = skills, missing_skills = missing_skills
+  WHERE skills IS DISTINCT FROM public.normalize_skills(skills)
+    OR missing_skills IS DISTINCT FROM public.normalize_skills(missing_skills);
+  GET DIAGNOSTICS v_resumes = ROW_COUNT;
+
+  UPDATE public.jobs SET required_skills = required_skills, nice_to_have_skills = nice_to_have_skills
+  WHERE required_skills IS DISTINCT FROM public.normalize_skills(required_skills)
+    OR nice_to_have_skills IS DISTINCT FROM public.normalize_skills(nice_to_have_skills);
+  GET DIAGNOSTICS v_jobs = ROW_COUNT;
+
+  RETURN jsonb_build_object('resumes', v_resumes, 'jobs', v_jobs);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.renormalize_skills() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.renormalize_skills() TO authenticated;
+
+-- Seed: the analyzer's keyword lists (SKILL_KEYWORDS in _shared/resume/keywords.ts) plus common aliases
+INSERT INTO public.skills (name, category) VALUES
+  ('P&L Management', 'Executive Leadership'),
+  ('Strategic Planning', 'Executive Leadership'),
+  ('Board Reporting', 'Executive Leadership'),
+  ('M&A', 'Executive Leadership'),
+  ('Change Management', 'Executive Leadership'),
+  ('Organizational Design', 'Executive Leadership'),
+  ('OKRs', 'Executive Leadership'),
+  ('Fundraising', 'Executive Leadership'),
+  ('Lean', 'Business & Operations'),
+  ('Six Sigma', 'Business & Operations'),
+  ('Supply Chain', 'Business & Operations'),
+  ('Procurement', 'Business & Operations'),
+  ('Logistics', 'Business & Operations'),
+  ('ERP', 'Business & Operations'),
+  ('SAP', 'Business & Operations'),
+  ('Vendor Management', 'Business & Operations'),
+  ('Process Improvement', 'Business & Operations'),
+  ('Project Management', 'Business & Operations'),
+  ('PMP', 'Business & Operations'),
+  ('Agile', 'Business & Operations'),
+  ('Scrum', 'Business & Operations'),
+  ('Jira', 'Business & Operations'),
+  ('Salesforce', 'Sales & BD'),
+  ('HubSpot', 'Sales & BD'),
+  ('CRM', 'Sales & BD'),
+  ('Lead Generation', 'Sales & BD'),
+  ('Account Management', 'Sales & BD'),
+  ('Pipeline Management', 'Sales & BD'),
+  ('Negotiation', 'Sales & BD'),
+  ('B2B Sales', 'Sales & BD'),
+  ('SaaS Sales', 'Sales & BD'),
+  ('Forecasting', 'Sales & BD'),
+  ('SEO', 'Marketing & Brand'),
+  ('SEM', 'Marketing & Brand'),
+  ('Google Analytics', 'Marketing & Brand'),
+  ('Google Ads', 'Marketing & Brand'),
+  ('Content Marketing', 'Marketing & Brand'),
+  ('Email Marketing', 'Marketing & Brand'),
+  ('Social Media Marketing', 'Marketing & Brand'),
+  ('Brand Strategy', 'Marketing & Brand'),
+  ('Marketo', 'Marketing & Brand'),
+  ('A/B Testing', 'Marketing & Brand'),
+  ('Market Research', 'Marketing & Brand'),
+  ('Zendesk', 'Customer Experience'),
+  ('Intercom', 'Customer Experience'),
+  ('Customer Success', 'Customer Experience'),
+  ('NPS', 'Customer Experience'),
+  ('CSAT', 'Customer Experience'),
+  ('Customer Support', 'Customer Experience'),
+  ('Onboarding', 'Customer Experience'),
+  ('Retention', 'Customer Experience'),
+  ('Financial Modeling', 'Finance & Accounting'),
+  ('Budgeting', 'Finance & Accounting'),
+  ('FP&A', 'Finance & Accounting'),
+  ('GAAP', 'Finance & Accounting'),
+  ('IFRS', 'Finance & Accounting'),
+  ('QuickBooks', 'Finance & Accounting'),
+  ('Tally', 'Finance & Accounting'),
+  ('Excel', 'Finance & Accounting'),
+  ('Auditing', 'Finance & Accounting'),
+  ('Taxation', 'Finance & Accounting'),
+  ('Accounts Payable', 'Finance & Accounting'),
+  ('Accounts Receivable', 'Finance & Accounting'),
+  ('Valuation', 'Finance & Accounting'),
+  ('CPA', 'Finance & Accounting'),
+  ('CFA', 'Finance & Accounting'),
+  ('Figma', 'Creative & Design'),
+  ('Sketch', 'Creative & Design'),
+  ('Adobe Photoshop', 'Creative & Design'),
+  ('Adobe Illustrator', 'Creative & Design'),
+  ('Adobe XD', 'Creative & Design'),
+  ('InDesign', 'Creative & Design'),
+  ('UX Research', 'Creative & Design'),
+  ('UI Design', 'Creative & Design'),
+  ('Wireframing', 'Creative & Design'),
+  ('Prototyping', 'Creative & Design'),
+  ('Motion Graphics', 'Creative & Design'),
+  ('Typography', 'Creative & Design'),
+  ('Contract Negotiation', 'Legal & Compliance'),
+  ('Contract Drafting', 'Legal & Compliance'),
+  ('Litigation', 'Legal & Compliance'),
+  ('Regulatory Compliance', 'Legal & Compliance'),
+  ('GDPR', 'Legal & Compliance'),
+  ('SOX', 'Legal & Compliance'),
+  ('KYC', 'Legal & Compliance'),
+  ('AML', 'Legal & Compliance'),
+  ('Corporate Law', 'Legal & Compliance'),
+  ('Intellectual Property', 'Legal & Compliance'),
+  ('Risk Assessment', 'Legal & Compliance'),
+  ('EMR', 'Healthcare & Education'),
+  ('EHR', 'Healthcare & Education'),
+  ('HIPAA', 'Healthcare & Education'),
+  ('Patient Care', 'Healthcare & Education'),
+  ('Clinical Research', 'Healthcare & Education'),
+  ('Nursing', 'Healthcare & Education'),
+  ('Pharmacology', 'Healthcare & Education'),
+  ('Curriculum Development', 'Healthcare & Education'),
+  ('Lesson Planning', 'Healthcare & Education'),
+  ('Instructional Design', 'Healthcare & Education'),
+  ('LMS', 'Healthcare & Education'),
+  ('JavaScript', 'Technology'),
+  ('TypeScript', 'Technology'),
+  ('Python', 'Technology'),
+  ('Java', 'Technology'),
+  ('C#', 'Technology'),
+  ('C++', 'Technology'),
+  ('Golang', 'Technology'),
+  ('Rust', 'Technology'),
+  ('Ruby', 'Technology'),
+  ('PHP', 'Technology'),
+  ('Kotlin', 'Technology'),
+  ('Swift', 'Technology'),
+  ('SQL', 'Technology'),
+  ('PostgreSQL', 'Technology'),
+  ('MySQL', 'Technology'),
+  ('MongoDB', 'Technology'),
+  ('Redis', 'Technology'),
+  ('React', 'Technology'),
+  ('Angular', 'Technology'),
+  ('Vue.js', 'Technology'),
+  ('Node.js', 'Technology'),
+  ('Django', 'Technology'),
+  ('Flask', 'Technology'),
+  ('Spring Boot', 'Technology'),
+  ('.NET', 'Technology'),
+  ('GraphQL', 'Technology'),
+  ('REST APIs', 'Technology'),
+  ('AWS', 'Technology'),
+  ('Azure', 'Technology'),
+  ('GCP', 'Technology'),
+  ('Docker', 'Technology'),
+  ('Kubernetes', 'Technology'),
+  ('Terraform', 'Technology'),
+  ('CI/CD', 'Technology'),
+  ('Git', 'Technology'),
+  ('Linux', 'Technology'),
+  ('Machine Learning', 'Technology'),
+  ('TensorFlow', 'Technology'),
+  ('PyTorch', 'Technology'),
+  ('Pandas', 'Technology'),
+  ('Spark', 'Technology'),
+  ('Tableau', 'Technology'),
+  ('Power BI', 'Technology'),
+  ('Data Analysis', 'Technology');
+
+INSERT INTO public.skill_aliases (skill_id, alias)
+SELECT s.id, a.alias
+FROM (VALUES
+  ('JavaScript', 'JS'),
+  ('JavaScript', 'Javascript'),
+  ('JavaScript', 'ECMAScript'),
+  ('JavaScript', 'ES6'),
+  ('JavaScript', 'ES2015'),
+  ('JavaScript', 'Vanilla JS'),
+  ('TypeScript', 'TS'),
+  ('Python', 'Python3'),
+  ('Python', 'Py'),
+  ('Golang', 'Go'),
+  ('Golang', 'Go Lang'),
+  ('C#', 'C Sharp'),
+  ('C#', 'CSharp'),
+  ('C++', 'CPP'),
+  ('C++', 'C plus plus'),
+  ('PostgreSQL', 'Postgres'),
+  ('PostgreSQL', 'Postgre SQL'),
+  ('PostgreSQL', 'psql'),
+  ('MySQL', 'My SQL'),
+  ('MongoDB', 'Mongo'),
+  ('React', 'ReactJS'),
+  ('React', 'React.js'),
+  ('React', 'React JS'),
+  ('Angular', 'AngularJS'),
+  ('Angular', 'Angular.js'),
+  ('Vue.js', 'Vue'),
+  ('Vue.js', 'VueJS'),
+  ('Vue.js', 'Vue JS'),
+  ('Node.js', 'Node'),
+  ('Node.js', 'NodeJS'),
+  ('Node.js', 'Node JS'),
+  ('Spring Boot', 'Springboot'),
+  ('Spring Boot', 'Spring'),
+  ('.NET', 'dotnet'),
+  ('.NET', '.NET Core'),
+  ('.NET', '.NET Framework'),
+  ('GraphQL', 'Graph QL'),
+  ('REST APIs', 'REST'),
+  ('REST APIs', 'REST API'),
+  ('REST APIs', 'RESTful'),
+  ('REST APIs', 'RESTful APIs'),
+  ('AWS', 'Amazon Web Services'),
+  ('Azure', 'Microsoft Azure'),
+  ('GCP', 'Google Cloud'),
+  ('GCP', 'Google Cloud Platform'),
+  ('Kubernetes', 'K8s'),
+  ('CI/CD', 'CICD'),
+  ('CI/CD', 'Continuous Integration'),
+  ('CI/CD', 'Continuous Delivery'),
+  ('Machine Learning', 'ML'),
+  ('TensorFlow', 'Tensor Flow'),
+  ('Power BI', 'PowerBI'),
+  ('Power BI', 'Microsoft Power BI'),
+  ('Excel', 'Microsoft Excel'),
+  ('Excel', 'MS Excel'),
+  ('Salesforce', 'SFDC'),
+  ('Salesforce', 'Salesforce CRM'),
+  ('SEO', 'Search Engine Optimization'),
+  ('SEM', 'Search Engine Marketing'),
+  ('Google Analytics', 'GA4'),
+  ('PMP', 'Project Management Professional'),
+  ('FP&A', 'Financial Planning and Analysis'),
+  ('FP&A', 'Financial Planning & Analysis'),
+  ('GAAP', 'US GAAP'),
+  ('M&A', 'Mergers and Acquisitions'),
+  ('M&A', 'Mergers & Acquisitions'),
+  ('P&L Management', 'P&L'),
+  ('P&L Management', 'Profit and Loss Management'),
+  ('OKRs', 'OKR'),
+  ('OKRs', 'Objectives and Key Results'),
+  ('A/B Testing', 'AB Testing'),
+  ('A/B Testing', 'Split Testing'),
+  ('Adobe Photoshop', 'Photoshop'),
+  ('Adobe Illustrator', 'Illustrator'),
+  ('InDesign', 'Adobe InDesign'),
+  ('UX Research', 'User Research'),
+  ('UI Design', 'User Interface Design'),
+  ('EMR', 'Electronic Medical Records'),
+  ('EHR', 'Electronic Health Records'),
+  ('LMS', 'Learning Management System'),
+  ('KYC', 'Know Your Customer'),
+  ('AML', 'Anti-Money Laundering'),
+  ('AML', 'Anti Money Laundering'),
+  ('GDPR', 'General Data Protection Regulation'),
+  ('NPS', 'Net Promoter Score'),
+  ('CSAT', 'Customer Satisfaction Score'),
+  ('CRM', 'Customer Relationship Management'),
+  ('ERP', 'Enterprise Resource Planning'),
+  ('Data Analysis', 'Data Analytics'),
+  ('Tableau', 'Tableau Desktop')
+) AS a(name, alias)
+JOIN public.skills s ON s.name = a.name;
+
+UPDATE public.skills s SET parent_id = p.id
+FROM (VALUES
+  ('TypeScript', 'JavaScript'),
+  ('React', 'JavaScript'),
+  ('Vue.js', 'JavaScript'),
+  ('Node.js', 'JavaScript'),
+  ('Angular', 'TypeScript'),
+  ('Django', 'Python'),
+  ('Flask', 'Python'),
+  ('Pandas', 'Python'),
+  ('Spring Boot', 'Java'),
+  ('PostgreSQL', 'SQL'),
+  ('MySQL', 'SQL'),
+  ('Scrum', 'Agile'),
+  ('TensorFlow', 'Machine Learning'),
+  ('PyTorch', 'Machine Learning'),
+  ('Salesforce', 'CRM'),
+  ('HubSpot', 'CRM'),
+  ('SAP', 'ERP'),
+  ('Google Ads', 'SEM')
+) AS r(child, parent)
+JOIN public.skills p ON p.name = r.parent
+WHERE s.name = r.child;
+
+-- Backfill existing rows
+UPDATE public.resumes SET skills = skills, missing_skills = missing_skills
+WHERE skills IS DISTINCT FROM public.normalize_skills(skills)
+  OR missing_skills IS DISTINCT FROM public.normalize_skills(missing_skills);
+
+UPDATE public.jobs SET required_skills = required_skills, nice_to_have_skills = nice_to_have_skills
+WHERE required_skills IS DISTINCT FROM public.normalize_skills(required_skills)
+  OR nice_to_have_skills IS DISTINCT FROM public.normalize_skills(nice_to_have_skills);
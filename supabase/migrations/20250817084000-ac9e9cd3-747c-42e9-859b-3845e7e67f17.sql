@@ -0,0 +1,19 @@
+-- Content-addressed cache of resume analyses. Re-uploading an identical file (same SHA-256)
+-- reuses its extracted text and, for the same prompt version and provider, the model's output.
+CREATE TABLE public.resume_analysis_cache (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  content_hash TEXT NOT NULL, -- hex SHA-256 of the uploaded file
+  prompt_version TEXT NOT NULL, -- PROMPT_VERSION in _shared/llm/prompts.ts
+  provider TEXT NOT NULL, -- provider name, plus "/model" for multi-model providers
+  extracted_text TEXT NOT NULL,
+  analysis JSONB NOT NULL, -- raw provider output; sanitized again on every read
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_hit_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (content_hash, prompt_version, provider)
+);
+
+-- Hash lookups use the unique index; this one serves evicting entries that stopped being hit
+CREATE INDEX idx_resume_analysis_cache_last_hit_at ON public.resume_analysis_cache (last_hit_at);
+
+-- Holds full resume text: only the edge functions (service role) read or write it
+ALTER TABLE public.resume_analysis_cache ENABLE ROW LEVEL SECURITY;
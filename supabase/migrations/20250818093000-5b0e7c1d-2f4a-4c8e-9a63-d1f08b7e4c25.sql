@@ -0,0 +1,116 @@
+-- Resume documents group uploads of the same resume into numbered versions. Every upload is
+-- still its own public.resumes row (with its own file and analysis); a new upload either starts
+-- a document or becomes the next version of one.
+CREATE TABLE public.resume_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_resume_documents_user_id ON public.resume_documents (user_id);
+
+CREATE TRIGGER update_resume_documents_updated_at BEFORE UPDATE ON public.resume_documents FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.resume_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own resume documents" ON public.resume_documents
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own resume documents" ON public.resume_documents
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Documents are created by the resumes insert trigger and never deleted by users: a version
+-- an application was submitted with must outlive its document being "deleted".
+
+ALTER TABLE public.resumes
+  ADD COLUMN document_id UUID REFERENCES public.resume_documents(id) ON DELETE CASCADE,
+  ADD COLUMN version INTEGER,
+  -- Set instead of deleting a version that applications still point at
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing uploads become version 1 of their own document, reusing the resume's id
+INSERT INTO public.resume_documents (id, user_id, title, created_at, updated_at)
+SELECT id, user_id, regexp_replace(file_name, '\.[^.]*$', ''), created_at, updated_at
+FROM public.resumes;
+
+UPDATE public.resumes SET document_id = id, version = 1;
+
+ALTER TABLE public.resumes
+  ALTER COLUMN document_id SET NOT NULL,
+  ALTER COLUMN version SET NOT NULL,
+  ADD CONSTRAINT resumes_document_version_key UNIQUE (document_id, version);
+
+-- Applications pin the exact version they were submitted with; such a version is archived,
+-- never deleted, so the employer keeps seeing what the candidate sent
+ALTER TABLE public.job_applications
+  DROP CONSTRAINT job_applications_resume_id_fkey,
+  ADD CONSTRAINT job_applications_resume_id_fkey
+    FOREIGN KEY (resume_id) REFERENCES public.resumes(id) ON DELETE RESTRICT;
+
+-- Puts a new upload into its document: a fresh document when none is given, otherwise the
+-- next version of the caller's document. The document row lock serializes concurrent uploads.
+CREATE OR REPLACE FUNCTION public.assign_resume_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.document_id IS NULL THEN
+    INSERT INTO public.resume_documents (user_id, title)
+    VALUES (NEW.user_id, regexp_replace(NEW.file_name, '\.[^.]*$', ''))
+    RETURNING id INTO NEW.document_id;
+    NEW.version := 1;
+    RETURN NEW;
+  END IF;
+
+  PERFORM 1 FROM public.resume_documents
+  WHERE id = NEW.document_id AND user_id = NEW.user_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resume document not found';
+  END IF;
+
+  SELECT COALESCE(max(version), 0) + 1 INTO NEW.version
+  FROM public.resumes
+  WHERE document_id = NEW.document_id;
+
+  UPDATE public.resume_documents SET updated_at = now() WHERE id = NEW.document_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_resume_version
+  BEFORE INSERT ON public.resumes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_resume_version();
+
+-- Removes a version for its owner. Versions referenced by an application are archived and keep
+-- their file; returns 'deleted' when the row is gone and its file can be removed from storage.
+CREATE OR REPLACE FUNCTION public.delete_resume_version(p_resume_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.resumes WHERE id = p_resume_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Resume not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.job_applications WHERE resume_id = p_resume_id) THEN
+    UPDATE public.resumes SET archived_at = now() WHERE id = p_resume_id AND archived_at IS NULL;
+    RETURN 'archived';
+  END IF;
+
+  DELETE FROM public.resumes WHERE id = p_resume_id;
+  RETURN 'deleted';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_resume_version(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.delete_resume_version(UUID) TO authenticated;
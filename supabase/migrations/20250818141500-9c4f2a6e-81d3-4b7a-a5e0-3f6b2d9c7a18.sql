@@ -0,0 +1,33 @@
+-- Structured resumes edited in the in-app builder. Exporting a draft renders a PDF/DOCX into
+-- the resumes bucket and inserts a public.resumes row (see the render-resume function); the
+-- first export starts a resume document and later exports become its next versions.
+CREATE TABLE public.resume_drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  document_id UUID REFERENCES public.resume_documents(id) ON DELETE SET NULL,
+  title TEXT NOT NULL DEFAULT 'My Resume',
+  template TEXT NOT NULL DEFAULT 'classic' CHECK (template IN ('classic', 'modern', 'compact')),
+  content JSONB NOT NULL DEFAULT '{}'::jsonb, -- ResumeDraftContent in _shared/builder/draft.ts
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_resume_drafts_user_id ON public.resume_drafts (user_id);
+
+CREATE TRIGGER update_resume_drafts_updated_at BEFORE UPDATE ON public.resume_drafts FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.resume_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own resume drafts" ON public.resume_drafts
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- A document_id pointing at someone else's document only makes exports fail: the resumes
+-- insert trigger (assign_resume_version) rejects documents the user does not own
+CREATE POLICY "Users can create their own resume drafts" ON public.resume_drafts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own resume drafts" ON public.resume_drafts
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own resume drafts" ON public.resume_drafts
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,189 @@
+-- One application status model (mirrored in src/lib/applicationStatus.ts):
+--   applied -> screening -> interview -> offer -> hired
+-- with rejected and withdrawn reachable from any open status. A trigger enforces the
+-- transitions and who may make them, and stamps viewed_at and response_date.
+
+ALTER TABLE public.job_applications DROP CONSTRAINT job_applications_status_check;
+
+UPDATE public.job_applications
+SET status = CASE status
+  WHEN 'pending' THEN 'applied'
+  WHEN 'reviewed' THEN 'screening'
+  WHEN 'accepted' THEN 'hired'
+  ELSE status
+END
+WHERE status IN ('pending', 'reviewed', 'accepted');
+
+-- Past statuses imply the employer already looked at or answered the application
+UPDATE public.job_applications
+SET viewed_at = COALESCE(viewed_at, updated_at),
+    response_date = CASE
+      WHEN status IN ('interview', 'offer', 'hired', 'rejected') THEN COALESCE(response_date, updated_at)
+      ELSE response_date
+    END
+WHERE status <> 'applied';
+
+ALTER TABLE public.job_applications
+  ALTER COLUMN status SET DEFAULT 'applied',
+  ADD CONSTRAINT job_applications_status_check
+    CHECK (status IN ('applied', 'screening', 'interview', 'offer', 'hired', 'rejected', 'withdrawn'));
+
+-- Applicants may only withdraw; every other move belongs to the job's company (or HR). The
+-- service role, which has no auth.uid(), is trusted. viewed_at is set on the employer's first
+-- action or when the employer marks the application viewed, response_date on their first
+-- answer (interview, offer, hired or rejected); neither can be set or cleared by hand.
+CREATE OR REPLACE FUNCTION public.enforce_application_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_actor UUID := auth.uid();
+  v_is_employer BOOLEAN := auth.uid() IS NULL;
+BEGIN
+  IF NEW.job_id <> OLD.job_id OR NEW.applicant_id <> OLD.applicant_id OR NEW.resume_id IS DISTINCT FROM OLD.resume_id THEN
+    RAISE EXCEPTION 'The job, applicant and resume of an application cannot be changed';
+  END IF;
+
+  IF v_actor IS NOT NULL THEN
+    v_is_employer := EXISTS (SELECT 1 FROM public.jobs WHERE id = NEW.job_id AND company_id = v_actor)
+      OR EXISTS (SELECT 1 FROM public.profiles WHERE id = v_actor AND user_type = 'hr');
+  END IF;
+
+  NEW.viewed_at := CASE
+    WHEN OLD.viewed_at IS NULL AND NEW.viewed_at IS NOT NULL AND v_is_employer THEN now()
+    ELSE OLD.viewed_at
+  END;
+  NEW.response_date := OLD.response_date;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (NEW.status = ANY (CASE OLD.status
+    WHEN 'applied' THEN ARRAY['screening', 'rejected', 'withdrawn']
+    WHEN 'screening' THEN ARRAY['interview', 'rejected', 'withdrawn']
+    WHEN 'interview' THEN ARRAY['offer', 'rejected', 'withdrawn']
+    WHEN 'offer' THEN ARRAY['hired', 'rejected', 'withdrawn']
+    ELSE ARRAY[]::TEXT[]
+  END)) THEN
+    RAISE EXCEPTION 'An application cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF v_actor IS NOT NULL THEN
+    IF NEW.status = 'withdrawn' AND v_actor <> NEW.applicant_id THEN
+      RAISE EXCEPTION 'Only the applicant can withdraw an application' USING ERRCODE = '42501';
+    END IF;
+    IF NEW.status <> 'withdrawn' AND NOT v_is_employer THEN
+      RAISE EXCEPTION 'Only the employer can change the status of an application' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  IF NEW.status <> 'withdrawn' THEN
+    NEW.viewed_at := COALESCE(NEW.viewed_at, now());
+  END IF;
+  IF NEW.status IN ('interview', 'offer', 'hired', 'rejected') THEN
+    NEW.response_date := COALESCE(NEW.response_date, now());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_application_status
+  BEFORE UPDATE ON public.job_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_application_status();
+
+-- New applications start as applied; HR referrals skip straight to screening
+CREATE OR REPLACE FUNCTION public.submit_application(
+  p_job_id UUID,
+  p_resume_id UUID DEFAULT NULL,
+  p_cover_letter TEXT DEFAULT NULL,
+  p_applicant_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_free_applications CONSTANT INTEGER := 3;
+  v_caller UUID := auth.uid();
+  v_applicant UUID := COALESCE(p_applicant_id, auth.uid());
+  v_is_referral BOOLEAN := p_applicant_id IS NOT NULL AND p_applicant_id <> auth.uid();
+  v_applicant_profile public.profiles%ROWTYPE;
+  v_resume_id UUID := p_resume_id;
+  v_application_id UUID;
+BEGIN
+  IF v_caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_is_referral AND NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = v_caller AND user_type = 'hr'
+  ) THEN
+    RAISE EXCEPTION 'Only HR users can refer candidates' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_applicant_profile FROM public.profiles WHERE id = v_applicant FOR UPDATE;
+  IF NOT FOUND OR v_applicant_profile.user_type <> 'job_seeker' THEN
+    RAISE EXCEPTION 'Only job seekers can apply for jobs';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.jobs WHERE id = p_job_id AND status = 'active') THEN
+    RAISE EXCEPTION 'This job is no longer accepting applications';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.job_applications WHERE job_id = p_job_id AND applicant_id = v_applicant
+  ) THEN
+    RAISE EXCEPTION '%', CASE WHEN v_is_referral
+      THEN 'Candidate already applied or referred to this job'
+      ELSE 'You have already applied to this job' END;
+  END IF;
+
+  IF v_resume_id IS NULL THEN
+    SELECT id INTO v_resume_id FROM public.resumes
+    WHERE user_id = v_applicant AND archived_at IS NULL
+    ORDER BY created_at DESC
+    LIMIT 1;
+    IF v_resume_id IS NULL THEN
+      RAISE EXCEPTION '%', CASE WHEN v_is_referral
+        THEN 'This candidate has not uploaded a resume'
+        ELSE 'Please upload a resume before applying to jobs' END;
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.resumes WHERE id = v_resume_id AND user_id = v_applicant AND archived_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Resume not found';
+  END IF;
+
+  IF NOT v_is_referral THEN
+    IF NOT (
+      COALESCE(v_applicant_profile.is_premium, false)
+      AND (v_applicant_profile.premium_expires_at IS NULL OR v_applicant_profile.premium_expires_at > now())
+    ) AND COALESCE(v_applicant_profile.applications_count, 0) >= v_free_applications THEN
+      RAISE EXCEPTION 'You have reached your free application limit. Please upgrade to premium to apply for more jobs.';
+    END IF;
+
+    UPDATE public.profiles
+    SET applications_count = COALESCE(applications_count, 0) + 1
+    WHERE id = v_applicant;
+  END IF;
+
+  INSERT INTO public.job_applications (job_id, applicant_id, resume_id, cover_letter, status)
+  VALUES (
+    p_job_id,
+    v_applicant,
+    v_resume_id,
+    CASE WHEN v_is_referral
+      THEN COALESCE(NULLIF(btrim(p_cover_letter), ''), 'Referred by HR')
+      ELSE NULLIF(btrim(p_cover_letter), '') END,
+    CASE WHEN v_is_referral THEN 'screening' ELSE 'applied' END
+  )
+  RETURNING id INTO v_application_id;
+
+  RETURN v_application_id;
+END;
+$$;
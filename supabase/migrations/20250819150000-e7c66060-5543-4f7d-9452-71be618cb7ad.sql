@@ -0,0 +1,117 @@
+-- Append-only history of each application: submission, status changes, the employer's first
+-- view, internal notes and messages between candidate and employer. Submission, status and
+-- view events are written by triggers on job_applications; notes and messages are inserted by
+-- users, with actor and time stamped by trigger so neither can be forged.
+CREATE TABLE public.application_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  application_id UUID NOT NULL REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL, -- NULL for system changes
+  event_type TEXT NOT NULL CHECK (event_type IN ('submitted', 'status_changed', 'viewed', 'note', 'message')),
+  from_status TEXT,
+  to_status TEXT,
+  body TEXT CHECK (char_length(body) <= 4000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (event_type NOT IN ('note', 'message') OR char_length(btrim(body)) > 0)
+);
+
+CREATE INDEX idx_application_events_application_id ON public.application_events (application_id, created_at);
+
+-- 'applicant' or 'employer' (the job's company or an HR user) for the caller, NULL otherwise
+CREATE OR REPLACE FUNCTION public.application_role(p_application_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.job_applications a
+      JOIN public.jobs j ON j.id = a.job_id
+      WHERE a.id = p_application_id AND j.company_id = auth.uid()
+    ) OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND user_type = 'hr') THEN 'employer'
+    WHEN EXISTS (
+      SELECT 1 FROM public.job_applications WHERE id = p_application_id AND applicant_id = auth.uid()
+    ) THEN 'applicant'
+  END;
+$$;
+
+ALTER TABLE public.application_events ENABLE ROW LEVEL SECURITY;
+
+-- Notes are the employer's internal comments; candidates see everything else
+CREATE POLICY "Participants can view application events" ON public.application_events
+  FOR SELECT USING (
+    public.application_role(application_id) = 'employer'
+    OR (public.application_role(application_id) = 'applicant' AND event_type <> 'note')
+  );
+
+CREATE POLICY "Participants can add messages and notes" ON public.application_events
+  FOR INSERT WITH CHECK (
+    (event_type = 'message' AND public.application_role(application_id) IS NOT NULL)
+    OR (event_type = 'note' AND public.application_role(application_id) = 'employer')
+  );
+
+CREATE OR REPLACE FUNCTION public.stamp_application_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.actor_id := auth.uid();
+  NEW.created_at := now();
+  NEW.from_status := NULL;
+  NEW.to_status := NULL;
+  NEW.body := btrim(NEW.body);
+  RETURN NEW;
+END;
+$$;
+
+-- Only for rows inserted by users; the SECURITY DEFINER triggers below write as the owner
+CREATE TRIGGER stamp_application_event
+  BEFORE INSERT ON public.application_events
+  FOR EACH ROW
+  WHEN (current_user IN ('anon', 'authenticated'))
+  EXECUTE FUNCTION public.stamp_application_event();
+
+CREATE OR REPLACE FUNCTION public.log_application_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.application_events (application_id, actor_id, event_type, to_status)
+    VALUES (NEW.id, auth.uid(), 'submitted', NEW.status);
+    RETURN NEW;
+  END IF;
+
+  IF OLD.viewed_at IS NULL AND NEW.viewed_at IS NOT NULL THEN
+    INSERT INTO public.application_events (application_id, actor_id, event_type, created_at)
+    VALUES (NEW.id, auth.uid(), 'viewed', NEW.viewed_at);
+  END IF;
+
+  IF NEW.status <> OLD.status THEN
+    INSERT INTO public.application_events (application_id, actor_id, event_type, from_status, to_status)
+    VALUES (NEW.id, auth.uid(), 'status_changed', OLD.status, NEW.status);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_application_event
+  AFTER INSERT OR UPDATE ON public.job_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_application_event();
+
+-- Existing applications get what can still be reconstructed, without an actor
+INSERT INTO public.application_events (application_id, event_type, to_status, created_at)
+SELECT id, 'submitted', 'applied', created_at FROM public.job_applications;
+
+INSERT INTO public.application_events (application_id, event_type, created_at)
+SELECT id, 'viewed', viewed_at FROM public.job_applications WHERE viewed_at IS NOT NULL;
+
+INSERT INTO public.application_events (application_id, event_type, from_status, to_status, created_at)
+SELECT id, 'status_changed', 'applied', status, COALESCE(response_date, updated_at)
+FROM public.job_applications
+WHERE status <> 'applied';
@@ -0,0 +1,9 @@
+-- The applicant pipeline lists every job a company owns, not just the active ones, and shows
+-- the analysis of each submitted resume. Resume rows follow the same rule as their structure
+-- tables: owners, companies the resume was submitted to, and HR users.
+
+CREATE POLICY "Companies can view their own jobs" ON public.jobs
+  FOR SELECT USING (auth.uid() = company_id);
+
+CREATE POLICY "Permitted users can view resumes" ON public.resumes
+  FOR SELECT USING (public.can_view_resume(id));
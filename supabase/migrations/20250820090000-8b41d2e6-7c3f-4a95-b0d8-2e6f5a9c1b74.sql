@@ -0,0 +1,361 @@
+-- Interview scheduling. Employers publish availability slots per job; a candidate whose
+-- application is at the interview stage books one, which creates an interview carrying the
+-- slot's time, place and interviewers. Booking, rescheduling and cancelling go through the
+-- functions below, and triggers keep a candidate or an interviewer from being double-booked.
+
+-- The job's company or any HR user
+CREATE OR REPLACE FUNCTION public.is_job_employer(p_job_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.jobs WHERE id = p_job_id AND company_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND user_type = 'hr');
+$$;
+
+CREATE TABLE public.interview_slots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  round INTEGER NOT NULL DEFAULT 1 CHECK (round BETWEEN 1 AND 10),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA zone the slot was published in
+  location TEXT CHECK (char_length(location) <= 500),
+  video_url TEXT CHECK (char_length(video_url) <= 2000),
+  interviewers TEXT[] NOT NULL DEFAULT '{}', -- email addresses
+  is_booked BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at AND ends_at - starts_at <= interval '8 hours')
+);
+
+CREATE INDEX idx_interview_slots_job_id ON public.interview_slots (job_id, starts_at);
+
+CREATE TABLE public.interviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  application_id UUID NOT NULL REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  slot_id UUID REFERENCES public.interview_slots(id) ON DELETE SET NULL,
+  round INTEGER NOT NULL DEFAULT 1 CHECK (round BETWEEN 1 AND 10),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  location TEXT CHECK (char_length(location) <= 500),
+  video_url TEXT CHECK (char_length(video_url) <= 2000),
+  interviewers TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'cancelled')),
+  cancelled_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  cancel_reason TEXT CHECK (char_length(cancel_reason) <= 1000),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX idx_interviews_application_id ON public.interviews (application_id, starts_at);
+CREATE UNIQUE INDEX idx_interviews_slot_id ON public.interviews (slot_id) WHERE status = 'scheduled';
+
+CREATE TRIGGER update_interviews_updated_at BEFORE UPDATE ON public.interviews FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.interview_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.interviews ENABLE ROW LEVEL SECURITY;
+
+-- Candidates see the slots of jobs they applied to; booked slots stay visible but unavailable
+CREATE POLICY "Employers and applicants can view interview slots" ON public.interview_slots
+  FOR SELECT USING (
+    public.is_job_employer(job_id)
+    OR EXISTS (
+      SELECT 1 FROM public.job_applications
+      WHERE job_id = interview_slots.job_id AND applicant_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Employers can publish interview slots" ON public.interview_slots
+  FOR INSERT WITH CHECK (public.is_job_employer(job_id));
+
+CREATE POLICY "Employers can remove open interview slots" ON public.interview_slots
+  FOR DELETE USING (public.is_job_employer(job_id) AND NOT is_booked);
+
+-- Interviews are only written by the functions below
+CREATE POLICY "Participants can view interviews" ON public.interviews
+  FOR SELECT USING (public.application_role(application_id) IS NOT NULL);
+
+-- Trimmed, lower-cased, de-duplicated interviewer emails; also raises on an unknown time zone
+CREATE OR REPLACE FUNCTION public.normalize_interview_schedule()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM now() AT TIME ZONE NEW.timezone;
+  NEW.interviewers := ARRAY(
+    SELECT DISTINCT lower(btrim(email)) FROM unnest(NEW.interviewers) AS email WHERE btrim(email) <> ''
+  );
+  NEW.location := NULLIF(btrim(NEW.location), '');
+  NEW.video_url := NULLIF(btrim(NEW.video_url), '');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_interview_slot
+  BEFORE INSERT ON public.interview_slots
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_interview_schedule();
+
+CREATE TRIGGER normalize_interview
+  BEFORE INSERT OR UPDATE ON public.interviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_interview_schedule();
+
+-- Slots published by users start open, in the future, and can't double-book an interviewer
+-- who is already offered in another open slot or sits in a scheduled interview
+CREATE OR REPLACE FUNCTION public.validate_interview_slot()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.is_booked := false;
+  NEW.created_by := auth.uid();
+
+  IF NEW.starts_at <= now() THEN
+    RAISE EXCEPTION 'Interview slots must start in the future';
+  END IF;
+
+  IF cardinality(NEW.interviewers) > 0 AND (
+    EXISTS (
+      SELECT 1 FROM public.interview_slots
+      WHERE NOT is_booked
+        AND interviewers && NEW.interviewers
+        AND tstzrange(starts_at, ends_at) && tstzrange(NEW.starts_at, NEW.ends_at)
+    ) OR EXISTS (
+      SELECT 1 FROM public.interviews
+      WHERE status = 'scheduled'
+        AND interviewers && NEW.interviewers
+        AND tstzrange(starts_at, ends_at) && tstzrange(NEW.starts_at, NEW.ends_at)
+    )
+  ) THEN
+    RAISE EXCEPTION 'An interviewer is already busy between % and %', NEW.starts_at, NEW.ends_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire after normalize_interview_slot; triggers run in name order
+CREATE TRIGGER validate_interview_slot
+  BEFORE INSERT ON public.interview_slots
+  FOR EACH ROW
+  WHEN (current_user IN ('anon', 'authenticated'))
+  EXECUTE FUNCTION public.validate_interview_slot();
+
+CREATE OR REPLACE FUNCTION public.check_interview_conflicts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_applicant UUID;
+BEGIN
+  IF NEW.status <> 'scheduled' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT applicant_id INTO v_applicant FROM public.job_applications WHERE id = NEW.application_id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.interviews i
+    JOIN public.job_applications a ON a.id = i.application_id
+    WHERE i.id <> NEW.id
+      AND i.status = 'scheduled'
+      AND a.applicant_id = v_applicant
+      AND tstzrange(i.starts_at, i.ends_at) && tstzrange(NEW.starts_at, NEW.ends_at)
+  ) THEN
+    RAISE EXCEPTION 'The candidate already has an interview at that time';
+  END IF;
+
+  IF cardinality(NEW.interviewers) > 0 AND EXISTS (
+    SELECT 1 FROM public.interviews
+    WHERE id <> NEW.id
+      AND status = 'scheduled'
+      AND interviewers && NEW.interviewers
+      AND tstzrange(starts_at, ends_at) && tstzrange(NEW.starts_at, NEW.ends_at)
+  ) THEN
+    RAISE EXCEPTION 'An interviewer already has an interview at that time';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Fires after normalize_interview
+CREATE TRIGGER prevent_interview_conflicts
+  BEFORE INSERT OR UPDATE ON public.interviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_interview_conflicts();
+
+-- Books an open slot for the caller's application, which must be at the interview stage.
+-- Locking the slot serializes candidates racing for it. Returns the new interview id.
+CREATE OR REPLACE FUNCTION public.book_interview_slot(p_slot_id UUID, p_application_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_application public.job_applications%ROWTYPE;
+  v_slot public.interview_slots%ROWTYPE;
+  v_interview_id UUID;
+BEGIN
+  SELECT * INTO v_application FROM public.job_applications WHERE id = p_application_id;
+  IF NOT FOUND OR v_application.applicant_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+  IF v_application.status <> 'interview' THEN
+    RAISE EXCEPTION 'Interviews can be booked once the employer moves your application to the interview stage';
+  END IF;
+
+  SELECT * INTO v_slot FROM public.interview_slots WHERE id = p_slot_id FOR UPDATE;
+  IF NOT FOUND OR v_slot.job_id <> v_application.job_id THEN
+    RAISE EXCEPTION 'Interview slot not found';
+  END IF;
+  IF v_slot.is_booked OR v_slot.starts_at <= now() THEN
+    RAISE EXCEPTION 'This interview slot is no longer available';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.interviews
+    WHERE application_id = p_application_id AND round = v_slot.round AND status = 'scheduled'
+  ) THEN
+    RAISE EXCEPTION 'You already have a round % interview for this application; reschedule it instead', v_slot.round;
+  END IF;
+
+  INSERT INTO public.interviews (
+    application_id, slot_id, round, starts_at, ends_at, timezone, location, video_url, interviewers, created_by
+  )
+  VALUES (
+    p_application_id, v_slot.id, v_slot.round, v_slot.starts_at, v_slot.ends_at, v_slot.timezone,
+    v_slot.location, v_slot.video_url, v_slot.interviewers, auth.uid()
+  )
+  RETURNING id INTO v_interview_id;
+
+  UPDATE public.interview_slots SET is_booked = true WHERE id = v_slot.id;
+  RETURN v_interview_id;
+END;
+$$;
+
+-- Moves an upcoming interview to another open slot of the same job and frees the old one.
+-- Either the candidate or the employer may reschedule.
+CREATE OR REPLACE FUNCTION public.reschedule_interview(p_interview_id UUID, p_slot_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_interview public.interviews%ROWTYPE;
+  v_application public.job_applications%ROWTYPE;
+  v_slot public.interview_slots%ROWTYPE;
+BEGIN
+  SELECT * INTO v_interview FROM public.interviews WHERE id = p_interview_id FOR UPDATE;
+  IF NOT FOUND OR public.application_role(v_interview.application_id) IS NULL THEN
+    RAISE EXCEPTION 'Interview not found';
+  END IF;
+  IF v_interview.status <> 'scheduled' OR v_interview.starts_at <= now() THEN
+    RAISE EXCEPTION 'Only upcoming interviews can be rescheduled';
+  END IF;
+
+  SELECT * INTO v_application FROM public.job_applications WHERE id = v_interview.application_id;
+  IF v_application.status <> 'interview' THEN
+    RAISE EXCEPTION 'This application is no longer at the interview stage';
+  END IF;
+
+  SELECT * INTO v_slot FROM public.interview_slots WHERE id = p_slot_id FOR UPDATE;
+  IF NOT FOUND OR v_slot.job_id <> v_application.job_id THEN
+    RAISE EXCEPTION 'Interview slot not found';
+  END IF;
+  IF v_slot.is_booked OR v_slot.starts_at <= now() THEN
+    RAISE EXCEPTION 'This interview slot is no longer available';
+  END IF;
+
+  UPDATE public.interviews
+  SET slot_id = v_slot.id,
+      round = v_slot.round,
+      starts_at = v_slot.starts_at,
+      ends_at = v_slot.ends_at,
+      timezone = v_slot.timezone,
+      location = v_slot.location,
+      video_url = v_slot.video_url,
+      interviewers = v_slot.interviewers
+  WHERE id = p_interview_id;
+
+  UPDATE public.interview_slots SET is_booked = false WHERE id = v_interview.slot_id;
+  UPDATE public.interview_slots SET is_booked = true WHERE id = v_slot.id;
+END;
+$$;
+
+-- Cancels an upcoming interview and reopens its slot. Either participant may cancel.
+CREATE OR REPLACE FUNCTION public.cancel_interview(p_interview_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_interview public.interviews%ROWTYPE;
+BEGIN
+  SELECT * INTO v_interview FROM public.interviews WHERE id = p_interview_id FOR UPDATE;
+  IF NOT FOUND OR public.application_role(v_interview.application_id) IS NULL THEN
+    RAISE EXCEPTION 'Interview not found';
+  END IF;
+  IF v_interview.status <> 'scheduled' OR v_interview.ends_at <= now() THEN
+    RAISE EXCEPTION 'Only upcoming interviews can be cancelled';
+  END IF;
+
+  UPDATE public.interviews
+  SET status = 'cancelled',
+      cancelled_by = auth.uid(),
+      cancel_reason = NULLIF(btrim(p_reason), '')
+  WHERE id = p_interview_id;
+
+  UPDATE public.interview_slots SET is_booked = false WHERE id = v_interview.slot_id AND starts_at > now();
+END;
+$$;
+
+-- Rejected and withdrawn applications release their upcoming interviews
+CREATE OR REPLACE FUNCTION public.cancel_interviews_for_closed_application()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.interview_slots
+  SET is_booked = false
+  WHERE starts_at > now() AND id IN (
+    SELECT slot_id FROM public.interviews
+    WHERE application_id = NEW.id AND status = 'scheduled' AND starts_at > now()
+  );
+
+  UPDATE public.interviews
+  SET status = 'cancelled',
+      cancelled_by = auth.uid(),
+      cancel_reason = CASE NEW.status WHEN 'withdrawn' THEN 'Application withdrawn' ELSE 'Application closed' END
+  WHERE application_id = NEW.id AND status = 'scheduled' AND starts_at > now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cancel_interviews_for_closed_application
+  AFTER UPDATE OF status ON public.job_applications
+  FOR EACH ROW
+  WHEN (NEW.status IN ('rejected', 'withdrawn') AND OLD.status <> NEW.status)
+  EXECUTE FUNCTION public.cancel_interviews_for_closed_application();
+
+REVOKE EXECUTE ON FUNCTION public.book_interview_slot(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reschedule_interview(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.cancel_interview(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.book_interview_slot(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reschedule_interview(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_interview(UUID, TEXT) TO authenticated;
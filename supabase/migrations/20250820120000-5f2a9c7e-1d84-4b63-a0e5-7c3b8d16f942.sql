@@ -0,0 +1,38 @@
+-- Calendar invites for interviews. Every change a calendar would care about bumps the
+-- interview's sequence (the iCalendar SEQUENCE), and invited_sequence records the last one
+-- emailed, so the interview-invites function sends each create, update and cancel exactly once
+-- however the change was made.
+ALTER TABLE public.interviews
+  ADD COLUMN sequence INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN invited_sequence INTEGER;
+
+CREATE OR REPLACE FUNCTION public.bump_interview_sequence()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF (NEW.starts_at, NEW.ends_at, NEW.status, NEW.location, NEW.video_url, NEW.interviewers)
+    IS DISTINCT FROM (OLD.starts_at, OLD.ends_at, OLD.status, OLD.location, OLD.video_url, OLD.interviewers) THEN
+    NEW.sequence := OLD.sequence + 1;
+  ELSE
+    NEW.sequence := OLD.sequence;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_interview_sequence
+  BEFORE UPDATE ON public.interviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_interview_sequence();
+
+-- Secret per-user token for the subscribable interview feed. Only the interview-calendar
+-- function (service role) reads or rotates tokens, so there are no policies.
+CREATE TABLE public.calendar_feeds (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,247 @@
+-- Structured interview feedback and recorded hiring decisions. Each job has a scorecard
+-- template listing the competencies its interviewers rate from 1 to 5. Once an interview has
+-- started, each interviewer files one scorecard for it: a rating per competency, an overall
+-- recommendation and notes. Hiring or rejecting a candidate goes through
+-- record_hiring_decision(), which requires a written reason. All of it is internal to the
+-- employer; candidates never see scorecards or decision reasons.
+
+CREATE TABLE public.scorecard_templates (
+  job_id UUID NOT NULL PRIMARY KEY REFERENCES public.jobs(id) ON DELETE CASCADE,
+  competencies TEXT[] NOT NULL CHECK (cardinality(competencies) BETWEEN 1 AND 10),
+  updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.interview_scorecards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  interview_id UUID NOT NULL REFERENCES public.interviews(id) ON DELETE CASCADE,
+  application_id UUID NOT NULL REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  interviewer_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- Competency name to rating, e.g. {"Communication": 4}, for the competencies at filing time
+  ratings JSONB NOT NULL,
+  recommendation TEXT NOT NULL CHECK (recommendation IN ('strong_no', 'no', 'yes', 'strong_yes')),
+  notes TEXT CHECK (char_length(notes) <= 4000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (interview_id, interviewer_id)
+);
+
+CREATE INDEX idx_interview_scorecards_application_id ON public.interview_scorecards (application_id);
+
+CREATE TABLE public.hiring_decisions (
+  application_id UUID NOT NULL PRIMARY KEY REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  decision TEXT NOT NULL CHECK (decision IN ('hired', 'rejected')),
+  reason TEXT NOT NULL CHECK (char_length(reason) BETWEEN 10 AND 2000),
+  decided_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  decided_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- The job's template, or the defaults until the company sets one up (mirrored in
+-- src/lib/scorecards.ts)
+CREATE OR REPLACE FUNCTION public.scorecard_competencies(p_job_id UUID)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE(
+    (SELECT competencies FROM public.scorecard_templates WHERE job_id = p_job_id),
+    ARRAY['Role knowledge', 'Problem solving', 'Communication', 'Collaboration', 'Motivation']
+  );
+$$;
+
+ALTER TABLE public.scorecard_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.interview_scorecards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.hiring_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employers can view scorecard templates" ON public.scorecard_templates
+  FOR SELECT USING (public.is_job_employer(job_id));
+
+CREATE POLICY "Employers can create scorecard templates" ON public.scorecard_templates
+  FOR INSERT WITH CHECK (public.is_job_employer(job_id));
+
+CREATE POLICY "Employers can update scorecard templates" ON public.scorecard_templates
+  FOR UPDATE USING (public.is_job_employer(job_id));
+
+CREATE POLICY "Employers can view scorecards" ON public.interview_scorecards
+  FOR SELECT USING (public.application_role(application_id) = 'employer');
+
+CREATE POLICY "Employers can file scorecards" ON public.interview_scorecards
+  FOR INSERT WITH CHECK (public.application_role(application_id) = 'employer');
+
+CREATE POLICY "Interviewers can update their scorecards" ON public.interview_scorecards
+  FOR UPDATE USING (interviewer_id = auth.uid());
+
+-- Decisions are only written by record_hiring_decision()
+CREATE POLICY "Employers can view hiring decisions" ON public.hiring_decisions
+  FOR SELECT USING (public.application_role(application_id) = 'employer');
+
+-- Trimmed, non-empty, de-duplicated competency names
+CREATE OR REPLACE FUNCTION public.normalize_scorecard_template()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.competencies := ARRAY(
+    SELECT name FROM (
+      SELECT DISTINCT ON (lower(btrim(c.name))) btrim(c.name) AS name, c.position
+      FROM unnest(NEW.competencies) WITH ORDINALITY AS c(name, position)
+      WHERE btrim(c.name) <> ''
+      ORDER BY lower(btrim(c.name)), c.position
+    ) AS unique_names
+    ORDER BY position
+  );
+  IF EXISTS (SELECT 1 FROM unnest(NEW.competencies) AS name WHERE char_length(name) > 60) THEN
+    RAISE EXCEPTION 'Competency names can be at most 60 characters';
+  END IF;
+  NEW.updated_by := auth.uid();
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_scorecard_template
+  BEFORE INSERT OR UPDATE ON public.scorecard_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_scorecard_template();
+
+-- Scorecards filed by users are stamped with the interviewer and the interview's application,
+-- and only accepted from the hiring company or someone on the interview panel, once the
+-- interview has started and before the application is closed. Every competency of the job's
+-- template needs a whole-number rating from 1 to 5.
+CREATE OR REPLACE FUNCTION public.validate_interview_scorecard()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_interview public.interviews%ROWTYPE;
+  v_application public.job_applications%ROWTYPE;
+  v_competencies TEXT[];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.interviewer_id := auth.uid();
+    NEW.created_at := now();
+  ELSE
+    NEW.interview_id := OLD.interview_id;
+    NEW.interviewer_id := OLD.interviewer_id;
+    NEW.created_at := OLD.created_at;
+  END IF;
+  NEW.updated_at := now();
+  NEW.notes := NULLIF(btrim(NEW.notes), '');
+
+  SELECT * INTO v_interview FROM public.interviews WHERE id = NEW.interview_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Interview not found';
+  END IF;
+  NEW.application_id := v_interview.application_id;
+
+  SELECT * INTO v_application FROM public.job_applications WHERE id = v_interview.application_id;
+
+  IF NOT (
+    EXISTS (SELECT 1 FROM public.jobs WHERE id = v_application.job_id AND company_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND lower(email) = ANY (v_interview.interviewers))
+  ) THEN
+    RAISE EXCEPTION 'Only the interviewers and the hiring company can file scorecards' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_interview.status <> 'scheduled' OR v_interview.starts_at > now() THEN
+    RAISE EXCEPTION 'Scorecards can be filed once the interview has started';
+  END IF;
+  IF v_application.status IN ('hired', 'rejected', 'withdrawn') THEN
+    RAISE EXCEPTION 'This application is closed; its scorecards can no longer change';
+  END IF;
+
+  v_competencies := public.scorecard_competencies(v_application.job_id);
+  IF jsonb_typeof(NEW.ratings) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Ratings must map each competency to a rating';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_each(NEW.ratings) AS r
+    WHERE NOT (r.key = ANY (v_competencies))
+      OR CASE WHEN jsonb_typeof(r.value) = 'number' THEN r.value::numeric NOT IN (1, 2, 3, 4, 5) ELSE true END
+  ) THEN
+    RAISE EXCEPTION 'Ratings must be whole numbers from 1 to 5 for this job''s competencies';
+  END IF;
+  IF EXISTS (SELECT 1 FROM unnest(v_competencies) AS name WHERE NOT NEW.ratings ? name) THEN
+    RAISE EXCEPTION 'Rate every competency on the scorecard';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_interview_scorecard
+  BEFORE INSERT OR UPDATE ON public.interview_scorecards
+  FOR EACH ROW
+  WHEN (current_user IN ('anon', 'authenticated'))
+  EXECUTE FUNCTION public.validate_interview_scorecard();
+
+-- Users can't hire or reject by updating the status directly; the move has to come with a
+-- reason through record_hiring_decision()
+CREATE OR REPLACE FUNCTION public.require_hiring_decision()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  RAISE EXCEPTION 'A reason is required to hire or reject a candidate';
+END;
+$$;
+
+CREATE TRIGGER require_hiring_decision
+  BEFORE UPDATE OF status ON public.job_applications
+  FOR EACH ROW
+  WHEN (NEW.status IN ('hired', 'rejected') AND OLD.status <> NEW.status AND current_user IN ('anon', 'authenticated'))
+  EXECUTE FUNCTION public.require_hiring_decision();
+
+-- Hires or rejects an open application and records why. The status trigger still checks the
+-- move (hiring needs an offer first). The reason is also added to the activity as a note, so
+-- the employer sees it in the timeline; notes are hidden from the candidate.
+CREATE OR REPLACE FUNCTION public.record_hiring_decision(p_application_id UUID, p_decision TEXT, p_reason TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_reason TEXT := btrim(COALESCE(p_reason, ''));
+  v_status TEXT;
+BEGIN
+  IF public.application_role(p_application_id) IS DISTINCT FROM 'employer' THEN
+    RAISE EXCEPTION 'Only the employer can decide on an application' USING ERRCODE = '42501';
+  END IF;
+  IF p_decision IS NULL OR p_decision NOT IN ('hired', 'rejected') THEN
+    RAISE EXCEPTION 'The decision must be hired or rejected';
+  END IF;
+  IF char_length(v_reason) < 10 THEN
+    RAISE EXCEPTION 'Give a reason of at least 10 characters for the decision';
+  END IF;
+  IF char_length(v_reason) > 2000 THEN
+    RAISE EXCEPTION 'The reason can be at most 2000 characters';
+  END IF;
+
+  SELECT status INTO v_status FROM public.job_applications WHERE id = p_application_id FOR UPDATE;
+  IF v_status IN ('hired', 'rejected', 'withdrawn') THEN
+    RAISE EXCEPTION 'This application is already closed';
+  END IF;
+
+  UPDATE public.job_applications SET status = p_decision WHERE id = p_application_id;
+
+  INSERT INTO public.hiring_decisions (application_id, decision, reason, decided_by)
+  VALUES (p_application_id, p_decision, v_reason, auth.uid());
+
+  INSERT INTO public.application_events (application_id, actor_id, event_type, body)
+  VALUES (
+    p_application_id,
+    auth.uid(),
+    'note',
+    CASE p_decision WHEN 'hired' THEN 'Hire reason: ' ELSE 'Rejection reason: ' END || v_reason
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_hiring_decision(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_hiring_decision(UUID, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,440 @@
+-- Offer letters. Companies keep reusable templates whose text can use merge fields:
+-- {{candidate_name}}, {{job_title}}, {{company_name}}, {{salary}} and {{start_date}}
+-- (mirrored in src/lib/offers.ts). An offer is drafted for one application, submitted for
+-- approval and approved by the hiring company, which sends it to the candidate, who accepts or
+-- declines it:
+--   draft -> pending_approval -> sent -> accepted | declined
+--   pending_approval -> draft when approval is refused
+--   draft, pending_approval or sent -> withdrawn
+-- Offers drive the application: sending one moves it to offer, accepting one to hired, and
+-- closing the application withdraws any open offer.
+
+CREATE TABLE public.offer_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 20000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_offer_templates_company_id ON public.offer_templates (company_id);
+
+CREATE TABLE public.offers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  application_id UUID NOT NULL REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  template_id UUID REFERENCES public.offer_templates(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'pending_approval', 'sent', 'accepted', 'declined', 'withdrawn')),
+  -- The letter as written, with merge fields, and as the candidate reads it
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 20000),
+  letter TEXT NOT NULL DEFAULT '',
+  salary INTEGER NOT NULL CHECK (salary > 0),
+  start_date DATE NOT NULL,
+  -- Last day the candidate can accept; open-ended when NULL
+  respond_by DATE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  submitted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  -- Set when approval is refused and the offer goes back to draft
+  review_note TEXT CHECK (char_length(review_note) <= 2000),
+  approved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  decline_reason TEXT CHECK (char_length(decline_reason) <= 2000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One offer in play per application; declined and withdrawn ones stay as history
+CREATE UNIQUE INDEX idx_offers_open_application ON public.offers (application_id)
+  WHERE status IN ('draft', 'pending_approval', 'sent', 'accepted');
+
+CREATE TRIGGER update_offer_templates_updated_at BEFORE UPDATE ON public.offer_templates FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_offers_updated_at BEFORE UPDATE ON public.offers FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.offer_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Companies can view their offer templates" ON public.offer_templates
+  FOR SELECT USING (auth.uid() = company_id);
+
+CREATE POLICY "Companies can create offer templates" ON public.offer_templates
+  FOR INSERT WITH CHECK (auth.uid() = company_id);
+
+CREATE POLICY "Companies can update their offer templates" ON public.offer_templates
+  FOR UPDATE USING (auth.uid() = company_id);
+
+CREATE POLICY "Companies can delete their offer templates" ON public.offer_templates
+  FOR DELETE USING (auth.uid() = company_id);
+
+-- Candidates see an offer once it has been sent to them
+CREATE POLICY "Participants can view offers" ON public.offers
+  FOR SELECT USING (
+    public.application_role(application_id) = 'employer'
+    OR (public.application_role(application_id) = 'applicant' AND sent_at IS NOT NULL)
+  );
+
+-- Employers write drafts directly; every status change goes through the functions below
+CREATE POLICY "Employers can draft offers" ON public.offers
+  FOR INSERT WITH CHECK (public.application_role(application_id) = 'employer');
+
+CREATE POLICY "Employers can edit draft offers" ON public.offers
+  FOR UPDATE USING (public.application_role(application_id) = 'employer' AND status = 'draft');
+
+CREATE POLICY "Employers can delete draft offers" ON public.offers
+  FOR DELETE USING (public.application_role(application_id) = 'employer' AND status = 'draft');
+
+-- Replacements are made in an order that keeps the candidate's own name from pulling in
+-- other fields
+CREATE OR REPLACE FUNCTION public.merge_offer_letter(
+  p_body TEXT,
+  p_candidate_name TEXT,
+  p_job_title TEXT,
+  p_company_name TEXT,
+  p_salary INTEGER,
+  p_start_date DATE
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT replace(replace(replace(replace(replace(p_body,
+    '{{salary}}', '$' || to_char(p_salary, 'FM999,999,999,990')),
+    '{{start_date}}', to_char(p_start_date, 'FMMonth FMDD, YYYY')),
+    '{{job_title}}', COALESCE(p_job_title, '')),
+    '{{company_name}}', COALESCE(p_company_name, '')),
+    '{{candidate_name}}', COALESCE(p_candidate_name, ''));
+$$;
+
+-- Drafts written by users start as drafts and can't touch the workflow columns
+CREATE OR REPLACE FUNCTION public.normalize_offer()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'draft';
+    NEW.created_by := auth.uid();
+    NEW.submitted_by := NULL;
+    NEW.submitted_at := NULL;
+    NEW.review_note := NULL;
+    NEW.approved_by := NULL;
+    NEW.sent_at := NULL;
+    NEW.responded_at := NULL;
+    NEW.decline_reason := NULL;
+  ELSE
+    NEW.application_id := OLD.application_id;
+    NEW.status := OLD.status;
+    NEW.created_by := OLD.created_by;
+    NEW.submitted_by := OLD.submitted_by;
+    NEW.submitted_at := OLD.submitted_at;
+    NEW.review_note := OLD.review_note;
+    NEW.approved_by := OLD.approved_by;
+    NEW.sent_at := OLD.sent_at;
+    NEW.responded_at := OLD.responded_at;
+    NEW.decline_reason := OLD.decline_reason;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_offer
+  BEFORE INSERT OR UPDATE ON public.offers
+  FOR EACH ROW
+  WHEN (current_user IN ('anon', 'authenticated'))
+  EXECUTE FUNCTION public.normalize_offer();
+
+-- Offers are made at the interview or offer stage, with a salary inside the job's advertised
+-- range and a start date that hasn't passed. The letter is merged again on every change until
+-- it is sent, so the candidate gets exactly what the approver reviewed.
+CREATE OR REPLACE FUNCTION public.validate_offer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_application public.job_applications%ROWTYPE;
+  v_job public.jobs%ROWTYPE;
+  v_candidate_name TEXT;
+  v_company_name TEXT;
+BEGIN
+  IF NEW.status NOT IN ('draft', 'pending_approval') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_application FROM public.job_applications WHERE id = NEW.application_id;
+  SELECT * INTO v_job FROM public.jobs WHERE id = v_application.job_id;
+
+  IF TG_OP = 'INSERT' AND v_application.status NOT IN ('interview', 'offer') THEN
+    RAISE EXCEPTION 'Offers can be made once the candidate reaches the interview stage';
+  END IF;
+  IF (v_job.salary_min IS NOT NULL AND NEW.salary < v_job.salary_min)
+    OR (v_job.salary_max IS NOT NULL AND NEW.salary > v_job.salary_max) THEN
+    RAISE EXCEPTION 'The salary must be within the job''s range of % to %',
+      COALESCE(v_job.salary_min::TEXT, 'any'), COALESCE(v_job.salary_max::TEXT, 'any');
+  END IF;
+  -- Dates are checked when they are set; review_offer() checks them again before sending
+  IF TG_OP = 'INSERT' OR NEW.start_date <> OLD.start_date OR NEW.respond_by IS DISTINCT FROM OLD.respond_by THEN
+    IF NEW.start_date < current_date THEN
+      RAISE EXCEPTION 'The start date has already passed';
+    END IF;
+    IF NEW.respond_by IS NOT NULL AND (NEW.respond_by < current_date OR NEW.respond_by > NEW.start_date) THEN
+      RAISE EXCEPTION 'The response deadline must be between today and the start date';
+    END IF;
+  END IF;
+
+  SELECT full_name INTO v_candidate_name FROM public.profiles WHERE id = v_application.applicant_id;
+  SELECT company_name INTO v_company_name FROM public.profiles WHERE id = v_job.company_id;
+  NEW.letter := public.merge_offer_letter(
+    NEW.body, v_candidate_name, v_job.title, v_company_name, NEW.salary, NEW.start_date
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Fires after normalize_offer; triggers run in name order
+CREATE TRIGGER validate_offer
+  BEFORE INSERT OR UPDATE ON public.offers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_offer();
+
+-- Same as before, except that the applicant's own move to hired is allowed once they have
+-- accepted an offer (see respond_to_offer())
+CREATE OR REPLACE FUNCTION public.enforce_application_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_actor UUID := auth.uid();
+  v_is_employer BOOLEAN := auth.uid() IS NULL;
+BEGIN
+  IF NEW.job_id <> OLD.job_id OR NEW.applicant_id <> OLD.applicant_id OR NEW.resume_id IS DISTINCT FROM OLD.resume_id THEN
+    RAISE EXCEPTION 'The job, applicant and resume of an application cannot be changed';
+  END IF;
+
+  IF v_actor IS NOT NULL THEN
+    v_is_employer := EXISTS (SELECT 1 FROM public.jobs WHERE id = NEW.job_id AND company_id = v_actor)
+      OR EXISTS (SELECT 1 FROM public.profiles WHERE id = v_actor AND user_type = 'hr');
+  END IF;
+
+  NEW.viewed_at := CASE
+    WHEN OLD.viewed_at IS NULL AND NEW.viewed_at IS NOT NULL AND v_is_employer THEN now()
+    ELSE OLD.viewed_at
+  END;
+  NEW.response_date := OLD.response_date;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (NEW.status = ANY (CASE OLD.status
+    WHEN 'applied' THEN ARRAY['screening', 'rejected', 'withdrawn']
+    WHEN 'screening' THEN ARRAY['interview', 'rejected', 'withdrawn']
+    WHEN 'interview' THEN ARRAY['offer', 'rejected', 'withdrawn']
+    WHEN 'offer' THEN ARRAY['hired', 'rejected', 'withdrawn']
+    ELSE ARRAY[]::TEXT[]
+  END)) THEN
+    RAISE EXCEPTION 'An application cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF v_actor IS NOT NULL THEN
+    IF NEW.status = 'withdrawn' AND v_actor <> NEW.applicant_id THEN
+      RAISE EXCEPTION 'Only the applicant can withdraw an application' USING ERRCODE = '42501';
+    END IF;
+    IF NEW.status <> 'withdrawn' AND NOT v_is_employer AND NOT (
+      NEW.status = 'hired'
+      AND v_actor = NEW.applicant_id
+      AND EXISTS (SELECT 1 FROM public.offers WHERE application_id = NEW.id AND status = 'accepted')
+    ) THEN
+      RAISE EXCEPTION 'Only the employer can change the status of an application' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  IF NEW.status <> 'withdrawn' THEN
+    NEW.viewed_at := COALESCE(NEW.viewed_at, now());
+  END IF;
+  IF NEW.status IN ('interview', 'offer', 'hired', 'rejected') THEN
+    NEW.response_date := COALESCE(NEW.response_date, now());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.submit_offer(p_offer_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_offer public.offers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_offer FROM public.offers WHERE id = p_offer_id FOR UPDATE;
+  IF NOT FOUND OR public.application_role(v_offer.application_id) IS DISTINCT FROM 'employer' THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+  IF v_offer.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft offers can be submitted for approval';
+  END IF;
+
+  UPDATE public.offers
+  SET status = 'pending_approval',
+      submitted_by = auth.uid(),
+      submitted_at = now(),
+      review_note = NULL
+  WHERE id = p_offer_id;
+END;
+$$;
+
+-- Approval belongs to the hiring company's account. Approving sends the offer and moves the
+-- application to the offer stage; refusing returns it to draft with a note.
+CREATE OR REPLACE FUNCTION public.review_offer(p_offer_id UUID, p_approve BOOLEAN, p_note TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_offer public.offers%ROWTYPE;
+  v_application public.job_applications%ROWTYPE;
+BEGIN
+  SELECT * INTO v_offer FROM public.offers WHERE id = p_offer_id FOR UPDATE;
+  IF NOT FOUND OR public.application_role(v_offer.application_id) IS DISTINCT FROM 'employer' THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  SELECT * INTO v_application FROM public.job_applications WHERE id = v_offer.application_id FOR UPDATE;
+  IF NOT EXISTS (SELECT 1 FROM public.jobs WHERE id = v_application.job_id AND company_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the hiring company can approve offers' USING ERRCODE = '42501';
+  END IF;
+  IF v_offer.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'This offer is not waiting for approval';
+  END IF;
+
+  IF NOT p_approve THEN
+    IF NULLIF(btrim(p_note), '') IS NULL THEN
+      RAISE EXCEPTION 'Say what needs to change before the offer can be approved';
+    END IF;
+    UPDATE public.offers SET status = 'draft', review_note = btrim(p_note) WHERE id = p_offer_id;
+    RETURN;
+  END IF;
+
+  IF v_application.status NOT IN ('interview', 'offer') THEN
+    RAISE EXCEPTION 'This application is no longer open for an offer';
+  END IF;
+  IF v_offer.start_date < current_date OR v_offer.respond_by < current_date THEN
+    RAISE EXCEPTION 'The start date or response deadline has passed; update the draft first';
+  END IF;
+
+  UPDATE public.offers
+  SET status = 'sent',
+      approved_by = auth.uid(),
+      sent_at = now()
+  WHERE id = p_offer_id;
+
+  IF v_application.status = 'interview' THEN
+    UPDATE public.job_applications SET status = 'offer' WHERE id = v_application.id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.withdraw_offer(p_offer_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_offer public.offers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_offer FROM public.offers WHERE id = p_offer_id FOR UPDATE;
+  IF NOT FOUND OR public.application_role(v_offer.application_id) IS DISTINCT FROM 'employer' THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+  IF v_offer.status NOT IN ('draft', 'pending_approval', 'sent') THEN
+    RAISE EXCEPTION 'This offer can no longer be withdrawn';
+  END IF;
+
+  UPDATE public.offers SET status = 'withdrawn' WHERE id = p_offer_id;
+END;
+$$;
+
+-- The candidate's answer. Accepting hires them, recorded as a hiring decision approved by
+-- whoever sent the offer; declining leaves the application at the offer stage so the employer
+-- can revise the offer or close the application.
+CREATE OR REPLACE FUNCTION public.respond_to_offer(p_offer_id UUID, p_accept BOOLEAN, p_reason TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_offer public.offers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_offer FROM public.offers WHERE id = p_offer_id FOR UPDATE;
+  IF NOT FOUND OR public.application_role(v_offer.application_id) IS DISTINCT FROM 'applicant' OR v_offer.sent_at IS NULL THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+  IF v_offer.status <> 'sent' THEN
+    RAISE EXCEPTION 'This offer is no longer open';
+  END IF;
+  IF p_accept AND v_offer.respond_by < current_date THEN
+    RAISE EXCEPTION 'The deadline to accept this offer has passed';
+  END IF;
+
+  UPDATE public.offers
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+      responded_at = now(),
+      decline_reason = CASE WHEN p_accept THEN NULL ELSE NULLIF(btrim(p_reason), '') END
+  WHERE id = p_offer_id;
+
+  IF p_accept THEN
+    UPDATE public.job_applications SET status = 'hired' WHERE id = v_offer.application_id;
+
+    INSERT INTO public.hiring_decisions (application_id, decision, reason, decided_by)
+    VALUES (
+      v_offer.application_id,
+      'hired',
+      'Candidate accepted the offer sent on ' || to_char(v_offer.sent_at, 'FMMonth FMDD, YYYY'),
+      v_offer.approved_by
+    )
+    ON CONFLICT (application_id) DO NOTHING;
+  END IF;
+END;
+$$;
+
+-- Rejected and withdrawn applications take their open offers with them
+CREATE OR REPLACE FUNCTION public.withdraw_offers_for_closed_application()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.offers
+  SET status = 'withdrawn'
+  WHERE application_id = NEW.id AND status IN ('draft', 'pending_approval', 'sent');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER withdraw_offers_for_closed_application
+  AFTER UPDATE OF status ON public.job_applications
+  FOR EACH ROW
+  WHEN (NEW.status IN ('rejected', 'withdrawn') AND OLD.status <> NEW.status)
+  EXECUTE FUNCTION public.withdraw_offers_for_closed_application();
+
+REVOKE EXECUTE ON FUNCTION public.submit_offer(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.review_offer(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.withdraw_offer(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.respond_to_offer(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_offer(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_offer(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.withdraw_offer(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.respond_to_offer(UUID, BOOLEAN, TEXT) TO authenticated;
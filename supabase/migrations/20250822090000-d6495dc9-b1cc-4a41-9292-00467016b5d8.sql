@@ -0,0 +1,161 @@
+-- HR users act for a company only once that company adds them to its team. Anyone can sign
+-- up as HR, so the account type alone no longer grants access to a company's applications,
+-- notes or resumes.
+CREATE TABLE public.company_hr_members (
+  company_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  hr_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (company_id, hr_id)
+);
+
+CREATE INDEX idx_company_hr_members_hr_id ON public.company_hr_members (hr_id);
+
+ALTER TABLE public.company_hr_members ENABLE ROW LEVEL SECURITY;
+
+-- Members are added through add_company_hr(); either side may end the link
+CREATE POLICY "Companies and their HR users can view the team" ON public.company_hr_members
+  FOR SELECT USING (auth.uid() = company_id OR auth.uid() = hr_id);
+
+CREATE POLICY "Companies and their HR users can remove a member" ON public.company_hr_members
+  FOR DELETE USING (auth.uid() = company_id OR auth.uid() = hr_id);
+
+-- The company itself or an HR user on its team
+CREATE OR REPLACE FUNCTION public.is_company_member(p_company_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT auth.uid() = p_company_id
+    OR EXISTS (SELECT 1 FROM public.company_hr_members WHERE company_id = p_company_id AND hr_id = auth.uid());
+$$;
+
+-- Adds the HR user registered with the given email to the calling company's team
+CREATE OR REPLACE FUNCTION public.add_company_hr(p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_company UUID := auth.uid();
+  v_hr_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = v_company AND user_type = 'company') THEN
+    RAISE EXCEPTION 'Only companies can add HR users' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_hr_id
+  FROM public.profiles
+  WHERE lower(email) = lower(btrim(p_email)) AND user_type = 'hr';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No HR user is registered with that email';
+  END IF;
+
+  INSERT INTO public.company_hr_members (company_id, hr_id)
+  VALUES (v_company, v_hr_id)
+  ON CONFLICT DO NOTHING;
+  RETURN v_hr_id;
+END;
+$$;
+
+-- 'employer' is now the job's company or an HR user on its team
+CREATE OR REPLACE FUNCTION public.application_role(p_application_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.job_applications a
+      JOIN public.jobs j ON j.id = a.job_id
+      WHERE a.id = p_application_id AND public.is_company_member(j.company_id)
+    ) THEN 'employer'
+    WHEN EXISTS (
+      SELECT 1 FROM public.job_applications WHERE id = p_application_id AND applicant_id = auth.uid()
+    ) THEN 'applicant'
+  END;
+$$;
+
+-- Owners, and the companies (with their HR users) the resume was submitted to
+CREATE OR REPLACE FUNCTION public.can_view_resume(p_resume_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.resumes WHERE id = p_resume_id AND user_id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.job_applications a
+      JOIN public.jobs j ON j.id = a.job_id
+      WHERE a.resume_id = p_resume_id AND public.is_company_member(j.company_id)
+    );
+$$;
+
+-- Same as before, with the employer check scoped to the job's company and its HR users
+CREATE OR REPLACE FUNCTION public.enforce_application_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_actor UUID := auth.uid();
+  v_is_employer BOOLEAN := auth.uid() IS NULL;
+BEGIN
+  IF NEW.job_id <> OLD.job_id OR NEW.applicant_id <> OLD.applicant_id OR NEW.resume_id IS DISTINCT FROM OLD.resume_id THEN
+    RAISE EXCEPTION 'The job, applicant and resume of an application cannot be changed';
+  END IF;
+
+  IF v_actor IS NOT NULL THEN
+    v_is_employer := EXISTS (
+      SELECT 1 FROM public.jobs WHERE id = NEW.job_id AND public.is_company_member(company_id)
+    );
+  END IF;
+
+  NEW.viewed_at := CASE
+    WHEN OLD.viewed_at IS NULL AND NEW.viewed_at IS NOT NULL AND v_is_employer THEN now()
+    ELSE OLD.viewed_at
+  END;
+  NEW.response_date := OLD.response_date;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (NEW.status = ANY (CASE OLD.status
+    WHEN 'applied' THEN ARRAY['screening', 'rejected', 'withdrawn']
+    WHEN 'screening' THEN ARRAY['interview', 'rejected', 'withdrawn']
+    WHEN 'interview' THEN ARRAY['offer', 'rejected', 'withdrawn']
+    WHEN 'offer' THEN ARRAY['hired', 'rejected', 'withdrawn']
+    ELSE ARRAY[]::TEXT[]
+  END)) THEN
+    RAISE EXCEPTION 'An application cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF v_actor IS NOT NULL THEN
+    IF NEW.status = 'withdrawn' AND v_actor <> NEW.applicant_id THEN
+      RAISE EXCEPTION 'Only the applicant can withdraw an application' USING ERRCODE = '42501';
+    END IF;
+    IF NEW.status <> 'withdrawn' AND NOT v_is_employer AND NOT (
+      NEW.status = 'hired'
+      AND v_actor = NEW.applicant_id
+      AND EXISTS (SELECT 1 FROM public.offers WHERE application_id = NEW.id AND status = 'accepted')
+    ) THEN
+      RAISE EXCEPTION 'Only the employer can change the status of an application' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  IF NEW.status <> 'withdrawn' THEN
+    NEW.viewed_at := COALESCE(NEW.viewed_at, now());
+  END IF;
+  IF NEW.status IN ('interview', 'offer', 'hired', 'rejected') THEN
+    NEW.response_date := COALESCE(NEW.response_date, now());
+  END IF;
+  RETURN NEW;
+END;
+$$;
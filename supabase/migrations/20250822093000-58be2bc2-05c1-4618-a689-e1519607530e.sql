@@ -0,0 +1,11 @@
+-- The job's company or an HR user on its team (see is_company_member()); covers interview
+-- slots and scorecard templates, whose policies go through this check
+CREATE OR REPLACE FUNCTION public.is_job_employer(p_job_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.jobs WHERE id = p_job_id AND public.is_company_member(company_id));
+$$;
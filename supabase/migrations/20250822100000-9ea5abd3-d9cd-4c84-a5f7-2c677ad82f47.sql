@@ -0,0 +1,45 @@
+-- Every minute, wake the resume-analysis-worker when the queue holds work the dashboard won't
+-- start on its own: retries whose backoff has elapsed and jobs orphaned by a crashed worker.
+-- The function URL and the key to call it with come from Vault:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<anon key>', 'anon_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.wake_resume_analysis_worker()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_url TEXT;
+  v_key TEXT;
+BEGIN
+  -- Same conditions as claim_resume_analysis_jobs() with its default lock timeout
+  IF NOT EXISTS (
+    SELECT 1 FROM public.resume_analysis_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status = 'processing' AND locked_at < now() - interval '10 minutes')
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'anon_key';
+  IF v_url IS NULL OR v_key IS NULL THEN
+    RAISE WARNING 'project_url and anon_key must be stored in Vault to run the resume analysis worker';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := rtrim(v_url, '/') || '/functions/v1/resume-analysis-worker',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || v_key),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wake_resume_analysis_worker() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('wake-resume-analysis-worker', '* * * * *', 'SELECT public.wake_resume_analysis_worker()');
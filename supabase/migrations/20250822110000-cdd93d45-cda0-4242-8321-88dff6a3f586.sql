@@ -0,0 +1,14 @@
+-- Which application emails went out, so send-application-email sends each one once however
+-- often it's called. Keys name the email:
+--   applied                 the company's notice and the candidate's confirmation
+--   status_changed:<status> the candidate's update for a stage (stages are only reached once)
+--   offer_sent:<offer id>   the candidate's notice of an offer
+-- Only the function (service role) touches it, so no client policies.
+CREATE TABLE public.application_emails (
+  application_id UUID NOT NULL REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  email_key TEXT NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (application_id, email_key)
+);
+
+ALTER TABLE public.application_emails ENABLE ROW LEVEL SECURITY;
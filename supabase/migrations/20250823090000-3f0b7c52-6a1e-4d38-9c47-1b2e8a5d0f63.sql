@@ -0,0 +1,78 @@
+-- A profile's email and account type are no longer the owner's to edit: HR team membership is
+-- granted by email, so a copied address must not be able to stand in for a recruiter's.
+-- profiles.email now follows the sign-in email instead.
+CREATE OR REPLACE FUNCTION public.protect_profile_identity()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.email := OLD.email;
+    NEW.user_type := OLD.user_type;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_identity
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_identity();
+
+CREATE OR REPLACE FUNCTION public.sync_profile_email()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.profiles SET email = NEW.email WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_email_changed
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email IS DISTINCT FROM NEW.email)
+  EXECUTE FUNCTION public.sync_profile_email();
+
+-- Put back any address edited before this migration
+UPDATE public.profiles p
+SET email = u.email
+FROM auth.users u
+WHERE u.id = p.id AND p.email IS DISTINCT FROM u.email;
+
+-- Same as before, except the HR user is found by the confirmed sign-in email, which is unique
+-- and which the account has proven it owns
+CREATE OR REPLACE FUNCTION public.add_company_hr(p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_company UUID := auth.uid();
+  v_hr_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = v_company AND user_type = 'company') THEN
+    RAISE EXCEPTION 'Only companies can add HR users' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT u.id INTO v_hr_id
+  FROM auth.users u
+  JOIN public.profiles p ON p.id = u.id
+  WHERE lower(u.email) = lower(btrim(p_email))
+    AND u.email_confirmed_at IS NOT NULL
+    AND p.user_type = 'hr';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No HR user with a confirmed account is registered with that email';
+  END IF;
+
+  INSERT INTO public.company_hr_members (company_id, hr_id)
+  VALUES (v_company, v_hr_id)
+  ON CONFLICT DO NOTHING;
+  RETURN v_hr_id;
+END;
+$$;
@@ -0,0 +1,100 @@
+-- Same as before, except that a referral also needs the HR user to be on the job's company
+-- team (see is_company_member()). Account type is chosen at signup, so on its own it would let
+-- anyone file quota-free applications in a job seeker's name at any company.
+CREATE OR REPLACE FUNCTION public.submit_application(
+  p_job_id UUID,
+  p_resume_id UUID DEFAULT NULL,
+  p_cover_letter TEXT DEFAULT NULL,
+  p_applicant_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_free_applications CONSTANT INTEGER := 3;
+  v_caller UUID := auth.uid();
+  v_applicant UUID := COALESCE(p_applicant_id, auth.uid());
+  v_is_referral BOOLEAN := p_applicant_id IS NOT NULL AND p_applicant_id <> auth.uid();
+  v_applicant_profile public.profiles%ROWTYPE;
+  v_resume_id UUID := p_resume_id;
+  v_application_id UUID;
+BEGIN
+  IF v_caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_is_referral AND NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = v_caller AND user_type = 'hr'
+  ) THEN
+    RAISE EXCEPTION 'Only HR users can refer candidates' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_is_referral AND NOT EXISTS (
+    SELECT 1 FROM public.jobs WHERE id = p_job_id AND public.is_company_member(company_id)
+  ) THEN
+    RAISE EXCEPTION 'Only HR users on the company''s team can refer candidates to its jobs' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_applicant_profile FROM public.profiles WHERE id = v_applicant FOR UPDATE;
+  IF NOT FOUND OR v_applicant_profile.user_type <> 'job_seeker' THEN
+    RAISE EXCEPTION 'Only job seekers can apply for jobs';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.jobs WHERE id = p_job_id AND status = 'active') THEN
+    RAISE EXCEPTION 'This job is no longer accepting applications';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.job_applications WHERE job_id = p_job_id AND applicant_id = v_applicant
+  ) THEN
+    RAISE EXCEPTION '%', CASE WHEN v_is_referral
+      THEN 'Candidate already applied or referred to this job'
+      ELSE 'You have already applied to this job' END;
+  END IF;
+
+  IF v_resume_id IS NULL THEN
+    SELECT id INTO v_resume_id FROM public.resumes
+    WHERE user_id = v_applicant AND archived_at IS NULL
+    ORDER BY created_at DESC
+    LIMIT 1;
+    IF v_resume_id IS NULL THEN
+      RAISE EXCEPTION '%', CASE WHEN v_is_referral
+        THEN 'This candidate has not uploaded a resume'
+        ELSE 'Please upload a resume before applying to jobs' END;
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.resumes WHERE id = v_resume_id AND user_id = v_applicant AND archived_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Resume not found';
+  END IF;
+
+  IF NOT v_is_referral THEN
+    IF NOT (
+      COALESCE(v_applicant_profile.is_premium, false)
+      AND (v_applicant_profile.premium_expires_at IS NULL OR v_applicant_profile.premium_expires_at > now())
+    ) AND COALESCE(v_applicant_profile.applications_count, 0) >= v_free_applications THEN
+      RAISE EXCEPTION 'You have reached your free application limit. Please upgrade to premium to apply for more jobs.';
+    END IF;
+
+    UPDATE public.profiles
+    SET applications_count = COALESCE(applications_count, 0) + 1
+    WHERE id = v_applicant;
+  END IF;
+
+  INSERT INTO public.job_applications (job_id, applicant_id, resume_id, cover_letter, status)
+  VALUES (
+    p_job_id,
+    v_applicant,
+    v_resume_id,
+    CASE WHEN v_is_referral
+      THEN COALESCE(NULLIF(btrim(p_cover_letter), ''), 'Referred by HR')
+      ELSE NULLIF(btrim(p_cover_letter), '') END,
+    CASE WHEN v_is_referral THEN 'screening' ELSE 'applied' END
+  )
+  RETURNING id INTO v_application_id;
+
+  RETURN v_application_id;
+END;
+$$;
@@ -0,0 +1,56 @@
+-- The skills taxonomy is shared by every resume and job, so it is maintained by platform admins
+-- rather than by HR users, an account type anyone can pick at signup. Admins are marked in their
+-- auth app_metadata ({"role": "admin"}), which only the service role can set:
+--   update auth.users set raw_app_meta_data = raw_app_meta_data || '{"role": "admin"}' where email = '...';
+CREATE OR REPLACE FUNCTION public.is_platform_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+$$;
+
+DROP POLICY "HR users can manage skills" ON public.skills;
+DROP POLICY "HR users can manage skill aliases" ON public.skill_aliases;
+
+CREATE POLICY "Platform admins can manage skills" ON public.skills FOR ALL
+  USING (public.is_platform_admin())
+  WITH CHECK (public.is_platform_admin());
+
+CREATE POLICY "Platform admins can manage skill aliases" ON public.skill_aliases FOR ALL
+  USING (public.is_platform_admin())
+  WITH CHECK (public.is_platform_admin());
+
+-- Same as before, for platform admins only (the service role can also run it)
+CREATE OR REPLACE FUNCTION public.renormalize_skills()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_resumes INTEGER;
+  v_jobs INTEGER;
+BEGIN
+  IF NOT (public.is_platform_admin() OR auth.role() = 'service_role') THEN
+    RAISE EXCEPTION 'Only platform admins can re-normalize skills' USING ERRCODE = '42501';
+  END IF;
+
+  -- The triggers do the normalizing; only rows whose value would change are touched
+  UPDATE public.resumes SET skills = skills, missing_skills = missing_skills
+  WHERE skills IS DISTINCT FROM public.normalize_skills(skills)
+    OR missing_skills IS DISTINCT FROM public.normalize_skills(missing_skills);
+  GET DIAGNOSTICS v_resumes = ROW_COUNT;
+
+  UPDATE public.jobs SET required_skills = required_skills, nice_to_have_skills = nice_to_have_skills
+  WHERE required_skills IS DISTINCT FROM public.normalize_skills(required_skills)
+    OR nice_to_have_skills IS DISTINCT FROM public.normalize_skills(nice_to_have_skills);
+  GET DIAGNOSTICS v_jobs = ROW_COUNT;
+
+  RETURN jsonb_build_object('resumes', v_resumes, 'jobs', v_jobs);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.renormalize_skills() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.renormalize_skills() TO authenticated;
@@ -0,0 +1,66 @@
+-- The resume-analysis-worker now only runs for callers holding the service-role key or the
+-- shared worker secret, so the database wakes it instead of the dashboard: on the minute for
+-- retries and orphaned jobs, and right away whenever a job is queued to run now. The secret
+-- lives in Vault next to the URL and anon key, and in the function's RESUME_WORKER_SECRET:
+--   select vault.create_secret('<random secret>', 'resume_worker_secret');
+CREATE OR REPLACE FUNCTION public.wake_resume_analysis_worker()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_url TEXT;
+  v_key TEXT;
+  v_secret TEXT;
+BEGIN
+  -- Same conditions as claim_resume_analysis_jobs() with its default lock timeout
+  IF NOT EXISTS (
+    SELECT 1 FROM public.resume_analysis_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status = 'processing' AND locked_at < now() - interval '10 minutes')
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'anon_key';
+  SELECT decrypted_secret INTO v_secret FROM vault.decrypted_secrets WHERE name = 'resume_worker_secret';
+  IF v_url IS NULL OR v_key IS NULL OR v_secret IS NULL THEN
+    RAISE WARNING 'project_url, anon_key and resume_worker_secret must be stored in Vault to run the resume analysis worker';
+    RETURN;
+  END IF;
+
+  -- pg_net sends the request after the calling transaction commits
+  PERFORM net.http_post(
+    url := rtrim(v_url, '/') || '/functions/v1/resume-analysis-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_key,
+      'x-worker-secret', v_secret
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wake_resume_analysis_worker() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.wake_resume_analysis_worker_for_job()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.wake_resume_analysis_worker();
+  RETURN NULL;
+END;
+$$;
+
+-- New uploads, rendered versions and re-analysis requests; retries wait for their backoff
+CREATE TRIGGER on_resume_analysis_job_queued
+  AFTER INSERT OR UPDATE OF status, run_after ON public.resume_analysis_jobs
+  FOR EACH ROW
+  WHEN (NEW.status = 'queued' AND NEW.run_after <= now())
+  EXECUTE FUNCTION public.wake_resume_analysis_worker_for_job();
@@ -0,0 +1,13 @@
+-- send-application-email now records each message of the "applied" event on its own, so a
+-- failed send to one side is retried without emailing the other again:
+--   applied:employer   the company's notice of the application
+--   applied:candidate  the candidate's confirmation
+-- Rows under the old shared "applied" key stand for both.
+INSERT INTO public.application_emails (application_id, email_key, sent_at)
+SELECT application_id, recipient.key, sent_at
+FROM public.application_emails
+CROSS JOIN (VALUES ('applied:employer'), ('applied:candidate')) AS recipient(key)
+WHERE email_key = 'applied'
+ON CONFLICT DO NOTHING;
+
+DELETE FROM public.application_emails WHERE email_key = 'applied';